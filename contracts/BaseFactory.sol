@@ -1,59 +1,125 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.0;
 
-import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/access/extensions/AccessControlDefaultAdminRules.sol";
+import "@openzeppelin/contracts/utils/Multicall.sol";
+import "@openzeppelin/contracts/utils/Pausable.sol";
+import "@openzeppelin/contracts/utils/introspection/ERC165Checker.sol";
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
 import "./IBaseFactory.sol";
+import "./Pagination.sol";
 
 /**
  * @title BaseFactory
  * @dev Implementation of the BaseFactory contract that manages factory addresses
- * The contract creator is set as the super admin (owner)
+ * Access is split into roles: super admins grant and revoke roles, factory
+ * managers register factories and government creators create governments in
+ * registered factories. The contract creator is granted every role.
+ * Every factory is registered with a kind, the ERC-165 interface id it must
+ * support, a version and a metadata URI, and can be looked up by kind.
+ * Pausers can pause the whole factory system in an emergency: no factory is
+ * registered and no government created or changed until they unpause it.
+ * There is a single super admin, handed over in two steps: the current super
+ * admin proposes a new one, who accepts once the configurable delay has passed.
+ * Calls can be batched with multicall, which reverts all of them if one fails.
  */
-contract BaseFactory is IBaseFactory, Ownable {
-    // Mapping to track registered factories
-    mapping(address => bool) private _factories;
+contract BaseFactory is
+    IBaseFactory,
+    AccessControlDefaultAdminRules,
+    Multicall,
+    Pausable
+{
+    using EnumerableSet for EnumerableSet.AddressSet;
+
+    // Role administering every other role
+    bytes32 public constant override SUPER_ADMIN_ROLE = DEFAULT_ADMIN_ROLE;
+
+    // Role allowed to register and unregister factories
+    bytes32 public constant override FACTORY_MANAGER_ROLE = keccak256(
+        "FACTORY_MANAGER_ROLE"
+    );
+
+    // Role allowed to create governments in registered factories
+    bytes32 public constant override GOVERNMENT_CREATOR_ROLE = keccak256(
+        "GOVERNMENT_CREATOR_ROLE"
+    );
+
+    // Role allowed to pause and unpause the factory system
+    bytes32 public constant override PAUSER_ROLE = keccak256("PAUSER_ROLE");
+
+    // Set of registered factories
+    EnumerableSet.AddressSet private _factories;
+
+    // Mapping from factory address to its registration metadata
+    mapping(address => FactoryInfo) private _factoryInfo;
+
+    // Mapping from factory kind to the registered factories of that kind
+    mapping(bytes4 => EnumerableSet.AddressSet) private _factoriesByKind;
 
     /**
-     * @dev Constructor that sets the deployer as the owner
+     * @dev Constructor that grants every role to the deployer
+     * @param adminTransferDelay Seconds a proposed super admin waits before accepting
      */
-    constructor() Ownable(msg.sender) {}
+    constructor(
+        uint48 adminTransferDelay
+    ) AccessControlDefaultAdminRules(adminTransferDelay, msg.sender) {
+        _grantRole(FACTORY_MANAGER_ROLE, msg.sender);
+        _grantRole(GOVERNMENT_CREATOR_ROLE, msg.sender);
+        _grantRole(PAUSER_ROLE, msg.sender);
+    }
 
     /**
-     * @dev Register a new factory address
-     * Only callable by the owner
+     * @dev Register a new factory address with its metadata
+     * Only callable by factory managers while the system is not paused
      * @param factory The address of the factory to register
+     * @param kind The ERC-165 interface id the factory must support
+     * @param version The version of the factory
+     * @param metadataURI A URI describing the factory, may be empty
      */
-    function registerFactory(address factory) external override onlyOwner {
-        // Check if factory address is valid
-        if (factory == address(0)) {
-            revert ZeroAddressNotAllowed();
-        }
+    function registerFactory(
+        address factory,
+        bytes4 kind,
+        string calldata version,
+        string calldata metadataURI
+    ) external override onlyRole(FACTORY_MANAGER_ROLE) whenNotPaused {
+        _registerFactory(factory, kind, version, metadataURI);
+    }
 
-        // Check if factory is already registered
-        if (_factories[factory]) {
-            revert FactoryAlreadyRegistered();
+    /**
+     * @dev Register several factories in one transaction
+     * Only callable by factory managers while the system is not paused
+     * The whole batch reverts if any factory cannot be registered
+     * @param registrations The factories to register, with their metadata
+     */
+    function registerFactories(
+        FactoryRegistration[] calldata registrations
+    ) external override onlyRole(FACTORY_MANAGER_ROLE) whenNotPaused {
+        for (uint256 i = 0; i < registrations.length; i++) {
+            _registerFactory(
+                registrations[i].factory,
+                registrations[i].kind,
+                registrations[i].version,
+                registrations[i].metadataURI
+            );
         }
-
-        // Register the factory
-        _factories[factory] = true;
-
-        // Emit event
-        emit FactoryRegistered(factory);
     }
 
     /**
      * @dev Unregister an existing factory address
-     * Only callable by the owner
+     * Only callable by factory managers, also while the system is paused
      * @param factory The address of the factory to unregister
      */
-    function unregisterFactory(address factory) external override onlyOwner {
-        // Check if factory is registered
-        if (!_factories[factory]) {
+    function unregisterFactory(
+        address factory
+    ) external override onlyRole(FACTORY_MANAGER_ROLE) {
+        // Remove the factory, failing if it was not registered
+        if (!_factories.remove(factory)) {
             revert FactoryNotRegistered();
         }
 
-        // Unregister the factory
-        _factories[factory] = false;
+        // Forget its kind and metadata
+        _factoriesByKind[_factoryInfo[factory].kind].remove(factory);
+        delete _factoryInfo[factory];
 
         // Emit event
         emit FactoryUnregistered(factory);
@@ -65,17 +131,135 @@ contract BaseFactory is IBaseFactory, Ownable {
      * @return bool True if the address is a registered factory, false otherwise
      */
     function isFactory(address factory) external view override returns (bool) {
-        return _factories[factory];
+        return _factories.contains(factory);
+    }
+
+    /**
+     * @dev Get the metadata of a registered factory
+     * @param factory The address of the factory
+     * @return info The kind, version, metadata URI and registration timestamp
+     */
+    function getFactory(
+        address factory
+    ) external view override returns (FactoryInfo memory info) {
+        if (!_factories.contains(factory)) {
+            revert FactoryNotRegistered();
+        }
+        return _factoryInfo[factory];
+    }
+
+    /**
+     * @dev Get the number of registered factories
+     * @return uint256 The number of registered factories
+     */
+    function factoryCount() external view override returns (uint256) {
+        return _factories.length();
+    }
+
+    /**
+     * @dev Get a page of registered factory addresses
+     * The order is not guaranteed to be stable across unregistrations
+     * @param offset The index of the first factory to return
+     * @param limit The maximum number of factories to return
+     * @return factories The factory addresses in the requested page
+     */
+    function getFactories(
+        uint256 offset,
+        uint256 limit
+    ) external view override returns (address[] memory factories) {
+        uint256 total = _factories.length();
+        if (offset >= total) {
+            return new address[](0);
+        }
+
+        uint256 end = Pagination.pageEnd(total, offset, limit);
+
+        factories = new address[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            factories[i - offset] = _factories.at(i);
+        }
+    }
+
+    /**
+     * @dev Get the registered factories of a kind
+     * The order is not guaranteed to be stable across unregistrations
+     * @param kind The ERC-165 interface id of the kind
+     * @return factories The addresses of the factories of that kind
+     */
+    function factoriesOfKind(
+        bytes4 kind
+    ) external view override returns (address[] memory factories) {
+        return _factoriesByKind[kind].values();
+    }
+
+    /**
+     * @dev Pause the factory system
+     * Only callable by pausers while the system is not paused
+     */
+    function pause() external override onlyRole(PAUSER_ROLE) {
+        _pause();
+    }
+
+    /**
+     * @dev Unpause the factory system
+     * Only callable by pausers while the system is paused
+     */
+    function unpause() external override onlyRole(PAUSER_ROLE) {
+        _unpause();
+    }
+
+    /**
+     * @dev Check if the factory system is paused
+     * @return bool True if the system is paused, false otherwise
+     */
+    function paused()
+        public
+        view
+        override(IBaseFactory, Pausable)
+        returns (bool)
+    {
+        return super.paused();
     }
 
     /**
-     * @dev Override of the transferOwnership function to emit our custom event
-     * @param newOwner The address of the new owner
+     * @dev Validate and store a factory with its metadata
+     * @param factory The address of the factory to register
+     * @param kind The ERC-165 interface id the factory must support
+     * @param version The version of the factory
+     * @param metadataURI A URI describing the factory
      */
-    function transferOwnership(
-        address newOwner
-    ) public override(Ownable, IBaseFactory) onlyOwner {
-        super.transferOwnership(newOwner);
-        emit OwnershipTransferred(owner(), newOwner);
+    function _registerFactory(
+        address factory,
+        bytes4 kind,
+        string calldata version,
+        string calldata metadataURI
+    ) private {
+        // Check if factory address is valid
+        if (factory == address(0)) {
+            revert ZeroAddressNotAllowed();
+        }
+
+        // Check if factory is already registered
+        if (_factories.contains(factory)) {
+            revert FactoryAlreadyRegistered();
+        }
+
+        // Check if the factory is of the declared kind
+        if (!ERC165Checker.supportsInterface(factory, kind)) {
+            revert UnsupportedFactoryKind(factory, kind);
+        }
+
+        // Register the factory and its metadata
+        _factories.add(factory);
+        _factoriesByKind[kind].add(factory);
+        _factoryInfo[factory] = FactoryInfo({
+            kind: kind,
+            version: version,
+            metadataURI: metadataURI,
+            registeredAt: uint64(block.timestamp)
+        });
+
+        // Emit event
+        emit FactoryRegistered(factory, kind, version, metadataURI);
     }
 }
@@ -0,0 +1,13 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import "@openzeppelin/contracts/metatx/ERC2771Forwarder.sol";
+
+/**
+ * @title Forwarder
+ * @dev ERC-2771 trusted forwarder relaying signed requests to Key and Government
+ * Lets relayers pay the gas of citizens managing their keys and governments
+ */
+contract Forwarder is ERC2771Forwarder {
+    constructor() ERC2771Forwarder("Forwarder") {}
+}
@@ -1,28 +1,1024 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.0;
 
-import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts-upgradeable/access/Ownable2StepUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/metatx/ERC2771ContextUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/NoncesUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/cryptography/EIP712Upgradeable.sol";
+import "@openzeppelin/contracts/utils/Address.sol";
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
 import "./IGovernment.sol";
+import "./IGovernmentFactory.sol";
+import "./IKey.sol";
+import "./Pagination.sol";
 
 /**
  * @title Government
  * @dev Implementation of the Government contract that manages citizen addresses
+ * Governments are beacon proxies of a shared implementation, initialized by the
+ * factory that creates them. State lives in ERC-7201 namespaced storage so new
+ * implementations can add variables without corrupting existing governments.
+ * The owner can act through an ERC-2771 trusted forwarder so a relayer pays the gas
+ * Ownership is transferred in two steps: the owner proposes a new owner, who accepts
+ * The owner and citizens propose calls, which citizens vote on with one vote each.
+ * Only citizens registered before a proposal can vote on it. Once a citizen is
+ * revoked, anyone can withdraw its votes from the proposals still being voted on,
+ * one proposal at a time so revoking costs the same however many votes it cast.
+ * A proposal succeeds when enough citizens voted by its deadline and more of them
+ * voted for than against, then anyone can execute it as a call from the government.
+ * With a Key registry configured, citizens can also vote, propose and cancel their
+ * proposals with EIP-712 messages signed by their current key, so rotating a key
+ * invalidates its pending signatures.
+ * While the BaseFactory of the issuing factory is paused, citizens cannot be
+ * registered, proposals cannot be created, voted on or executed, and the
+ * settings cannot be changed. Citizens can still be revoked, proposals canceled
+ * and ownership transferred.
  */
-contract Government is IGovernment, Ownable {
+contract Government is
+    IGovernment,
+    Initializable,
+    Ownable2StepUpgradeable,
+    EIP712Upgradeable,
+    NoncesUpgradeable,
+    ERC2771ContextUpgradeable
+{
+    using EnumerableSet for EnumerableSet.AddressSet;
+
+    /// @custom:storage-location erc7201:poligov.storage.Government
+    struct GovernmentStorage {
+        // The factory that created this government
+        address factory;
+        // Set of registered citizens
+        EnumerableSet.AddressSet citizens;
+        // Voting duration of new proposals, in seconds
+        uint64 votingPeriod;
+        // Percentage of citizens whose votes new proposals need
+        uint8 quorumPercent;
+        // Number of proposals created, also the latest proposal identifier
+        uint256 proposalCount;
+        // Mapping from proposal identifier to proposal
+        mapping(uint256 => Proposal) proposals;
+        // Mapping from proposal identifier to the citizens who voted on it
+        mapping(uint256 => mapping(address => bool)) votes;
+        // Key contract resolving the current key of each citizen
+        address keyRegistry;
+        // Mapping from citizen to the block it was registered in
+        mapping(address => uint256) citizenSince;
+        // Latest block citizens were registered in, and how many of them still are
+        uint256 registrationBlock;
+        uint256 registrationsInBlock;
+        // Mapping from proposal identifier to the support of each citizen who voted on it
+        mapping(uint256 => mapping(address => bool)) voteSupport;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("poligov.storage.Government")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant GOVERNMENT_STORAGE_LOCATION =
+        0xd7d78fa9f1f98624b8585bd3146a37afd678bde44ad8cbd3863381e9466efc00;
+
+    // Voting rules of a new government, until its owner changes them
+    uint64 public constant DEFAULT_VOTING_PERIOD = 3 days;
+    uint8 public constant DEFAULT_QUORUM_PERCENT = 50;
+
+    bytes32 public constant BALLOT_TYPEHASH = keccak256(
+        "Ballot(uint256 proposalId,bool support,address citizen,uint256 nonce,uint256 deadline)"
+    );
+    bytes32 public constant PROPOSAL_TYPEHASH = keccak256(
+        "Proposal(address target,uint256 value,bytes data,string description,address citizen,uint256 nonce,uint256 deadline)"
+    );
+    bytes32 public constant CANCELLATION_TYPEHASH = keccak256(
+        "Cancellation(uint256 proposalId,address citizen,uint256 nonce,uint256 deadline)"
+    );
+
     /**
-     * @dev Constructor that sets the deployer as the owner
+     * @dev Restricts a function to when the factory system is not paused
+     */
+    modifier whenSystemNotPaused() {
+        if (isPaused()) {
+            revert SystemPaused();
+        }
+        _;
+    }
+
+    /**
+     * @dev Constructor of the implementation, which can never be initialized itself
+     * The forwarder is immutable, so it is shared by every government using this implementation
+     * @param trustedForwarder The ERC-2771 forwarder, or the zero address to disable meta-transactions
+     */
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor(
+        address trustedForwarder
+    ) ERC2771ContextUpgradeable(trustedForwarder) {
+        _disableInitializers();
+    }
+
+    /**
+     * @dev Initialize a government proxy, recording the caller as the issuing factory
+     * Only callable once, by the factory deploying the proxy
      * @param governmentOwner The address that will own this government
      */
-    constructor(address governmentOwner) Ownable(governmentOwner) {}
+    function initialize(address governmentOwner) external override initializer {
+        __Ownable_init(governmentOwner);
+        __Ownable2Step_init();
+        __EIP712_init("Government", "1");
+        __Nonces_init();
+        _getGovernmentStorage().factory = msg.sender;
+        _setVotingRules(DEFAULT_VOTING_PERIOD, DEFAULT_QUORUM_PERCENT);
+    }
+
+    /**
+     * @dev Receive the wei that executed proposals can send
+     */
+    receive() external payable {}
+
+    /**
+     * @dev Register a new citizen address
+     * Only callable by the owner
+     * @param citizen The address of the citizen to register
+     */
+    function registerCitizen(
+        address citizen
+    ) external override onlyOwner whenSystemNotPaused {
+        _registerCitizen(citizen);
+    }
+
+    /**
+     * @dev Register several citizen addresses in a single transaction
+     * Only callable by the owner, reverts if any of the addresses is invalid
+     * @param citizens The addresses of the citizens to register
+     */
+    function registerCitizens(
+        address[] calldata citizens
+    ) external override onlyOwner whenSystemNotPaused {
+        for (uint256 i = 0; i < citizens.length; i++) {
+            _registerCitizen(citizens[i]);
+        }
+    }
+
+    /**
+     * @dev Revoke an existing citizen address
+     * Only callable by the owner, the votes of the citizen on active proposals can then be withdrawn
+     * @param citizen The address of the citizen to revoke
+     */
+    function revokeCitizen(address citizen) external override onlyOwner {
+        GovernmentStorage storage $ = _getGovernmentStorage();
+
+        // Remove the citizen, failing if it was not registered
+        if (!$.citizens.remove(citizen)) {
+            revert CitizenNotRegistered();
+        }
+
+        // Keep the registrations of this block in line with the citizens left
+        if ($.citizenSince[citizen] == block.number) {
+            $.registrationsInBlock--;
+        }
+
+        // Emit event
+        emit CitizenRevoked(citizen);
+    }
+
+    /**
+     * @dev Check if an address is a registered citizen
+     * @param citizen The address to check
+     * @return bool True if the address is a registered citizen, false otherwise
+     */
+    function isCitizen(address citizen) external view override returns (bool) {
+        return _getGovernmentStorage().citizens.contains(citizen);
+    }
+
+    /**
+     * @dev Get the number of registered citizens
+     * @return uint256 The number of registered citizens
+     */
+    function citizenCount() external view override returns (uint256) {
+        return _getGovernmentStorage().citizens.length();
+    }
+
+    /**
+     * @dev Get a page of registered citizen addresses
+     * The order is not guaranteed to be stable across revocations
+     * @param offset The index of the first citizen to return
+     * @param limit The maximum number of citizens to return
+     * @return citizens The citizen addresses in the requested page
+     */
+    function getCitizens(
+        uint256 offset,
+        uint256 limit
+    ) external view override returns (address[] memory citizens) {
+        EnumerableSet.AddressSet storage registered = _getGovernmentStorage()
+            .citizens;
+        uint256 total = registered.length();
+        if (offset >= total) {
+            return new address[](0);
+        }
+
+        uint256 end = Pagination.pageEnd(total, offset, limit);
+
+        citizens = new address[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            citizens[i - offset] = registered.at(i);
+        }
+    }
+
+    /**
+     * @dev Get the factory that created this government
+     * @return address The address of the issuing factory
+     */
+    function factory() public view override returns (address) {
+        return _getGovernmentStorage().factory;
+    }
+
+    /**
+     * @dev Check if the issuing factory is still registered in the BaseFactory
+     * Returns false when the government was not initialized by a factory contract
+     * @return bool True if the issuing factory is active, false otherwise
+     */
+    function isFactoryActive() external view override returns (bool) {
+        address issuer = factory();
+        if (issuer.code.length == 0) {
+            return false;
+        }
+
+        try IGovernmentFactory(issuer).isActive() returns (bool active) {
+            return active;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * @dev Check if the BaseFactory of the issuing factory paused the factory system
+     * Returns false when the government was not initialized by a factory contract
+     * @return bool True if the system is paused, false otherwise
+     */
+    function isPaused() public view override returns (bool) {
+        address issuer = factory();
+        if (issuer.code.length == 0) {
+            return false;
+        }
+
+        try IGovernmentFactory(issuer).isPaused() returns (bool systemPaused) {
+            return systemPaused;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * @dev Set how long proposals accept votes and the share of citizens that must vote
+     * Only callable by the owner, existing proposals keep the rules they were created with
+     * @param newVotingPeriod The voting duration of new proposals, in seconds
+     * @param newQuorumPercent The percentage of citizens (1 to 100) whose votes are needed
+     */
+    function setVotingRules(
+        uint64 newVotingPeriod,
+        uint8 newQuorumPercent
+    ) external override onlyOwner whenSystemNotPaused {
+        _setVotingRules(newVotingPeriod, newQuorumPercent);
+    }
+
+    /**
+     * @dev Get the voting duration of new proposals
+     * @return uint64 The voting period in seconds
+     */
+    function votingPeriod() external view override returns (uint64) {
+        return _getGovernmentStorage().votingPeriod;
+    }
+
+    /**
+     * @dev Get the percentage of citizens whose votes are needed
+     * @return uint8 The quorum percentage
+     */
+    function quorumPercent() external view override returns (uint8) {
+        return _getGovernmentStorage().quorumPercent;
+    }
+
+    /**
+     * @dev Propose a call for the citizens to vote on
+     * Only callable by the owner or a citizen. Citizens registered in an earlier
+     * block can vote on it, and the quorum is computed from them, rounded up.
+     * @param target The contract to call once the proposal succeeds
+     * @param value The wei the government sends with the call
+     * @param data The calldata of the call
+     * @param description A human readable description of the proposal
+     * @return proposalId The identifier of the new proposal
+     */
+    function propose(
+        address target,
+        uint256 value,
+        bytes calldata data,
+        string calldata description
+    ) external override whenSystemNotPaused returns (uint256 proposalId) {
+        return _propose(_msgSender(), target, value, data, description);
+    }
+
+    /**
+     * @dev Propose a call on behalf of a citizen with a Proposal signed by its current key
+     * Callable by anyone, e.g. a relayer, the signature consumes the citizen's nonce
+     * @param target The contract to call once the proposal succeeds
+     * @param value The wei the government sends with the call
+     * @param data The calldata of the call
+     * @param description A human readable description of the proposal
+     * @param citizen The citizen proposing
+     * @param deadline The timestamp after which the signature is no longer valid
+     * @param signature The EIP-712 Proposal signature of the citizen's key
+     * @return proposalId The identifier of the new proposal
+     */
+    function proposeBySig(
+        address target,
+        uint256 value,
+        bytes calldata data,
+        string calldata description,
+        address citizen,
+        uint256 deadline,
+        bytes calldata signature
+    ) external override whenSystemNotPaused returns (uint256 proposalId) {
+        // Check if the signature is still valid
+        if (block.timestamp > deadline) {
+            revert SignatureExpired(deadline);
+        }
+
+        // Hash the proposal, consuming the citizen's nonce
+        bytes32 digest = hashProposal(
+            target,
+            value,
+            data,
+            description,
+            citizen,
+            _useNonce(citizen),
+            deadline
+        );
+
+        // Verify the signature from the citizen's current key
+        if (!verifyCitizenSignature(citizen, digest, signature)) {
+            revert InvalidSignature();
+        }
+
+        return _propose(citizen, target, value, data, description);
+    }
+
+    /**
+     * @dev Get the EIP-712 digest of a Proposal message
+     * @param target The contract to call once the proposal succeeds
+     * @param value The wei the government sends with the call
+     * @param data The calldata of the call
+     * @param description A human readable description of the proposal
+     * @param citizen The citizen proposing
+     * @param nonce The signature nonce of the citizen
+     * @param deadline The timestamp after which the signature is no longer valid
+     * @return bytes32 The digest the citizen's key has to sign
+     */
+    function hashProposal(
+        address target,
+        uint256 value,
+        bytes calldata data,
+        string calldata description,
+        address citizen,
+        uint256 nonce,
+        uint256 deadline
+    ) public view override returns (bytes32) {
+        return
+            _hashTypedDataV4(
+                keccak256(
+                    abi.encode(
+                        PROPOSAL_TYPEHASH,
+                        target,
+                        value,
+                        keccak256(data),
+                        keccak256(bytes(description)),
+                        citizen,
+                        nonce,
+                        deadline
+                    )
+                )
+            );
+    }
+
+    /**
+     * @dev Vote on an active proposal
+     * Only callable by citizens registered before the proposal, once per proposal
+     * @param proposalId The identifier of the proposal
+     * @param support True to vote for, false to vote against
+     */
+    function castVote(
+        uint256 proposalId,
+        bool support
+    ) external override whenSystemNotPaused {
+        _castVote(proposalId, _msgSender(), support);
+    }
+
+    /**
+     * @dev Vote on behalf of a citizen with a Ballot signed by its current key
+     * Callable by anyone, e.g. a relayer, the signature consumes the citizen's nonce
+     * @param proposalId The identifier of the proposal
+     * @param support True to vote for, false to vote against
+     * @param citizen The citizen voting
+     * @param deadline The timestamp after which the signature is no longer valid
+     * @param signature The EIP-712 Ballot signature of the citizen's key
+     */
+    function castVoteBySig(
+        uint256 proposalId,
+        bool support,
+        address citizen,
+        uint256 deadline,
+        bytes calldata signature
+    ) external override whenSystemNotPaused {
+        // Check if the signature is still valid
+        if (block.timestamp > deadline) {
+            revert SignatureExpired(deadline);
+        }
+
+        // Hash the ballot, consuming the citizen's nonce
+        bytes32 digest = hashBallot(
+            proposalId,
+            support,
+            citizen,
+            _useNonce(citizen),
+            deadline
+        );
+
+        // Verify the signature from the citizen's current key
+        if (!verifyCitizenSignature(citizen, digest, signature)) {
+            revert InvalidSignature();
+        }
+
+        _castVote(proposalId, citizen, support);
+    }
+
+    /**
+     * @dev Withdraw the vote of a revoked citizen from a proposal still being voted on
+     * Callable by anyone. Also withdraws the vote of a citizen revoked and registered
+     * again since the proposal, votes on proposals that ended are final.
+     * @param proposalId The identifier of the proposal
+     * @param voter The revoked citizen
+     */
+    function withdrawVote(uint256 proposalId, address voter) external override {
+        GovernmentStorage storage $ = _getGovernmentStorage();
+
+        // Check if the proposal still accepts votes
+        if (proposalState(proposalId) != ProposalState.Active) {
+            revert ProposalNotActive();
+        }
+
+        // Check if the voter voted and is no longer the citizen who did
+        if (!$.votes[proposalId][voter]) {
+            revert VoteNotFound();
+        }
+        if (
+            $.citizens.contains(voter) &&
+            $.citizenSince[voter] <= $.proposals[proposalId].snapshotBlock
+        ) {
+            revert VoterNotRevoked();
+        }
+
+        $.votes[proposalId][voter] = false;
+        if ($.voteSupport[proposalId][voter]) {
+            $.proposals[proposalId].forVotes--;
+        } else {
+            $.proposals[proposalId].againstVotes--;
+        }
+
+        // Emit event
+        emit VoteWithdrawn(proposalId, voter);
+    }
+
+    /**
+     * @dev Get the EIP-712 digest of a Ballot message
+     * @param proposalId The identifier of the proposal
+     * @param support True to vote for, false to vote against
+     * @param citizen The citizen voting
+     * @param nonce The signature nonce of the citizen
+     * @param deadline The timestamp after which the signature is no longer valid
+     * @return bytes32 The digest the citizen's key has to sign
+     */
+    function hashBallot(
+        uint256 proposalId,
+        bool support,
+        address citizen,
+        uint256 nonce,
+        uint256 deadline
+    ) public view override returns (bytes32) {
+        return
+            _hashTypedDataV4(
+                keccak256(
+                    abi.encode(
+                        BALLOT_TYPEHASH,
+                        proposalId,
+                        support,
+                        citizen,
+                        nonce,
+                        deadline
+                    )
+                )
+            );
+    }
+
+    /**
+     * @dev Get the current signature nonce of a citizen
+     * @param citizen The citizen to look up
+     * @return uint256 The nonce the next Ballot, Proposal or Cancellation message must use
+     */
+    function nonces(
+        address citizen
+    ) public view override(IGovernment, NoncesUpgradeable) returns (uint256) {
+        return super.nonces(citizen);
+    }
+
+    /**
+     * @dev Set the Key registry resolving the current key of each citizen
+     * Only callable by the owner
+     * @param newKeyRegistry The Key contract, or the zero address to disable key signatures
+     */
+    function setKeyRegistry(
+        address newKeyRegistry
+    ) external override onlyOwner whenSystemNotPaused {
+        _getGovernmentStorage().keyRegistry = newKeyRegistry;
+
+        // Emit event
+        emit KeyRegistryUpdated(newKeyRegistry);
+    }
+
+    /**
+     * @dev Get the Key registry resolving the current key of each citizen
+     * @return address The Key contract, or the zero address if none is set
+     */
+    function keyRegistry() external view override returns (address) {
+        return _getGovernmentStorage().keyRegistry;
+    }
+
+    /**
+     * @dev Check if a signature was made by the current key of a registered citizen
+     * The key is resolved with Key.keys, so signatures of a rotated key no longer verify
+     * @param citizen The citizen account
+     * @param digest The hash that was signed, raw or eth_sign prefixed
+     * @param signature The signature to verify
+     * @return bool True if the citizen is registered and its current key signed the digest
+     */
+    function verifyCitizenSignature(
+        address citizen,
+        bytes32 digest,
+        bytes calldata signature
+    ) public view override returns (bool) {
+        GovernmentStorage storage $ = _getGovernmentStorage();
+
+        // Check if a registry is configured
+        if ($.keyRegistry == address(0)) {
+            revert KeyRegistryNotSet();
+        }
+
+        if (!$.citizens.contains(citizen)) {
+            return false;
+        }
+
+        // Citizens without a key cannot sign
+        address key = IKey($.keyRegistry).keys(citizen);
+        if (key == address(0)) {
+            return false;
+        }
+
+        return IKey($.keyRegistry).verifySignature(digest, signature, key);
+    }
+
+    /**
+     * @dev Execute a succeeded proposal as a call from the government
+     * Callable by anyone, reverts with the reason of the call if it fails
+     * @param proposalId The identifier of the proposal
+     * @return result The data returned by the call
+     */
+    function execute(
+        uint256 proposalId
+    ) external override whenSystemNotPaused returns (bytes memory result) {
+        // Check if the proposal passed and was not executed yet
+        if (proposalState(proposalId) != ProposalState.Succeeded) {
+            revert ProposalNotSucceeded();
+        }
+
+        // Mark as executed before the call, so it cannot be executed again from within
+        Proposal storage proposal = _getGovernmentStorage().proposals[
+            proposalId
+        ];
+        proposal.executed = true;
+
+        // Emit event
+        emit ProposalExecuted(proposalId);
+
+        (bool success, bytes memory returndata) = proposal.target.call{
+            value: proposal.value
+        }(proposal.data);
+        return Address.verifyCallResult(success, returndata);
+    }
+
+    /**
+     * @dev Cancel an active proposal
+     * Only callable by the proposer or the owner
+     * @param proposalId The identifier of the proposal
+     */
+    function cancel(uint256 proposalId) external override {
+        _cancel(proposalId, _msgSender());
+    }
+
+    /**
+     * @dev Cancel a proposal on behalf of its proposer with a Cancellation signed by its current key
+     * Callable by anyone, e.g. a relayer, the signature consumes the citizen's nonce
+     * @param proposalId The identifier of the proposal
+     * @param citizen The citizen who proposed it
+     * @param deadline The timestamp after which the signature is no longer valid
+     * @param signature The EIP-712 Cancellation signature of the citizen's key
+     */
+    function cancelBySig(
+        uint256 proposalId,
+        address citizen,
+        uint256 deadline,
+        bytes calldata signature
+    ) external override {
+        // Check if the signature is still valid
+        if (block.timestamp > deadline) {
+            revert SignatureExpired(deadline);
+        }
+
+        // Hash the cancellation, consuming the citizen's nonce
+        bytes32 digest = hashCancellation(
+            proposalId,
+            citizen,
+            _useNonce(citizen),
+            deadline
+        );
+
+        // Verify the signature from the citizen's current key
+        if (!verifyCitizenSignature(citizen, digest, signature)) {
+            revert InvalidSignature();
+        }
+
+        _cancel(proposalId, citizen);
+    }
+
+    /**
+     * @dev Get the EIP-712 digest of a Cancellation message
+     * @param proposalId The identifier of the proposal
+     * @param citizen The citizen who proposed it
+     * @param nonce The signature nonce of the citizen
+     * @param deadline The timestamp after which the signature is no longer valid
+     * @return bytes32 The digest the citizen's key has to sign
+     */
+    function hashCancellation(
+        uint256 proposalId,
+        address citizen,
+        uint256 nonce,
+        uint256 deadline
+    ) public view override returns (bytes32) {
+        return
+            _hashTypedDataV4(
+                keccak256(
+                    abi.encode(
+                        CANCELLATION_TYPEHASH,
+                        proposalId,
+                        citizen,
+                        nonce,
+                        deadline
+                    )
+                )
+            );
+    }
+
+    /**
+     * @dev Get a proposal
+     * @param proposalId The identifier of the proposal
+     * @return Proposal The proposal
+     */
+    function getProposal(
+        uint256 proposalId
+    ) external view override returns (Proposal memory) {
+        return _getProposal(proposalId);
+    }
+
+    /**
+     * @dev Get the current state of a proposal
+     * @param proposalId The identifier of the proposal
+     * @return ProposalState The state of the proposal
+     */
+    function proposalState(
+        uint256 proposalId
+    ) public view override returns (ProposalState) {
+        Proposal storage proposal = _getProposal(proposalId);
+
+        if (proposal.executed) {
+            return ProposalState.Executed;
+        }
+        if (proposal.canceled) {
+            return ProposalState.Canceled;
+        }
+        if (block.timestamp < proposal.deadline) {
+            return ProposalState.Active;
+        }
+
+        // Voting is over: it needs the quorum and a majority of the votes cast
+        uint256 votes = proposal.forVotes + proposal.againstVotes;
+        if (
+            votes >= proposal.quorumVotes &&
+            proposal.forVotes > proposal.againstVotes
+        ) {
+            return ProposalState.Succeeded;
+        }
+        return ProposalState.Defeated;
+    }
+
+    /**
+     * @dev Check if a citizen voted on a proposal
+     * @param proposalId The identifier of the proposal
+     * @param voter The address to check
+     * @return bool True if the address voted on the proposal and its vote was not withdrawn
+     */
+    function hasVoted(
+        uint256 proposalId,
+        address voter
+    ) external view override returns (bool) {
+        return _getGovernmentStorage().votes[proposalId][voter];
+    }
+
+    /**
+     * @dev Get the number of proposals created, which is also the latest proposal identifier
+     * @return uint256 The number of proposals
+     */
+    function proposalCount() external view override returns (uint256) {
+        return _getGovernmentStorage().proposalCount;
+    }
 
     /**
-     * @dev Override of the transferOwnership function to emit our custom event
-     * @param newOwner The address of the new owner
+     * @dev Propose a new owner, who becomes the owner once it accepts
+     * Only callable by the owner, proposing the zero address cancels a pending transfer
+     * @param newOwner The address of the proposed owner
      */
     function transferOwnership(
         address newOwner
-    ) public override(Ownable, IGovernment) onlyOwner {
+    ) public override(Ownable2StepUpgradeable, IGovernment) {
         super.transferOwnership(newOwner);
-        emit OwnershipTransferred(owner(), newOwner);
+    }
+
+    /**
+     * @dev Accept a pending ownership transfer
+     * Only callable by the proposed owner
+     */
+    function acceptOwnership()
+        public
+        override(Ownable2StepUpgradeable, IGovernment)
+    {
+        super.acceptOwnership();
+    }
+
+    /**
+     * @dev Get the proposed owner of a pending ownership transfer
+     * @return address The proposed owner, or the zero address if none is pending
+     */
+    function pendingOwner()
+        public
+        view
+        override(Ownable2StepUpgradeable, IGovernment)
+        returns (address)
+    {
+        return super.pendingOwner();
+    }
+
+    /**
+     * @dev The sender of the call, or the signer of a request relayed by the trusted forwarder
+     */
+    function _msgSender()
+        internal
+        view
+        override(ContextUpgradeable, ERC2771ContextUpgradeable)
+        returns (address)
+    {
+        return ERC2771ContextUpgradeable._msgSender();
+    }
+
+    /**
+     * @dev The calldata of the call, without the signer appended by the trusted forwarder
+     */
+    function _msgData()
+        internal
+        view
+        override(ContextUpgradeable, ERC2771ContextUpgradeable)
+        returns (bytes calldata)
+    {
+        return ERC2771ContextUpgradeable._msgData();
+    }
+
+    /**
+     * @dev Length of the signer address appended by the trusted forwarder
+     */
+    function _contextSuffixLength()
+        internal
+        view
+        override(ContextUpgradeable, ERC2771ContextUpgradeable)
+        returns (uint256)
+    {
+        return ERC2771ContextUpgradeable._contextSuffixLength();
+    }
+
+    /**
+     * @dev Validate and store a citizen address
+     * @param citizen The address of the citizen to register
+     */
+    function _registerCitizen(address citizen) private {
+        // Check if citizen address is valid
+        if (citizen == address(0)) {
+            revert ZeroAddressNotAllowed();
+        }
+
+        GovernmentStorage storage $ = _getGovernmentStorage();
+
+        // Add the citizen, failing if it is already registered
+        if (!$.citizens.add(citizen)) {
+            revert CitizenAlreadyRegistered();
+        }
+
+        // Record the block, proposals created in it do not let the citizen vote
+        $.citizenSince[citizen] = block.number;
+        if ($.registrationBlock != block.number) {
+            $.registrationBlock = block.number;
+            $.registrationsInBlock = 0;
+        }
+        $.registrationsInBlock++;
+
+        // Emit event
+        emit CitizenRegistered(citizen);
+    }
+
+    /**
+     * @dev Create a proposal from the owner or a citizen
+     * @param proposer The owner or citizen proposing
+     * @param target The contract to call once the proposal succeeds
+     * @param value The wei the government sends with the call
+     * @param data The calldata of the call
+     * @param description A human readable description of the proposal
+     * @return proposalId The identifier of the new proposal
+     */
+    function _propose(
+        address proposer,
+        address target,
+        uint256 value,
+        bytes calldata data,
+        string calldata description
+    ) private returns (uint256 proposalId) {
+        GovernmentStorage storage $ = _getGovernmentStorage();
+
+        // Check if the proposer can propose
+        if (proposer != owner() && !$.citizens.contains(proposer)) {
+            revert NotAllowedToPropose();
+        }
+
+        // Check if target address is valid
+        if (target == address(0)) {
+            revert ZeroAddressNotAllowed();
+        }
+
+        proposalId = ++$.proposalCount;
+        uint64 deadline = uint64(block.timestamp) + $.votingPeriod;
+
+        Proposal storage proposal = $.proposals[proposalId];
+        proposal.proposer = proposer;
+        proposal.target = target;
+        proposal.value = value;
+        proposal.data = data;
+        proposal.deadline = deadline;
+        proposal.snapshotBlock = block.number - 1;
+
+        // Citizens registered in this block cannot vote on the proposal
+        uint256 voters = $.citizens.length();
+        if ($.registrationBlock == block.number) {
+            voters -= $.registrationsInBlock;
+        }
+        proposal.quorumVotes = (voters * $.quorumPercent + 99) / 100;
+
+        // Emit event
+        emit ProposalCreated(
+            proposalId,
+            proposer,
+            target,
+            value,
+            data,
+            description,
+            deadline
+        );
+    }
+
+    /**
+     * @dev Cancel an active proposal from its proposer or the owner
+     * @param proposalId The identifier of the proposal
+     * @param sender The account canceling
+     */
+    function _cancel(uint256 proposalId, address sender) private {
+        // Check if the proposal is still being voted on
+        if (proposalState(proposalId) != ProposalState.Active) {
+            revert ProposalNotActive();
+        }
+
+        // Check if the sender can cancel
+        Proposal storage proposal = _getGovernmentStorage().proposals[
+            proposalId
+        ];
+        if (sender != proposal.proposer && sender != owner()) {
+            revert NotAllowedToCancel();
+        }
+
+        proposal.canceled = true;
+
+        // Emit event
+        emit ProposalCanceled(proposalId);
+    }
+
+    /**
+     * @dev Record the vote of a citizen on an active proposal
+     * @param proposalId The identifier of the proposal
+     * @param voter The citizen voting
+     * @param support True to vote for, false to vote against
+     */
+    function _castVote(
+        uint256 proposalId,
+        address voter,
+        bool support
+    ) private {
+        GovernmentStorage storage $ = _getGovernmentStorage();
+
+        // Check if the proposal accepts votes
+        if (proposalState(proposalId) != ProposalState.Active) {
+            revert ProposalNotActive();
+        }
+
+        // Check if the voter is a citizen registered before the proposal who has not voted yet
+        if (!$.citizens.contains(voter)) {
+            revert CitizenNotRegistered();
+        }
+        if ($.citizenSince[voter] > $.proposals[proposalId].snapshotBlock) {
+            revert CitizenRegisteredAfterProposal();
+        }
+        if ($.votes[proposalId][voter]) {
+            revert AlreadyVoted();
+        }
+
+        // Record the support so the vote can be withdrawn
+        $.votes[proposalId][voter] = true;
+        $.voteSupport[proposalId][voter] = support;
+        if (support) {
+            $.proposals[proposalId].forVotes++;
+        } else {
+            $.proposals[proposalId].againstVotes++;
+        }
+
+        // Emit event
+        emit VoteCast(proposalId, voter, support);
+    }
+
+    /**
+     * @dev Validate and store the voting rules of new proposals
+     * @param newVotingPeriod The voting duration, in seconds
+     * @param newQuorumPercent The percentage of citizens whose votes are needed
+     */
+    function _setVotingRules(
+        uint64 newVotingPeriod,
+        uint8 newQuorumPercent
+    ) private {
+        // Check if the rules are valid
+        if (
+            newVotingPeriod == 0 ||
+            newQuorumPercent == 0 ||
+            newQuorumPercent > 100
+        ) {
+            revert InvalidVotingRules();
+        }
+
+        GovernmentStorage storage $ = _getGovernmentStorage();
+        $.votingPeriod = newVotingPeriod;
+        $.quorumPercent = newQuorumPercent;
+
+        // Emit event
+        emit VotingRulesUpdated(newVotingPeriod, newQuorumPercent);
+    }
+
+    /**
+     * @dev Get an existing proposal
+     * @param proposalId The identifier of the proposal
+     */
+    function _getProposal(
+        uint256 proposalId
+    ) private view returns (Proposal storage proposal) {
+        proposal = _getGovernmentStorage().proposals[proposalId];
+
+        // Check if the proposal exists
+        if (proposal.proposer == address(0)) {
+            revert ProposalNotFound();
+        }
+    }
+
+    /**
+     * @dev Get the namespaced storage of the government
+     */
+    function _getGovernmentStorage()
+        private
+        pure
+        returns (GovernmentStorage storage $)
+    {
+        assembly {
+            $.slot := GOVERNMENT_STORAGE_LOCATION
+        }
     }
 }
@@ -1,63 +1,190 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.0;
 
+import "@openzeppelin/contracts/proxy/beacon/BeaconProxy.sol";
+import "@openzeppelin/contracts/proxy/beacon/UpgradeableBeacon.sol";
+import "@openzeppelin/contracts/utils/Create2.sol";
+import "@openzeppelin/contracts/utils/Multicall.sol";
+import "@openzeppelin/contracts/utils/introspection/ERC165.sol";
 import "./IGovernmentFactory.sol";
 import "./Government.sol";
-import "./BaseFactory.sol";
+import "./IBaseFactory.sol";
+import "./Pagination.sol";
 
 /**
  * @title GovernmentFactory
  * @dev Factory contract for creating Government contracts
- * Only the BaseFactory owner can create governments
+ * Governments are beacon proxies: the BaseFactory super admin can upgrade the
+ * implementation of every government this factory created at once
+ * Only holders of the BaseFactory GOVERNMENT_CREATOR_ROLE can create governments,
+ * and only while this factory is registered in the BaseFactory and the
+ * BaseFactory is not paused
+ * Calls can be batched with multicall, which reverts all of them if one fails
+ * Its kind in the BaseFactory is a fixed marker id, reported through ERC-165
+ * along with the interface id of IGovernmentFactory
  */
-contract GovernmentFactory is IGovernmentFactory {
+contract GovernmentFactory is IGovernmentFactory, ERC165, Multicall {
+    // Kind the factory is registered with in the BaseFactory, a marker that
+    // stays the same when IGovernmentFactory gains functions
+    bytes4 public constant override FACTORY_KIND = bytes4(
+        keccak256("poligov.factory.government")
+    );
+
     // Reference to the BaseFactory contract
-    BaseFactory public baseFactory;
+    IBaseFactory public baseFactory;
+
+    // Beacon pointing every government created by this factory to its implementation
+    UpgradeableBeacon public immutable override beacon;
+
+    // Mapping from government address to its creation metadata
+    mapping(address => GovernmentInfo) private _governments;
+
+    // Governments in creation order
+    address[] private _governmentList;
 
-    // Mapping to track created governments
-    mapping(address => bool) private _governments;
+    // Mapping from original owner to the governments created for them
+    mapping(address => address[]) private _governmentsByOwner;
 
     /**
      * @dev Constructor that sets the BaseFactory reference
+     * Only callable by holders of the BaseFactory FACTORY_MANAGER_ROLE
      * @param _baseFactory The address of the BaseFactory contract
+     * @param _implementation The Government implementation the governments delegate to
      */
-    constructor(address _baseFactory) {
+    constructor(address _baseFactory, address _implementation) {
         if (_baseFactory == address(0)) {
             revert ZeroAddressNotAllowed();
         }
-        baseFactory = BaseFactory(_baseFactory);
-        if (msg.sender != baseFactory.owner()) {
+        baseFactory = IBaseFactory(_baseFactory);
+        beacon = new UpgradeableBeacon(_implementation, address(this));
+        if (
+            !baseFactory.hasRole(baseFactory.FACTORY_MANAGER_ROLE(), msg.sender)
+        ) {
             revert NotAuthorized();
         }
     }
 
     /**
      * @dev Create a new government with the specified owner
-     * Only callable by the owner of the BaseFactory
+     * Only callable by government creators while this factory is registered and not paused
      * @param governmentOwner The address that will own the government
      * @return government The address of the newly created government
      */
     function createGovernment(
         address governmentOwner
     ) external override returns (address) {
-        // Check if the caller is the owner of BaseFactory
-        if (msg.sender != baseFactory.owner()) {
-            revert NotAuthorized();
+        _validateCreation(governmentOwner);
+
+        return _createGovernment(governmentOwner);
+    }
+
+    /**
+     * @dev Create a government for each of the specified owners
+     * Only callable by government creators while this factory is registered and not paused
+     * The whole batch reverts if any government cannot be created
+     * @param governmentOwners The addresses that will own the governments
+     * @return governments The addresses of the new governments, in the order of their owners
+     */
+    function createGovernments(
+        address[] calldata governmentOwners
+    ) external override returns (address[] memory governments) {
+        // The creator and the registration are checked once for the whole batch
+        _validateCreator();
+
+        governments = new address[](governmentOwners.length);
+        for (uint256 i = 0; i < governmentOwners.length; i++) {
+            // Check if government owner is valid
+            if (governmentOwners[i] == address(0)) {
+                revert ZeroAddressNotAllowed();
+            }
+
+            governments[i] = _createGovernment(governmentOwners[i]);
         }
+    }
 
-        // Check if government owner is valid
-        if (governmentOwner == address(0)) {
-            revert ZeroAddressNotAllowed();
+    /**
+     * @dev Create a new government at a deterministic address using CREATE2
+     * Only callable by government creators while this factory is registered and not paused
+     * @param governmentOwner The address that will own the government
+     * @param salt The salt used to derive the government address
+     * @return government The address of the newly created government
+     */
+    function createGovernmentDeterministic(
+        address governmentOwner,
+        bytes32 salt
+    ) external override returns (address) {
+        _validateCreation(governmentOwner);
+
+        // Check if a government already exists at the predicted address
+        if (predictGovernmentAddress(governmentOwner, salt).code.length > 0) {
+            revert GovernmentAlreadyExists();
+        }
+
+        address government = address(
+            new BeaconProxy{salt: salt}(
+                address(beacon),
+                _initializeCall(governmentOwner)
+            )
+        );
+
+        _recordGovernment(government, governmentOwner);
+
+        return government;
+    }
+
+    /**
+     * @dev Compute the address createGovernmentDeterministic deploys to
+     * @param governmentOwner The address that will own the government
+     * @param salt The salt used to derive the government address
+     * @return address The predicted address of the government
+     */
+    function predictGovernmentAddress(
+        address governmentOwner,
+        bytes32 salt
+    ) public view override returns (address) {
+        bytes32 bytecodeHash = keccak256(
+            abi.encodePacked(
+                type(BeaconProxy).creationCode,
+                abi.encode(address(beacon), _initializeCall(governmentOwner))
+            )
+        );
+        return Create2.computeAddress(salt, bytecodeHash);
+    }
+
+    /**
+     * @dev Point every government created by this factory to a new implementation
+     * Only callable by the BaseFactory super admin
+     * @param newImplementation The new Government implementation
+     */
+    function upgradeImplementation(
+        address newImplementation
+    ) external override {
+        // Check if the caller is the super admin of the BaseFactory
+        if (!baseFactory.hasRole(baseFactory.SUPER_ADMIN_ROLE(), msg.sender)) {
+            revert NotAuthorized();
         }
-        Government government = new Government(governmentOwner);
 
-        // Register the government in our mapping
-        _governments[address(government)] = true;
+        // Upgrade the beacon, which reverts if the implementation has no code
+        beacon.upgradeTo(newImplementation);
 
         // Emit event
-        emit GovernmentCreated(address(government), governmentOwner);
+        emit ImplementationUpgraded(newImplementation);
+    }
 
-        return address(government);
+    /**
+     * @dev Get the Government implementation the governments currently delegate to
+     * @return address The address of the implementation
+     */
+    function implementation() public view override returns (address) {
+        return beacon.implementation();
+    }
+
+    /**
+     * @dev Get the ERC-2771 forwarder trusted by the current Government implementation
+     * @return address The forwarder, or the zero address if meta-transactions are disabled
+     */
+    function trustedForwarder() external view override returns (address) {
+        return Government(payable(implementation())).trustedForwarder();
     }
 
     /**
@@ -68,6 +195,181 @@ contract GovernmentFactory is IGovernmentFactory {
     function isGovernment(
         address government
     ) external view override returns (bool) {
-        return _governments[government];
+        return _governments[government].creator != address(0);
+    }
+
+    /**
+     * @dev Get the number of governments created by this factory
+     * @return uint256 The number of governments
+     */
+    function governmentCount() external view override returns (uint256) {
+        return _governmentList.length;
+    }
+
+    /**
+     * @dev Get a page of governments in creation order
+     * @param offset The index of the first government to return
+     * @param limit The maximum number of governments to return
+     * @return governments The government addresses in the requested page
+     */
+    function getGovernments(
+        uint256 offset,
+        uint256 limit
+    ) external view override returns (address[] memory governments) {
+        uint256 total = _governmentList.length;
+        if (offset >= total) {
+            return new address[](0);
+        }
+
+        uint256 end = Pagination.pageEnd(total, offset, limit);
+
+        governments = new address[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            governments[i - offset] = _governmentList[i];
+        }
+    }
+
+    /**
+     * @dev Get the governments created for an owner, in creation order
+     * Ownership transfers are not reflected, the original owner is used
+     * @param governmentOwner The original owner of the governments
+     * @return governments The government addresses
+     */
+    function governmentsOf(
+        address governmentOwner
+    ) external view override returns (address[] memory governments) {
+        return _governmentsByOwner[governmentOwner];
+    }
+
+    /**
+     * @dev Get the creation metadata of a government
+     * @param government The address of the government
+     * @return info The creator, original owner and creation block
+     */
+    function getGovernmentInfo(
+        address government
+    ) external view override returns (GovernmentInfo memory info) {
+        info = _governments[government];
+        if (info.creator == address(0)) {
+            revert GovernmentNotFound();
+        }
+    }
+
+    /**
+     * @dev Check if the factory implements an interface, see ERC-165
+     * @param interfaceId The interface identifier
+     * @return bool True for the factory kind, IGovernmentFactory and IERC165,
+     * false otherwise
+     */
+    function supportsInterface(
+        bytes4 interfaceId
+    ) public view override returns (bool) {
+        return
+            interfaceId == FACTORY_KIND ||
+            interfaceId == type(IGovernmentFactory).interfaceId ||
+            super.supportsInterface(interfaceId);
+    }
+
+    /**
+     * @dev Check if this factory is currently registered in the BaseFactory
+     * @return bool True if the factory is registered, false otherwise
+     */
+    function isActive() external view override returns (bool) {
+        return baseFactory.isFactory(address(this));
+    }
+
+    /**
+     * @dev Check if the BaseFactory paused the factory system
+     * Governments created by this factory reject state changes while it is paused
+     * @return bool True if the system is paused, false otherwise
+     */
+    function isPaused() external view override returns (bool) {
+        return baseFactory.paused();
+    }
+
+    /**
+     * @dev Check that a government can be created for the specified owner
+     * @param governmentOwner The address that will own the government
+     */
+    function _validateCreation(address governmentOwner) private view {
+        _validateCreator();
+
+        // Check if government owner is valid
+        if (governmentOwner == address(0)) {
+            revert ZeroAddressNotAllowed();
+        }
+    }
+
+    /**
+     * @dev Check that the caller can create governments in this factory
+     */
+    function _validateCreator() private view {
+        // Check if the BaseFactory paused the factory system
+        if (baseFactory.paused()) {
+            revert SystemPaused();
+        }
+
+        // Check if the caller can create governments
+        if (
+            !baseFactory.hasRole(
+                baseFactory.GOVERNMENT_CREATOR_ROLE(),
+                msg.sender
+            )
+        ) {
+            revert NotAuthorized();
+        }
+
+        // Check if this factory is still registered in the BaseFactory
+        if (!baseFactory.isFactory(address(this))) {
+            revert FactoryNotRegistered();
+        }
+    }
+
+    /**
+     * @dev Deploy and track a government proxy
+     * @param governmentOwner The address that will own the government
+     * @return government The address of the newly created government
+     */
+    function _createGovernment(
+        address governmentOwner
+    ) private returns (address government) {
+        government = address(
+            new BeaconProxy(address(beacon), _initializeCall(governmentOwner))
+        );
+
+        _recordGovernment(government, governmentOwner);
+    }
+
+    /**
+     * @dev Encode the initialization call a new government proxy runs
+     * @param governmentOwner The address that will own the government
+     * @return bytes The calldata of Government.initialize
+     */
+    function _initializeCall(
+        address governmentOwner
+    ) private pure returns (bytes memory) {
+        return abi.encodeCall(IGovernment.initialize, (governmentOwner));
+    }
+
+    /**
+     * @dev Track a newly created government
+     * @param government The address of the government
+     * @param governmentOwner The address that owns the government
+     */
+    function _recordGovernment(
+        address government,
+        address governmentOwner
+    ) private {
+        // Register the government and its creation metadata
+        _governments[government] = GovernmentInfo({
+            creator: msg.sender,
+            originalOwner: governmentOwner,
+            createdAtBlock: block.number
+        });
+        _governmentList.push(government);
+        _governmentsByOwner[governmentOwner].push(government);
+
+        // Emit event
+        emit GovernmentCreated(government, governmentOwner);
     }
 }
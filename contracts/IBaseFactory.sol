@@ -1,26 +1,113 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.0;
 
+import "@openzeppelin/contracts/access/extensions/IAccessControlDefaultAdminRules.sol";
+
 /**
  * @title IBaseFactory
  * @dev Interface for the BaseFactory contract
+ * Factories check the permissions of their callers through the inherited
+ * IAccessControl.hasRole, e.g. GOVERNMENT_CREATOR_ROLE before creating a government.
+ * The super admin is transferred with the two-step, delayed flow of
+ * IAccessControlDefaultAdminRules (beginDefaultAdminTransfer, then acceptDefaultAdminTransfer)
+ * Pausing follows OpenZeppelin Pausable: it emits Paused and Unpaused, and calls
+ * blocked by the pause revert with EnforcedPause (ExpectedPause when unpausing twice).
+ * Factories check paused() before creating governments, and their governments
+ * before changing their state.
  */
-interface IBaseFactory {
+interface IBaseFactory is IAccessControlDefaultAdminRules {
+    /**
+     * @dev Metadata of a registered factory
+     * @param kind The ERC-165 interface id identifying the kind of factory
+     * @param version The version of the factory, e.g. "1.0.0"
+     * @param metadataURI A URI describing the factory, e.g. an IPFS document
+     * @param registeredAt The timestamp of the registration
+     */
+    struct FactoryInfo {
+        bytes4 kind;
+        string version;
+        string metadataURI;
+        uint64 registeredAt;
+    }
+
+    /**
+     * @dev A factory to register, with its metadata
+     * @param factory The address of the factory
+     * @param kind The ERC-165 interface id the factory must support
+     * @param version The version of the factory
+     * @param metadataURI A URI describing the factory, may be empty
+     */
+    struct FactoryRegistration {
+        address factory;
+        bytes4 kind;
+        string version;
+        string metadataURI;
+    }
+
     // Custom errors
     error NotOwner();
     error FactoryAlreadyRegistered();
     error FactoryNotRegistered();
     error ZeroAddressNotAllowed();
+    error UnsupportedFactoryKind(address factory, bytes4 kind);
 
     // Events
-    event FactoryRegistered(address indexed factory);
+    event FactoryRegistered(
+        address indexed factory,
+        bytes4 indexed kind,
+        string version,
+        string metadataURI
+    );
     event FactoryUnregistered(address indexed factory);
 
     /**
-     * @dev Register a new factory address
+     * @dev Get the role administering every other role
+     * @return bytes32 The role identifier, equal to DEFAULT_ADMIN_ROLE
+     */
+    function SUPER_ADMIN_ROLE() external view returns (bytes32);
+
+    /**
+     * @dev Get the role allowed to register and unregister factories
+     * @return bytes32 The role identifier
+     */
+    function FACTORY_MANAGER_ROLE() external view returns (bytes32);
+
+    /**
+     * @dev Get the role allowed to create governments in registered factories
+     * @return bytes32 The role identifier
+     */
+    function GOVERNMENT_CREATOR_ROLE() external view returns (bytes32);
+
+    /**
+     * @dev Get the role allowed to pause and unpause the factory system
+     * @return bytes32 The role identifier
+     */
+    function PAUSER_ROLE() external view returns (bytes32);
+
+    /**
+     * @dev Register a new factory address with its metadata
+     * The factory must report support for its kind through ERC-165
      * @param factory The address of the factory to register
+     * @param kind The ERC-165 interface id identifying the kind of factory
+     * @param version The version of the factory
+     * @param metadataURI A URI describing the factory, may be empty
+     */
+    function registerFactory(
+        address factory,
+        bytes4 kind,
+        string calldata version,
+        string calldata metadataURI
+    ) external;
+
+    /**
+     * @dev Register several factories in one transaction
+     * Reverts with the error of the first factory that cannot be registered,
+     * in which case none of them is registered
+     * @param registrations The factories to register, with their metadata
      */
-    function registerFactory(address factory) external;
+    function registerFactories(
+        FactoryRegistration[] calldata registrations
+    ) external;
 
     /**
      * @dev Unregister an existing factory address
@@ -36,8 +123,54 @@ interface IBaseFactory {
     function isFactory(address factory) external view returns (bool);
 
     /**
-     * @dev Transfers ownership of the contract to a new account
-     * @param newOwner The address of the new owner
+     * @dev Get the metadata of a registered factory
+     * @param factory The address of the factory
+     * @return info The kind, version, metadata URI and registration timestamp
+     */
+    function getFactory(
+        address factory
+    ) external view returns (FactoryInfo memory info);
+
+    /**
+     * @dev Get the number of registered factories
+     * @return uint256 The number of registered factories
+     */
+    function factoryCount() external view returns (uint256);
+
+    /**
+     * @dev Get a page of registered factory addresses
+     * @param offset The index of the first factory to return
+     * @param limit The maximum number of factories to return
+     * @return factories The factory addresses in the requested page
+     */
+    function getFactories(
+        uint256 offset,
+        uint256 limit
+    ) external view returns (address[] memory factories);
+
+    /**
+     * @dev Get the registered factories of a kind
+     * @param kind The ERC-165 interface id of the kind
+     * @return factories The addresses of the factories of that kind
+     */
+    function factoriesOfKind(
+        bytes4 kind
+    ) external view returns (address[] memory factories);
+
+    /**
+     * @dev Pause the factory system: factories can no longer be registered and
+     * governments can no longer be created or changed, until it is unpaused
+     */
+    function pause() external;
+
+    /**
+     * @dev Unpause the factory system
+     */
+    function unpause() external;
+
+    /**
+     * @dev Check if the factory system is paused
+     * @return bool True if the system is paused, false otherwise
      */
-    function transferOwnership(address newOwner) external;
+    function paused() external view returns (bool);
 }
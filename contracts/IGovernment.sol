@@ -6,13 +6,402 @@ pragma solidity ^0.8.0;
  * @dev Interface for the Government contract
  */
 interface IGovernment {
+    /**
+     * @dev Lifecycle state of a proposal
+     * Active until its deadline, then Succeeded or Defeated depending on the votes
+     */
+    enum ProposalState {
+        Active,
+        Defeated,
+        Succeeded,
+        Executed,
+        Canceled
+    }
+
+    /**
+     * @dev A call the government makes once its citizens approve it
+     * @param proposer The owner or citizen who created the proposal
+     * @param target The contract called when the proposal is executed
+     * @param value The wei sent by the government with the call
+     * @param data The calldata of the call
+     * @param deadline The timestamp from which votes are no longer accepted
+     * @param quorumVotes The number of votes needed, from the citizens registered at creation
+     * @param forVotes The number of citizens who voted for, without the withdrawn votes
+     * @param againstVotes The number of citizens who voted against, without the withdrawn votes
+     * @param executed Whether the proposal was executed
+     * @param canceled Whether the proposal was canceled
+     * @param snapshotBlock The block before the proposal, only citizens registered by then can vote
+     */
+    struct Proposal {
+        address proposer;
+        address target;
+        uint256 value;
+        bytes data;
+        uint64 deadline;
+        uint256 quorumVotes;
+        uint256 forVotes;
+        uint256 againstVotes;
+        bool executed;
+        bool canceled;
+        uint256 snapshotBlock;
+    }
+
     // Custom errors
     error NotOwner();
     error ZeroAddressNotAllowed();
+    error CitizenAlreadyRegistered();
+    error CitizenNotRegistered();
+    error NotAllowedToPropose();
+    error NotAllowedToCancel();
+    error InvalidVotingRules();
+    error ProposalNotFound();
+    error ProposalNotActive();
+    error ProposalNotSucceeded();
+    error AlreadyVoted();
+    error CitizenRegisteredAfterProposal();
+    error VoteNotFound();
+    error VoterNotRevoked();
+    error KeyRegistryNotSet();
+    error InvalidSignature();
+    error SignatureExpired(uint256 deadline);
+    error SystemPaused();
+
+    // Events
+    event CitizenRegistered(address indexed citizen);
+    event CitizenRevoked(address indexed citizen);
+    event VotingRulesUpdated(uint64 votingPeriod, uint8 quorumPercent);
+    event ProposalCreated(
+        uint256 indexed proposalId,
+        address indexed proposer,
+        address target,
+        uint256 value,
+        bytes data,
+        string description,
+        uint64 deadline
+    );
+    event VoteCast(
+        uint256 indexed proposalId,
+        address indexed voter,
+        bool support
+    );
+    event VoteWithdrawn(uint256 indexed proposalId, address indexed voter);
+    event ProposalExecuted(uint256 indexed proposalId);
+    event ProposalCanceled(uint256 indexed proposalId);
+    event KeyRegistryUpdated(address indexed keyRegistry);
+
+    /**
+     * @dev Initialize a government proxy, recording the caller as the issuing factory
+     * @param governmentOwner The address that will own this government
+     */
+    function initialize(address governmentOwner) external;
+
+    /**
+     * @dev Register a new citizen address
+     * @param citizen The address of the citizen to register
+     */
+    function registerCitizen(address citizen) external;
+
+    /**
+     * @dev Register several citizen addresses in a single transaction
+     * @param citizens The addresses of the citizens to register
+     */
+    function registerCitizens(address[] calldata citizens) external;
+
+    /**
+     * @dev Revoke an existing citizen address
+     * @param citizen The address of the citizen to revoke
+     */
+    function revokeCitizen(address citizen) external;
+
+    /**
+     * @dev Check if an address is a registered citizen
+     * @param citizen The address to check
+     * @return bool True if the address is a registered citizen, false otherwise
+     */
+    function isCitizen(address citizen) external view returns (bool);
+
+    /**
+     * @dev Get the number of registered citizens
+     * @return uint256 The number of registered citizens
+     */
+    function citizenCount() external view returns (uint256);
+
+    /**
+     * @dev Get a page of registered citizen addresses
+     * @param offset The index of the first citizen to return
+     * @param limit The maximum number of citizens to return
+     * @return citizens The citizen addresses in the requested page
+     */
+    function getCitizens(
+        uint256 offset,
+        uint256 limit
+    ) external view returns (address[] memory citizens);
 
     /**
-     * @dev Transfers ownership of the contract to a new account
-     * @param newOwner The address of the new owner
+     * @dev Get the factory that created this government
+     * @return address The address of the issuing factory
+     */
+    function factory() external view returns (address);
+
+    /**
+     * @dev Check if the issuing factory is still registered in the BaseFactory
+     * @return bool True if the issuing factory is active, false otherwise
+     */
+    function isFactoryActive() external view returns (bool);
+
+    /**
+     * @dev Check if the BaseFactory of the issuing factory paused the factory system
+     * @return bool True if the system is paused, false otherwise
+     */
+    function isPaused() external view returns (bool);
+
+    /**
+     * @dev Propose a new owner, the transfer completes when it calls acceptOwnership
+     * Proposing the zero address cancels a pending transfer
+     * @param newOwner The address of the proposed owner
      */
     function transferOwnership(address newOwner) external;
+
+    /**
+     * @dev Accept a pending ownership transfer, only callable by the proposed owner
+     */
+    function acceptOwnership() external;
+
+    /**
+     * @dev Get the proposed owner of a pending ownership transfer
+     * @return address The proposed owner, or the zero address if none is pending
+     */
+    function pendingOwner() external view returns (address);
+
+    /**
+     * @dev Set how long proposals accept votes and the share of citizens that must vote
+     * @param votingPeriod The voting duration of new proposals, in seconds
+     * @param quorumPercent The percentage of citizens (1 to 100) whose votes are needed
+     */
+    function setVotingRules(uint64 votingPeriod, uint8 quorumPercent) external;
+
+    /**
+     * @dev Get the voting duration of new proposals
+     * @return uint64 The voting period in seconds
+     */
+    function votingPeriod() external view returns (uint64);
+
+    /**
+     * @dev Get the percentage of citizens whose votes are needed
+     * @return uint8 The quorum percentage
+     */
+    function quorumPercent() external view returns (uint8);
+
+    /**
+     * @dev Propose a call for the citizens to vote on
+     * @param target The contract to call once the proposal succeeds
+     * @param value The wei the government sends with the call
+     * @param data The calldata of the call
+     * @param description A human readable description of the proposal
+     * @return proposalId The identifier of the new proposal
+     */
+    function propose(
+        address target,
+        uint256 value,
+        bytes calldata data,
+        string calldata description
+    ) external returns (uint256 proposalId);
+
+    /**
+     * @dev Vote on an active proposal, once per citizen registered before it
+     * @param proposalId The identifier of the proposal
+     * @param support True to vote for, false to vote against
+     */
+    function castVote(uint256 proposalId, bool support) external;
+
+    /**
+     * @dev Withdraw the vote of a revoked citizen from an active proposal
+     * @param proposalId The identifier of the proposal
+     * @param voter The revoked citizen
+     */
+    function withdrawVote(uint256 proposalId, address voter) external;
+
+    /**
+     * @dev Execute a succeeded proposal as a call from the government
+     * @param proposalId The identifier of the proposal
+     * @return result The data returned by the call
+     */
+    function execute(uint256 proposalId) external returns (bytes memory result);
+
+    /**
+     * @dev Cancel an active proposal
+     * @param proposalId The identifier of the proposal
+     */
+    function cancel(uint256 proposalId) external;
+
+    /**
+     * @dev Get a proposal
+     * @param proposalId The identifier of the proposal
+     * @return Proposal The proposal
+     */
+    function getProposal(
+        uint256 proposalId
+    ) external view returns (Proposal memory);
+
+    /**
+     * @dev Get the current state of a proposal
+     * @param proposalId The identifier of the proposal
+     * @return ProposalState The state of the proposal
+     */
+    function proposalState(
+        uint256 proposalId
+    ) external view returns (ProposalState);
+
+    /**
+     * @dev Check if a citizen voted on a proposal
+     * @param proposalId The identifier of the proposal
+     * @param voter The address to check
+     * @return bool True if the address voted on the proposal and its vote was not withdrawn
+     */
+    function hasVoted(
+        uint256 proposalId,
+        address voter
+    ) external view returns (bool);
+
+    /**
+     * @dev Get the number of proposals created, which is also the latest proposal identifier
+     * @return uint256 The number of proposals
+     */
+    function proposalCount() external view returns (uint256);
+
+    /**
+     * @dev Set the Key registry resolving the current key of each citizen
+     * @param keyRegistry The Key contract, or the zero address to disable key signatures
+     */
+    function setKeyRegistry(address keyRegistry) external;
+
+    /**
+     * @dev Get the Key registry resolving the current key of each citizen
+     * @return address The Key contract, or the zero address if none is set
+     */
+    function keyRegistry() external view returns (address);
+
+    /**
+     * @dev Check if a signature was made by the current key of a registered citizen
+     * @param citizen The citizen account
+     * @param digest The hash that was signed, raw or eth_sign prefixed
+     * @param signature The signature to verify
+     * @return bool True if the citizen is registered and its current key signed the digest
+     */
+    function verifyCitizenSignature(
+        address citizen,
+        bytes32 digest,
+        bytes calldata signature
+    ) external view returns (bool);
+
+    /**
+     * @dev Vote on behalf of a citizen with a Ballot signed by its current key
+     * @param proposalId The identifier of the proposal
+     * @param support True to vote for, false to vote against
+     * @param citizen The citizen voting
+     * @param deadline The timestamp after which the signature is no longer valid
+     * @param signature The EIP-712 Ballot signature of the citizen's key
+     */
+    function castVoteBySig(
+        uint256 proposalId,
+        bool support,
+        address citizen,
+        uint256 deadline,
+        bytes calldata signature
+    ) external;
+
+    /**
+     * @dev Get the EIP-712 digest of a Ballot message
+     * @param proposalId The identifier of the proposal
+     * @param support True to vote for, false to vote against
+     * @param citizen The citizen voting
+     * @param nonce The signature nonce of the citizen
+     * @param deadline The timestamp after which the signature is no longer valid
+     * @return bytes32 The digest the citizen's key has to sign
+     */
+    function hashBallot(
+        uint256 proposalId,
+        bool support,
+        address citizen,
+        uint256 nonce,
+        uint256 deadline
+    ) external view returns (bytes32);
+
+    /**
+     * @dev Propose a call on behalf of a citizen with a Proposal signed by its current key
+     * @param target The contract to call once the proposal succeeds
+     * @param value The wei the government sends with the call
+     * @param data The calldata of the call
+     * @param description A human readable description of the proposal
+     * @param citizen The citizen proposing
+     * @param deadline The timestamp after which the signature is no longer valid
+     * @param signature The EIP-712 Proposal signature of the citizen's key
+     * @return proposalId The identifier of the new proposal
+     */
+    function proposeBySig(
+        address target,
+        uint256 value,
+        bytes calldata data,
+        string calldata description,
+        address citizen,
+        uint256 deadline,
+        bytes calldata signature
+    ) external returns (uint256 proposalId);
+
+    /**
+     * @dev Get the EIP-712 digest of a Proposal message
+     * @param target The contract to call once the proposal succeeds
+     * @param value The wei the government sends with the call
+     * @param data The calldata of the call
+     * @param description A human readable description of the proposal
+     * @param citizen The citizen proposing
+     * @param nonce The signature nonce of the citizen
+     * @param deadline The timestamp after which the signature is no longer valid
+     * @return bytes32 The digest the citizen's key has to sign
+     */
+    function hashProposal(
+        address target,
+        uint256 value,
+        bytes calldata data,
+        string calldata description,
+        address citizen,
+        uint256 nonce,
+        uint256 deadline
+    ) external view returns (bytes32);
+
+    /**
+     * @dev Cancel a proposal on behalf of its proposer with a Cancellation signed by its current key
+     * @param proposalId The identifier of the proposal
+     * @param citizen The citizen who proposed it
+     * @param deadline The timestamp after which the signature is no longer valid
+     * @param signature The EIP-712 Cancellation signature of the citizen's key
+     */
+    function cancelBySig(
+        uint256 proposalId,
+        address citizen,
+        uint256 deadline,
+        bytes calldata signature
+    ) external;
+
+    /**
+     * @dev Get the EIP-712 digest of a Cancellation message
+     * @param proposalId The identifier of the proposal
+     * @param citizen The citizen who proposed it
+     * @param nonce The signature nonce of the citizen
+     * @param deadline The timestamp after which the signature is no longer valid
+     * @return bytes32 The digest the citizen's key has to sign
+     */
+    function hashCancellation(
+        uint256 proposalId,
+        address citizen,
+        uint256 nonce,
+        uint256 deadline
+    ) external view returns (bytes32);
+
+    /**
+     * @dev Get the current signature nonce of a citizen
+     * @param citizen The citizen to look up
+     * @return uint256 The nonce the next Ballot, Proposal or Cancellation message must use
+     */
+    function nonces(address citizen) external view returns (uint256);
 }
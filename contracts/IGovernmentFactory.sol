@@ -1,18 +1,37 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.0;
 
+import "@openzeppelin/contracts/proxy/beacon/UpgradeableBeacon.sol";
+
 /**
  * @title IGovernmentFactory
  * @dev Interface for the GovernmentFactory contract
  */
 interface IGovernmentFactory {
+    // Creation metadata of a government
+    struct GovernmentInfo {
+        address creator;
+        address originalOwner;
+        uint256 createdAtBlock;
+    }
+
     // Custom errors
     error NotAuthorized();
     error ZeroAddressNotAllowed();
     error GovernmentAlreadyExists();
+    error FactoryNotRegistered();
+    error GovernmentNotFound();
+    error SystemPaused();
 
     // Events
     event GovernmentCreated(address indexed government, address indexed owner);
+    event ImplementationUpgraded(address indexed implementation);
+
+    /**
+     * @dev Get the kind the factory is registered with in the BaseFactory
+     * @return bytes4 The marker id bytes4(keccak256("poligov.factory.government"))
+     */
+    function FACTORY_KIND() external view returns (bytes4);
 
     /**
      * @dev Create a new government with the specified owner
@@ -23,10 +42,114 @@ interface IGovernmentFactory {
         address governmentOwner
     ) external returns (address);
 
+    /**
+     * @dev Create a government for each of the specified owners
+     * Reverts with the error of the first government that cannot be created,
+     * in which case none of them is created
+     * @param governmentOwners The addresses that will own the governments
+     * @return governments The addresses of the new governments, in the order of their owners
+     */
+    function createGovernments(
+        address[] calldata governmentOwners
+    ) external returns (address[] memory governments);
+
+    /**
+     * @dev Create a new government at a deterministic address using CREATE2
+     * @param governmentOwner The address that will own the government
+     * @param salt The salt used to derive the government address
+     * @return government The address of the newly created government
+     */
+    function createGovernmentDeterministic(
+        address governmentOwner,
+        bytes32 salt
+    ) external returns (address);
+
+    /**
+     * @dev Compute the address createGovernmentDeterministic deploys to
+     * @param governmentOwner The address that will own the government
+     * @param salt The salt used to derive the government address
+     * @return address The predicted address of the government
+     */
+    function predictGovernmentAddress(
+        address governmentOwner,
+        bytes32 salt
+    ) external view returns (address);
+
     /**
      * @dev Check if an address is a government created by this factory
      * @param government The address to check
      * @return bool True if the address is a government, false otherwise
      */
     function isGovernment(address government) external view returns (bool);
+
+    /**
+     * @dev Get the number of governments created by this factory
+     * @return uint256 The number of governments
+     */
+    function governmentCount() external view returns (uint256);
+
+    /**
+     * @dev Get a page of governments in creation order
+     * @param offset The index of the first government to return
+     * @param limit The maximum number of governments to return
+     * @return governments The government addresses in the requested page
+     */
+    function getGovernments(
+        uint256 offset,
+        uint256 limit
+    ) external view returns (address[] memory governments);
+
+    /**
+     * @dev Get the governments created for an owner, in creation order
+     * @param governmentOwner The original owner of the governments
+     * @return governments The government addresses
+     */
+    function governmentsOf(
+        address governmentOwner
+    ) external view returns (address[] memory governments);
+
+    /**
+     * @dev Get the creation metadata of a government
+     * @param government The address of the government
+     * @return info The creator, original owner and creation block
+     */
+    function getGovernmentInfo(
+        address government
+    ) external view returns (GovernmentInfo memory info);
+
+    /**
+     * @dev Check if this factory is currently registered in the BaseFactory
+     * @return bool True if the factory is registered, false otherwise
+     */
+    function isActive() external view returns (bool);
+
+    /**
+     * @dev Check if the BaseFactory paused the factory system
+     * @return bool True if the system is paused, false otherwise
+     */
+    function isPaused() external view returns (bool);
+
+    /**
+     * @dev Point every government created by this factory to a new implementation
+     * @param newImplementation The new Government implementation
+     */
+    function upgradeImplementation(address newImplementation) external;
+
+    /**
+     * @dev Get the beacon the governments created by this factory are proxies of
+     * @return beacon The UpgradeableBeacon owned by this factory
+     */
+    function beacon() external view returns (UpgradeableBeacon);
+
+    /**
+     * @dev Get the Government implementation the governments currently delegate to
+     * @return address The address of the implementation
+     */
+    function implementation() external view returns (address);
+
+    /**
+     * @dev Get the ERC-2771 forwarder trusted by the current Government implementation
+     * @return address The forwarder, or the zero address if meta-transactions are disabled
+     */
+    function trustedForwarder() external view returns (address);
 }
@@ -5,31 +5,220 @@ pragma solidity ^0.8.0;
  * @dev Interface for the Key contract with custom errors
  */
 interface IKey {
+    /**
+     * @dev A recovery started by an account's guardian
+     * @param newKey The key that replaces the account's key once completed
+     * @param executeAfter The timestamp from which the recovery can be completed
+     */
+    struct Recovery {
+        address newKey;
+        uint256 executeAfter;
+    }
+
+    /**
+     * @dev A key of an account
+     * @param key The key address
+     * @param purpose What the key is used for, e.g. SIGNING_PURPOSE
+     * @param expiresAt The timestamp from which the key is expired, 0 if it never expires
+     */
+    struct KeyInfo {
+        address key;
+        bytes32 purpose;
+        uint64 expiresAt;
+    }
+
     // Custom errors
     error InvalidKeyAddress();
     error KeyAlreadyExists();
     error NoKeyToReplace();
     error InvalidSignature();
+    error SignatureExpired(uint256 deadline);
+    error NoKeyToRevoke();
+    error InvalidGuardian();
+    error NotGuardian();
+    error RecoveryAlreadyPending();
+    error NoRecoveryPending();
+    error RecoveryNotReady(uint256 executeAfter);
+    error InvalidPurpose();
+    error InvalidExpiry();
+    error KeyNotFound();
 
     // Events
     event KeyAdded(address indexed account, address key);
     event KeyReplaced(address indexed account, address oldKey, address newKey);
+    event KeyRevoked(address indexed account, address key);
+    event GuardianSet(address indexed account, address guardian);
+    event RecoveryInitiated(
+        address indexed account,
+        address indexed guardian,
+        address newKey,
+        uint256 executeAfter
+    );
+    event RecoveryCancelled(address indexed account, address newKey);
+    event RecoveryCompleted(
+        address indexed account,
+        address oldKey,
+        address newKey
+    );
+    event PurposeKeyAdded(
+        address indexed account,
+        bytes32 indexed purpose,
+        address key,
+        uint64 expiresAt
+    );
+    event PurposeKeyRemoved(
+        address indexed account,
+        bytes32 indexed purpose,
+        address key
+    );
 
     /**
-     * @dev Add a new key for the sender
+     * @dev Add a new primary key for the sender
      * @param newKey The key to be added
      */
     function addKey(address newKey) external;
 
     /**
      * @dev Replace the existing key with a new one
+     * The old key must sign an EIP-712 KeyRotation message binding the sender,
+     * both keys, the sender's current nonce and the deadline
      * @param newKey The new key to replace the old one
-     * @param signature The signature of the combined old key and new key
+     * @param deadline The timestamp after which the signature is no longer valid
+     * @param signature The old key's signature of the KeyRotation message, see verifySignature
+     */
+    function replaceKey(
+        address newKey,
+        uint256 deadline,
+        bytes memory signature
+    ) external;
+
+    /**
+     * @dev Add a key for a purpose other than the primary one
+     * An account can hold several keys for the same purpose
+     * @param newKey The key to be added
+     * @param purpose What the key is used for, must not be PRIMARY_PURPOSE
+     * @param expiresAt The timestamp from which the key is expired, 0 if it never expires
+     */
+    function addPurposeKey(
+        address newKey,
+        bytes32 purpose,
+        uint64 expiresAt
+    ) external;
+
+    /**
+     * @dev Remove a key added with addPurposeKey
+     * @param key The key to be removed
+     * @param purpose The purpose the key was added for
+     */
+    function removePurposeKey(address key, bytes32 purpose) external;
+
+    /**
+     * @dev Get the primary key of an account
+     * @param account The account to look up
+     * @return address The primary key, or the zero address if none is set
+     */
+    function keys(address account) external view returns (address);
+
+    /**
+     * @dev Get every key of an account, expired ones included
+     * The primary key, if any, comes first with PRIMARY_PURPOSE
+     * @param account The account to look up
+     * @return KeyInfo[] The keys of the account
+     */
+    function getKeys(address account) external view returns (KeyInfo[] memory);
+
+    /**
+     * @dev Check if an account holds an unexpired key for a purpose
+     * @param account The account to look up
+     * @param key The key to check
+     * @param purpose The purpose to check, PRIMARY_PURPOSE for the primary key
+     * @return bool True if the key is held for the purpose and not expired
+     */
+    function hasKey(
+        address account,
+        address key,
+        bytes32 purpose
+    ) external view returns (bool);
+
+    /**
+     * @dev Revoke the sender's key, e.g. after it was compromised
+     * A new key can then be added with addKey
+     */
+    function revokeKey() external;
+
+    /**
+     * @dev Set the guardian allowed to recover the sender's key
+     * Changing the guardian cancels any pending recovery
+     * @param guardian The guardian, or the zero address to remove it
+     */
+    function setGuardian(address guardian) external;
+
+    /**
+     * @dev Start replacing an account's key, only callable by its guardian
+     * The recovery can be completed after RECOVERY_DELAY, giving the account
+     * time to cancel it
+     * @param account The account to recover
+     * @param newKey The key that replaces the account's key
+     */
+    function initiateRecovery(address account, address newKey) external;
+
+    /**
+     * @dev Cancel a pending recovery, callable by the account or its guardian
+     * @param account The account whose recovery is cancelled
+     */
+    function cancelRecovery(address account) external;
+
+    /**
+     * @dev Complete a pending recovery once its delay has passed,
+     * only callable by the account's guardian
+     * @param account The account to recover
      */
-    function replaceKey(address newKey, bytes memory signature) external;
+    function completeRecovery(address account) external;
+
+    /**
+     * @dev Get the guardian of an account
+     * @param account The account to look up
+     * @return address The guardian, or the zero address if none is set
+     */
+    function guardians(address account) external view returns (address);
+
+    /**
+     * @dev Get the pending recovery of an account
+     * @param account The account to look up
+     * @return Recovery The pending recovery, with a zero newKey if none is pending
+     */
+    function pendingRecovery(
+        address account
+    ) external view returns (Recovery memory);
+
+    /**
+     * @dev Get the current rotation nonce of an account
+     * @param account The account to look up
+     * @return uint256 The nonce the next KeyRotation message must use
+     */
+    function nonces(address account) external view returns (uint256);
+
+    /**
+     * @dev Get the EIP-712 digest of a KeyRotation message
+     * @param account The account whose key is rotated
+     * @param oldKey The key being replaced
+     * @param newKey The key replacing it
+     * @param nonce The rotation nonce of the account
+     * @param deadline The timestamp after which the signature is no longer valid
+     * @return bytes32 The digest the old key has to sign
+     */
+    function hashKeyRotation(
+        address account,
+        address oldKey,
+        address newKey,
+        uint256 nonce,
+        uint256 deadline
+    ) external view returns (bytes32);
 
     /**
      * @dev Verify if a signature is valid for a given message and signer
+     * The signature can be over the raw hash (e.g. an EIP-712 digest) or its
+     * eth_sign prefixed version. Contract signers are checked with EIP-1271
      * @param messageHash The hash of the message that was signed
      * @param signature The signature to verify
      * @param signer The address of the signer
@@ -39,5 +228,24 @@ interface IKey {
         bytes32 messageHash,
         bytes memory signature,
         address signer
-    ) external pure returns (bool);
+    ) external view returns (bool);
+
+    /**
+     * @dev Pause the registry, only callable by its owner
+     * Keys can no longer be added, rotated or recovered and guardians can no
+     * longer be set, until it is unpaused. Revoking keys and cancelling
+     * recoveries stay available.
+     */
+    function pause() external;
+
+    /**
+     * @dev Unpause the registry, only callable by its owner
+     */
+    function unpause() external;
+
+    /**
+     * @dev Check if the registry is paused
+     * @return bool True if the registry is paused, false otherwise
+     */
+    function paused() external view returns (bool);
 }
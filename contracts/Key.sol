@@ -1,72 +1,376 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.0;
 
-import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/access/Ownable2Step.sol";
+import "@openzeppelin/contracts/metatx/ERC2771Context.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
 import "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+import "@openzeppelin/contracts/utils/Nonces.sol";
+import "@openzeppelin/contracts/utils/Pausable.sol";
 import "./IKey.sol";
 
 /**
  * @title Key Management Contract
  * @dev Manages cryptographic keys associated with Ethereum addresses
  * Enables secure key addition and replacement with signature verification
+ * Key rotations are EIP-712 signed and replay protected by a per-account nonce
+ * Lost or compromised keys can be revoked, or recovered by a guardian after a delay
+ * Besides its primary key, an account can hold keys for other purposes, which may expire
+ * Accounts can act through an ERC-2771 trusted forwarder so a relayer pays the gas
+ * Keys can be EOAs or EIP-1271 contract wallets
+ * The owner, the deployer until it transfers ownership in two steps, can pause
+ * the registry independently of the factory system if a key is compromised
  */
-contract Key is IKey {
-    using ECDSA for bytes32;
+contract Key is IKey, EIP712, Nonces, ERC2771Context, Ownable2Step, Pausable {
     using MessageHashUtils for bytes32;
 
-    // Mapping from user address to their associated key
-    mapping(address => address) public keys;
+    bytes32 public constant KEY_ROTATION_TYPEHASH = keccak256(
+        "KeyRotation(address account,address oldKey,address newKey,uint256 nonce,uint256 deadline)"
+    );
+
+    // Purpose of the key managed by addKey, replaceKey, revokeKey and recovery
+    bytes32 public constant PRIMARY_PURPOSE = keccak256("PRIMARY");
+
+    // Well-known purposes for addPurposeKey, any other non-zero value is allowed
+    bytes32 public constant SIGNING_PURPOSE = keccak256("SIGNING");
+    bytes32 public constant ENCRYPTION_PURPOSE = keccak256("ENCRYPTION");
+    bytes32 public constant DEVICE_PURPOSE = keccak256("DEVICE");
+
+    // Delay between initiating and completing a recovery
+    uint256 public constant RECOVERY_DELAY = 2 days;
+
+    // Mapping from user address to their primary key
+    mapping(address => address) public override keys;
+
+    // Mapping from user address to its keys for other purposes
+    mapping(address => KeyInfo[]) private _purposeKeys;
+
+    // Position (index + 1) of a key in _purposeKeys, by account, purpose and key
+    mapping(address => mapping(bytes32 => mapping(address => uint256)))
+        private _purposeKeyPositions;
+
+    // Mapping from user address to the guardian allowed to recover its key
+    mapping(address => address) public override guardians;
+
+    // Mapping from user address to its pending recovery
+    mapping(address => Recovery) private _recoveries;
+
+    /**
+     * @dev Restricts a function to the guardian of an account
+     */
+    modifier onlyGuardian(address account) {
+        // The sender is never the zero address, so accounts without a guardian are rejected
+        if (_msgSender() != guardians[account]) {
+            revert NotGuardian();
+        }
+        _;
+    }
+
+    /**
+     * @dev Constructor that sets the trusted forwarder and makes the deployer the owner
+     * @param trustedForwarder The ERC-2771 forwarder, or the zero address to disable meta-transactions
+     */
+    constructor(
+        address trustedForwarder
+    ) EIP712("Key", "1") ERC2771Context(trustedForwarder) Ownable(msg.sender) {}
 
     /// @inheritdoc IKey
-    function addKey(address newKey) external override {
+    function addKey(address newKey) external override whenNotPaused {
+        address account = _msgSender();
+
         // Validate key address
         if (newKey == address(0)) {
             revert InvalidKeyAddress();
         }
 
         // Check if a key already exists
-        if (keys[msg.sender] != address(0)) {
+        if (keys[account] != address(0)) {
             revert KeyAlreadyExists();
         }
 
         // Store the key
-        keys[msg.sender] = newKey;
+        keys[account] = newKey;
 
         // Emit event
-        emit KeyAdded(msg.sender, newKey);
+        emit KeyAdded(account, newKey);
     }
 
     /// @inheritdoc IKey
     function replaceKey(
         address newKey,
+        uint256 deadline,
         bytes memory signature
-    ) external override {
+    ) external override whenNotPaused {
+        address account = _msgSender();
+
+        // Check if the signature is still valid
+        if (block.timestamp > deadline) {
+            revert SignatureExpired(deadline);
+        }
+
         // Validate new key address
         if (newKey == address(0)) {
             revert InvalidKeyAddress();
         }
 
         // Get the old key
-        address oldKey = keys[msg.sender];
+        address oldKey = keys[account];
 
         // Verify old key exists
         if (oldKey == address(0)) {
             revert NoKeyToReplace();
         }
 
-        // Hash the combination of old and new keys for verification
-        bytes32 messageHash = keccak256(abi.encodePacked(oldKey, newKey));
+        // Hash the rotation message, consuming the sender's nonce
+        bytes32 digest = hashKeyRotation(
+            account,
+            oldKey,
+            newKey,
+            _useNonce(account),
+            deadline
+        );
 
         // Verify the signature from the old key
-        if (!verifySignature(messageHash, signature, oldKey)) {
+        if (!verifySignature(digest, signature, oldKey)) {
             revert InvalidSignature();
         }
 
         // Update the key
-        keys[msg.sender] = newKey;
+        keys[account] = newKey;
 
         // Emit event
-        emit KeyReplaced(msg.sender, oldKey, newKey);
+        emit KeyReplaced(account, oldKey, newKey);
+    }
+
+    /// @inheritdoc IKey
+    function addPurposeKey(
+        address newKey,
+        bytes32 purpose,
+        uint64 expiresAt
+    ) external override whenNotPaused {
+        address account = _msgSender();
+
+        // Validate key address
+        if (newKey == address(0)) {
+            revert InvalidKeyAddress();
+        }
+
+        // The primary key is managed by addKey and replaceKey
+        if (purpose == bytes32(0) || purpose == PRIMARY_PURPOSE) {
+            revert InvalidPurpose();
+        }
+
+        // Check if the key would already be expired
+        if (expiresAt != 0 && expiresAt <= block.timestamp) {
+            revert InvalidExpiry();
+        }
+
+        // Check if the key is already held for this purpose
+        if (_purposeKeyPositions[account][purpose][newKey] != 0) {
+            revert KeyAlreadyExists();
+        }
+
+        // Store the key
+        KeyInfo[] storage accountKeys = _purposeKeys[account];
+        accountKeys.push(KeyInfo(newKey, purpose, expiresAt));
+        _purposeKeyPositions[account][purpose][newKey] = accountKeys.length;
+
+        // Emit event
+        emit PurposeKeyAdded(account, purpose, newKey, expiresAt);
+    }
+
+    /// @inheritdoc IKey
+    function removePurposeKey(address key, bytes32 purpose) external override {
+        address account = _msgSender();
+        uint256 position = _purposeKeyPositions[account][purpose][key];
+
+        // Verify the key exists
+        if (position == 0) {
+            revert KeyNotFound();
+        }
+
+        // Move the last key into the removed slot
+        KeyInfo[] storage accountKeys = _purposeKeys[account];
+        KeyInfo memory last = accountKeys[accountKeys.length - 1];
+        accountKeys[position - 1] = last;
+        _purposeKeyPositions[account][last.purpose][last.key] = position;
+        accountKeys.pop();
+        delete _purposeKeyPositions[account][purpose][key];
+
+        // Emit event
+        emit PurposeKeyRemoved(account, purpose, key);
+    }
+
+    /// @inheritdoc IKey
+    function getKeys(
+        address account
+    ) external view override returns (KeyInfo[] memory) {
+        KeyInfo[] storage accountKeys = _purposeKeys[account];
+        address primaryKey = keys[account];
+        uint256 offset = primaryKey == address(0) ? 0 : 1;
+
+        KeyInfo[] memory result = new KeyInfo[](accountKeys.length + offset);
+        if (offset == 1) {
+            result[0] = KeyInfo(primaryKey, PRIMARY_PURPOSE, 0);
+        }
+        for (uint256 i = 0; i < accountKeys.length; i++) {
+            result[i + offset] = accountKeys[i];
+        }
+        return result;
+    }
+
+    /// @inheritdoc IKey
+    function hasKey(
+        address account,
+        address key,
+        bytes32 purpose
+    ) external view override returns (bool) {
+        if (purpose == PRIMARY_PURPOSE) {
+            return key != address(0) && keys[account] == key;
+        }
+
+        uint256 position = _purposeKeyPositions[account][purpose][key];
+        if (position == 0) {
+            return false;
+        }
+
+        uint64 expiresAt = _purposeKeys[account][position - 1].expiresAt;
+        return expiresAt == 0 || block.timestamp < expiresAt;
+    }
+
+    /// @inheritdoc IKey
+    function revokeKey() external override {
+        address account = _msgSender();
+        address oldKey = keys[account];
+
+        // Verify a key exists
+        if (oldKey == address(0)) {
+            revert NoKeyToRevoke();
+        }
+
+        // Remove the key and invalidate rotations it already signed
+        delete keys[account];
+        _useNonce(account);
+
+        // Emit event
+        emit KeyRevoked(account, oldKey);
+    }
+
+    /// @inheritdoc IKey
+    function setGuardian(address guardian) external override whenNotPaused {
+        address account = _msgSender();
+
+        // An account cannot guard itself
+        if (guardian == account) {
+            revert InvalidGuardian();
+        }
+
+        // A pending recovery belongs to the previous guardian
+        _cancelRecovery(account);
+
+        guardians[account] = guardian;
+
+        // Emit event
+        emit GuardianSet(account, guardian);
+    }
+
+    /// @inheritdoc IKey
+    function initiateRecovery(
+        address account,
+        address newKey
+    ) external override onlyGuardian(account) whenNotPaused {
+        // Validate new key address
+        if (newKey == address(0)) {
+            revert InvalidKeyAddress();
+        }
+
+        // Check if a recovery is already pending
+        if (_recoveries[account].newKey != address(0)) {
+            revert RecoveryAlreadyPending();
+        }
+
+        uint256 executeAfter = block.timestamp + RECOVERY_DELAY;
+        _recoveries[account] = Recovery(newKey, executeAfter);
+
+        // Emit event
+        emit RecoveryInitiated(account, _msgSender(), newKey, executeAfter);
+    }
+
+    /// @inheritdoc IKey
+    function cancelRecovery(address account) external override {
+        address sender = _msgSender();
+
+        // Check if the caller is the account or its guardian
+        if (sender != account && sender != guardians[account]) {
+            revert NotGuardian();
+        }
+
+        // Check if a recovery is pending
+        if (!_cancelRecovery(account)) {
+            revert NoRecoveryPending();
+        }
+    }
+
+    /// @inheritdoc IKey
+    function completeRecovery(
+        address account
+    ) external override onlyGuardian(account) whenNotPaused {
+        Recovery memory recovery = _recoveries[account];
+
+        // Check if a recovery is pending and its delay has passed
+        if (recovery.newKey == address(0)) {
+            revert NoRecoveryPending();
+        }
+        if (block.timestamp < recovery.executeAfter) {
+            revert RecoveryNotReady(recovery.executeAfter);
+        }
+
+        // Replace the key and invalidate rotations the old key already signed
+        address oldKey = keys[account];
+        keys[account] = recovery.newKey;
+        delete _recoveries[account];
+        _useNonce(account);
+
+        // Emit event
+        emit RecoveryCompleted(account, oldKey, recovery.newKey);
+    }
+
+    /// @inheritdoc IKey
+    function pendingRecovery(
+        address account
+    ) external view override returns (Recovery memory) {
+        return _recoveries[account];
+    }
+
+    /// @inheritdoc IKey
+    function nonces(
+        address account
+    ) public view override(IKey, Nonces) returns (uint256) {
+        return super.nonces(account);
+    }
+
+    /// @inheritdoc IKey
+    function hashKeyRotation(
+        address account,
+        address oldKey,
+        address newKey,
+        uint256 nonce,
+        uint256 deadline
+    ) public view override returns (bytes32) {
+        return
+            _hashTypedDataV4(
+                keccak256(
+                    abi.encode(
+                        KEY_ROTATION_TYPEHASH,
+                        account,
+                        oldKey,
+                        newKey,
+                        nonce,
+                        deadline
+                    )
+                )
+            );
     }
 
     /// @inheritdoc IKey
@@ -74,9 +378,89 @@ contract Key is IKey {
         bytes32 messageHash,
         bytes memory signature,
         address signer
-    ) public pure override returns (bool) {
-        bytes32 ethSignedMessageHash = messageHash.toEthSignedMessageHash();
-        address recoveredSigner = ethSignedMessageHash.recover(signature);
-        return recoveredSigner == signer;
+    ) public view override returns (bool) {
+        // Raw digests, e.g. EIP-712 typed data
+        if (
+            SignatureChecker.isValidSignatureNow(signer, messageHash, signature)
+        ) {
+            return true;
+        }
+
+        // Digests signed with eth_sign / personal_sign
+        return
+            SignatureChecker.isValidSignatureNow(
+                signer,
+                messageHash.toEthSignedMessageHash(),
+                signature
+            );
+    }
+
+    /// @inheritdoc IKey
+    function pause() external override onlyOwner {
+        _pause();
+    }
+
+    /// @inheritdoc IKey
+    function unpause() external override onlyOwner {
+        _unpause();
+    }
+
+    /// @inheritdoc IKey
+    function paused() public view override(IKey, Pausable) returns (bool) {
+        return super.paused();
+    }
+
+    /**
+     * @dev The sender of the call, or the signer of a request relayed by the trusted forwarder
+     */
+    function _msgSender()
+        internal
+        view
+        override(Context, ERC2771Context)
+        returns (address)
+    {
+        return ERC2771Context._msgSender();
+    }
+
+    /**
+     * @dev The calldata of the call, without the signer appended by the trusted forwarder
+     */
+    function _msgData()
+        internal
+        view
+        override(Context, ERC2771Context)
+        returns (bytes calldata)
+    {
+        return ERC2771Context._msgData();
+    }
+
+    /**
+     * @dev Length of the signer address appended by the trusted forwarder
+     */
+    function _contextSuffixLength()
+        internal
+        view
+        override(Context, ERC2771Context)
+        returns (uint256)
+    {
+        return ERC2771Context._contextSuffixLength();
+    }
+
+    /**
+     * @dev Cancel the pending recovery of an account, if any
+     * @param account The account whose recovery is cancelled
+     * @return bool True if a recovery was pending
+     */
+    function _cancelRecovery(address account) private returns (bool) {
+        address newKey = _recoveries[account].newKey;
+        if (newKey == address(0)) {
+            return false;
+        }
+
+        delete _recoveries[account];
+
+        // Emit event
+        emit RecoveryCancelled(account, newKey);
+        return true;
     }
 }
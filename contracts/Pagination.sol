@@ -0,0 +1,30 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+/**
+ * @title Pagination
+ * @dev Page arithmetic shared by the paged getters
+ * A limit of type(uint256).max reads every item from the offset to the end
+ */
+library Pagination {
+    /**
+     * @dev Get the end of a page, clamped to the length of the list
+     * Compares the limit with the remaining items instead of adding it to the
+     * offset, so no limit overflows
+     * @param total The number of items in the list
+     * @param offset The index of the first item of the page
+     * @param limit The maximum number of items of the page
+     * @return end The index after the last item of the page, the offset itself
+     * when the page is empty
+     */
+    function pageEnd(
+        uint256 total,
+        uint256 offset,
+        uint256 limit
+    ) internal pure returns (uint256 end) {
+        if (offset >= total) {
+            return offset;
+        }
+        return limit > total - offset ? total : offset + limit;
+    }
+}
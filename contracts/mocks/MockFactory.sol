@@ -0,0 +1,25 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import "@openzeppelin/contracts/utils/introspection/ERC165.sol";
+
+/**
+ * @title MockFactory
+ * @dev Factory of an arbitrary kind for tests, it only answers ERC-165 queries
+ */
+contract MockFactory is ERC165 {
+    // Kind the factory reports support for
+    bytes4 public immutable FACTORY_KIND;
+
+    constructor(bytes4 kind) {
+        FACTORY_KIND = kind;
+    }
+
+    /// @inheritdoc ERC165
+    function supportsInterface(
+        bytes4 interfaceId
+    ) public view override returns (bool) {
+        return
+            interfaceId == FACTORY_KIND || super.supportsInterface(interfaceId);
+    }
+}
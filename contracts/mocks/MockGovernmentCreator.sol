@@ -0,0 +1,30 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import "../IGovernmentFactory.sol";
+
+/**
+ * @title MockGovernmentCreator
+ * @dev Government creator for tests that emits a GovernmentCreated event of its
+ * own before creating a government, in the same transaction, through a factory
+ */
+contract MockGovernmentCreator {
+    // Same signature as the event of the factory
+    event GovernmentCreated(address indexed government, address indexed owner);
+
+    /**
+     * @dev Report a government that does not exist, then create a real one
+     * @param factory The factory creating the government
+     * @param decoy The address reported by this contract's own event
+     * @param governmentOwner The address that will own the government
+     * @return government The address of the government created by the factory
+     */
+    function createGovernment(
+        IGovernmentFactory factory,
+        address decoy,
+        address governmentOwner
+    ) external returns (address government) {
+        emit GovernmentCreated(decoy, governmentOwner);
+        return factory.createGovernment(governmentOwner);
+    }
+}
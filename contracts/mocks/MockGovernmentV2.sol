@@ -0,0 +1,45 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import "../Government.sol";
+
+/**
+ * @title MockGovernmentV2
+ * @dev Government implementation upgrade for tests
+ * Adds a motto in its own namespaced storage, next to the existing government state
+ */
+contract MockGovernmentV2 is Government {
+    /// @custom:storage-location erc7201:poligov.storage.MockGovernmentV2
+    struct MockGovernmentV2Storage {
+        string motto;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("poligov.storage.MockGovernmentV2")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant MOCK_GOVERNMENT_V2_STORAGE_LOCATION =
+        0xc2d79b09fe09ea9d35af09edd3dd70da4918b4e25d356ecd7456d3468a8d9400;
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor(address trustedForwarder) Government(trustedForwarder) {}
+
+    function version() external pure returns (uint256) {
+        return 2;
+    }
+
+    function motto() external view returns (string memory) {
+        return _getMockGovernmentV2Storage().motto;
+    }
+
+    function setMotto(string calldata newMotto) external onlyOwner {
+        _getMockGovernmentV2Storage().motto = newMotto;
+    }
+
+    function _getMockGovernmentV2Storage()
+        private
+        pure
+        returns (MockGovernmentV2Storage storage $)
+    {
+        assembly {
+            $.slot := MOCK_GOVERNMENT_V2_STORAGE_LOCATION
+        }
+    }
+}
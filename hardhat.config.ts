@@ -1,8 +1,34 @@
 import type { HardhatUserConfig } from "hardhat/config";
+import type { NetworksUserConfig } from "hardhat/types";
 import "@nomicfoundation/hardhat-toolbox-viem";
 
+import "./tasks";
+
+// Live networks are enabled by setting <NAME>_RPC_URL, e.g. SEPOLIA_RPC_URL,
+// and send transactions from DEPLOYER_PRIVATE_KEY
+const liveNetworks = ["mainnet", "sepolia", "polygon", "amoy"];
+
+function networksFromEnv(): NetworksUserConfig {
+  const deployer = process.env.DEPLOYER_PRIVATE_KEY;
+  const accounts = deployer ? [deployer] : [];
+
+  const networks: NetworksUserConfig = {
+    localhost: {
+      url: process.env.LOCALHOST_RPC_URL ?? "http://127.0.0.1:8545",
+    },
+  };
+  for (const name of liveNetworks) {
+    const url = process.env[`${name.toUpperCase()}_RPC_URL`];
+    if (url) {
+      networks[name] = { url, accounts };
+    }
+  }
+  return networks;
+}
+
 const config: HardhatUserConfig = {
   solidity: "0.8.28",
+  networks: networksFromEnv(),
 };
 
 export default config;
@@ -0,0 +1,19 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+/**
+ * Deploys the BaseFactory registry, granting every role to the deployer account.
+ * A super admin proposed later waits `adminTransferDelay` seconds (none by
+ * default) before it can accept the role.
+ */
+const BaseFactoryModule = buildModule("BaseFactoryModule", (m) => {
+  const deployer = m.getAccount(0);
+  const adminTransferDelay = m.getParameter("adminTransferDelay", 0);
+
+  const baseFactory = m.contract("BaseFactory", [adminTransferDelay], {
+    from: deployer,
+  });
+
+  return { baseFactory };
+});
+
+export default BaseFactoryModule;
@@ -0,0 +1,12 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+/**
+ * Deploys the ERC-2771 Forwarder trusted by Key and the governments
+ */
+const ForwarderModule = buildModule("ForwarderModule", (m) => {
+  const forwarder = m.contract("Forwarder", [], { from: m.getAccount(0) });
+
+  return { forwarder };
+});
+
+export default ForwarderModule;
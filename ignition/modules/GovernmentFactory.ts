@@ -0,0 +1,49 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+import BaseFactoryModule from "./BaseFactory";
+import ForwarderModule from "./Forwarder";
+
+/**
+ * Deploys the Government implementation and a GovernmentFactory creating
+ * beacon proxies of it, then registers the factory in the BaseFactory with
+ * the kind it declares, its `version` and `metadataURI` parameters.
+ * Governments it creates trust the Forwarder for meta-transactions.
+ * The GovernmentFactory constructor reverts with NotAuthorized unless it is
+ * deployed by a BaseFactory factory manager, so both are sent from the deployer
+ * account, which holds every role of the BaseFactory it deployed.
+ */
+const GovernmentFactoryModule = buildModule("GovernmentFactoryModule", (m) => {
+  const deployer = m.getAccount(0);
+  const { baseFactory } = m.useModule(BaseFactoryModule);
+  const { forwarder } = m.useModule(ForwarderModule);
+
+  const governmentImplementation = m.contract("Government", [forwarder], {
+    from: deployer,
+  });
+  const governmentFactory = m.contract(
+    "GovernmentFactory",
+    [baseFactory, governmentImplementation],
+    { from: deployer }
+  );
+
+  m.call(
+    baseFactory,
+    "registerFactory",
+    [
+      governmentFactory,
+      m.staticCall(governmentFactory, "FACTORY_KIND"),
+      m.getParameter("version", "1.0.0"),
+      m.getParameter("metadataURI", ""),
+    ],
+    { from: deployer }
+  );
+
+  return {
+    baseFactory,
+    forwarder,
+    governmentImplementation,
+    governmentFactory,
+  };
+});
+
+export default GovernmentFactoryModule;
@@ -0,0 +1,16 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+import ForwarderModule from "./Forwarder";
+
+/**
+ * Deploys the Key registry, trusting the Forwarder for meta-transactions
+ */
+const KeyModule = buildModule("KeyModule", (m) => {
+  const { forwarder } = m.useModule(ForwarderModule);
+
+  const key = m.contract("Key", [forwarder], { from: m.getAccount(0) });
+
+  return { forwarder, key };
+});
+
+export default KeyModule;
@@ -0,0 +1,53 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+import GovernmentFactoryModule from "./GovernmentFactory";
+import KeyModule from "./Key";
+
+/**
+ * Deploys the whole stack: BaseFactory, a registered GovernmentFactory, Key
+ * and the Forwarder both of them trust.
+ * Once the GovernmentFactory is registered, the factory manager, government
+ * creator and pauser roles are granted to the `factoryManager`,
+ * `governmentCreator` and `pauser` parameters (the deployer by default), and
+ * the super admin role and the ownership of Key are proposed to the `admin`
+ * parameter. `admin` has no default: it must be another account than the
+ * deployer, which would otherwise be left with transfers to itself pending.
+ * Both transfers complete when `admin` accepts them, the deployer keeps its
+ * other roles until it renounces them.
+ */
+const PoligovModule = buildModule("PoligovModule", (m) => {
+  const deployer = m.getAccount(0);
+  const admin = m.getParameter<string>("admin");
+  const factoryManager = m.getParameter("factoryManager", deployer);
+  const governmentCreator = m.getParameter("governmentCreator", deployer);
+  const pauser = m.getParameter("pauser", deployer);
+
+  const { baseFactory, forwarder, governmentFactory } = m.useModule(
+    GovernmentFactoryModule
+  );
+  const { key } = m.useModule(KeyModule);
+
+  const roles = [
+    ["FACTORY_MANAGER_ROLE", factoryManager],
+    ["GOVERNMENT_CREATOR_ROLE", governmentCreator],
+    ["PAUSER_ROLE", pauser],
+  ] as const;
+  for (const [role, account] of roles) {
+    m.call(
+      baseFactory,
+      "grantRole",
+      [m.staticCall(baseFactory, role), account],
+      { id: `grant_${role}`, from: deployer, after: [GovernmentFactoryModule] }
+    );
+  }
+
+  m.call(baseFactory, "beginDefaultAdminTransfer", [admin], {
+    from: deployer,
+    after: [GovernmentFactoryModule],
+  });
+  m.call(key, "transferOwnership", [admin], { from: deployer });
+
+  return { baseFactory, forwarder, governmentFactory, key };
+});
+
+export default PoligovModule;
@@ -0,0 +1,365 @@
+import {
+  keccak256,
+  slice,
+  toHex,
+  zeroHash,
+  type Abi,
+  type Address,
+  type Hash,
+  type Hex,
+  type WalletClient,
+} from "viem";
+
+import { baseFactoryAbi } from "./abis";
+import { ContractClient, type ContractClientConfig } from "./ContractClient";
+
+/**
+ * Roles of the BaseFactory
+ */
+export const BaseFactoryRole = {
+  /** Grants and revokes every role, the OpenZeppelin DEFAULT_ADMIN_ROLE */
+  SUPER_ADMIN: zeroHash,
+  /** Registers and unregisters factories */
+  FACTORY_MANAGER: keccak256(toHex("FACTORY_MANAGER_ROLE")),
+  /** Creates governments in registered factories */
+  GOVERNMENT_CREATOR: keccak256(toHex("GOVERNMENT_CREATOR_ROLE")),
+  /** Pauses and unpauses the factory system */
+  PAUSER: keccak256(toHex("PAUSER_ROLE")),
+} as const;
+
+/**
+ * Kinds of factories, the ERC-165 id a factory is registered with.
+ * Each kind is a fixed marker, so new versions of a factory keep its kind.
+ */
+export const FactoryKind = {
+  /** A GovernmentFactory, bytes4(keccak256("poligov.factory.government")) */
+  GOVERNMENT_FACTORY: slice(
+    keccak256(toHex("poligov.factory.government")),
+    0,
+    4
+  ),
+} as const;
+
+/**
+ * A factory to register in the BaseFactory
+ */
+export interface FactoryRegistration {
+  /** The address of the factory */
+  factory: Address;
+  /** The ERC-165 interface id the factory supports, see FactoryKind */
+  kind: Hex;
+  /** The version of the factory, e.g. "1.0.0" */
+  version: string;
+  /** A URI describing the factory, empty by default */
+  metadataURI?: string;
+}
+
+/**
+ * Registration metadata of a factory
+ */
+export interface FactoryInfo {
+  /** The ERC-165 interface id the factory was registered with */
+  kind: Hex;
+  /** The version of the factory */
+  version: string;
+  /** A URI describing the factory, possibly empty */
+  metadataURI: string;
+  /** Timestamp (in seconds) of the registration */
+  registeredAt: bigint;
+}
+
+/**
+ * A proposed super admin of the BaseFactory
+ */
+export interface PendingDefaultAdmin {
+  /** The proposed super admin, or the zero address if no transfer is pending */
+  newAdmin: Address;
+  /** Timestamp (in seconds) from which the proposed super admin can accept */
+  acceptSchedule: number;
+}
+
+/**
+ * Typed client for the BaseFactory contract
+ */
+export class BaseFactoryClient extends ContractClient<typeof baseFactoryAbi> {
+  constructor(config: ContractClientConfig) {
+    super(baseFactoryAbi, config);
+  }
+
+  connect(walletClient: WalletClient): BaseFactoryClient {
+    return new BaseFactoryClient({
+      address: this.address,
+      publicClient: this.publicClient,
+      walletClient,
+    });
+  }
+
+  /**
+   * Get the super admin of the BaseFactory
+   */
+  async owner(): Promise<Address> {
+    return this.call(() => this.contract.read.owner());
+  }
+
+  /**
+   * Get the pending transfer of the super admin role
+   */
+  async pendingDefaultAdmin(): Promise<PendingDefaultAdmin> {
+    const [newAdmin, acceptSchedule] = await this.call(() =>
+      this.contract.read.pendingDefaultAdmin()
+    );
+    return { newAdmin, acceptSchedule };
+  }
+
+  /**
+   * Seconds a proposed super admin waits before it can accept the transfer
+   */
+  async defaultAdminDelay(): Promise<number> {
+    return this.call(() => this.contract.read.defaultAdminDelay());
+  }
+
+  /**
+   * Check if an address is a registered factory
+   * @param factory The address to check
+   */
+  async isFactory(factory: Address): Promise<boolean> {
+    return this.call(() => this.contract.read.isFactory([factory]));
+  }
+
+  /**
+   * Get the registration metadata of a factory, which must be registered
+   * @param factory The address of the factory
+   */
+  async getFactory(factory: Address): Promise<FactoryInfo> {
+    return this.call(() => this.contract.read.getFactory([factory]));
+  }
+
+  /**
+   * Get the number of registered factories
+   */
+  async factoryCount(): Promise<bigint> {
+    return this.call(() => this.contract.read.factoryCount());
+  }
+
+  /**
+   * Get a page of registered factory addresses.
+   * The order is not guaranteed to be stable across unregistrations.
+   * @param offset The index of the first factory to return
+   * @param limit The maximum number of factories to return
+   */
+  async getFactories(
+    offset: bigint,
+    limit: bigint
+  ): Promise<readonly Address[]> {
+    return this.call(() => this.contract.read.getFactories([offset, limit]));
+  }
+
+  /**
+   * Get the registered factories of a kind
+   * @param kind The ERC-165 interface id of the kind, see FactoryKind
+   */
+  async factoriesOfKind(kind: Hex): Promise<readonly Address[]> {
+    return this.call(() => this.contract.read.factoriesOfKind([kind]));
+  }
+
+  /**
+   * Check if the factory system is paused
+   */
+  async paused(): Promise<boolean> {
+    return this.call(() => this.contract.read.paused());
+  }
+
+  /**
+   * Check if an account has a role
+   * @param role The role, e.g. BaseFactoryRole.FACTORY_MANAGER
+   * @param account The account to check
+   */
+  async hasRole(role: Hex, account: Address): Promise<boolean> {
+    return this.call(() => this.contract.read.hasRole([role, account]));
+  }
+
+  /**
+   * Get the role allowed to grant and revoke a role
+   * @param role The role to look up
+   */
+  async getRoleAdmin(role: Hex): Promise<Hex> {
+    return this.call(() => this.contract.read.getRoleAdmin([role]));
+  }
+
+  /**
+   * Register a new factory with its metadata.
+   * The factory must report support for its kind through ERC-165.
+   * @param registration The factory, its kind, version and metadata URI
+   * @returns The transaction hash
+   */
+  async registerFactory({
+    factory,
+    kind,
+    version,
+    metadataURI = "",
+  }: FactoryRegistration): Promise<Hash> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.registerFactory(
+        [factory, kind, version, metadataURI],
+        { account }
+      )
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Register several factories in one transaction.
+   * Nothing is registered if any of them cannot be.
+   * @param registrations The factories, with their kind, version and metadata URI
+   * @returns The transaction hash
+   */
+  async registerFactories(
+    registrations: readonly FactoryRegistration[]
+  ): Promise<Hash> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.registerFactories(
+        [
+          registrations.map(({ metadataURI = "", ...registration }) => ({
+            ...registration,
+            metadataURI,
+          })),
+        ],
+        { account }
+      )
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Unregister an existing factory address
+   * @param factory The address of the factory to unregister
+   * @returns The transaction hash
+   */
+  async unregisterFactory(factory: Address): Promise<Hash> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.unregisterFactory([factory], { account })
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Pause the factory system, from a pauser. Factories can no longer be
+   * registered and governments can no longer be created or changed.
+   * @returns The transaction hash
+   */
+  async pause(): Promise<Hash> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.pause({ account })
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Unpause the factory system, from a pauser
+   * @returns The transaction hash
+   */
+  async unpause(): Promise<Hash> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.unpause({ account })
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Propose a new super admin, who accepts once the delay has passed.
+   * Proposing again replaces the pending transfer.
+   * @param newAdmin The address of the proposed super admin
+   * @returns The transaction hash
+   */
+  async beginDefaultAdminTransfer(newAdmin: Address): Promise<Hash> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.beginDefaultAdminTransfer([newAdmin], { account })
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Accept a pending super admin transfer, from the proposed super admin
+   * @returns The transaction hash
+   */
+  async acceptDefaultAdminTransfer(): Promise<Hash> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.acceptDefaultAdminTransfer({ account })
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Cancel a pending super admin transfer, from the current super admin
+   * @returns The transaction hash
+   */
+  async cancelDefaultAdminTransfer(): Promise<Hash> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.cancelDefaultAdminTransfer({ account })
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Schedule a change of the super admin transfer delay
+   * @param newDelay The new delay in seconds
+   * @returns The transaction hash
+   */
+  async changeDefaultAdminDelay(newDelay: number): Promise<Hash> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.changeDefaultAdminDelay([newDelay], { account })
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Grant a role to an account, the caller must hold the role's admin role
+   * @param role The role to grant
+   * @param account The account receiving the role
+   * @returns The transaction hash
+   */
+  async grantRole(role: Hex, account: Address): Promise<Hash> {
+    const receipt = await this.send((sender) =>
+      this.contract.simulate.grantRole([role, account], { account: sender })
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Revoke a role from an account, the caller must hold the role's admin role
+   * @param role The role to revoke
+   * @param account The account losing the role
+   * @returns The transaction hash
+   */
+  async revokeRole(role: Hex, account: Address): Promise<Hash> {
+    const receipt = await this.send((sender) =>
+      this.contract.simulate.revokeRole([role, account], { account: sender })
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Give up a role held by the connected account
+   * @param role The role to renounce
+   * @returns The transaction hash
+   */
+  async renounceRole(role: Hex): Promise<Hash> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.renounceRole([role, account], { account })
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Run several BaseFactory calls in one transaction, each from the connected
+   * account. Every call reverts if one of them does.
+   * @param data The calldata of each call, e.g. from encodeFunctionData with baseFactoryAbi
+   * @returns The transaction hash
+   */
+  async multicall(data: readonly Hex[]): Promise<Hash> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.multicall([data], { account })
+    );
+    return receipt.transactionHash;
+  }
+}
@@ -0,0 +1,102 @@
+import {
+  getContract,
+  type Abi,
+  type Account,
+  type Address,
+  type GetContractReturnType,
+  type PublicClient,
+  type TransactionReceipt,
+  type WalletClient,
+} from "viem";
+
+import { decodeContractError } from "./errors";
+
+/**
+ * Options shared by every contract client
+ */
+export interface ContractClientConfig {
+  /** Address of the deployed contract */
+  address: Address;
+  /** Client used for reads, simulations and receipts */
+  publicClient: PublicClient;
+  /** Client used to send transactions, required by write methods */
+  walletClient?: WalletClient;
+}
+
+/**
+ * Base class for the typed contract clients.
+ * Writes are simulated first so reverts surface as typed ContractErrors,
+ * then sent with the wallet client and awaited until mined.
+ */
+export abstract class ContractClient<TAbi extends Abi> {
+  readonly address: Address;
+  readonly abi: TAbi;
+  readonly publicClient: PublicClient;
+  readonly walletClient?: WalletClient;
+  /** Underlying viem contract instance, useful for events and raw reads */
+  readonly contract: GetContractReturnType<TAbi, PublicClient>;
+
+  constructor(abi: TAbi, config: ContractClientConfig) {
+    this.abi = abi;
+    this.address = config.address;
+    this.publicClient = config.publicClient;
+    this.walletClient = config.walletClient;
+    this.contract = getContract({
+      abi,
+      address: config.address,
+      client: config.publicClient,
+    });
+  }
+
+  /**
+   * Create a client for the same contract that sends transactions from another wallet
+   * @param walletClient The wallet client to send transactions with
+   */
+  abstract connect(walletClient: WalletClient): ContractClient<TAbi>;
+
+  /**
+   * The account used to send transactions
+   */
+  protected get account(): Account {
+    if (!this.walletClient?.account) {
+      throw new Error("A wallet client with an account is required to send transactions");
+    }
+    return this.walletClient.account;
+  }
+
+  /**
+   * Run a read call, mapping reverts to typed ContractErrors
+   * @param call The read call to run
+   */
+  protected async call<T>(call: () => Promise<T>): Promise<T> {
+    try {
+      return await call();
+    } catch (error) {
+      throw decodeContractError(error);
+    }
+  }
+
+  /**
+   * Simulate, send and wait for a transaction
+   * @param simulate Simulates the call from the given address and returns the request to send
+   * @returns The receipt of the mined transaction
+   */
+  protected async send(
+    simulate: (account: Address) => Promise<{ request: object }>
+  ): Promise<TransactionReceipt> {
+    const account = this.account;
+    const walletClient = this.walletClient as WalletClient;
+
+    try {
+      const { request } = await simulate(account.address);
+      // Send with the full account so local accounts sign the transaction themselves
+      const hash = await walletClient.writeContract({
+        ...request,
+        account,
+      } as Parameters<WalletClient["writeContract"]>[0]);
+      return await this.publicClient.waitForTransactionReceipt({ hash });
+    } catch (error) {
+      throw decodeContractError(error);
+    }
+  }
+}
@@ -0,0 +1,194 @@
+import type { Address, Hash, Hex, WalletClient } from "viem";
+
+import { forwarderAbi } from "./abis";
+import { ContractClient, type ContractClientConfig } from "./ContractClient";
+
+/**
+ * A call to relay through the Forwarder on behalf of its signer
+ */
+export interface ForwardRequest {
+  /** The account the call is made for, i.e. the signer */
+  from: Address;
+  /** The contract to call, it must trust the Forwarder */
+  to: Address;
+  /** Wei sent with the call */
+  value: bigint;
+  /** Gas forwarded to the call */
+  gas: bigint;
+  /** The current Forwarder nonce of the signer */
+  nonce: bigint;
+  /** Timestamp (in seconds) after which the request is no longer valid */
+  deadline: number;
+  /** Calldata of the call */
+  data: Hex;
+}
+
+/**
+ * A signed ForwardRequest, as accepted by Forwarder.execute.
+ * The nonce is not part of it, the Forwarder checks the signature against the current one.
+ */
+export interface SignedForwardRequest extends Omit<ForwardRequest, "nonce"> {
+  signature: Hex;
+}
+
+/**
+ * The EIP-712 domain of a deployed Forwarder
+ */
+export interface ForwarderDomain {
+  /** The chain the Forwarder is deployed on */
+  chainId: number;
+  /** The address of the Forwarder */
+  verifyingContract: Address;
+}
+
+/**
+ * Parameters of ForwarderClient.createRequest
+ */
+export interface CreateForwardRequestParameters {
+  from: Address;
+  to: Address;
+  data: Hex;
+  /** Timestamp (in seconds) after which the request is no longer valid */
+  deadline: number;
+  /** Wei sent with the call (default 0) */
+  value?: bigint;
+  /** Gas forwarded to the call, estimated from the signer by default */
+  gas?: bigint;
+}
+
+/** EIP-712 types of the ForwardRequest message */
+export const forwardRequestTypes = {
+  ForwardRequest: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "gas", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint48" },
+    { name: "data", type: "bytes" },
+  ],
+} as const;
+
+/**
+ * Sign a request to relay through the Forwarder
+ * @param signer The wallet client of the request's `from` account
+ * @param domain The domain of the Forwarder
+ * @param request The request to sign
+ * @returns The signed request expected by Forwarder.execute
+ */
+export async function signForwardRequest(
+  signer: WalletClient,
+  domain: ForwarderDomain,
+  request: ForwardRequest
+): Promise<SignedForwardRequest> {
+  if (!signer.account) {
+    throw new Error("Signer account is undefined");
+  }
+
+  const signature = await signer.signTypedData({
+    account: signer.account,
+    domain: { name: "Forwarder", version: "1", ...domain },
+    types: forwardRequestTypes,
+    primaryType: "ForwardRequest",
+    message: request,
+  });
+
+  const { from, to, value, gas, deadline, data } = request;
+  return { from, to, value, gas, deadline, data, signature };
+}
+
+/**
+ * Typed client for the ERC-2771 Forwarder contract
+ */
+export class ForwarderClient extends ContractClient<typeof forwarderAbi> {
+  constructor(config: ContractClientConfig) {
+    super(forwarderAbi, config);
+  }
+
+  connect(walletClient: WalletClient): ForwarderClient {
+    return new ForwarderClient({
+      address: this.address,
+      publicClient: this.publicClient,
+      walletClient,
+    });
+  }
+
+  /**
+   * Get the current nonce of a signer
+   * @param owner The signer to look up
+   */
+  async nonces(owner: Address): Promise<bigint> {
+    return this.call(() => this.contract.read.nonces([owner]));
+  }
+
+  /**
+   * Check if a signed request can be executed: the target trusts the
+   * Forwarder, the deadline has not passed and the signature matches
+   * @param request The signed request
+   */
+  async verify(request: SignedForwardRequest): Promise<boolean> {
+    return this.call(() => this.contract.read.verify([request]));
+  }
+
+  /**
+   * Build a request from the on-chain state, estimating its gas if needed
+   * @param parameters The call to relay and its deadline
+   */
+  async createRequest({
+    from,
+    to,
+    data,
+    deadline,
+    value = 0n,
+    gas,
+  }: CreateForwardRequestParameters): Promise<ForwardRequest> {
+    const [nonce, estimatedGas] = await Promise.all([
+      this.nonces(from),
+      gas ??
+        this.call(() =>
+          this.publicClient.estimateGas({ account: from, to, data, value })
+        ),
+    ]);
+    return { from, to, value, gas: estimatedGas, nonce, deadline, data };
+  }
+
+  /**
+   * Build a request for the signer's account and sign it
+   * @param signer The wallet client of the account the call is made for
+   * @param parameters The call to relay and its deadline
+   * @returns The signed request to hand to a relayer
+   */
+  async signRequest(
+    signer: WalletClient,
+    parameters: Omit<CreateForwardRequestParameters, "from">
+  ): Promise<SignedForwardRequest> {
+    if (!signer.account) {
+      throw new Error("Signer account is undefined");
+    }
+
+    const [request, chainId] = await Promise.all([
+      this.createRequest({ from: signer.account.address, ...parameters }),
+      this.publicClient.getChainId(),
+    ]);
+    return signForwardRequest(
+      signer,
+      { chainId, verifyingContract: this.address },
+      request
+    );
+  }
+
+  /**
+   * Execute a signed request, paying its gas
+   * @param request The signed request
+   * @returns The transaction hash
+   */
+  async execute(request: SignedForwardRequest): Promise<Hash> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.execute([request], {
+        account,
+        value: request.value,
+      })
+    );
+    return receipt.transactionHash;
+  }
+}
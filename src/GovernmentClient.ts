@@ -0,0 +1,719 @@
+import {
+  parseEventLogs,
+  zeroAddress,
+  type Address,
+  type Hash,
+  type Hex,
+  type TransactionReceipt,
+  type WalletClient,
+} from "viem";
+
+import { governmentAbi } from "./abis";
+import { ContractClient, type ContractClientConfig } from "./ContractClient";
+
+/**
+ * Lifecycle states of a proposal, in the order of the Solidity enum
+ */
+export const ProposalState = {
+  /** Accepting votes until its deadline */
+  Active: 0,
+  /** Voting is over without the quorum or a majority for */
+  Defeated: 1,
+  /** Voting is over with the quorum and a majority for, it can be executed */
+  Succeeded: 2,
+  Executed: 3,
+  Canceled: 4,
+} as const;
+
+export type ProposalState = (typeof ProposalState)[keyof typeof ProposalState];
+
+/**
+ * A call the government makes once its citizens approve it
+ */
+export interface Proposal {
+  /** The owner or citizen who created the proposal */
+  proposer: Address;
+  /** The contract called when the proposal is executed */
+  target: Address;
+  /** Wei sent by the government with the call */
+  value: bigint;
+  /** Calldata of the call */
+  data: Hex;
+  /** Timestamp (in seconds) from which votes are no longer accepted */
+  deadline: bigint;
+  /** Votes needed, from the citizens registered when it was created */
+  quorumVotes: bigint;
+  /** Votes for and against, without the withdrawn votes of revoked citizens */
+  forVotes: bigint;
+  againstVotes: bigint;
+  executed: boolean;
+  canceled: boolean;
+  /** Block before the proposal, only citizens registered by then can vote */
+  snapshotBlock: bigint;
+}
+
+/**
+ * Parameters of GovernmentClient.propose
+ */
+export interface ProposeParameters {
+  /** The contract to call once the proposal succeeds */
+  target: Address;
+  /** Wei the government sends with the call (default 0) */
+  value?: bigint;
+  /** Calldata of the call (default empty) */
+  data?: Hex;
+  /** Human readable description of the proposal */
+  description: string;
+}
+
+/**
+ * A vote cast with the signature of a citizen's current key, see Government.castVoteBySig
+ */
+export interface Ballot {
+  /** The identifier of the proposal */
+  proposalId: bigint;
+  /** True to vote for, false to vote against */
+  support: boolean;
+  /** The citizen voting */
+  citizen: Address;
+  /** The current signature nonce of the citizen */
+  nonce: bigint;
+  /** Timestamp (in seconds) after which the signature is no longer valid */
+  deadline: bigint;
+}
+
+/**
+ * A proposal created with the signature of a citizen's current key, see Government.proposeBySig
+ */
+export interface ProposalRequest extends Required<ProposeParameters> {
+  /** The citizen proposing */
+  citizen: Address;
+  /** The current signature nonce of the citizen */
+  nonce: bigint;
+  /** Timestamp (in seconds) after which the signature is no longer valid */
+  deadline: bigint;
+}
+
+/**
+ * A proposal canceled with the signature of its proposer's current key, see Government.cancelBySig
+ */
+export interface Cancellation {
+  /** The identifier of the proposal */
+  proposalId: bigint;
+  /** The citizen who proposed it */
+  citizen: Address;
+  /** The current signature nonce of the citizen */
+  nonce: bigint;
+  /** Timestamp (in seconds) after which the signature is no longer valid */
+  deadline: bigint;
+}
+
+/**
+ * The EIP-712 domain of a deployed Government
+ */
+export interface GovernmentDomain {
+  /** The chain the government is deployed on */
+  chainId: number;
+  /** The address of the government */
+  verifyingContract: Address;
+}
+
+/** EIP-712 types of the Ballot message */
+export const ballotTypes = {
+  Ballot: [
+    { name: "proposalId", type: "uint256" },
+    { name: "support", type: "bool" },
+    { name: "citizen", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+} as const;
+
+/** EIP-712 types of the Proposal message */
+export const proposalTypes = {
+  Proposal: [
+    { name: "target", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "data", type: "bytes" },
+    { name: "description", type: "string" },
+    { name: "citizen", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+} as const;
+
+/** EIP-712 types of the Cancellation message */
+export const cancellationTypes = {
+  Cancellation: [
+    { name: "proposalId", type: "uint256" },
+    { name: "citizen", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+} as const;
+
+/**
+ * Sign the EIP-712 Ballot of a citizen
+ * @param signer The wallet client holding the citizen's current key
+ * @param domain The domain of the government
+ * @param ballot The vote to sign
+ * @returns The signature expected by Government.castVoteBySig
+ */
+export async function signBallot(
+  signer: WalletClient,
+  domain: GovernmentDomain,
+  ballot: Ballot
+): Promise<Hex> {
+  if (!signer.account) {
+    throw new Error("Signer account is undefined");
+  }
+
+  return signer.signTypedData({
+    account: signer.account,
+    domain: { name: "Government", version: "1", ...domain },
+    types: ballotTypes,
+    primaryType: "Ballot",
+    message: ballot,
+  });
+}
+
+/**
+ * Sign the EIP-712 Proposal of a citizen
+ * @param signer The wallet client holding the citizen's current key
+ * @param domain The domain of the government
+ * @param request The proposal to sign
+ * @returns The signature expected by Government.proposeBySig
+ */
+export async function signProposal(
+  signer: WalletClient,
+  domain: GovernmentDomain,
+  request: ProposalRequest
+): Promise<Hex> {
+  if (!signer.account) {
+    throw new Error("Signer account is undefined");
+  }
+
+  return signer.signTypedData({
+    account: signer.account,
+    domain: { name: "Government", version: "1", ...domain },
+    types: proposalTypes,
+    primaryType: "Proposal",
+    message: request,
+  });
+}
+
+/**
+ * Sign the EIP-712 Cancellation of a proposal by its proposer
+ * @param signer The wallet client holding the proposer's current key
+ * @param domain The domain of the government
+ * @param cancellation The cancellation to sign
+ * @returns The signature expected by Government.cancelBySig
+ */
+export async function signCancellation(
+  signer: WalletClient,
+  domain: GovernmentDomain,
+  cancellation: Cancellation
+): Promise<Hex> {
+  if (!signer.account) {
+    throw new Error("Signer account is undefined");
+  }
+
+  return signer.signTypedData({
+    account: signer.account,
+    domain: { name: "Government", version: "1", ...domain },
+    types: cancellationTypes,
+    primaryType: "Cancellation",
+    message: cancellation,
+  });
+}
+
+/**
+ * Typed client for a Government contract
+ */
+export class GovernmentClient extends ContractClient<typeof governmentAbi> {
+  constructor(config: ContractClientConfig) {
+    super(governmentAbi, config);
+  }
+
+  connect(walletClient: WalletClient): GovernmentClient {
+    return new GovernmentClient({
+      address: this.address,
+      publicClient: this.publicClient,
+      walletClient,
+    });
+  }
+
+  /**
+   * Get the owner of the government
+   */
+  async owner(): Promise<Address> {
+    return this.call(() => this.contract.read.owner());
+  }
+
+  /**
+   * Get the proposed owner of a pending ownership transfer
+   * @returns The proposed owner, or the zero address if none is pending
+   */
+  async pendingOwner(): Promise<Address> {
+    return this.call(() => this.contract.read.pendingOwner());
+  }
+
+  /**
+   * Get the factory that created the government
+   */
+  async factory(): Promise<Address> {
+    return this.call(() => this.contract.read.factory());
+  }
+
+  /**
+   * Get the ERC-2771 forwarder trusted by the government
+   * @returns The forwarder, or the zero address if meta-transactions are disabled
+   */
+  async trustedForwarder(): Promise<Address> {
+    return this.call(() => this.contract.read.trustedForwarder());
+  }
+
+  /**
+   * Check if the issuing factory is still registered in the BaseFactory
+   */
+  async isFactoryActive(): Promise<boolean> {
+    return this.call(() => this.contract.read.isFactoryActive());
+  }
+
+  /**
+   * Check if the BaseFactory of the issuing factory paused the factory system
+   */
+  async isPaused(): Promise<boolean> {
+    return this.call(() => this.contract.read.isPaused());
+  }
+
+  /**
+   * Check if an address is a registered citizen
+   * @param citizen The address to check
+   */
+  async isCitizen(citizen: Address): Promise<boolean> {
+    return this.call(() => this.contract.read.isCitizen([citizen]));
+  }
+
+  /**
+   * Get the number of registered citizens
+   */
+  async citizenCount(): Promise<bigint> {
+    return this.call(() => this.contract.read.citizenCount());
+  }
+
+  /**
+   * Get a page of registered citizen addresses
+   * @param offset The index of the first citizen to return
+   * @param limit The maximum number of citizens to return
+   */
+  async getCitizens(offset: bigint, limit: bigint): Promise<readonly Address[]> {
+    return this.call(() => this.contract.read.getCitizens([offset, limit]));
+  }
+
+  /**
+   * Register a new citizen address
+   * @param citizen The address of the citizen to register
+   * @returns The transaction hash
+   */
+  async registerCitizen(citizen: Address): Promise<Hash> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.registerCitizen([citizen], { account })
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Register several citizen addresses in a single transaction
+   * @param citizens The addresses of the citizens to register
+   * @returns The transaction hash
+   */
+  async registerCitizens(citizens: readonly Address[]): Promise<Hash> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.registerCitizens([citizens], { account })
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Revoke an existing citizen address
+   * @param citizen The address of the citizen to revoke
+   * @returns The transaction hash
+   */
+  async revokeCitizen(citizen: Address): Promise<Hash> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.revokeCitizen([citizen], { account })
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Propose a new owner, who becomes the owner once it calls acceptOwnership
+   * @param newOwner The address of the proposed owner
+   * @returns The transaction hash
+   */
+  async transferOwnership(newOwner: Address): Promise<Hash> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.transferOwnership([newOwner], { account })
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Accept a pending ownership transfer, from the proposed owner
+   * @returns The transaction hash
+   */
+  async acceptOwnership(): Promise<Hash> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.acceptOwnership({ account })
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Cancel a pending ownership transfer by proposing the zero address
+   * @returns The transaction hash
+   */
+  async cancelOwnershipTransfer(): Promise<Hash> {
+    return this.transferOwnership(zeroAddress);
+  }
+
+  /**
+   * Get the voting duration of new proposals, in seconds
+   */
+  async votingPeriod(): Promise<bigint> {
+    return this.call(() => this.contract.read.votingPeriod());
+  }
+
+  /**
+   * Get the percentage of citizens whose votes new proposals need
+   */
+  async quorumPercent(): Promise<number> {
+    return this.call(() => this.contract.read.quorumPercent());
+  }
+
+  /**
+   * Set the voting rules of new proposals, from the owner
+   * @param votingPeriod The voting duration, in seconds
+   * @param quorumPercent The percentage of citizens (1 to 100) whose votes are needed
+   * @returns The transaction hash
+   */
+  async setVotingRules(
+    votingPeriod: bigint,
+    quorumPercent: number
+  ): Promise<Hash> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.setVotingRules([votingPeriod, quorumPercent], {
+        account,
+      })
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Propose a call for the citizens to vote on, from the owner or a citizen
+   * @param parameters The call to propose and its description
+   * @returns The identifier of the new proposal
+   */
+  async propose({
+    target,
+    value = 0n,
+    data = "0x",
+    description,
+  }: ProposeParameters): Promise<bigint> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.propose([target, value, data, description], {
+        account,
+      })
+    );
+    return this.createdProposal(receipt);
+  }
+
+  /**
+   * Vote on an active proposal, from a citizen registered before it
+   * @param proposalId The identifier of the proposal
+   * @param support True to vote for, false to vote against
+   * @returns The transaction hash
+   */
+  async castVote(proposalId: bigint, support: boolean): Promise<Hash> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.castVote([proposalId, support], { account })
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Withdraw the vote of a revoked citizen from an active proposal, from any account
+   * @param proposalId The identifier of the proposal
+   * @param voter The revoked citizen
+   * @returns The transaction hash
+   */
+  async withdrawVote(proposalId: bigint, voter: Address): Promise<Hash> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.withdrawVote([proposalId, voter], { account })
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Execute a succeeded proposal as a call from the government
+   * @param proposalId The identifier of the proposal
+   * @returns The transaction hash
+   */
+  async execute(proposalId: bigint): Promise<Hash> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.execute([proposalId], { account })
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Cancel an active proposal, from its proposer or the owner
+   * @param proposalId The identifier of the proposal
+   * @returns The transaction hash
+   */
+  async cancel(proposalId: bigint): Promise<Hash> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.cancel([proposalId], { account })
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Get a proposal
+   * @param proposalId The identifier of the proposal
+   */
+  async getProposal(proposalId: bigint): Promise<Proposal> {
+    return this.call(() => this.contract.read.getProposal([proposalId]));
+  }
+
+  /**
+   * Get the current state of a proposal
+   * @param proposalId The identifier of the proposal
+   */
+  async proposalState(proposalId: bigint): Promise<ProposalState> {
+    return this.call(
+      () =>
+        this.contract.read.proposalState([proposalId]) as Promise<ProposalState>
+    );
+  }
+
+  /**
+   * Check if a citizen voted on a proposal
+   * @param proposalId The identifier of the proposal
+   * @param voter The address to check
+   */
+  async hasVoted(proposalId: bigint, voter: Address): Promise<boolean> {
+    return this.call(() => this.contract.read.hasVoted([proposalId, voter]));
+  }
+
+  /**
+   * Get the number of proposals created, which is also the latest proposal identifier
+   */
+  async proposalCount(): Promise<bigint> {
+    return this.call(() => this.contract.read.proposalCount());
+  }
+
+  /**
+   * Get the Key registry resolving the current key of each citizen
+   * @returns The Key contract, or the zero address if none is set
+   */
+  async keyRegistry(): Promise<Address> {
+    return this.call(() => this.contract.read.keyRegistry());
+  }
+
+  /**
+   * Set the Key registry resolving the current key of each citizen, from the owner
+   * @param keyRegistry The Key contract, or the zero address to disable key signatures
+   * @returns The transaction hash
+   */
+  async setKeyRegistry(keyRegistry: Address): Promise<Hash> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.setKeyRegistry([keyRegistry], { account })
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Check if a signature was made by the current key of a registered citizen
+   * @param citizen The citizen account
+   * @param digest The hash that was signed, raw or eth_sign prefixed
+   * @param signature The signature to verify
+   */
+  async verifyCitizenSignature(
+    citizen: Address,
+    digest: Hex,
+    signature: Hex
+  ): Promise<boolean> {
+    return this.call(() =>
+      this.contract.read.verifyCitizenSignature([citizen, digest, signature])
+    );
+  }
+
+  /**
+   * Get the current signature nonce of a citizen
+   * @param citizen The citizen to look up
+   */
+  async nonces(citizen: Address): Promise<bigint> {
+    return this.call(() => this.contract.read.nonces([citizen]));
+  }
+
+  /**
+   * Sign a Ballot for a citizen, reading its nonce from the chain
+   * @param signer The wallet client holding the citizen's current key
+   * @param citizen The citizen voting
+   * @param proposalId The identifier of the proposal
+   * @param support True to vote for, false to vote against
+   * @param deadline Timestamp (in seconds) after which the signature is no longer valid
+   * @returns The signature expected by castVoteBySig
+   */
+  async signBallot(
+    signer: WalletClient,
+    citizen: Address,
+    proposalId: bigint,
+    support: boolean,
+    deadline: bigint
+  ): Promise<Hex> {
+    const [nonce, chainId] = await Promise.all([
+      this.nonces(citizen),
+      this.publicClient.getChainId(),
+    ]);
+    return signBallot(
+      signer,
+      { chainId, verifyingContract: this.address },
+      { proposalId, support, citizen, nonce, deadline }
+    );
+  }
+
+  /**
+   * Cast a vote signed by a citizen's current key, from any account
+   * @param ballot The signed vote, its nonce is checked on-chain
+   * @param signature The signature returned by signBallot
+   * @returns The transaction hash
+   */
+  async castVoteBySig(
+    ballot: Omit<Ballot, "nonce">,
+    signature: Hex
+  ): Promise<Hash> {
+    const { proposalId, support, citizen, deadline } = ballot;
+    const receipt = await this.send((account) =>
+      this.contract.simulate.castVoteBySig(
+        [proposalId, support, citizen, deadline, signature],
+        { account }
+      )
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Sign a Proposal for a citizen, reading its nonce from the chain
+   * @param signer The wallet client holding the citizen's current key
+   * @param citizen The citizen proposing
+   * @param parameters The call to propose and its description
+   * @param deadline Timestamp (in seconds) after which the signature is no longer valid
+   * @returns The signature expected by proposeBySig
+   */
+  async signProposal(
+    signer: WalletClient,
+    citizen: Address,
+    { target, value = 0n, data = "0x", description }: ProposeParameters,
+    deadline: bigint
+  ): Promise<Hex> {
+    const [nonce, chainId] = await Promise.all([
+      this.nonces(citizen),
+      this.publicClient.getChainId(),
+    ]);
+    return signProposal(
+      signer,
+      { chainId, verifyingContract: this.address },
+      { target, value, data, description, citizen, nonce, deadline }
+    );
+  }
+
+  /**
+   * Create a proposal signed by a citizen's current key, from any account
+   * @param request The signed proposal, its nonce is checked on-chain
+   * @param signature The signature returned by signProposal
+   * @returns The identifier of the new proposal
+   */
+  async proposeBySig(
+    request: ProposeParameters & Pick<ProposalRequest, "citizen" | "deadline">,
+    signature: Hex
+  ): Promise<bigint> {
+    const {
+      target,
+      value = 0n,
+      data = "0x",
+      description,
+      citizen,
+      deadline,
+    } = request;
+    const receipt = await this.send((account) =>
+      this.contract.simulate.proposeBySig(
+        [target, value, data, description, citizen, deadline, signature],
+        { account }
+      )
+    );
+    return this.createdProposal(receipt);
+  }
+
+  /**
+   * Sign a Cancellation for the citizen who proposed, reading its nonce from the chain
+   * @param signer The wallet client holding the citizen's current key
+   * @param citizen The citizen who proposed
+   * @param proposalId The identifier of the proposal
+   * @param deadline Timestamp (in seconds) after which the signature is no longer valid
+   * @returns The signature expected by cancelBySig
+   */
+  async signCancellation(
+    signer: WalletClient,
+    citizen: Address,
+    proposalId: bigint,
+    deadline: bigint
+  ): Promise<Hex> {
+    const [nonce, chainId] = await Promise.all([
+      this.nonces(citizen),
+      this.publicClient.getChainId(),
+    ]);
+    return signCancellation(
+      signer,
+      { chainId, verifyingContract: this.address },
+      { proposalId, citizen, nonce, deadline }
+    );
+  }
+
+  /**
+   * Cancel a proposal with the signature of its proposer's current key, from any account
+   * @param cancellation The signed cancellation, its nonce is checked on-chain
+   * @param signature The signature returned by signCancellation
+   * @returns The transaction hash
+   */
+  async cancelBySig(
+    cancellation: Omit<Cancellation, "nonce">,
+    signature: Hex
+  ): Promise<Hash> {
+    const { proposalId, citizen, deadline } = cancellation;
+    const receipt = await this.send((account) =>
+      this.contract.simulate.cancelBySig(
+        [proposalId, citizen, deadline, signature],
+        { account }
+      )
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Decode the proposal identifier from the ProposalCreated event of a receipt
+   */
+  private createdProposal(receipt: TransactionReceipt): bigint {
+    const [event] = parseEventLogs({
+      abi: this.abi,
+      eventName: "ProposalCreated",
+      logs: receipt.logs,
+    });
+    if (!event) {
+      throw new Error("ProposalCreated event not found");
+    }
+    return event.args.proposalId;
+  }
+}
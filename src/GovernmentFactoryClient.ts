@@ -0,0 +1,310 @@
+import {
+  isAddressEqual,
+  parseEventLogs,
+  type Address,
+  type Hash,
+  type Hex,
+  type TransactionReceipt,
+  type WalletClient,
+} from "viem";
+
+import { governmentFactoryAbi } from "./abis";
+import { ContractClient, type ContractClientConfig } from "./ContractClient";
+import { GovernmentClient } from "./GovernmentClient";
+
+/**
+ * Creation metadata of a government
+ */
+export interface GovernmentInfo {
+  /** Account that called the factory */
+  creator: Address;
+  /** Owner the government was created for */
+  originalOwner: Address;
+  /** Block the government was created in */
+  createdAtBlock: bigint;
+}
+
+/**
+ * A government created by a mined transaction
+ */
+export interface CreatedGovernment {
+  /** Address of the new government */
+  government: Address;
+  /** Receipt of the transaction that created it */
+  receipt: TransactionReceipt;
+}
+
+/**
+ * Typed client for the GovernmentFactory contract
+ */
+export class GovernmentFactoryClient extends ContractClient<
+  typeof governmentFactoryAbi
+> {
+  constructor(config: ContractClientConfig) {
+    super(governmentFactoryAbi, config);
+  }
+
+  connect(walletClient: WalletClient): GovernmentFactoryClient {
+    return new GovernmentFactoryClient({
+      address: this.address,
+      publicClient: this.publicClient,
+      walletClient,
+    });
+  }
+
+  /**
+   * Get a client for a government, sharing this client's public and wallet clients
+   * @param government The address of the government
+   */
+  government(government: Address): GovernmentClient {
+    return new GovernmentClient({
+      address: government,
+      publicClient: this.publicClient,
+      walletClient: this.walletClient,
+    });
+  }
+
+  /**
+   * Get the address of the BaseFactory this factory belongs to
+   */
+  async baseFactory(): Promise<Address> {
+    return this.call(() => this.contract.read.baseFactory());
+  }
+
+  /**
+   * Check if an address is a government created by this factory
+   * @param government The address to check
+   */
+  async isGovernment(government: Address): Promise<boolean> {
+    return this.call(() => this.contract.read.isGovernment([government]));
+  }
+
+  /**
+   * Get the number of governments created by this factory
+   */
+  async governmentCount(): Promise<bigint> {
+    return this.call(() => this.contract.read.governmentCount());
+  }
+
+  /**
+   * Get a page of governments in creation order
+   * @param offset The index of the first government to return
+   * @param limit The maximum number of governments to return
+   */
+  async getGovernments(
+    offset: bigint,
+    limit: bigint
+  ): Promise<readonly Address[]> {
+    return this.call(() => this.contract.read.getGovernments([offset, limit]));
+  }
+
+  /**
+   * Get the governments created for an owner, in creation order
+   * @param governmentOwner The original owner of the governments
+   */
+  async governmentsOf(governmentOwner: Address): Promise<readonly Address[]> {
+    return this.call(() =>
+      this.contract.read.governmentsOf([governmentOwner])
+    );
+  }
+
+  /**
+   * Get the creation metadata of a government
+   * @param government The address of the government
+   */
+  async getGovernmentInfo(government: Address): Promise<GovernmentInfo> {
+    return this.call(() =>
+      this.contract.read.getGovernmentInfo([government])
+    );
+  }
+
+  /**
+   * Get the beacon the governments created by this factory are proxies of
+   */
+  async beacon(): Promise<Address> {
+    return this.call(() => this.contract.read.beacon());
+  }
+
+  /**
+   * Get the Government implementation the governments currently delegate to
+   */
+  async implementation(): Promise<Address> {
+    return this.call(() => this.contract.read.implementation());
+  }
+
+  /**
+   * Get the ERC-2771 forwarder trusted by the current Government implementation
+   * @returns The forwarder, or the zero address if meta-transactions are disabled
+   */
+  async trustedForwarder(): Promise<Address> {
+    return this.call(() => this.contract.read.trustedForwarder());
+  }
+
+  /**
+   * Check if this factory is currently registered in the BaseFactory
+   */
+  async isActive(): Promise<boolean> {
+    return this.call(() => this.contract.read.isActive());
+  }
+
+  /**
+   * Get the kind the factory is registered with in the BaseFactory, see FactoryKind
+   */
+  async factoryKind(): Promise<Hex> {
+    return this.call(() => this.contract.read.FACTORY_KIND());
+  }
+
+  /**
+   * Check if the BaseFactory paused the factory system
+   */
+  async isPaused(): Promise<boolean> {
+    return this.call(() => this.contract.read.isPaused());
+  }
+
+  /**
+   * Compute on-chain the address createGovernmentDeterministic deploys to,
+   * see predictGovernmentAddress for the offline equivalent
+   * @param governmentOwner The address that will own the government
+   * @param salt The salt used to derive the government address
+   */
+  async predictGovernmentAddress(
+    governmentOwner: Address,
+    salt: Hex
+  ): Promise<Address> {
+    return this.call(() =>
+      this.contract.read.predictGovernmentAddress([governmentOwner, salt])
+    );
+  }
+
+  /**
+   * Create a new government with the specified owner
+   * @param governmentOwner The address that will own the government
+   * @returns The address of the newly created government
+   */
+  async createGovernment(governmentOwner: Address): Promise<Address> {
+    const { government } = await this.createGovernmentWithReceipt(
+      governmentOwner
+    );
+    return government;
+  }
+
+  /**
+   * Create a new government with the specified owner, like createGovernment
+   * @param governmentOwner The address that will own the government
+   * @returns The address of the newly created government and the receipt of its creation
+   */
+  async createGovernmentWithReceipt(
+    governmentOwner: Address
+  ): Promise<CreatedGovernment> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.createGovernment([governmentOwner], { account })
+    );
+    return { government: this.createdGovernment(receipt), receipt };
+  }
+
+  /**
+   * Create a government for each of the specified owners in one transaction.
+   * Nothing is created if any of them cannot be.
+   * @param governmentOwners The addresses that will own the governments
+   * @returns The addresses of the new governments, in the order of their owners
+   */
+  async createGovernments(
+    governmentOwners: readonly Address[]
+  ): Promise<Address[]> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.createGovernments([governmentOwners], { account })
+    );
+    return this.createdGovernments(receipt);
+  }
+
+  /**
+   * Create a new government at a deterministic address
+   * @param governmentOwner The address that will own the government
+   * @param salt The salt used to derive the government address
+   * @returns The address of the newly created government
+   */
+  async createGovernmentDeterministic(
+    governmentOwner: Address,
+    salt: Hex
+  ): Promise<Address> {
+    const { government } = await this.createGovernmentDeterministicWithReceipt(
+      governmentOwner,
+      salt
+    );
+    return government;
+  }
+
+  /**
+   * Create a new government at a deterministic address, like createGovernmentDeterministic
+   * @param governmentOwner The address that will own the government
+   * @param salt The salt used to derive the government address
+   * @returns The address of the newly created government and the receipt of its creation
+   */
+  async createGovernmentDeterministicWithReceipt(
+    governmentOwner: Address,
+    salt: Hex
+  ): Promise<CreatedGovernment> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.createGovernmentDeterministic(
+        [governmentOwner, salt],
+        { account }
+      )
+    );
+    return { government: this.createdGovernment(receipt), receipt };
+  }
+
+  /**
+   * Point every government created by this factory to a new implementation,
+   * the wallet client must be the BaseFactory super admin
+   * @param newImplementation The new Government implementation, see deployGovernmentImplementation
+   * @returns The transaction hash
+   */
+  async upgradeImplementation(newImplementation: Address): Promise<Hash> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.upgradeImplementation([newImplementation], {
+        account,
+      })
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Run several GovernmentFactory calls in one transaction, each from the
+   * connected account. Every call reverts if one of them does.
+   * @param data The calldata of each call, e.g. from encodeFunctionData with governmentFactoryAbi
+   * @returns The transaction hash
+   */
+  async multicall(data: readonly Hex[]): Promise<Hash> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.multicall([data], { account })
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Decode the government address from the GovernmentCreated event of a receipt
+   */
+  private createdGovernment(receipt: TransactionReceipt): Address {
+    const [government] = this.createdGovernments(receipt);
+    if (!government) {
+      throw new Error("GovernmentCreated event not found");
+    }
+    return government;
+  }
+
+  /**
+   * Decode the governments this factory created from the GovernmentCreated
+   * events of a receipt, ignoring the events of other contracts
+   * @param receipt The receipt of a transaction that created governments
+   * @returns The addresses of the new governments, in the order they were created
+   */
+  createdGovernments(receipt: TransactionReceipt): Address[] {
+    return parseEventLogs({
+      abi: this.abi,
+      eventName: "GovernmentCreated",
+      logs: receipt.logs.filter((log) =>
+        isAddressEqual(log.address, this.address)
+      ),
+    }).map((event) => event.args.government);
+  }
+}
@@ -0,0 +1,448 @@
+import {
+  keccak256,
+  toHex,
+  type Address,
+  type Hash,
+  type Hex,
+  type WalletClient,
+} from "viem";
+
+import { keyAbi } from "./abis";
+import { ContractClient, type ContractClientConfig } from "./ContractClient";
+
+/**
+ * A key rotation authorized by the old key, see Key.replaceKey
+ */
+export interface KeyRotation {
+  /** The account whose key is rotated, i.e. the sender of replaceKey */
+  account: Address;
+  /** The key being replaced */
+  oldKey: Address;
+  /** The key replacing it */
+  newKey: Address;
+  /** The current rotation nonce of the account */
+  nonce: bigint;
+  /** Timestamp (in seconds) after which the signature is no longer valid */
+  deadline: bigint;
+}
+
+/**
+ * The EIP-712 domain of a deployed Key contract
+ */
+export interface KeyDomain {
+  /** The chain the Key contract is deployed on */
+  chainId: number;
+  /** The address of the Key contract */
+  verifyingContract: Address;
+}
+
+/**
+ * Purposes the Key contract defines constants for, any other bytes32 can be used too
+ */
+export const KeyPurpose = {
+  /** The key managed by addKey, replaceKey, revokeKey and recovery */
+  PRIMARY: keccak256(toHex("PRIMARY")),
+  SIGNING: keccak256(toHex("SIGNING")),
+  ENCRYPTION: keccak256(toHex("ENCRYPTION")),
+  DEVICE: keccak256(toHex("DEVICE")),
+} as const;
+
+/**
+ * A key of an account
+ */
+export interface KeyInfo {
+  /** The key address */
+  key: Address;
+  /** What the key is used for, see KeyPurpose */
+  purpose: Hex;
+  /** Timestamp (in seconds) from which the key is expired, 0 if it never expires */
+  expiresAt: bigint;
+}
+
+/**
+ * A key recovery started by an account's guardian
+ */
+export interface Recovery {
+  /** The key that replaces the account's key, zero if none is pending */
+  newKey: Address;
+  /** Timestamp (in seconds) from which the recovery can be completed */
+  executeAfter: bigint;
+}
+
+/** EIP-712 types of the KeyRotation message */
+export const keyRotationTypes = {
+  KeyRotation: [
+    { name: "account", type: "address" },
+    { name: "oldKey", type: "address" },
+    { name: "newKey", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+} as const;
+
+/**
+ * Sign the EIP-712 message authorizing the replacement of a key
+ * @param signer The wallet client holding the old key
+ * @param domain The domain of the Key contract
+ * @param rotation The rotation to authorize
+ * @returns The signature expected by Key.replaceKey
+ */
+export async function signKeyRotation(
+  signer: WalletClient,
+  domain: KeyDomain,
+  rotation: KeyRotation
+): Promise<Hex> {
+  if (!signer.account) {
+    throw new Error("Signer account is undefined");
+  }
+
+  return signer.signTypedData({
+    account: signer.account,
+    domain: { name: "Key", version: "1", ...domain },
+    types: keyRotationTypes,
+    primaryType: "KeyRotation",
+    message: rotation,
+  });
+}
+
+/**
+ * Typed client for the Key contract
+ */
+export class KeyClient extends ContractClient<typeof keyAbi> {
+  constructor(config: ContractClientConfig) {
+    super(keyAbi, config);
+  }
+
+  connect(walletClient: WalletClient): KeyClient {
+    return new KeyClient({
+      address: this.address,
+      publicClient: this.publicClient,
+      walletClient,
+    });
+  }
+
+  /**
+   * Get the key associated with an account
+   * @param account The account to look up
+   * @returns The key, or the zero address if none is set
+   */
+  async keys(account: Address): Promise<Address> {
+    return this.call(() => this.contract.read.keys([account]));
+  }
+
+  /**
+   * Get every key of an account, expired ones included
+   * @param account The account to look up
+   * @returns The keys, the primary key first if the account has one
+   */
+  async getKeys(account: Address): Promise<readonly KeyInfo[]> {
+    return this.call(() => this.contract.read.getKeys([account]));
+  }
+
+  /**
+   * Check if an account holds an unexpired key for a purpose
+   * @param account The account to look up
+   * @param key The key to check
+   * @param purpose The purpose to check, see KeyPurpose
+   */
+  async hasKey(account: Address, key: Address, purpose: Hex): Promise<boolean> {
+    return this.call(() => this.contract.read.hasKey([account, key, purpose]));
+  }
+
+  /**
+   * Get the ERC-2771 forwarder trusted by the Key registry
+   * @returns The forwarder, or the zero address if meta-transactions are disabled
+   */
+  async trustedForwarder(): Promise<Address> {
+    return this.call(() => this.contract.read.trustedForwarder());
+  }
+
+  /**
+   * Get the owner of the Key registry, who can pause it
+   */
+  async owner(): Promise<Address> {
+    return this.call(() => this.contract.read.owner());
+  }
+
+  /**
+   * Get the proposed owner of a pending ownership transfer
+   * @returns The proposed owner, or the zero address if none is pending
+   */
+  async pendingOwner(): Promise<Address> {
+    return this.call(() => this.contract.read.pendingOwner());
+  }
+
+  /**
+   * Check if the Key registry is paused
+   */
+  async paused(): Promise<boolean> {
+    return this.call(() => this.contract.read.paused());
+  }
+
+  /**
+   * Get the guardian of an account
+   * @param account The account to look up
+   * @returns The guardian, or the zero address if none is set
+   */
+  async guardians(account: Address): Promise<Address> {
+    return this.call(() => this.contract.read.guardians([account]));
+  }
+
+  /**
+   * Get the pending recovery of an account
+   * @param account The account to look up
+   */
+  async pendingRecovery(account: Address): Promise<Recovery> {
+    return this.call(() => this.contract.read.pendingRecovery([account]));
+  }
+
+  /**
+   * Delay (in seconds) between initiating and completing a recovery
+   */
+  async recoveryDelay(): Promise<bigint> {
+    return this.call(() => this.contract.read.RECOVERY_DELAY());
+  }
+
+  /**
+   * Get the current rotation nonce of an account
+   * @param account The account to look up
+   */
+  async nonces(account: Address): Promise<bigint> {
+    return this.call(() => this.contract.read.nonces([account]));
+  }
+
+  /**
+   * Get the EIP-712 digest of a key rotation
+   * @param rotation The rotation to hash
+   */
+  async hashKeyRotation(rotation: KeyRotation): Promise<Hex> {
+    const { account, oldKey, newKey, nonce, deadline } = rotation;
+    return this.call(() =>
+      this.contract.read.hashKeyRotation([
+        account,
+        oldKey,
+        newKey,
+        nonce,
+        deadline,
+      ])
+    );
+  }
+
+  /**
+   * Build the next rotation of an account's key from the on-chain state
+   * and sign it with the old key
+   * @param signer The wallet client holding the old key
+   * @param account The account whose key is rotated
+   * @param newKey The key replacing the old one
+   * @param deadline Timestamp (in seconds) after which the signature expires
+   * @returns The signature expected by replaceKey
+   */
+  async signKeyRotation(
+    signer: WalletClient,
+    account: Address,
+    newKey: Address,
+    deadline: bigint
+  ): Promise<Hex> {
+    const [oldKey, nonce, chainId] = await Promise.all([
+      this.keys(account),
+      this.nonces(account),
+      this.publicClient.getChainId(),
+    ]);
+    return signKeyRotation(
+      signer,
+      { chainId, verifyingContract: this.address },
+      { account, oldKey, newKey, nonce, deadline }
+    );
+  }
+
+  /**
+   * Verify if a signature is valid for a given message and signer.
+   * Accepts signatures of the raw hash or of its eth_sign prefixed version,
+   * and EIP-1271 signatures of contract wallets
+   * @param messageHash The hash of the message that was signed
+   * @param signature The signature to verify
+   * @param signer The address of the signer
+   */
+  async verifySignature(
+    messageHash: Hex,
+    signature: Hex,
+    signer: Address
+  ): Promise<boolean> {
+    return this.call(() =>
+      this.contract.read.verifySignature([messageHash, signature, signer])
+    );
+  }
+
+  /**
+   * Add a new key for the sender
+   * @param newKey The key to be added
+   * @returns The transaction hash
+   */
+  async addKey(newKey: Address): Promise<Hash> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.addKey([newKey], { account })
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Replace the sender's key with a new one
+   * @param newKey The new key
+   * @param deadline The deadline the signature was made with
+   * @param signature The old key's signature, see signKeyRotation
+   * @returns The transaction hash
+   */
+  async replaceKey(
+    newKey: Address,
+    deadline: bigint,
+    signature: Hex
+  ): Promise<Hash> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.replaceKey([newKey, deadline, signature], {
+        account,
+      })
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Add a key for a purpose other than the primary one
+   * @param newKey The key to be added
+   * @param purpose What the key is used for, see KeyPurpose
+   * @param expiresAt Timestamp (in seconds) from which the key is expired, 0 if it never expires
+   * @returns The transaction hash
+   */
+  async addPurposeKey(
+    newKey: Address,
+    purpose: Hex,
+    expiresAt = 0n
+  ): Promise<Hash> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.addPurposeKey([newKey, purpose, expiresAt], {
+        account,
+      })
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Remove a key added with addPurposeKey
+   * @param key The key to be removed
+   * @param purpose The purpose the key was added for
+   * @returns The transaction hash
+   */
+  async removePurposeKey(key: Address, purpose: Hex): Promise<Hash> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.removePurposeKey([key, purpose], { account })
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Revoke the sender's key
+   * @returns The transaction hash
+   */
+  async revokeKey(): Promise<Hash> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.revokeKey({ account })
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Set the guardian allowed to recover the sender's key
+   * @param guardian The guardian, or the zero address to remove it
+   * @returns The transaction hash
+   */
+  async setGuardian(guardian: Address): Promise<Hash> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.setGuardian([guardian], { account })
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Start replacing an account's key, sent by its guardian
+   * @param account The account to recover
+   * @param newKey The key that replaces the account's key
+   * @returns The transaction hash
+   */
+  async initiateRecovery(account: Address, newKey: Address): Promise<Hash> {
+    const receipt = await this.send((sender) =>
+      this.contract.simulate.initiateRecovery([account, newKey], {
+        account: sender,
+      })
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Cancel a pending recovery, sent by the account or its guardian
+   * @param account The account whose recovery is cancelled
+   * @returns The transaction hash
+   */
+  async cancelRecovery(account: Address): Promise<Hash> {
+    const receipt = await this.send((sender) =>
+      this.contract.simulate.cancelRecovery([account], { account: sender })
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Complete a pending recovery once its delay has passed, sent by the guardian
+   * @param account The account to recover
+   * @returns The transaction hash
+   */
+  async completeRecovery(account: Address): Promise<Hash> {
+    const receipt = await this.send((sender) =>
+      this.contract.simulate.completeRecovery([account], { account: sender })
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Pause the Key registry, from its owner. Keys can no longer be added,
+   * rotated or recovered and guardians can no longer be set.
+   * @returns The transaction hash
+   */
+  async pause(): Promise<Hash> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.pause({ account })
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Unpause the Key registry, from its owner
+   * @returns The transaction hash
+   */
+  async unpause(): Promise<Hash> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.unpause({ account })
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Propose a new owner, who becomes the owner once it calls acceptOwnership
+   * @param newOwner The address of the proposed owner
+   * @returns The transaction hash
+   */
+  async transferOwnership(newOwner: Address): Promise<Hash> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.transferOwnership([newOwner], { account })
+    );
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Accept a pending ownership transfer, from the proposed owner
+   * @returns The transaction hash
+   */
+  async acceptOwnership(): Promise<Hash> {
+    const receipt = await this.send((account) =>
+      this.contract.simulate.acceptOwnership({ account })
+    );
+    return receipt.transactionHash;
+  }
+}
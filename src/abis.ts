@@ -0,0 +1,45 @@
+import type { Abi } from "viem";
+
+import {
+  baseFactoryAbi,
+  forwarderAbi,
+  governmentAbi,
+  governmentFactoryAbi,
+  keyAbi,
+  upgradeableBeaconAbi,
+} from "./generated/contracts";
+
+// ABIs and bytecode are generated from the Hardhat artifacts by
+// `npx hardhat compile`, see tasks/abis.ts
+export {
+  baseFactoryAbi,
+  baseFactoryBytecode,
+  beaconProxyBytecode,
+  forwarderAbi,
+  forwarderBytecode,
+  governmentAbi,
+  governmentBytecode,
+  governmentFactoryAbi,
+  governmentFactoryBytecode,
+  keyAbi,
+  keyBytecode,
+} from "./generated/contracts";
+
+/**
+ * Every custom error declared by the contracts, used to decode reverts that
+ * happen outside of a typed contract call (e.g. constructor reverts).
+ */
+export const contractErrorsAbi: Abi = [
+  ...baseFactoryAbi,
+  ...governmentAbi,
+  ...governmentFactoryAbi,
+  ...keyAbi,
+  ...forwarderAbi,
+  ...upgradeableBeaconAbi,
+].filter(
+  (item, index, items) =>
+    item.type === "error" &&
+    items.findIndex(
+      (other) => other.type === "error" && other.name === item.name
+    ) === index
+);
@@ -0,0 +1,168 @@
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  getAddress,
+  type Address,
+  type Hash,
+  type PublicClient,
+  type WalletClient,
+} from "viem";
+
+import { BaseFactoryClient } from "./BaseFactoryClient";
+import { GovernmentFactoryClient } from "./GovernmentFactoryClient";
+import { KeyClient } from "./KeyClient";
+
+/** Directory of the address books, relative to the project root */
+export const DEFAULT_ADDRESS_BOOK_DIR = "deployments";
+
+/** Contracts recorded in an address book */
+export const addressBookContracts = [
+  "BaseFactory",
+  "GovernmentFactory",
+  "Key",
+] as const;
+
+export type AddressBookContract = (typeof addressBookContracts)[number];
+
+/**
+ * Where a contract was deployed
+ */
+export interface DeployedContract {
+  address: Address;
+  /** The transaction that created the contract */
+  transactionHash: Hash;
+  /** The block of the creation transaction, where event indexing can start */
+  blockNumber: number;
+}
+
+/**
+ * The contracts deployed on a chain, kept in `<directory>/<chainId>.json`
+ */
+export interface AddressBook {
+  chainId: number;
+  contracts: Record<AddressBookContract, DeployedContract>;
+}
+
+/**
+ * Clients of the contracts recorded in an address book
+ */
+export interface AddressBookClients {
+  addressBook: AddressBook;
+  baseFactory: BaseFactoryClient;
+  governmentFactory: GovernmentFactoryClient;
+  key: KeyClient;
+}
+
+/**
+ * Get the path of the address book of a chain
+ * @param chainId The chain the contracts are deployed on
+ * @param directory The directory of the address books
+ */
+export function addressBookPath(
+  chainId: number,
+  directory = DEFAULT_ADDRESS_BOOK_DIR
+): string {
+  return path.join(directory, `${chainId}.json`);
+}
+
+/**
+ * Read the address book of a chain
+ * @param chainId The chain the contracts are deployed on
+ * @param directory The directory of the address books
+ * @returns The address book, or undefined if nothing was deployed on the chain
+ */
+export async function readAddressBook(
+  chainId: number,
+  directory = DEFAULT_ADDRESS_BOOK_DIR
+): Promise<AddressBook | undefined> {
+  const filePath = addressBookPath(chainId, directory);
+  let contents: string;
+  try {
+    contents = await fs.readFile(filePath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined;
+    }
+    throw error;
+  }
+
+  const addressBook = JSON.parse(contents) as AddressBook;
+  if (addressBook.chainId !== chainId) {
+    throw new Error(
+      `${filePath} is the address book of chain ${addressBook.chainId}, not ${chainId}`
+    );
+  }
+  for (const name of addressBookContracts) {
+    if (!addressBook.contracts?.[name]) {
+      throw new Error(`${filePath} has no ${name} address`);
+    }
+  }
+  return addressBook;
+}
+
+/**
+ * Write the address book of a chain, replacing the previous one
+ * @param addressBook The deployed contracts
+ * @param directory The directory of the address books
+ * @returns The path of the written file
+ */
+export async function writeAddressBook(
+  addressBook: AddressBook,
+  directory = DEFAULT_ADDRESS_BOOK_DIR
+): Promise<string> {
+  const filePath = addressBookPath(addressBook.chainId, directory);
+  await fs.mkdir(directory, { recursive: true });
+
+  // Checksummed addresses keep the file stable across writes
+  const contracts = Object.fromEntries(
+    addressBookContracts.map((name) => {
+      const contract = addressBook.contracts[name];
+      return [name, { ...contract, address: getAddress(contract.address) }];
+    })
+  );
+
+  // Write to a temporary file first so a crash never leaves a partial file
+  const tempPath = `${filePath}.tmp`;
+  await fs.writeFile(
+    tempPath,
+    `${JSON.stringify({ chainId: addressBook.chainId, contracts }, null, 2)}\n`
+  );
+  await fs.rename(tempPath, filePath);
+  return filePath;
+}
+
+/**
+ * Create clients for the contracts recorded in the address book of the
+ * public client's chain
+ * @param config The clients to use, the wallet client is required by write methods
+ * @param directory The directory of the address books
+ */
+export async function connectAddressBook(
+  config: { publicClient: PublicClient; walletClient?: WalletClient },
+  directory = DEFAULT_ADDRESS_BOOK_DIR
+): Promise<AddressBookClients> {
+  const chainId = await config.publicClient.getChainId();
+  const addressBook = await readAddressBook(chainId, directory);
+  if (!addressBook) {
+    throw new Error(
+      `No address book for chain ${chainId} at ${addressBookPath(
+        chainId,
+        directory
+      )}`
+    );
+  }
+
+  const { contracts } = addressBook;
+  return {
+    addressBook,
+    baseFactory: new BaseFactoryClient({
+      address: contracts.BaseFactory.address,
+      ...config,
+    }),
+    governmentFactory: new GovernmentFactoryClient({
+      address: contracts.GovernmentFactory.address,
+      ...config,
+    }),
+    key: new KeyClient({ address: contracts.Key.address, ...config }),
+  };
+}
@@ -0,0 +1,139 @@
+import {
+  getAddress,
+  zeroAddress,
+  type Abi,
+  type Address,
+  type Hex,
+  type PublicClient,
+  type WalletClient,
+} from "viem";
+
+import {
+  baseFactoryAbi,
+  baseFactoryBytecode,
+  forwarderAbi,
+  forwarderBytecode,
+  governmentAbi,
+  governmentBytecode,
+  governmentFactoryAbi,
+  governmentFactoryBytecode,
+  keyAbi,
+  keyBytecode,
+} from "./abis";
+import { BaseFactoryClient } from "./BaseFactoryClient";
+import { decodeContractError } from "./errors";
+import { ForwarderClient } from "./ForwarderClient";
+import { GovernmentFactoryClient } from "./GovernmentFactoryClient";
+import { KeyClient } from "./KeyClient";
+
+/**
+ * Clients used to deploy a contract
+ */
+export interface DeployConfig {
+  publicClient: PublicClient;
+  walletClient: WalletClient;
+}
+
+/**
+ * Deploy a contract and wait for it to be mined
+ * @returns The checksummed address of the deployed contract
+ */
+async function deploy(
+  { publicClient, walletClient }: DeployConfig,
+  abi: Abi,
+  bytecode: Hex,
+  args: readonly unknown[]
+): Promise<Address> {
+  if (!walletClient.account) {
+    throw new Error("A wallet client with an account is required to deploy");
+  }
+
+  try {
+    const hash = await walletClient.deployContract({
+      abi,
+      bytecode,
+      args,
+      account: walletClient.account,
+      chain: walletClient.chain,
+    });
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (!receipt.contractAddress) {
+      throw new Error(`Deployment transaction ${hash} created no contract`);
+    }
+    return getAddress(receipt.contractAddress);
+  } catch (error) {
+    throw decodeContractError(error);
+  }
+}
+
+/**
+ * Deploy a BaseFactory granting every role to the wallet client's account
+ * @param adminTransferDelay Seconds a proposed super admin waits before accepting, none by default
+ */
+export async function deployBaseFactory(
+  config: DeployConfig,
+  adminTransferDelay = 0
+): Promise<BaseFactoryClient> {
+  const address = await deploy(config, baseFactoryAbi, baseFactoryBytecode, [
+    adminTransferDelay,
+  ]);
+  return new BaseFactoryClient({ address, ...config });
+}
+
+/**
+ * Deploy a Government implementation, for a new GovernmentFactory or GovernmentFactory.upgradeImplementation
+ * @param trustedForwarder The forwarder trusted by governments using the implementation, none by default
+ * @returns The address of the implementation
+ */
+export async function deployGovernmentImplementation(
+  config: DeployConfig,
+  trustedForwarder: Address = zeroAddress
+): Promise<Address> {
+  return deploy(config, governmentAbi, governmentBytecode, [trustedForwarder]);
+}
+
+/**
+ * Deploy a Government implementation and a GovernmentFactory using it,
+ * the wallet client must be a factory manager of the BaseFactory
+ * @param baseFactory The address of the BaseFactory
+ * @param trustedForwarder The forwarder trusted by created governments, none by default
+ */
+export async function deployGovernmentFactory(
+  config: DeployConfig,
+  baseFactory: Address,
+  trustedForwarder: Address = zeroAddress
+): Promise<GovernmentFactoryClient> {
+  const implementation = await deployGovernmentImplementation(
+    config,
+    trustedForwarder
+  );
+  const address = await deploy(
+    config,
+    governmentFactoryAbi,
+    governmentFactoryBytecode,
+    [baseFactory, implementation]
+  );
+  return new GovernmentFactoryClient({ address, ...config });
+}
+
+/**
+ * Deploy a Key registry
+ * @param trustedForwarder The forwarder relaying meta-transactions, none by default
+ */
+export async function deployKey(
+  config: DeployConfig,
+  trustedForwarder: Address = zeroAddress
+): Promise<KeyClient> {
+  const address = await deploy(config, keyAbi, keyBytecode, [trustedForwarder]);
+  return new KeyClient({ address, ...config });
+}
+
+/**
+ * Deploy an ERC-2771 Forwarder for Key and Government meta-transactions
+ */
+export async function deployForwarder(
+  config: DeployConfig
+): Promise<ForwarderClient> {
+  const address = await deploy(config, forwarderAbi, forwarderBytecode, []);
+  return new ForwarderClient({ address, ...config });
+}
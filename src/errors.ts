@@ -0,0 +1,230 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  decodeErrorResult,
+  type Abi,
+  type Hex,
+} from "viem";
+
+import { contractErrorsAbi } from "./abis";
+
+/**
+ * Base class for custom errors reverted by the contracts.
+ * Subclasses exist for every custom error so callers can use `instanceof`.
+ */
+export class ContractError extends Error {
+  /** Name of the Solidity custom error */
+  readonly errorName: string;
+  /** Decoded arguments of the Solidity custom error */
+  readonly args: readonly unknown[];
+  /** The original viem error */
+  readonly cause: unknown;
+
+  constructor(errorName: string, args: readonly unknown[] = [], cause?: unknown) {
+    const formattedArgs = args.map((arg) => String(arg)).join(", ");
+    super(`Contract reverted with ${errorName}(${formattedArgs})`);
+    this.name = new.target.name;
+    this.errorName = errorName;
+    this.args = args;
+    this.cause = cause;
+  }
+}
+
+// BaseFactory / GovernmentFactory / Government errors
+export class NotOwnerError extends ContractError {}
+export class NotAuthorizedError extends ContractError {}
+export class ZeroAddressNotAllowedError extends ContractError {}
+export class FactoryAlreadyRegisteredError extends ContractError {}
+export class FactoryNotRegisteredError extends ContractError {}
+export class UnsupportedFactoryKindError extends ContractError {}
+export class GovernmentAlreadyExistsError extends ContractError {}
+export class GovernmentNotFoundError extends ContractError {}
+export class CitizenAlreadyRegisteredError extends ContractError {}
+export class CitizenNotRegisteredError extends ContractError {}
+export class NotAllowedToProposeError extends ContractError {}
+export class NotAllowedToCancelError extends ContractError {}
+export class InvalidVotingRulesError extends ContractError {}
+export class ProposalNotFoundError extends ContractError {}
+export class ProposalNotActiveError extends ContractError {}
+export class ProposalNotSucceededError extends ContractError {}
+export class AlreadyVotedError extends ContractError {}
+export class CitizenRegisteredAfterProposalError extends ContractError {}
+export class VoteNotFoundError extends ContractError {}
+export class VoterNotRevokedError extends ContractError {}
+export class KeyRegistryNotSetError extends ContractError {}
+export class SystemPausedError extends ContractError {}
+
+// Key errors
+export class InvalidKeyAddressError extends ContractError {}
+export class KeyAlreadyExistsError extends ContractError {}
+export class NoKeyToReplaceError extends ContractError {}
+export class InvalidSignatureError extends ContractError {}
+export class SignatureExpiredError extends ContractError {}
+export class NoKeyToRevokeError extends ContractError {}
+export class InvalidGuardianError extends ContractError {}
+export class NotGuardianError extends ContractError {}
+export class RecoveryAlreadyPendingError extends ContractError {}
+export class NoRecoveryPendingError extends ContractError {}
+export class RecoveryNotReadyError extends ContractError {}
+export class InvalidPurposeError extends ContractError {}
+export class InvalidExpiryError extends ContractError {}
+export class KeyNotFoundError extends ContractError {}
+
+// OpenZeppelin errors
+export class OwnableUnauthorizedAccountError extends ContractError {}
+export class OwnableInvalidOwnerError extends ContractError {}
+export class AccessControlUnauthorizedAccountError extends ContractError {}
+export class AccessControlBadConfirmationError extends ContractError {}
+export class AccessControlInvalidDefaultAdminError extends ContractError {}
+export class AccessControlEnforcedDefaultAdminRulesError extends ContractError {}
+export class AccessControlEnforcedDefaultAdminDelayError extends ContractError {}
+export class ECDSAInvalidSignatureError extends ContractError {}
+export class ECDSAInvalidSignatureLengthError extends ContractError {}
+export class ECDSAInvalidSignatureSError extends ContractError {}
+export class ERC2771ForwarderInvalidSignerError extends ContractError {}
+export class ERC2771ForwarderMismatchedValueError extends ContractError {}
+export class ERC2771ForwarderExpiredRequestError extends ContractError {}
+export class ERC2771UntrustfulTargetError extends ContractError {}
+export class InvalidAccountNonceError extends ContractError {}
+export class FailedCallError extends ContractError {}
+export class InvalidInitializationError extends ContractError {}
+export class BeaconInvalidImplementationError extends ContractError {}
+export class EnforcedPauseError extends ContractError {}
+export class ExpectedPauseError extends ContractError {}
+
+type ContractErrorConstructor = new (
+  errorName: string,
+  args?: readonly unknown[],
+  cause?: unknown
+) => ContractError;
+
+// Mapping from Solidity error name to its TypeScript error class
+const contractErrors: Record<string, ContractErrorConstructor> = {
+  NotOwner: NotOwnerError,
+  NotAuthorized: NotAuthorizedError,
+  ZeroAddressNotAllowed: ZeroAddressNotAllowedError,
+  FactoryAlreadyRegistered: FactoryAlreadyRegisteredError,
+  FactoryNotRegistered: FactoryNotRegisteredError,
+  UnsupportedFactoryKind: UnsupportedFactoryKindError,
+  GovernmentAlreadyExists: GovernmentAlreadyExistsError,
+  GovernmentNotFound: GovernmentNotFoundError,
+  CitizenAlreadyRegistered: CitizenAlreadyRegisteredError,
+  CitizenNotRegistered: CitizenNotRegisteredError,
+  NotAllowedToPropose: NotAllowedToProposeError,
+  NotAllowedToCancel: NotAllowedToCancelError,
+  InvalidVotingRules: InvalidVotingRulesError,
+  ProposalNotFound: ProposalNotFoundError,
+  ProposalNotActive: ProposalNotActiveError,
+  ProposalNotSucceeded: ProposalNotSucceededError,
+  AlreadyVoted: AlreadyVotedError,
+  CitizenRegisteredAfterProposal: CitizenRegisteredAfterProposalError,
+  VoteNotFound: VoteNotFoundError,
+  VoterNotRevoked: VoterNotRevokedError,
+  KeyRegistryNotSet: KeyRegistryNotSetError,
+  SystemPaused: SystemPausedError,
+  InvalidKeyAddress: InvalidKeyAddressError,
+  KeyAlreadyExists: KeyAlreadyExistsError,
+  NoKeyToReplace: NoKeyToReplaceError,
+  InvalidSignature: InvalidSignatureError,
+  SignatureExpired: SignatureExpiredError,
+  NoKeyToRevoke: NoKeyToRevokeError,
+  InvalidGuardian: InvalidGuardianError,
+  NotGuardian: NotGuardianError,
+  RecoveryAlreadyPending: RecoveryAlreadyPendingError,
+  NoRecoveryPending: NoRecoveryPendingError,
+  RecoveryNotReady: RecoveryNotReadyError,
+  InvalidPurpose: InvalidPurposeError,
+  InvalidExpiry: InvalidExpiryError,
+  KeyNotFound: KeyNotFoundError,
+  OwnableUnauthorizedAccount: OwnableUnauthorizedAccountError,
+  OwnableInvalidOwner: OwnableInvalidOwnerError,
+  AccessControlUnauthorizedAccount: AccessControlUnauthorizedAccountError,
+  AccessControlBadConfirmation: AccessControlBadConfirmationError,
+  AccessControlInvalidDefaultAdmin: AccessControlInvalidDefaultAdminError,
+  AccessControlEnforcedDefaultAdminRules:
+    AccessControlEnforcedDefaultAdminRulesError,
+  AccessControlEnforcedDefaultAdminDelay:
+    AccessControlEnforcedDefaultAdminDelayError,
+  ECDSAInvalidSignature: ECDSAInvalidSignatureError,
+  ECDSAInvalidSignatureLength: ECDSAInvalidSignatureLengthError,
+  ECDSAInvalidSignatureS: ECDSAInvalidSignatureSError,
+  ERC2771ForwarderInvalidSigner: ERC2771ForwarderInvalidSignerError,
+  ERC2771ForwarderMismatchedValue: ERC2771ForwarderMismatchedValueError,
+  ERC2771ForwarderExpiredRequest: ERC2771ForwarderExpiredRequestError,
+  ERC2771UntrustfulTarget: ERC2771UntrustfulTargetError,
+  InvalidAccountNonce: InvalidAccountNonceError,
+  FailedCall: FailedCallError,
+  InvalidInitialization: InvalidInitializationError,
+  BeaconInvalidImplementation: BeaconInvalidImplementationError,
+  EnforcedPause: EnforcedPauseError,
+  ExpectedPause: ExpectedPauseError,
+};
+
+/**
+ * Create the typed error for a decoded Solidity custom error
+ * @param errorName The name of the Solidity custom error
+ * @param args The decoded arguments of the error
+ * @param cause The original error
+ * @returns The matching ContractError subclass, or ContractError if unknown
+ */
+export function createContractError(
+  errorName: string,
+  args: readonly unknown[] = [],
+  cause?: unknown
+): ContractError {
+  const ErrorClass = contractErrors[errorName] ?? ContractError;
+  return new ErrorClass(errorName, args, cause);
+}
+
+/**
+ * Find the raw revert data carried somewhere in a viem error chain
+ * @param error The viem error
+ * @returns The revert data, or undefined if none is present
+ */
+function findRevertData(error: BaseError): Hex | undefined {
+  const withData = error.walk((cause) => {
+    const data = (cause as { data?: unknown }).data;
+    return typeof data === "string" && /^0x[0-9a-fA-F]{8}/.test(data);
+  }) as { data?: Hex } | null;
+  return withData?.data;
+}
+
+/**
+ * Convert a viem error caused by a contract revert into a typed ContractError
+ * @param error The error thrown by viem
+ * @param abi Optional ABI to decode the revert data with
+ * @returns The typed ContractError, or the original error if it is not a revert
+ */
+export function decodeContractError(
+  error: unknown,
+  abi: Abi = contractErrorsAbi
+): unknown {
+  if (!(error instanceof BaseError)) {
+    return error;
+  }
+
+  // viem already decoded the error against the contract ABI
+  const reverted = error.walk(
+    (cause) => cause instanceof ContractFunctionRevertedError
+  );
+  if (reverted instanceof ContractFunctionRevertedError && reverted.data) {
+    return createContractError(
+      reverted.data.errorName,
+      reverted.data.args ?? [],
+      error
+    );
+  }
+
+  // Otherwise decode the raw revert data ourselves
+  const data = findRevertData(error);
+  if (data) {
+    try {
+      const decoded = decodeErrorResult({ abi, data });
+      return createContractError(decoded.errorName, decoded.args ?? [], error);
+    } catch {
+      // Unknown selector, fall through to the original error
+    }
+  }
+
+  return error;
+}
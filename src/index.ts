@@ -0,0 +1,13 @@
+export * from "./abis";
+export * from "./errors";
+export * from "./ContractClient";
+export * from "./BaseFactoryClient";
+export * from "./GovernmentFactoryClient";
+export * from "./GovernmentClient";
+export * from "./KeyClient";
+export * from "./ForwarderClient";
+export * from "./predictGovernmentAddress";
+export * from "./deploy";
+export * from "./addressBook";
+export * from "./indexer";
+export * from "./relayer";
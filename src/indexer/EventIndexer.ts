@@ -0,0 +1,516 @@
+import {
+  getAddress,
+  isAddressEqual,
+  zeroAddress,
+  type Address,
+  type Hex,
+  type Log,
+  type PublicClient,
+} from "viem";
+
+import {
+  baseFactoryAbi,
+  governmentAbi,
+  governmentFactoryAbi,
+  keyAbi,
+} from "../abis";
+import {
+  BaseFactoryRole,
+  type PendingDefaultAdmin,
+} from "../BaseFactoryClient";
+import type { KeyInfo } from "../KeyClient";
+import { emptyIndexerState, MemoryStore, type IndexerStore } from "./store";
+import type {
+  IndexedContracts,
+  IndexedEvent,
+  IndexedEventName,
+  IndexerState,
+} from "./types";
+
+/**
+ * Options of the event indexer
+ */
+export interface EventIndexerConfig {
+  publicClient: PublicClient;
+  contracts: IndexedContracts;
+  /** Where the state is persisted, in memory by default */
+  store?: IndexerStore;
+  /** First block to index, usually the deployment block (default 0) */
+  fromBlock?: number;
+  /** Maximum number of blocks per getLogs request (default 1000) */
+  batchSize?: number;
+  /** Number of blocks to stay behind the chain head (default 0) */
+  confirmations?: number;
+  /** Number of checkpoints kept to recover from reorgs (default 128) */
+  maxCheckpoints?: number;
+}
+
+/**
+ * Outcome of a sync
+ */
+export interface SyncResult {
+  /** Last indexed block after the sync, null if nothing is indexed yet */
+  lastBlock: number | null;
+  /** Number of events added by the sync */
+  newEvents: number;
+  /** Block the state was rolled back to because of a reorg, if any */
+  reorgedTo?: number | null;
+}
+
+/**
+ * Options of EventIndexer.watch
+ */
+export interface WatchOptions {
+  /** Polling interval in milliseconds */
+  pollingInterval?: number;
+  /** Called with every failed sync, watching continues afterwards */
+  onError?: (error: unknown) => void;
+  /** Called after every successful sync */
+  onSync?: (result: SyncResult) => void;
+}
+
+/**
+ * Backfills and follows the registry events, handling reorgs with block-hash
+ * checkpoints, and answers queries from the indexed events.
+ */
+export class EventIndexer {
+  private readonly publicClient: PublicClient;
+  private readonly contracts: IndexedContracts;
+  private readonly store: IndexerStore;
+  private readonly fromBlock: number;
+  private readonly batchSize: number;
+  private readonly confirmations: number;
+  private readonly maxCheckpoints: number;
+
+  private state: IndexerState = emptyIndexerState();
+  private loaded = false;
+  // Syncs are chained so they never run concurrently
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(config: EventIndexerConfig) {
+    this.publicClient = config.publicClient;
+    this.contracts = config.contracts;
+    this.store = config.store ?? new MemoryStore();
+    this.fromBlock = config.fromBlock ?? 0;
+    this.batchSize = config.batchSize ?? 1000;
+    this.confirmations = config.confirmations ?? 0;
+    this.maxCheckpoints = config.maxCheckpoints ?? 128;
+  }
+
+  /**
+   * Index every block up to the chain head (minus confirmations)
+   */
+  sync(): Promise<SyncResult> {
+    const result = this.pending.then(() => this.runSync());
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Sync on every new block until the returned function is called
+   * @returns A function that stops watching
+   */
+  watch(options: WatchOptions = {}): () => void {
+    return this.publicClient.watchBlockNumber({
+      emitOnBegin: true,
+      poll: true,
+      pollingInterval: options.pollingInterval,
+      onBlockNumber: () => {
+        this.sync().then(options.onSync, options.onError);
+      },
+      onError: options.onError,
+    });
+  }
+
+  /**
+   * Last block whose events are all indexed
+   */
+  get lastBlock(): number | null {
+    return this.state.lastBlock;
+  }
+
+  /**
+   * Indexed events in chain order, optionally filtered by name
+   * @param eventName Only return events with this name
+   */
+  events<TEventName extends IndexedEventName>(
+    eventName?: TEventName
+  ): Extract<IndexedEvent, { eventName: TEventName }>[] {
+    return this.state.events.filter(
+      (event) => eventName === undefined || event.eventName === eventName
+    ) as Extract<IndexedEvent, { eventName: TEventName }>[];
+  }
+
+  /**
+   * Current key of an account
+   * @param account The account to look up
+   * @returns The key, or undefined if the account has none
+   */
+  currentKey(account: Address): Address | undefined {
+    let key: Address | undefined;
+    for (const event of this.state.events) {
+      if (
+        !("account" in event.args) ||
+        !isAddressEqual(event.args.account, account)
+      ) {
+        continue;
+      }
+      if (event.eventName === "KeyAdded") {
+        key = event.args.key;
+      } else if (
+        event.eventName === "KeyReplaced" ||
+        event.eventName === "RecoveryCompleted"
+      ) {
+        key = event.args.newKey;
+      } else if (event.eventName === "KeyRevoked") {
+        key = undefined;
+      }
+    }
+    return key;
+  }
+
+  /**
+   * Keys an account currently holds for purposes other than the primary one,
+   * expired ones included, in the order they were added
+   * @param account The account to look up
+   */
+  purposeKeys(account: Address): KeyInfo[] {
+    const keys: KeyInfo[] = [];
+    for (const event of this.state.events) {
+      if (
+        event.eventName === "PurposeKeyAdded" &&
+        isAddressEqual(event.args.account, account)
+      ) {
+        const { key, purpose, expiresAt } = event.args;
+        keys.push({ key, purpose, expiresAt });
+      } else if (
+        event.eventName === "PurposeKeyRemoved" &&
+        isAddressEqual(event.args.account, account)
+      ) {
+        const index = keys.findIndex(
+          (info) =>
+            info.purpose === event.args.purpose &&
+            isAddressEqual(info.key, event.args.key)
+        );
+        // The key can be unknown when it was added before the indexed range
+        if (index !== -1) {
+          keys.splice(index, 1);
+        }
+      }
+    }
+    return keys;
+  }
+
+  /**
+   * Factories currently registered in the BaseFactory, in registration order
+   */
+  registeredFactories(): Address[] {
+    const factories = new Set<Address>();
+    for (const event of this.state.events) {
+      if (event.eventName === "FactoryRegistered") {
+        factories.add(event.args.factory);
+      } else if (event.eventName === "FactoryUnregistered") {
+        factories.delete(event.args.factory);
+      }
+    }
+    return [...factories];
+  }
+
+  /**
+   * Accounts currently holding a role of the BaseFactory, in the order they
+   * were granted it
+   * @param role The role to look up, see BaseFactoryRole
+   */
+  roleMembers(role: Hex): Address[] {
+    const members = new Set<Address>();
+    for (const event of this.state.events) {
+      if (event.eventName === "RoleGranted" && event.args.role === role) {
+        members.add(event.args.account);
+      } else if (
+        event.eventName === "RoleRevoked" &&
+        event.args.role === role
+      ) {
+        members.delete(event.args.account);
+      }
+    }
+    return [...members];
+  }
+
+  /**
+   * Super admin transfer of the BaseFactory waiting to be accepted, with a zero
+   * newAdmin when there is none, as the contract reports it
+   */
+  pendingDefaultAdmin(): PendingDefaultAdmin {
+    let pending: PendingDefaultAdmin = {
+      newAdmin: zeroAddress,
+      acceptSchedule: 0,
+    };
+    for (const event of this.state.events) {
+      if (event.eventName === "DefaultAdminTransferScheduled") {
+        const { newAdmin, acceptSchedule } = event.args;
+        pending = { newAdmin, acceptSchedule };
+      } else if (
+        event.eventName === "DefaultAdminTransferCanceled" ||
+        // Accepting the transfer grants the role to the new super admin
+        (event.eventName === "RoleGranted" &&
+          event.args.role === BaseFactoryRole.SUPER_ADMIN)
+      ) {
+        pending = { newAdmin: zeroAddress, acceptSchedule: 0 };
+      }
+    }
+    return pending;
+  }
+
+  /**
+   * Governments created by the GovernmentFactory, in creation order
+   */
+  governments(): Address[] {
+    return this.events("GovernmentCreated").map(
+      (event) => event.args.government
+    );
+  }
+
+  /**
+   * Governments currently owned by an account, following ownership transfers
+   * @param owner The owner to look up
+   */
+  governmentsByOwner(owner: Address): Address[] {
+    const owners = new Map<Address, Address>();
+    for (const event of this.state.events) {
+      if (event.eventName === "GovernmentCreated") {
+        owners.set(event.args.government, event.args.owner);
+      } else if (
+        event.eventName === "OwnershipTransferred" &&
+        owners.has(event.address)
+      ) {
+        owners.set(event.address, event.args.newOwner);
+      }
+    }
+
+    return [...owners]
+      .filter(([, governmentOwner]) => isAddressEqual(governmentOwner, owner))
+      .map(([government]) => government);
+  }
+
+  /**
+   * Load the persisted state, roll back reorged blocks and index new ones
+   */
+  private async runSync(): Promise<SyncResult> {
+    if (!this.loaded) {
+      this.state = await this.store.load();
+      this.loaded = true;
+    }
+
+    const reorgedTo = await this.rollbackReorgedBlocks();
+    const eventCount = this.state.events.length;
+
+    const head =
+      Number(await this.publicClient.getBlockNumber()) - this.confirmations;
+    let from =
+      this.state.lastBlock === null ? this.fromBlock : this.state.lastBlock + 1;
+
+    while (from <= head) {
+      const to = Math.min(from + this.batchSize - 1, head);
+      await this.indexRange(from, to);
+      from = to + 1;
+    }
+
+    return {
+      lastBlock: this.state.lastBlock,
+      newEvents: this.state.events.length - eventCount,
+      ...(reorgedTo !== undefined && { reorgedTo }),
+    };
+  }
+
+  /**
+   * Compare the checkpoints against the chain and drop everything after the
+   * most recent checkpoint that is still canonical
+   * @returns The block rolled back to, or undefined if there was no reorg
+   */
+  private async rollbackReorgedBlocks(): Promise<number | null | undefined> {
+    const { checkpoints } = this.state;
+    let reorged = false;
+
+    while (checkpoints.length > 0) {
+      const checkpoint = checkpoints[checkpoints.length - 1];
+      const block = await this.publicClient
+        .getBlock({ blockNumber: BigInt(checkpoint.blockNumber) })
+        .catch(() => undefined);
+
+      if (block?.hash === checkpoint.blockHash) {
+        break;
+      }
+      checkpoints.pop();
+      reorged = true;
+    }
+
+    if (!reorged) {
+      return undefined;
+    }
+
+    // Without any canonical checkpoint left the whole range is re-indexed
+    const safeBlock =
+      checkpoints.length > 0
+        ? checkpoints[checkpoints.length - 1].blockNumber
+        : null;
+    this.state.lastBlock = safeBlock;
+    this.state.events = this.state.events.filter(
+      (event) => safeBlock !== null && event.blockNumber <= safeBlock
+    );
+    await this.store.save(this.state);
+
+    return safeBlock;
+  }
+
+  /**
+   * Index the events of a block range and checkpoint its last block
+   */
+  private async indexRange(from: number, to: number): Promise<void> {
+    const checkpointBlock = await this.publicClient.getBlock({
+      blockNumber: BigInt(to),
+    });
+
+    const events = await this.fetchEvents(BigInt(from), BigInt(to));
+
+    // A reorg while fetching would mix logs from two chains, retry on the next sync
+    const current = await this.publicClient.getBlock({
+      blockNumber: BigInt(to),
+    });
+    if (current.hash !== checkpointBlock.hash) {
+      throw new Error(`Block ${to} was reorged while indexing`);
+    }
+
+    this.state.events.push(...events);
+    this.state.lastBlock = to;
+    this.state.checkpoints.push({
+      blockNumber: to,
+      blockHash: checkpointBlock.hash,
+    });
+    if (this.state.checkpoints.length > this.maxCheckpoints) {
+      this.state.checkpoints.splice(
+        0,
+        this.state.checkpoints.length - this.maxCheckpoints
+      );
+    }
+
+    await this.store.save(this.state);
+  }
+
+  /**
+   * Fetch and decode the tracked events of a block range
+   */
+  private async fetchEvents(
+    fromBlock: bigint,
+    toBlock: bigint
+  ): Promise<IndexedEvent[]> {
+    const { baseFactory, governmentFactory, key } = this.contracts;
+    const logs: Log[] = [];
+
+    if (baseFactory) {
+      logs.push(
+        ...(await this.publicClient.getContractEvents({
+          address: baseFactory,
+          abi: baseFactoryAbi,
+          fromBlock,
+          toBlock,
+        }))
+      );
+    }
+
+    if (governmentFactory) {
+      const created = await this.publicClient.getContractEvents({
+        address: governmentFactory,
+        abi: governmentFactoryAbi,
+        eventName: "GovernmentCreated",
+        fromBlock,
+        toBlock,
+      });
+      logs.push(...created);
+
+      // Governments created in this range are known now, so their ownership
+      // events in the same range are fetched as well
+      const governments = [
+        ...this.governments(),
+        ...created.map((log) => log.args.government as Address),
+      ];
+      if (governments.length > 0) {
+        logs.push(
+          ...(await this.publicClient.getContractEvents({
+            address: governments,
+            abi: governmentAbi,
+            eventName: "OwnershipTransferred",
+            fromBlock,
+            toBlock,
+          }))
+        );
+      }
+    }
+
+    if (key) {
+      logs.push(
+        ...(await this.publicClient.getContractEvents({
+          address: key,
+          abi: keyAbi,
+          fromBlock,
+          toBlock,
+        }))
+      );
+    }
+
+    return logs
+      .map(toIndexedEvent)
+      .filter((event): event is IndexedEvent => event !== undefined)
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  }
+}
+
+// Names of the events the indexer keeps
+const INDEXED_EVENTS: ReadonlySet<string> = new Set<IndexedEventName>([
+  "FactoryRegistered",
+  "FactoryUnregistered",
+  "RoleGranted",
+  "RoleRevoked",
+  "DefaultAdminTransferScheduled",
+  "DefaultAdminTransferCanceled",
+  "GovernmentCreated",
+  "OwnershipTransferred",
+  "KeyAdded",
+  "KeyReplaced",
+  "KeyRevoked",
+  "GuardianSet",
+  "RecoveryInitiated",
+  "RecoveryCancelled",
+  "RecoveryCompleted",
+  "PurposeKeyAdded",
+  "PurposeKeyRemoved",
+]);
+
+/**
+ * Convert a decoded log into an indexed event, ignoring untracked events
+ */
+function toIndexedEvent(log: Log): IndexedEvent | undefined {
+  const { eventName, args } = log as Log & {
+    eventName?: string;
+    args?: Record<string, unknown>;
+  };
+  if (
+    !eventName ||
+    !INDEXED_EVENTS.has(eventName) ||
+    log.blockNumber === null ||
+    log.blockHash === null ||
+    log.transactionHash === null ||
+    log.logIndex === null
+  ) {
+    return undefined;
+  }
+
+  return {
+    eventName,
+    args,
+    address: getAddress(log.address),
+    blockNumber: Number(log.blockNumber),
+    blockHash: log.blockHash,
+    transactionHash: log.transactionHash,
+    logIndex: log.logIndex,
+  } as IndexedEvent;
+}
@@ -0,0 +1,100 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+import type { IndexerState } from "./types";
+
+/**
+ * Persistence for the indexer state
+ */
+export interface IndexerStore {
+  /** Load the persisted state, or an empty state if nothing was saved yet */
+  load(): Promise<IndexerState>;
+  /** Persist the state, replacing what was saved before */
+  save(state: IndexerState): Promise<void>;
+}
+
+/**
+ * Create an empty indexer state
+ */
+export function emptyIndexerState(): IndexerState {
+  return { lastBlock: null, checkpoints: [], events: [] };
+}
+
+/**
+ * Keeps the indexer state in memory only
+ */
+export class MemoryStore implements IndexerStore {
+  private state: IndexerState = emptyIndexerState();
+
+  async load(): Promise<IndexerState> {
+    return structuredClone(this.state);
+  }
+
+  async save(state: IndexerState): Promise<void> {
+    this.state = structuredClone(state);
+  }
+}
+
+// Version of the JSON file layout, bumped whenever the indexed events change.
+// Version 2 added the kind and metadata of FactoryRegistered and the
+// BaseFactory role events, which files of version 1 lack.
+export const INDEXER_FILE_VERSION = 2;
+
+// JSON has no bigint, event arguments like timestamps are tagged instead
+function replaceBigInt(_key: string, value: unknown): unknown {
+  return typeof value === "bigint" ? { $bigint: value.toString() } : value;
+}
+
+function reviveBigInt(_key: string, value: unknown): unknown {
+  const tagged = value as { $bigint?: unknown } | null;
+  return typeof tagged?.$bigint === "string" ? BigInt(tagged.$bigint) : value;
+}
+
+/**
+ * Keeps the indexer state in a local JSON file
+ */
+export class JsonFileStore implements IndexerStore {
+  constructor(readonly filePath: string) {}
+
+  async load(): Promise<IndexerState> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return emptyIndexerState();
+      }
+      throw error;
+    }
+
+    const { version, ...state } = JSON.parse(contents, reviveBigInt);
+    // Older files miss events, they cannot be migrated without re-indexing
+    if (typeof version === "number" && version < INDEXER_FILE_VERSION) {
+      throw new Error(
+        `Outdated indexer file version ${version} in ${this.filePath}, delete it to re-index from the deployment block`
+      );
+    }
+    if (version !== INDEXER_FILE_VERSION) {
+      throw new Error(
+        `Unsupported indexer file version ${version} in ${this.filePath}`
+      );
+    }
+    return state as IndexerState;
+  }
+
+  async save(state: IndexerState): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    // Write to a temporary file first so a crash never leaves a partial file
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(
+      tempPath,
+      JSON.stringify(
+        { version: INDEXER_FILE_VERSION, ...state },
+        replaceBigInt,
+        2
+      )
+    );
+    await fs.rename(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,97 @@
+import type { Address, Hash, Hex } from "viem";
+
+/**
+ * Position of an indexed log on chain
+ */
+interface IndexedLog<TEventName extends string, TArgs> {
+  eventName: TEventName;
+  args: TArgs;
+  /** Contract that emitted the event */
+  address: Address;
+  blockNumber: number;
+  blockHash: Hash;
+  transactionHash: Hash;
+  logIndex: number;
+}
+
+/**
+ * An event tracked by the indexer, decoded from the contract ABIs
+ */
+export type IndexedEvent =
+  | IndexedLog<
+      "FactoryRegistered",
+      { factory: Address; kind: Hex; version: string; metadataURI: string }
+    >
+  | IndexedLog<"FactoryUnregistered", { factory: Address }>
+  | IndexedLog<"RoleGranted", { role: Hex; account: Address; sender: Address }>
+  | IndexedLog<"RoleRevoked", { role: Hex; account: Address; sender: Address }>
+  | IndexedLog<
+      "DefaultAdminTransferScheduled",
+      { newAdmin: Address; acceptSchedule: number }
+    >
+  | IndexedLog<"DefaultAdminTransferCanceled", Record<string, never>>
+  | IndexedLog<"GovernmentCreated", { government: Address; owner: Address }>
+  | IndexedLog<
+      "OwnershipTransferred",
+      { previousOwner: Address; newOwner: Address }
+    >
+  | IndexedLog<"KeyAdded", { account: Address; key: Address }>
+  | IndexedLog<
+      "KeyReplaced",
+      { account: Address; oldKey: Address; newKey: Address }
+    >
+  | IndexedLog<"KeyRevoked", { account: Address; key: Address }>
+  | IndexedLog<"GuardianSet", { account: Address; guardian: Address }>
+  | IndexedLog<
+      "RecoveryInitiated",
+      {
+        account: Address;
+        guardian: Address;
+        newKey: Address;
+        executeAfter: bigint;
+      }
+    >
+  | IndexedLog<"RecoveryCancelled", { account: Address; newKey: Address }>
+  | IndexedLog<
+      "RecoveryCompleted",
+      { account: Address; oldKey: Address; newKey: Address }
+    >
+  | IndexedLog<
+      "PurposeKeyAdded",
+      { account: Address; purpose: Hex; key: Address; expiresAt: bigint }
+    >
+  | IndexedLog<
+      "PurposeKeyRemoved",
+      { account: Address; purpose: Hex; key: Address }
+    >;
+
+export type IndexedEventName = IndexedEvent["eventName"];
+
+/**
+ * Hash of an indexed block, used to detect reorgs
+ */
+export interface Checkpoint {
+  blockNumber: number;
+  blockHash: Hash;
+}
+
+/**
+ * Everything the indexer persists between runs
+ */
+export interface IndexerState {
+  /** Last block whose events are all indexed, null before the first sync */
+  lastBlock: number | null;
+  /** Most recent checkpoints, oldest first */
+  checkpoints: Checkpoint[];
+  /** Indexed events in chain order */
+  events: IndexedEvent[];
+}
+
+/**
+ * Addresses of the contracts to index, any of them can be omitted
+ */
+export interface IndexedContracts {
+  baseFactory?: Address;
+  governmentFactory?: Address;
+  key?: Address;
+}
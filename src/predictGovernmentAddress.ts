@@ -0,0 +1,53 @@
+import {
+  concat,
+  encodeAbiParameters,
+  encodeFunctionData,
+  getContractAddress,
+  type Address,
+  type Hex,
+} from "viem";
+
+import { beaconProxyBytecode, governmentAbi } from "./abis";
+
+/**
+ * Parameters of a deterministic government deployment
+ */
+export interface PredictGovernmentAddressParameters {
+  /** Address of the GovernmentFactory that deploys the government */
+  factory: Address;
+  /** Address that will own the government */
+  governmentOwner: Address;
+  /** Beacon the factory's governments are proxies of, see GovernmentFactory.beacon */
+  beacon: Address;
+  /** 32-byte salt passed to createGovernmentDeterministic */
+  salt: Hex;
+}
+
+/**
+ * Compute offline the address GovernmentFactory.createGovernmentDeterministic deploys to.
+ * Matches GovernmentFactory.predictGovernmentAddress without any RPC call.
+ * @returns The predicted address of the government
+ */
+export function predictGovernmentAddress({
+  factory,
+  governmentOwner,
+  beacon,
+  salt,
+}: PredictGovernmentAddressParameters): Address {
+  const initializeCall = encodeFunctionData({
+    abi: governmentAbi,
+    functionName: "initialize",
+    args: [governmentOwner],
+  });
+  const constructorArgs = encodeAbiParameters(
+    [{ type: "address" }, { type: "bytes" }],
+    [beacon, initializeCall]
+  );
+
+  return getContractAddress({
+    opcode: "CREATE2",
+    from: factory,
+    salt,
+    bytecode: concat([beaconProxyBytecode, constructorArgs]),
+  });
+}
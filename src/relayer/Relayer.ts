@@ -0,0 +1,171 @@
+import {
+  isAddressEqual,
+  parseAbi,
+  type Address,
+  type Hash,
+  type PublicClient,
+  type WalletClient,
+} from "viem";
+
+import { decodeContractError } from "../errors";
+import { ForwarderClient, type SignedForwardRequest } from "../ForwarderClient";
+
+/**
+ * Why a relayer refused a request
+ */
+export type RelayRejectionReason =
+  | "value"
+  | "target"
+  | "gas"
+  | "expired"
+  | "untrusted-target"
+  | "signature"
+  | "reverted";
+
+/**
+ * Thrown when a request fails the relayer's off-chain validation.
+ * Nothing was sent, so the relayer paid no gas for it.
+ */
+export class RelayRejectedError extends Error {
+  /** Why the request was refused */
+  readonly reason: RelayRejectionReason;
+  /** The error that caused the rejection, e.g. the ContractError of a reverted call */
+  readonly cause: unknown;
+
+  constructor(reason: RelayRejectionReason, message: string, cause?: unknown) {
+    super(`Relay rejected (${reason}): ${message}`);
+    this.name = "RelayRejectedError";
+    this.reason = reason;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Options of the relayer
+ */
+export interface RelayerConfig {
+  /** Address of the Forwarder the requests are signed for */
+  forwarder: Address;
+  publicClient: PublicClient;
+  /** Wallet paying the gas of relayed requests */
+  walletClient: WalletClient;
+  /** Contracts requests may call, any contract trusting the Forwarder by default */
+  allowedTargets?: readonly Address[];
+  /** Maximum gas a request may forward (default 1,000,000) */
+  maxGas?: bigint;
+}
+
+// Read by the relayer to check the target trusts the Forwarder
+const erc2771ContextAbi = parseAbi([
+  "function isTrustedForwarder(address forwarder) view returns (bool)",
+]);
+
+/**
+ * Accepts requests signed by accounts without ETH, validates them off-chain
+ * and submits them through the Forwarder, paying their gas.
+ */
+export class Relayer {
+  readonly forwarder: ForwarderClient;
+  private readonly publicClient: PublicClient;
+  private readonly allowedTargets?: readonly Address[];
+  private readonly maxGas: bigint;
+
+  constructor(config: RelayerConfig) {
+    this.forwarder = new ForwarderClient({
+      address: config.forwarder,
+      publicClient: config.publicClient,
+      walletClient: config.walletClient,
+    });
+    this.publicClient = config.publicClient;
+    this.allowedTargets = config.allowedTargets;
+    this.maxGas = config.maxGas ?? 1_000_000n;
+  }
+
+  /**
+   * Check a signed request without sending anything
+   * @param request The signed request
+   * @throws RelayRejectedError if the request would not be relayed
+   */
+  async validate(request: SignedForwardRequest): Promise<void> {
+    // The relayer pays gas, never value
+    if (request.value !== 0n) {
+      throw new RelayRejectedError("value", "requests cannot send value");
+    }
+
+    if (
+      this.allowedTargets &&
+      !this.allowedTargets.some((target) => isAddressEqual(target, request.to))
+    ) {
+      throw new RelayRejectedError(
+        "target",
+        `${request.to} is not an allowed target`
+      );
+    }
+
+    if (request.gas > this.maxGas) {
+      throw new RelayRejectedError(
+        "gas",
+        `${request.gas} gas exceeds the limit of ${this.maxGas}`
+      );
+    }
+
+    const block = await this.publicClient.getBlock();
+    if (BigInt(request.deadline) <= block.timestamp) {
+      throw new RelayRejectedError(
+        "expired",
+        `deadline ${request.deadline} has passed`
+      );
+    }
+
+    const trusted = await this.publicClient
+      .readContract({
+        address: request.to,
+        abi: erc2771ContextAbi,
+        functionName: "isTrustedForwarder",
+        args: [this.forwarder.address],
+      })
+      .catch(() => false);
+    if (!trusted) {
+      throw new RelayRejectedError(
+        "untrusted-target",
+        `${request.to} does not trust the forwarder`
+      );
+    }
+
+    // Also fails when the nonce was already used
+    if (!(await this.forwarder.verify(request))) {
+      throw new RelayRejectedError(
+        "signature",
+        `signature does not match ${request.from} and its current nonce`
+      );
+    }
+
+    // The Forwarder hides why a call reverted, so run it as the signer first
+    try {
+      await this.publicClient.call({
+        account: request.from,
+        to: request.to,
+        data: request.data,
+        gas: request.gas,
+      });
+    } catch (error) {
+      const cause = decodeContractError(error);
+      throw new RelayRejectedError(
+        "reverted",
+        cause instanceof Error ? cause.message : "call reverted",
+        cause
+      );
+    }
+  }
+
+  /**
+   * Validate a signed request and submit it through the Forwarder
+   * @param request The signed request
+   * @returns The transaction hash
+   * @throws RelayRejectedError if the request would not be relayed
+   */
+  async relay(request: SignedForwardRequest): Promise<Hash> {
+    await this.validate(request);
+    return this.forwarder.execute(request);
+  }
+}
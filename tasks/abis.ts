@@ -0,0 +1,62 @@
+import { promises as fs } from "fs";
+import { TASK_COMPILE_SOLIDITY } from "hardhat/builtin-tasks/task-names";
+import { subtask } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import path from "path";
+
+/** File the SDK reads its ABIs and bytecode from, relative to the project root */
+export const GENERATED_CONTRACTS_FILE = path.join(
+  "src",
+  "generated",
+  "contracts.ts"
+);
+
+/** Contracts used by the SDK, by the prefix of their exported constants */
+const SDK_CONTRACTS: Record<string, string> = {
+  baseFactory: "BaseFactory",
+  governmentFactory: "GovernmentFactory",
+  government: "Government",
+  key: "Key",
+  forwarder: "Forwarder",
+  beaconProxy:
+    "@openzeppelin/contracts/proxy/beacon/BeaconProxy.sol:BeaconProxy",
+  upgradeableBeacon:
+    "@openzeppelin/contracts/proxy/beacon/UpgradeableBeacon.sol:UpgradeableBeacon",
+};
+
+/**
+ * Write the ABI and bytecode of the SDK contracts as `as const` TypeScript,
+ * so the SDK is typed without the gitignored artifacts
+ * @param hre The Hardhat runtime environment
+ * @returns The path of the generated file
+ */
+export async function generateContracts(
+  hre: HardhatRuntimeEnvironment
+): Promise<string> {
+  const sections = [
+    "// Generated by `npx hardhat compile` from the Hardhat artifacts, do not edit.\n",
+  ];
+  for (const [prefix, name] of Object.entries(SDK_CONTRACTS)) {
+    const { abi, bytecode } = await hre.artifacts.readArtifact(name);
+    sections.push(
+      `export const ${prefix}Abi = ${JSON.stringify(abi, null, 2)} as const;\n`,
+      `export const ${prefix}Bytecode = ${JSON.stringify(bytecode)} as const;\n`
+    );
+  }
+  const contents = sections.join("\n");
+
+  // Leave the file untouched when the contracts did not change
+  const file = path.join(hre.config.paths.root, GENERATED_CONTRACTS_FILE);
+  const previous = await fs.readFile(file, "utf8").catch(() => undefined);
+  if (previous !== contents) {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, contents);
+  }
+  return file;
+}
+
+subtask(TASK_COMPILE_SOLIDITY).setAction(async (args, hre, runSuper) => {
+  const result = await runSuper(args);
+  await generateContracts(hre);
+  return result;
+});
@@ -0,0 +1,120 @@
+import {
+  HardhatArtifactResolver,
+  resolveDeploymentId,
+} from "@nomicfoundation/hardhat-ignition/helpers";
+import { listTransactions } from "@nomicfoundation/ignition-core";
+import { existsSync } from "fs";
+import { task } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import path from "path";
+import { isAddressEqual, type Address, type Hash } from "viem";
+
+import PoligovModule from "../ignition/modules/Poligov";
+import type { AddressBook, DeployedContract } from "../src";
+import { getAddressBookDir, loadSdk, PLUGIN_NAME } from "./utils";
+
+task(
+  "poligov:deploy",
+  "Deploy the stack with the Poligov Ignition module and write the address book of the network"
+)
+  .addOptionalParam(
+    "parameters",
+    "Ignition parameters file, ignition/parameters/<network>.json by default when it exists"
+  )
+  .addOptionalParam(
+    "deploymentId",
+    "Ignition deployment id, chain-<chainId> by default"
+  )
+  .setAction(
+    async (
+      {
+        parameters,
+        deploymentId,
+      }: { parameters?: string; deploymentId?: string },
+      hre
+    ): Promise<AddressBook> => {
+      // Ignition keeps no journal for the in-process network, which is gone once the task ends
+      if (hre.network.name === "hardhat") {
+        throw new HardhatPluginError(
+          PLUGIN_NAME,
+          "The hardhat network is not persisted, deploy to localhost or a live network"
+        );
+      }
+
+      const { writeAddressBook } = await loadSdk();
+      const publicClient = await hre.viem.getPublicClient();
+      const chainId = await publicClient.getChainId();
+
+      const networkParameters = path.join(
+        hre.config.paths.ignition,
+        "parameters",
+        `${hre.network.name}.json`
+      );
+      const deployed = await hre.ignition.deploy(PoligovModule, {
+        parameters:
+          parameters ??
+          (existsSync(networkParameters) ? networkParameters : undefined),
+        deploymentId,
+        displayUi: true,
+      });
+
+      // Find the transactions that created the contracts in the Ignition journal
+      const transactions = await listTransactions(
+        path.join(
+          hre.config.paths.ignition,
+          "deployments",
+          resolveDeploymentId(deploymentId, chainId)
+        ),
+        new HardhatArtifactResolver(hre)
+      );
+      const findDeployment = async (
+        name: string,
+        address: Address
+      ): Promise<DeployedContract> => {
+        const transaction = transactions.find(
+          (tx) =>
+            tx.address !== undefined &&
+            isAddressEqual(tx.address as Address, address)
+        );
+        if (!transaction) {
+          throw new HardhatPluginError(
+            PLUGIN_NAME,
+            `Ignition recorded no deployment of ${name} at ${address}`
+          );
+        }
+
+        const transactionHash = transaction.txHash as Hash;
+        const { blockNumber } = await publicClient.getTransactionReceipt({
+          hash: transactionHash,
+        });
+        return { address, transactionHash, blockNumber: Number(blockNumber) };
+      };
+
+      const addressBook: AddressBook = {
+        chainId,
+        contracts: {
+          BaseFactory: await findDeployment(
+            "BaseFactory",
+            deployed.baseFactory.address
+          ),
+          GovernmentFactory: await findDeployment(
+            "GovernmentFactory",
+            deployed.governmentFactory.address
+          ),
+          Key: await findDeployment("Key", deployed.key.address),
+        },
+      };
+      const filePath = await writeAddressBook(
+        addressBook,
+        await getAddressBookDir(hre)
+      );
+
+      console.log(
+        `Address book ${path.relative(hre.config.paths.root, filePath)}`
+      );
+      for (const [name, { address }] of Object.entries(addressBook.contracts)) {
+        console.log(`  ${name} ${address}`);
+      }
+      return addressBook;
+    }
+  );
@@ -0,0 +1,198 @@
+import { HardhatPluginError } from "hardhat/plugins";
+import { task } from "hardhat/config";
+import { isHex, size, type Address, type Hex } from "viem";
+
+import {
+  getClients,
+  loadSdk,
+  parseAddress,
+  PLUGIN_NAME,
+  printEvents,
+  resolveAddress,
+  runContractAction,
+} from "./utils";
+
+interface FactoryArgs {
+  baseFactory?: string;
+  factory: string;
+  from?: string;
+}
+
+interface RegisterFactoryArgs extends FactoryArgs {
+  kind?: string;
+  factoryVersion: string;
+  metadataUri: string;
+}
+
+/**
+ * Validate a factory kind given on the command line
+ * @param value The value of the parameter, a 4-byte ERC-165 interface id
+ */
+function parseKind(value: string): Hex {
+  if (!isHex(value) || size(value) !== 4) {
+    throw new HardhatPluginError(
+      PLUGIN_NAME,
+      `--kind is not a 4-byte interface id: ${value}`
+    );
+  }
+  return value;
+}
+
+task("factory:register", "Register a factory in the BaseFactory")
+  .addOptionalParam(
+    "baseFactory",
+    "Address of the BaseFactory, read from the address book by default"
+  )
+  .addParam("factory", "Address of the factory to register")
+  .addOptionalParam(
+    "kind",
+    "ERC-165 interface id of the factory kind, read from its FACTORY_KIND by default"
+  )
+  .addParam("factoryVersion", "Version of the factory, e.g. 1.0.0")
+  .addOptionalParam("metadataUri", "URI describing the factory", "")
+  .addOptionalParam("from", "Factory manager account, the first one by default")
+  .setAction(
+    async (
+      {
+        baseFactory,
+        factory,
+        kind,
+        factoryVersion,
+        metadataUri,
+        from,
+      }: RegisterFactoryArgs,
+      hre
+    ) => {
+      const { BaseFactoryClient, governmentFactoryAbi } = await loadSdk();
+      const config = await getClients(hre, from);
+      const client = new BaseFactoryClient({
+        address: await resolveAddress(
+          hre,
+          baseFactory,
+          "base-factory",
+          "BaseFactory"
+        ),
+        ...config,
+      });
+      const factoryAddress = parseAddress(factory, "factory");
+
+      // Without a kind, ask the factory for its own
+      const factoryKind =
+        kind === undefined
+          ? await config.publicClient
+              .readContract({
+                address: factoryAddress,
+                abi: governmentFactoryAbi,
+                functionName: "FACTORY_KIND",
+                args: [],
+              })
+              .catch(() => {
+                throw new HardhatPluginError(
+                  PLUGIN_NAME,
+                  `${factoryAddress} has no FACTORY_KIND, set --kind`
+                );
+              })
+          : parseKind(kind);
+
+      const hash = await runContractAction(() =>
+        client.registerFactory({
+          factory: factoryAddress,
+          kind: factoryKind,
+          version: factoryVersion,
+          metadataURI: metadataUri,
+        })
+      );
+      const events = await printEvents(
+        config.publicClient,
+        hash,
+        client.abi,
+        client.address
+      );
+      return { hash, events };
+    }
+  );
+
+task("factory:unregister", "Unregister a factory from the BaseFactory")
+  .addOptionalParam(
+    "baseFactory",
+    "Address of the BaseFactory, read from the address book by default"
+  )
+  .addParam("factory", "Address of the factory to unregister")
+  .addOptionalParam("from", "Factory manager account, the first one by default")
+  .setAction(async ({ baseFactory, factory, from }: FactoryArgs, hre) => {
+    const { BaseFactoryClient } = await loadSdk();
+    const config = await getClients(hre, from);
+    const client = new BaseFactoryClient({
+      address: await resolveAddress(
+        hre,
+        baseFactory,
+        "base-factory",
+        "BaseFactory"
+      ),
+      ...config,
+    });
+
+    const hash = await runContractAction(() =>
+      client.unregisterFactory(parseAddress(factory, "factory"))
+    );
+    const events = await printEvents(
+      config.publicClient,
+      hash,
+      client.abi,
+      client.address
+    );
+    return { hash, events };
+  });
+
+task("factory:list", "List the factories registered in the BaseFactory")
+  .addOptionalParam(
+    "baseFactory",
+    "Address of the BaseFactory, read from the address book by default"
+  )
+  .addOptionalParam(
+    "kind",
+    "ERC-165 interface id of a factory kind, to only list factories of that kind"
+  )
+  .setAction(
+    async (
+      { baseFactory, kind }: { baseFactory?: string; kind?: string },
+      hre
+    ): Promise<Address[]> => {
+      const { BaseFactoryClient } = await loadSdk();
+      const config = await getClients(hre);
+      const client = new BaseFactoryClient({
+        address: await resolveAddress(
+          hre,
+          baseFactory,
+          "base-factory",
+          "BaseFactory"
+        ),
+        ...config,
+      });
+
+      const listedKind = kind === undefined ? undefined : parseKind(kind);
+      const factories = await runContractAction(async () =>
+        listedKind === undefined
+          ? client.getFactories(0n, await client.factoryCount())
+          : client.factoriesOfKind(listedKind)
+      );
+      if (factories.length === 0) {
+        console.log("No registered factories");
+      }
+      for (const factory of factories) {
+        const {
+          kind: factoryKind,
+          version,
+          metadataURI,
+          registeredAt,
+        } = await runContractAction(() => client.getFactory(factory));
+        const registered = new Date(Number(registeredAt) * 1000).toISOString();
+        console.log(
+          [factory, factoryKind, version, registered, metadataURI]
+            .filter((column) => column !== "")
+            .join("  ")
+        );
+      }
+      return [...factories];
+    }
+  );
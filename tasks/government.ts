@@ -0,0 +1,135 @@
+import { task } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import { isHex, size } from "viem";
+
+import {
+  getClients,
+  loadSdk,
+  parseAddress,
+  PLUGIN_NAME,
+  printEvents,
+  resolveAddress,
+  runContractAction,
+} from "./utils";
+
+task("gov:create", "Create a government with the GovernmentFactory")
+  .addOptionalParam(
+    "factory",
+    "Address of the GovernmentFactory, read from the address book by default"
+  )
+  .addParam("owner", "Owner of the new government")
+  .addOptionalParam(
+    "salt",
+    "bytes32 salt to create the government at a deterministic address"
+  )
+  .addOptionalParam(
+    "from",
+    "Government creator account, the first one by default"
+  )
+  .setAction(
+    async (
+      {
+        factory,
+        owner,
+        salt,
+        from,
+      }: { factory?: string; owner: string; salt?: string; from?: string },
+      hre
+    ) => {
+      const { GovernmentFactoryClient } = await loadSdk();
+      const config = await getClients(hre, from);
+      const client = new GovernmentFactoryClient({
+        address: await resolveAddress(
+          hre,
+          factory,
+          "factory",
+          "GovernmentFactory"
+        ),
+        ...config,
+      });
+      const governmentOwner = parseAddress(owner, "owner");
+      if (salt !== undefined && !(isHex(salt) && size(salt) === 32)) {
+        throw new HardhatPluginError(
+          PLUGIN_NAME,
+          `--salt is not a bytes32 value: ${salt}`
+        );
+      }
+
+      const { government, receipt } = await runContractAction(() =>
+        salt === undefined
+          ? client.createGovernmentWithReceipt(governmentOwner)
+          : client.createGovernmentDeterministicWithReceipt(
+              governmentOwner,
+              salt
+            )
+      );
+      const events = await printEvents(
+        config.publicClient,
+        receipt.transactionHash,
+        client.abi,
+        client.address
+      );
+      console.log(`Government ${government}`);
+      return { government, hash: receipt.transactionHash, events };
+    }
+  );
+
+task("gov:transfer", "Propose a new owner for a government")
+  .addParam("government", "Address of the government")
+  .addParam("to", "Proposed owner, who becomes the owner once it accepts")
+  .addOptionalParam("from", "Current owner account, the first one by default")
+  .setAction(
+    async (
+      {
+        government,
+        to,
+        from,
+      }: { government: string; to: string; from?: string },
+      hre
+    ) => {
+      const { GovernmentClient } = await loadSdk();
+      const config = await getClients(hre, from);
+      const client = new GovernmentClient({
+        address: parseAddress(government, "government"),
+        ...config,
+      });
+
+      const hash = await runContractAction(() =>
+        client.transferOwnership(parseAddress(to, "to"))
+      );
+      const events = await printEvents(
+        config.publicClient,
+        hash,
+        client.abi,
+        client.address
+      );
+      console.log("The proposed owner has to run gov:accept");
+      return { hash, events };
+    }
+  );
+
+task("gov:accept", "Accept the ownership of a government")
+  .addParam("government", "Address of the government")
+  .addOptionalParam("from", "Proposed owner account, the first one by default")
+  .setAction(
+    async (
+      { government, from }: { government: string; from?: string },
+      hre
+    ) => {
+      const { GovernmentClient } = await loadSdk();
+      const config = await getClients(hre, from);
+      const client = new GovernmentClient({
+        address: parseAddress(government, "government"),
+        ...config,
+      });
+
+      const hash = await runContractAction(() => client.acceptOwnership());
+      const events = await printEvents(
+        config.publicClient,
+        hash,
+        client.abi,
+        client.address
+      );
+      return { hash, events };
+    }
+  );
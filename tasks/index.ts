@@ -0,0 +1,5 @@
+import "./abis";
+import "./deploy";
+import "./factory";
+import "./government";
+import "./key";
@@ -0,0 +1,179 @@
+import { task, types } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import { getAddress, zeroAddress } from "viem";
+
+import {
+  getClients,
+  getWalletClient,
+  loadSdk,
+  parseAddress,
+  PLUGIN_NAME,
+  printEvents,
+  resolveAddress,
+  runContractAction,
+} from "./utils";
+
+task("key:add", "Add the first key of an account")
+  .addOptionalParam(
+    "registry",
+    "Address of the Key contract, read from the address book by default"
+  )
+  .addParam("key", "The key to add")
+  .addOptionalParam("from", "Account adding its key, the first one by default")
+  .setAction(
+    async (
+      {
+        registry,
+        key,
+        from,
+      }: { registry?: string; key: string; from?: string },
+      hre
+    ) => {
+      const { KeyClient } = await loadSdk();
+      const config = await getClients(hre, from);
+      const client = new KeyClient({
+        address: await resolveAddress(hre, registry, "registry", "Key"),
+        ...config,
+      });
+
+      const hash = await runContractAction(() =>
+        client.addKey(parseAddress(key, "key"))
+      );
+      const events = await printEvents(
+        config.publicClient,
+        hash,
+        client.abi,
+        client.address
+      );
+      return { hash, events };
+    }
+  );
+
+task(
+  "key:rotate",
+  "Replace the key of an account, signing the rotation locally"
+)
+  .addOptionalParam(
+    "registry",
+    "Address of the Key contract, read from the address book by default"
+  )
+  .addParam("newKey", "The key replacing the current one")
+  .addOptionalParam(
+    "signer",
+    "Configured account signing the rotation, the account holding the current key by default"
+  )
+  .addOptionalParam(
+    "deadline",
+    "Seconds the signature stays valid for",
+    3600,
+    types.int
+  )
+  .addOptionalParam(
+    "from",
+    "Account rotating its key, the first one by default"
+  )
+  .setAction(
+    async (
+      {
+        registry,
+        newKey,
+        signer,
+        deadline,
+        from,
+      }: {
+        registry?: string;
+        newKey: string;
+        signer?: string;
+        deadline: number;
+        from?: string;
+      },
+      hre
+    ) => {
+      const { KeyClient } = await loadSdk();
+      const config = await getClients(hre, from);
+      const client = new KeyClient({
+        address: await resolveAddress(hre, registry, "registry", "Key"),
+        ...config,
+      });
+      if (!config.walletClient.account) {
+        throw new HardhatPluginError(PLUGIN_NAME, "No account to send from");
+      }
+      const account = getAddress(config.walletClient.account.address);
+
+      // The current key signs the rotation, so it must be a configured account
+      const oldKey = await runContractAction(() => client.keys(account));
+      if (signer === undefined && oldKey === zeroAddress) {
+        throw new HardhatPluginError(
+          PLUGIN_NAME,
+          `${account} has no key to rotate`
+        );
+      }
+      const keyWallet = await getWalletClient(hre, signer ?? oldKey, "signer");
+
+      const { timestamp } = await config.publicClient.getBlock();
+      const signatureDeadline = timestamp + BigInt(deadline);
+      const replacement = parseAddress(newKey, "new-key");
+      const signature = await client.signKeyRotation(
+        keyWallet,
+        account,
+        replacement,
+        signatureDeadline
+      );
+
+      const hash = await runContractAction(() =>
+        client.replaceKey(replacement, signatureDeadline, signature)
+      );
+      const events = await printEvents(
+        config.publicClient,
+        hash,
+        client.abi,
+        client.address
+      );
+      return { hash, events };
+    }
+  );
+
+task("key:show", "Show the keys, guardian and pending recovery of an account")
+  .addOptionalParam(
+    "registry",
+    "Address of the Key contract, read from the address book by default"
+  )
+  .addParam("account", "The account to look up")
+  .setAction(
+    async (
+      { registry, account }: { registry?: string; account: string },
+      hre
+    ) => {
+      const { KeyClient } = await loadSdk();
+      const { publicClient } = await getClients(hre);
+      const client = new KeyClient({
+        address: await resolveAddress(hre, registry, "registry", "Key"),
+        publicClient,
+      });
+      const address = parseAddress(account, "account");
+
+      const [primaryKey, keys, guardian, recovery, nonce] = await Promise.all([
+        client.keys(address),
+        client.getKeys(address),
+        client.guardians(address),
+        client.pendingRecovery(address),
+        client.nonces(address),
+      ]);
+
+      console.log(`Account     ${address}`);
+      console.log(`Primary key ${primaryKey}`);
+      console.log(`Guardian    ${guardian}`);
+      console.log(`Nonce       ${nonce}`);
+      for (const { key, purpose, expiresAt } of keys) {
+        const expiry =
+          expiresAt === 0n ? "never expires" : `expires at ${expiresAt}`;
+        console.log(`Key         ${key} (purpose ${purpose}, ${expiry})`);
+      }
+      if (recovery.newKey !== zeroAddress) {
+        console.log(
+          `Recovery    to ${recovery.newKey}, executable after ${recovery.executeAfter}`
+        );
+      }
+      return { primaryKey, keys, guardian, recovery, nonce };
+    }
+  );
@@ -0,0 +1,207 @@
+import { HardhatPluginError } from "hardhat/plugins";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import path from "path";
+import {
+  isAddress,
+  isAddressEqual,
+  parseEventLogs,
+  type Abi,
+  type Address,
+  type Hash,
+  type PublicClient,
+  type WalletClient,
+} from "viem";
+
+import type { AddressBookContract, DeployedContract } from "../src";
+
+/** Name shown by Hardhat in front of the errors thrown by the tasks */
+export const PLUGIN_NAME = "poligov";
+
+/**
+ * Load the SDK when a task runs rather than with the config, so tasks that
+ * compile first use the ABIs generated by that compile
+ */
+export function loadSdk(): Promise<typeof import("../src")> {
+  return import("../src");
+}
+
+/**
+ * Validate an address given on the command line
+ * @param value The value of the parameter
+ * @param name The name of the parameter, for the error message
+ */
+export function parseAddress(value: string, name: string): Address {
+  if (!isAddress(value)) {
+    throw new HardhatPluginError(
+      PLUGIN_NAME,
+      `--${name} is not a valid address: ${value}`
+    );
+  }
+  return value;
+}
+
+/**
+ * Get the directory of the address books of the project
+ * @param hre The Hardhat runtime environment
+ */
+export async function getAddressBookDir(
+  hre: HardhatRuntimeEnvironment
+): Promise<string> {
+  const { DEFAULT_ADDRESS_BOOK_DIR } = await loadSdk();
+  return path.join(hre.config.paths.root, DEFAULT_ADDRESS_BOOK_DIR);
+}
+
+/**
+ * Look up a contract in the address book of the selected network
+ * @param hre The Hardhat runtime environment
+ * @param contract The contract to look up
+ * @returns The deployed contract, or undefined if the network has no address book
+ */
+export async function getDeployedContract(
+  hre: HardhatRuntimeEnvironment,
+  contract: AddressBookContract
+): Promise<DeployedContract | undefined> {
+  const { readAddressBook } = await loadSdk();
+  const publicClient = await hre.viem.getPublicClient();
+  const addressBook = await readAddressBook(
+    await publicClient.getChainId(),
+    await getAddressBookDir(hre)
+  );
+  return addressBook?.contracts[contract];
+}
+
+/**
+ * Validate the address of a contract given on the command line, or read it
+ * from the address book of the selected network when it is omitted
+ * @param hre The Hardhat runtime environment
+ * @param value The value of the parameter
+ * @param name The name of the parameter, for the error message
+ * @param contract The contract to look up in the address book
+ */
+export async function resolveAddress(
+  hre: HardhatRuntimeEnvironment,
+  value: string | undefined,
+  name: string,
+  contract: AddressBookContract
+): Promise<Address> {
+  if (value !== undefined) {
+    return parseAddress(value, name);
+  }
+
+  const deployed = await getDeployedContract(hre, contract);
+  if (!deployed) {
+    throw new HardhatPluginError(
+      PLUGIN_NAME,
+      `--${name} is required, the ${hre.network.name} network has no address book`
+    );
+  }
+  return deployed.address;
+}
+
+/**
+ * Get the clients of the selected network
+ * @param hre The Hardhat runtime environment
+ * @param from The configured account to send transactions from, the first one by default
+ */
+export async function getClients(
+  hre: HardhatRuntimeEnvironment,
+  from?: string
+): Promise<{ publicClient: PublicClient; walletClient: WalletClient }> {
+  const publicClient = (await hre.viem.getPublicClient()) as PublicClient;
+  return { publicClient, walletClient: await getWalletClient(hre, from) };
+}
+
+/**
+ * Get the wallet client of a configured account
+ * @param hre The Hardhat runtime environment
+ * @param address The account to look up, the first one by default
+ * @param name The parameter the account is given with, for the error messages
+ */
+export async function getWalletClient(
+  hre: HardhatRuntimeEnvironment,
+  address?: string,
+  name = "from"
+): Promise<WalletClient> {
+  const walletClients = (await hre.viem.getWalletClients()) as WalletClient[];
+  if (address === undefined) {
+    return walletClients[0];
+  }
+
+  const account = parseAddress(address, name);
+  const walletClient = walletClients.find(
+    (client) =>
+      client.account !== undefined &&
+      isAddressEqual(client.account.address, account)
+  );
+  if (!walletClient) {
+    throw new HardhatPluginError(
+      PLUGIN_NAME,
+      `${account} is not an account of the ${hre.network.name} network, set --${name} to one that is`
+    );
+  }
+  return walletClient;
+}
+
+/**
+ * Run a contract call, reporting custom errors as Hardhat errors so the CLI
+ * prints the revert reason instead of a stack trace
+ * @param action The contract call to run
+ */
+export async function runContractAction<T>(
+  action: () => Promise<T>
+): Promise<T> {
+  const { ContractError } = await loadSdk();
+  try {
+    return await action();
+  } catch (error) {
+    if (error instanceof ContractError) {
+      throw new HardhatPluginError(PLUGIN_NAME, error.message, error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Format a decoded event as `EventName(arg: value, ...)`
+ * @param eventName The name of the event
+ * @param args The decoded arguments of the event
+ */
+export function formatEvent(
+  eventName: string,
+  args: Record<string, unknown> | readonly unknown[] | undefined
+): string {
+  const formattedArgs = Object.entries(args ?? {})
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `${name}: ${String(value)}`)
+    .join(", ");
+  return `${eventName}(${formattedArgs})`;
+}
+
+/**
+ * Print a mined transaction and the events a contract emitted in it
+ * @param publicClient The client to read the receipt with
+ * @param hash The transaction hash
+ * @param abi The ABI of the contract, to decode its events
+ * @param address The address of the contract
+ * @returns The formatted events
+ */
+export async function printEvents(
+  publicClient: PublicClient,
+  hash: Hash,
+  abi: Abi,
+  address: Address
+): Promise<string[]> {
+  const { logs } = await publicClient.getTransactionReceipt({ hash });
+  const events = parseEventLogs({
+    abi,
+    logs: logs.filter((log) => isAddressEqual(log.address, address)),
+  }).map(({ eventName, args }) =>
+    formatEvent(eventName, args as Record<string, unknown>)
+  );
+
+  console.log(`Transaction ${hash}`);
+  for (const event of events) {
+    console.log(`  ${event}`);
+  }
+  return events;
+}
@@ -0,0 +1,333 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import { execFile, spawn, type ChildProcess } from "child_process";
+import { promises as fs } from "fs";
+import hre from "hardhat";
+import { createServer } from "net";
+import os from "os";
+import path from "path";
+import { createPublicClient, http, zeroHash, type PublicClient } from "viem";
+
+import {
+  addressBookPath,
+  connectAddressBook,
+  DEFAULT_ADDRESS_BOOK_DIR,
+  deployBaseFactory,
+  deployGovernmentFactory,
+  deployKey,
+  readAddressBook,
+  writeAddressBook,
+  type AddressBook,
+} from "../src";
+import { governmentFactoryRegistration } from "./helpers";
+
+describe("AddressBook", function () {
+  const HARDHAT_CLI = require.resolve("hardhat/internal/cli/bootstrap.js");
+
+  let tempDirs: string[] = [];
+
+  async function tempDir(): Promise<string> {
+    const directory = await fs.mkdtemp(
+      path.join(os.tmpdir(), "poligov-address-book-")
+    );
+    tempDirs.push(directory);
+    return directory;
+  }
+
+  afterEach(async function () {
+    await Promise.all(
+      tempDirs.map((directory) =>
+        fs.rm(directory, { recursive: true, force: true })
+      )
+    );
+    tempDirs = [];
+  });
+
+  // Deploy the stack in-process and record it as an address book would
+  async function deployRecordedStackFixture() {
+    const [owner] = await hre.viem.getWalletClients();
+    const publicClient = await hre.viem.getPublicClient();
+    const config = { publicClient, walletClient: owner };
+
+    const baseFactory = await deployBaseFactory(config);
+    const governmentFactory = await deployGovernmentFactory(
+      config,
+      baseFactory.address
+    );
+    const key = await deployKey(config);
+    await baseFactory.registerFactory(
+      governmentFactoryRegistration(governmentFactory.address)
+    );
+
+    const deployed = { transactionHash: zeroHash, blockNumber: 1 };
+    const addressBook: AddressBook = {
+      chainId: await publicClient.getChainId(),
+      contracts: {
+        BaseFactory: { address: baseFactory.address, ...deployed },
+        GovernmentFactory: { address: governmentFactory.address, ...deployed },
+        Key: { address: key.address, ...deployed },
+      },
+    };
+
+    return { addressBook, publicClient, owner };
+  }
+
+  describe("Files", function () {
+    it("Should write and read back an address book", async function () {
+      const { addressBook } = await loadFixture(deployRecordedStackFixture);
+      const directory = await tempDir();
+
+      const filePath = await writeAddressBook(addressBook, directory);
+
+      expect(filePath).to.equal(path.join(directory, "31337.json"));
+      expect(await readAddressBook(31337, directory)).to.deep.equal(
+        addressBook
+      );
+    });
+
+    it("Should checksum the recorded addresses", async function () {
+      const { addressBook } = await loadFixture(deployRecordedStackFixture);
+      const directory = await tempDir();
+      const { BaseFactory } = addressBook.contracts;
+
+      await writeAddressBook(
+        {
+          ...addressBook,
+          contracts: {
+            ...addressBook.contracts,
+            BaseFactory: {
+              ...BaseFactory,
+              address:
+                BaseFactory.address.toLowerCase() as typeof BaseFactory.address,
+            },
+          },
+        },
+        directory
+      );
+
+      const read = await readAddressBook(31337, directory);
+      expect(read?.contracts.BaseFactory.address).to.equal(BaseFactory.address);
+    });
+
+    it("Should return undefined for a chain without address book", async function () {
+      expect(await readAddressBook(31337, await tempDir())).to.be.undefined;
+    });
+
+    it("Should reject the address book of another chain", async function () {
+      const { addressBook } = await loadFixture(deployRecordedStackFixture);
+      const directory = await tempDir();
+      await fs.writeFile(
+        addressBookPath(1, directory),
+        JSON.stringify(addressBook)
+      );
+
+      await expect(readAddressBook(1, directory)).to.be.rejectedWith(
+        "is the address book of chain 31337, not 1"
+      );
+    });
+
+    it("Should reject an address book missing a contract", async function () {
+      const { addressBook } = await loadFixture(deployRecordedStackFixture);
+      const directory = await tempDir();
+      const { Key, ...contracts } = addressBook.contracts;
+      await fs.writeFile(
+        addressBookPath(31337, directory),
+        JSON.stringify({ chainId: 31337, contracts })
+      );
+
+      await expect(readAddressBook(31337, directory)).to.be.rejectedWith(
+        "has no Key address"
+      );
+    });
+  });
+
+  describe("Clients", function () {
+    it("Should connect clients to the contracts of the chain", async function () {
+      const { addressBook, publicClient, owner } = await loadFixture(
+        deployRecordedStackFixture
+      );
+      const directory = await tempDir();
+      await writeAddressBook(addressBook, directory);
+
+      const { baseFactory, governmentFactory, key } = await connectAddressBook(
+        { publicClient, walletClient: owner },
+        directory
+      );
+
+      expect(baseFactory.address).to.equal(
+        addressBook.contracts.BaseFactory.address
+      );
+      expect(key.address).to.equal(addressBook.contracts.Key.address);
+      expect(await baseFactory.isFactory(governmentFactory.address)).to.be.true;
+    });
+
+    it("Should fail without an address book for the chain", async function () {
+      const publicClient = await hre.viem.getPublicClient();
+      const directory = await tempDir();
+
+      await expect(
+        connectAddressBook({ publicClient }, directory)
+      ).to.be.rejectedWith(
+        `No address book for chain 31337 at ${path.join(
+          directory,
+          "31337.json"
+        )}`
+      );
+    });
+  });
+
+  describe("Local node", function () {
+    // Starting a node and the CLI takes a while
+    this.timeout(300_000);
+
+    const deploymentId = "address-book-test";
+
+    let node: ChildProcess;
+    let rpcUrl: string;
+    // Project root of the CLI runs, so the deployments stay out of the repo
+    let root: string;
+    let configFile: string;
+
+    // Run the Hardhat CLI against the node
+    function runHardhat(args: string[]): Promise<string> {
+      return new Promise((resolve, reject) => {
+        execFile(
+          process.execPath,
+          [
+            HARDHAT_CLI,
+            "--config",
+            configFile,
+            ...args,
+            "--network",
+            "localhost",
+          ],
+          {
+            cwd: hre.config.paths.root,
+            env: { ...process.env, LOCALHOST_RPC_URL: rpcUrl },
+            timeout: 120_000,
+          },
+          (error, stdout, stderr) =>
+            error
+              ? reject(new Error(`${error.message}\n${stderr}`))
+              : resolve(stdout)
+        );
+      });
+    }
+
+    async function freePort(): Promise<number> {
+      const server = createServer();
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      const { port } = server.address() as { port: number };
+      await new Promise((resolve) => server.close(resolve));
+      return port;
+    }
+
+    before(async function () {
+      // Reuse the compiled contracts and parameters of the repo, but write
+      // the address book and the Ignition journal under a temporary root
+      root = await fs.mkdtemp(path.join(os.tmpdir(), "poligov-local-node-"));
+      const { paths } = hre.config;
+      await fs.cp(
+        path.join(paths.ignition, "parameters"),
+        path.join(root, "ignition", "parameters"),
+        { recursive: true }
+      );
+      const repoConfig = JSON.stringify(
+        path.join(paths.root, "hardhat.config")
+      );
+      configFile = path.join(root, "hardhat.config.ts");
+      await fs.writeFile(
+        configFile,
+        `import config from ${repoConfig};
+
+export default {
+  ...config,
+  paths: {
+    ...config.paths,
+    root: ${JSON.stringify(root)},
+    sources: ${JSON.stringify(paths.sources)},
+    artifacts: ${JSON.stringify(paths.artifacts)},
+    cache: ${JSON.stringify(paths.cache)},
+  },
+};
+`
+      );
+
+      const port = await freePort();
+      rpcUrl = `http://127.0.0.1:${port}`;
+      node = spawn(
+        process.execPath,
+        [HARDHAT_CLI, "node", "--port", `${port}`],
+        {
+          cwd: hre.config.paths.root,
+        }
+      );
+      await new Promise<void>((resolve, reject) => {
+        node.stdout?.on("data", (data: Buffer) => {
+          if (data.toString().includes("Started HTTP")) {
+            resolve();
+          }
+        });
+        node.on("exit", (code) =>
+          reject(new Error(`Hardhat node exited with code ${code}`))
+        );
+      });
+    });
+
+    after(async function () {
+      node?.kill();
+      if (root) {
+        await fs.rm(root, { recursive: true, force: true });
+      }
+    });
+
+    it("Should deploy the stack and record it in the address book", async function () {
+      const output = await runHardhat([
+        "poligov:deploy",
+        "--deployment-id",
+        deploymentId,
+      ]);
+      expect(output).to.include(
+        `Address book ${path.join("deployments", "31337.json")}`
+      );
+
+      const addressBook = await readAddressBook(
+        31337,
+        path.join(root, DEFAULT_ADDRESS_BOOK_DIR)
+      );
+      if (!addressBook) throw new Error("Address book is undefined");
+
+      // Every entry points at the transaction and block that created the contract
+      const publicClient = createPublicClient({ transport: http(rpcUrl) });
+      for (const deployed of Object.values(addressBook.contracts)) {
+        const receipt = await publicClient.getTransactionReceipt({
+          hash: deployed.transactionHash,
+        });
+        expect(receipt.contractAddress).to.equal(
+          deployed.address.toLowerCase()
+        );
+        expect(Number(receipt.blockNumber)).to.equal(deployed.blockNumber);
+      }
+
+      const { baseFactory, governmentFactory } = await connectAddressBook(
+        { publicClient: publicClient as PublicClient },
+        path.join(root, DEFAULT_ADDRESS_BOOK_DIR)
+      );
+      expect(await baseFactory.isFactory(governmentFactory.address)).to.be.true;
+    });
+
+    it("Should let tasks read the addresses from the address book", async function () {
+      const addressBook = await readAddressBook(
+        31337,
+        path.join(root, DEFAULT_ADDRESS_BOOK_DIR)
+      );
+      if (!addressBook) throw new Error("Address book is undefined");
+
+      const output = await runHardhat(["factory:list"]);
+
+      expect(output.trim().split("  ")[0]).to.equal(
+        addressBook.contracts.GovernmentFactory.address
+      );
+    });
+  });
+});
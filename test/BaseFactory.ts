@@ -1,149 +1,388 @@
-import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import {
+  loadFixture,
+  time,
+} from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
 import { expect } from "chai";
-import hre from "hardhat";
-import { WalletClient, PublicClient, Address } from "viem";
-
-// Define test fixture return type
-interface BaseFactoryFixture {
-  baseFactory: any;
-  owner: WalletClient;
-  otherAccount: WalletClient;
-  thirdAccount: WalletClient;
-  publicClient: PublicClient;
-}
+import {
+  Address,
+  encodeFunctionData,
+  getAddress,
+  Hash,
+  Hex,
+  keccak256,
+  maxUint256,
+  parseEventLogs,
+  slice,
+  toHex,
+  zeroAddress,
+} from "viem";
+
+import {
+  baseFactoryAbi,
+  BaseFactoryRole,
+  deployBaseFactory,
+  FactoryKind,
+  type BaseFactoryClient,
+} from "../src";
+import {
+  deployMockFactories,
+  deployStackFixture,
+  factoryRegistration,
+  MOCK_FACTORY_KIND,
+  type StackFixture,
+  type TestWalletClient,
+} from "./helpers";
 
 describe("BaseFactory", function () {
-  // We define a fixture to reuse the same setup in every test.
-  async function deployBaseFactoryFixture(): Promise<BaseFactoryFixture> {
-    // Contracts are deployed using the first signer/account by default
-    const [owner, otherAccount, thirdAccount] =
-      await hre.viem.getWalletClients();
-
-    const baseFactory = await hre.viem.deployContract("BaseFactory");
-
-    const publicClient = await hre.viem.getPublicClient();
-
-    return {
-      baseFactory,
-      owner,
-      otherAccount,
-      thirdAccount,
-      publicClient,
-    };
+  // Delay before a proposed super admin can accept, in the delayed fixture
+  const ADMIN_TRANSFER_DELAY = 3600;
+
+  // Same as deployStackFixture, with a super admin transfer delay
+  async function deployDelayedBaseFactoryFixture(): Promise<StackFixture> {
+    const fixture = await deployStackFixture();
+    const baseFactory = await deployBaseFactory(
+      { publicClient: fixture.publicClient, walletClient: fixture.owner },
+      ADMIN_TRANSFER_DELAY
+    );
+    return { ...fixture, baseFactory };
   }
+
+  // Same as deployStackFixture, with unregistered factories of the mock kind
+  async function deployFactoriesFixture() {
+    const fixture = await deployStackFixture();
+    return { ...fixture, factories: await deployMockFactories(20) };
+  }
+
   describe("Deployment", function () {
-    it("Should set the right owner", async function () {
-      const { baseFactory, owner } = await loadFixture(
-        deployBaseFactoryFixture
-      );
+    it("Should grant every role to the deployer", async function () {
+      const { baseFactory, owner } = await loadFixture(deployStackFixture);
 
-      if (!owner.account) {
-        throw new Error("Owner account is undefined");
+      for (const role of Object.values(BaseFactoryRole)) {
+        expect(await baseFactory.hasRole(role, owner.account.address)).to.be
+          .true;
       }
+    });
+
+    it("Should expose the role identifiers", async function () {
+      const { baseFactory } = await loadFixture(deployStackFixture);
+
+      expect(await baseFactory.contract.read.SUPER_ADMIN_ROLE()).to.equal(
+        BaseFactoryRole.SUPER_ADMIN
+      );
+      expect(await baseFactory.contract.read.FACTORY_MANAGER_ROLE()).to.equal(
+        BaseFactoryRole.FACTORY_MANAGER
+      );
+      expect(
+        await baseFactory.contract.read.GOVERNMENT_CREATOR_ROLE()
+      ).to.equal(BaseFactoryRole.GOVERNMENT_CREATOR);
+      expect(await baseFactory.contract.read.PAUSER_ROLE()).to.equal(
+        BaseFactoryRole.PAUSER
+      );
+    });
 
-      // Compare addresses case-insensitively
-      const contractOwner = (await baseFactory.read.owner()).toLowerCase();
-      const ownerAddress = owner.account.address.toLowerCase();
-      expect(contractOwner).to.equal(ownerAddress);
+    it("Should make the super admin the admin of every role", async function () {
+      const { baseFactory } = await loadFixture(deployStackFixture);
+
+      for (const role of Object.values(BaseFactoryRole)) {
+        expect(await baseFactory.getRoleAdmin(role)).to.equal(
+          BaseFactoryRole.SUPER_ADMIN
+        );
+      }
     });
   });
 
   describe("Factory Registration", function () {
-    const TEST_FACTORY_ADDRESS = "0x8626f6940E2eb28930eFb4CeF49B2d1F2C9C1199";
     const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
 
     it("Should register a new factory", async function () {
-      const { baseFactory } = await loadFixture(deployBaseFactoryFixture);
+      const {
+        baseFactory,
+        factories: [factory],
+      } = await loadFixture(deployFactoriesFixture);
 
-      await baseFactory.write.registerFactory([TEST_FACTORY_ADDRESS]);
+      await baseFactory.registerFactory(factoryRegistration(factory));
 
-      expect(await baseFactory.read.isFactory([TEST_FACTORY_ADDRESS])).to.equal(
-        true
-      );
+      expect(await baseFactory.isFactory(factory)).to.equal(true);
     });
 
-    it("Should not allow non-owner to register a factory", async function () {
-      const { baseFactory, otherAccount } = await loadFixture(
-        deployBaseFactoryFixture
-      );
+    it("Should not allow accounts without the factory manager role to register a factory", async function () {
+      const {
+        baseFactory,
+        otherAccount,
+        factories: [factory],
+      } = await loadFixture(deployFactoriesFixture);
 
       await expect(
-        baseFactory.write.registerFactory([TEST_FACTORY_ADDRESS], {
-          account: otherAccount.account,
-        })
-      ).to.be.rejectedWith("OwnableUnauthorizedAccount");
+        baseFactory
+          .connect(otherAccount)
+          .registerFactory(factoryRegistration(factory))
+      ).to.be.revertedWithCustomError(
+        baseFactory,
+        "AccessControlUnauthorizedAccount",
+        [otherAccount.account.address, BaseFactoryRole.FACTORY_MANAGER]
+      );
     });
 
     it("Should not allow registering zero address", async function () {
-      const { baseFactory } = await loadFixture(deployBaseFactoryFixture);
+      const { baseFactory } = await loadFixture(deployStackFixture);
 
       await expect(
-        baseFactory.write.registerFactory([ZERO_ADDRESS])
-      ).to.be.rejectedWith("ZeroAddressNotAllowed");
+        baseFactory.registerFactory(factoryRegistration(ZERO_ADDRESS))
+      ).to.be.revertedWithCustomError(baseFactory, "ZeroAddressNotAllowed");
     });
 
     it("Should not allow registering the same factory twice", async function () {
-      const { baseFactory } = await loadFixture(deployBaseFactoryFixture);
+      const {
+        baseFactory,
+        factories: [factory],
+      } = await loadFixture(deployFactoriesFixture);
 
-      await baseFactory.write.registerFactory([TEST_FACTORY_ADDRESS]);
+      await baseFactory.registerFactory(factoryRegistration(factory));
 
       await expect(
-        baseFactory.write.registerFactory([TEST_FACTORY_ADDRESS])
-      ).to.be.rejectedWith("FactoryAlreadyRegistered");
+        baseFactory.registerFactory(factoryRegistration(factory))
+      ).to.be.revertedWithCustomError(baseFactory, "FactoryAlreadyRegistered");
     });
 
     it("Should emit FactoryRegistered event when registering a factory", async function () {
-      const { baseFactory, publicClient } = await loadFixture(
-        deployBaseFactoryFixture
+      const {
+        baseFactory,
+        factories: [factory],
+      } = await loadFixture(deployFactoriesFixture);
+
+      await expect(baseFactory.registerFactory(factoryRegistration(factory)))
+        .to.emitEvent(baseFactory, "FactoryRegistered")
+        .withArgs({
+          factory,
+          kind: MOCK_FACTORY_KIND,
+          version: "1.0.0",
+          metadataURI: factoryRegistration(factory).metadataURI,
+        });
+    });
+
+    it("Should record the kind, version, metadata URI and time of the registration", async function () {
+      const {
+        baseFactory,
+        factories: [factory],
+      } = await loadFixture(deployFactoriesFixture);
+
+      await baseFactory.registerFactory({
+        factory,
+        kind: MOCK_FACTORY_KIND,
+        version: "2.1.0",
+        metadataURI: "ipfs://factory-metadata",
+      });
+
+      expect(await baseFactory.getFactory(factory)).to.deep.equal({
+        kind: MOCK_FACTORY_KIND,
+        version: "2.1.0",
+        metadataURI: "ipfs://factory-metadata",
+        registeredAt: BigInt(await time.latest()),
+      });
+    });
+
+    it("Should default to an empty metadata URI", async function () {
+      const {
+        baseFactory,
+        factories: [factory],
+      } = await loadFixture(deployFactoriesFixture);
+
+      await baseFactory.registerFactory({
+        factory,
+        kind: MOCK_FACTORY_KIND,
+        version: "1.0.0",
+      });
+
+      expect((await baseFactory.getFactory(factory)).metadataURI).to.equal("");
+    });
+
+    it("Should register the GovernmentFactory with the kind it declares", async function () {
+      const { baseFactory, governmentFactory } = await loadFixture(
+        deployStackFixture
+      );
+
+      // A fixed marker, which does not change with IGovernmentFactory
+      expect(FactoryKind.GOVERNMENT_FACTORY).to.equal(
+        slice(keccak256(toHex("poligov.factory.government")), 0, 4)
+      );
+      expect(await governmentFactory.factoryKind()).to.equal(
+        FactoryKind.GOVERNMENT_FACTORY
+      );
+      expect(
+        await governmentFactory.contract.read.supportsInterface([
+          FactoryKind.GOVERNMENT_FACTORY,
+        ])
+      ).to.be.true;
+      expect(
+        (await baseFactory.getFactory(governmentFactory.address)).kind
+      ).to.equal(FactoryKind.GOVERNMENT_FACTORY);
+    });
+
+    it("Should not register a factory that does not support its kind", async function () {
+      const {
+        baseFactory,
+        key,
+        otherAccount,
+        factories: [factory],
+      } = await loadFixture(deployFactoriesFixture);
+      const account = otherAccount.account.address;
+
+      // An account without code
+      await expect(
+        baseFactory.registerFactory(factoryRegistration(account))
+      ).to.be.revertedWithCustomError(baseFactory, "UnsupportedFactoryKind", [
+        account,
+        MOCK_FACTORY_KIND,
+      ]);
+      // A contract of another kind
+      await expect(
+        baseFactory.registerFactory(
+          factoryRegistration(factory, FactoryKind.GOVERNMENT_FACTORY)
+        )
+      ).to.be.revertedWithCustomError(baseFactory, "UnsupportedFactoryKind", [
+        factory,
+        FactoryKind.GOVERNMENT_FACTORY,
+      ]);
+      // A contract without ERC-165
+      await expect(
+        baseFactory.registerFactory(factoryRegistration(key.address))
+      ).to.be.revertedWithCustomError(baseFactory, "UnsupportedFactoryKind");
+      // The invalid interface id of ERC-165
+      await expect(
+        baseFactory.registerFactory(factoryRegistration(factory, "0xffffffff"))
+      ).to.be.revertedWithCustomError(baseFactory, "UnsupportedFactoryKind");
+    });
+  });
+
+  describe("Factory Enumeration", function () {
+    it("Should not describe an unregistered factory", async function () {
+      const {
+        baseFactory,
+        factories: [factory],
+      } = await loadFixture(deployFactoriesFixture);
+
+      await expect(
+        baseFactory.getFactory(factory)
+      ).to.be.revertedWithCustomError(baseFactory, "FactoryNotRegistered");
+    });
+
+    it("Should list the registered factories in registration order", async function () {
+      const { baseFactory, governmentFactory, factories } = await loadFixture(
+        deployFactoriesFixture
+      );
+      const [first, second, third] = factories;
+      await baseFactory.registerFactories(
+        [first, second, third].map((factory) => factoryRegistration(factory))
+      );
+
+      expect(await baseFactory.factoryCount()).to.equal(4n);
+      expect(await baseFactory.getFactories(0n, 10n)).to.deep.equal([
+        governmentFactory.address,
+        first,
+        second,
+        third,
+      ]);
+      expect(await baseFactory.getFactories(1n, 2n)).to.deep.equal([
+        first,
+        second,
+      ]);
+      expect(await baseFactory.getFactories(4n, 10n)).to.deep.equal([]);
+      expect(await baseFactory.getFactories(2n, maxUint256)).to.deep.equal([
+        second,
+        third,
+      ]);
+    });
+
+    it("Should list the factories of a kind", async function () {
+      const { baseFactory, governmentFactory, factories } = await loadFixture(
+        deployFactoriesFixture
+      );
+      const [first, second] = factories;
+      await baseFactory.registerFactories([
+        factoryRegistration(first),
+        factoryRegistration(second),
+      ]);
+
+      expect(
+        await baseFactory.factoriesOfKind(MOCK_FACTORY_KIND)
+      ).to.deep.equal([first, second]);
+      expect(
+        await baseFactory.factoriesOfKind(FactoryKind.GOVERNMENT_FACTORY)
+      ).to.deep.equal([governmentFactory.address]);
+      expect(await baseFactory.factoriesOfKind("0x12345678")).to.deep.equal([]);
+    });
+
+    it("Should forget an unregistered factory", async function () {
+      const { baseFactory, governmentFactory, factories } = await loadFixture(
+        deployFactoriesFixture
       );
+      const [first, second] = factories;
+      await baseFactory.registerFactories([
+        factoryRegistration(first),
+        factoryRegistration(second),
+      ]);
 
-      const txHash = await baseFactory.write.registerFactory([
-        TEST_FACTORY_ADDRESS,
+      await baseFactory.unregisterFactory(first);
+
+      expect(await baseFactory.factoryCount()).to.equal(2n);
+      expect(await baseFactory.getFactories(0n, 10n)).to.have.members([
+        governmentFactory.address,
+        second,
       ]);
-      await publicClient.waitForTransactionReceipt({ hash: txHash });
+      expect(
+        await baseFactory.factoriesOfKind(MOCK_FACTORY_KIND)
+      ).to.deep.equal([second]);
+      await expect(baseFactory.getFactory(first)).to.be.revertedWithCustomError(
+        baseFactory,
+        "FactoryNotRegistered"
+      );
 
-      // Get and check logs
-      const logs = await baseFactory.getEvents.FactoryRegistered();
-      expect(logs.length).to.be.greaterThan(0);
-      expect(logs[0].args.factory).to.equal(TEST_FACTORY_ADDRESS);
+      // Registering it again records a new registration
+      await baseFactory.registerFactory({
+        factory: first,
+        kind: MOCK_FACTORY_KIND,
+        version: "1.1.0",
+      });
+      expect(await baseFactory.getFactory(first)).to.deep.equal({
+        kind: MOCK_FACTORY_KIND,
+        version: "1.1.0",
+        metadataURI: "",
+        registeredAt: BigInt(await time.latest()),
+      });
     });
   });
   describe("Factory Unregistration", function () {
-    const TEST_FACTORY_ADDRESS = "0x8626f6940E2eb28930eFb4CeF49B2d1F2C9C1199";
-    let baseFactory: any,
-      otherAccount: WalletClient,
-      publicClient: PublicClient;
+    let baseFactory: BaseFactoryClient,
+      otherAccount: TestWalletClient,
+      factory: Address;
 
     beforeEach(async function () {
       // Set up test environment before each test
-      const fixture = await loadFixture(deployBaseFactoryFixture);
+      const fixture = await loadFixture(deployFactoriesFixture);
       baseFactory = fixture.baseFactory;
       otherAccount = fixture.otherAccount;
-      publicClient = fixture.publicClient;
+      [factory] = fixture.factories;
 
       // Register factory for tests that need it
-      await baseFactory.write.registerFactory([TEST_FACTORY_ADDRESS]);
+      await baseFactory.registerFactory(factoryRegistration(factory));
     });
 
     it("Should unregister an existing factory", async function () {
       // Verify factory is registered
-      expect(await baseFactory.read.isFactory([TEST_FACTORY_ADDRESS])).to.equal(
-        true
-      );
+      expect(await baseFactory.isFactory(factory)).to.equal(true);
 
       // Unregister and verify
-      await baseFactory.write.unregisterFactory([TEST_FACTORY_ADDRESS]);
-      expect(await baseFactory.read.isFactory([TEST_FACTORY_ADDRESS])).to.equal(
-        false
-      );
+      await baseFactory.unregisterFactory(factory);
+      expect(await baseFactory.isFactory(factory)).to.equal(false);
     });
 
-    it("Should not allow non-owner to unregister a factory", async function () {
+    it("Should not allow accounts without the factory manager role to unregister a factory", async function () {
       await expect(
-        baseFactory.write.unregisterFactory([TEST_FACTORY_ADDRESS], {
-          account: otherAccount.account,
-        })
-      ).to.be.rejectedWith("OwnableUnauthorizedAccount");
+        baseFactory.connect(otherAccount).unregisterFactory(factory)
+      ).to.be.revertedWithCustomError(
+        baseFactory,
+        "AccessControlUnauthorizedAccount"
+      );
     });
 
     it("Should not allow unregistering a non-registered factory", async function () {
@@ -151,112 +390,608 @@ describe("BaseFactory", function () {
         "0x1234567890123456789012345678901234567890";
 
       await expect(
-        baseFactory.write.unregisterFactory([NON_REGISTERED_ADDRESS])
-      ).to.be.rejectedWith("FactoryNotRegistered");
+        baseFactory.unregisterFactory(NON_REGISTERED_ADDRESS)
+      ).to.be.revertedWithCustomError(baseFactory, "FactoryNotRegistered");
     });
 
     it("Should emit FactoryUnregistered event when unregistering a factory", async function () {
-      const txHash = await baseFactory.write.unregisterFactory([
-        TEST_FACTORY_ADDRESS,
-      ]);
-      await publicClient.waitForTransactionReceipt({ hash: txHash });
-
-      // Get and check logs
-      const logs = await baseFactory.getEvents.FactoryUnregistered();
-      expect(logs.length).to.be.greaterThan(0);
-      expect(logs[0].args.factory).to.equal(TEST_FACTORY_ADDRESS);
+      await expect(baseFactory.unregisterFactory(factory))
+        .to.emitEvent(baseFactory, "FactoryUnregistered")
+        .withArgs({ factory: factory });
     });
   });
 
   describe("Factory Verification", function () {
-    const TEST_FACTORY_ADDRESS = "0x8626f6940E2eb28930eFb4CeF49B2d1F2C9C1199";
     const OTHER_ADDRESS = "0x1234567890123456789012345678901234567890";
 
     it("Should correctly verify if an address is a factory", async function () {
-      const { baseFactory } = await loadFixture(deployBaseFactoryFixture);
+      const {
+        baseFactory,
+        factories: [factory],
+      } = await loadFixture(deployFactoriesFixture);
 
       // Initially not a factory
-      expect(await baseFactory.read.isFactory([TEST_FACTORY_ADDRESS])).to.equal(
-        false
-      );
+      expect(await baseFactory.isFactory(factory)).to.equal(false);
 
       // Register as factory
-      await baseFactory.write.registerFactory([TEST_FACTORY_ADDRESS]);
-      expect(await baseFactory.read.isFactory([TEST_FACTORY_ADDRESS])).to.equal(
-        true
-      );
+      await baseFactory.registerFactory(factoryRegistration(factory));
+      expect(await baseFactory.isFactory(factory)).to.equal(true);
 
       // Other address not registered
-      expect(await baseFactory.read.isFactory([OTHER_ADDRESS])).to.equal(false);
+      expect(await baseFactory.isFactory(OTHER_ADDRESS)).to.equal(false);
+    });
+  });
+  describe("Batch Registration", function () {
+    // Arguments of a registerFactory call encoded for multicall
+    function registerArgs(factory: Address): [Address, Hex, string, string] {
+      const { kind, version, metadataURI } = factoryRegistration(factory);
+      return [factory, kind, version, metadataURI];
+    }
+
+    it("Should register every factory of the batch", async function () {
+      const { baseFactory, factories } = await loadFixture(
+        deployFactoriesFixture
+      );
+      const batch = factories.slice(0, 3);
+
+      const registered = expect(
+        baseFactory.registerFactories(
+          batch.map((factory) => factoryRegistration(factory))
+        )
+      ).to.emitEvent(baseFactory, "FactoryRegistered");
+      for (const factory of batch) {
+        registered.withArgs({ ...factoryRegistration(factory) });
+      }
+      await registered;
+
+      for (const factory of batch) {
+        expect(await baseFactory.isFactory(factory)).to.be.true;
+      }
+    });
+
+    it("Should register nothing if one factory of the batch fails", async function () {
+      const {
+        baseFactory,
+        factories: [first, second],
+      } = await loadFixture(deployFactoriesFixture);
+
+      await expect(
+        baseFactory.registerFactories(
+          [first, second, first].map((factory) => factoryRegistration(factory))
+        )
+      ).to.be.revertedWithCustomError(baseFactory, "FactoryAlreadyRegistered");
+      await expect(
+        baseFactory.registerFactories(
+          [first, zeroAddress].map((factory) => factoryRegistration(factory))
+        )
+      ).to.be.revertedWithCustomError(baseFactory, "ZeroAddressNotAllowed");
+
+      expect(await baseFactory.isFactory(first)).to.be.false;
+      expect(await baseFactory.isFactory(second)).to.be.false;
+    });
+
+    it("Should not allow accounts without the factory manager role to register a batch", async function () {
+      const { baseFactory, otherAccount, factories } = await loadFixture(
+        deployFactoriesFixture
+      );
+
+      await expect(
+        baseFactory
+          .connect(otherAccount)
+          .registerFactories(
+            factories.slice(0, 2).map((factory) => factoryRegistration(factory))
+          )
+      ).to.be.revertedWithCustomError(
+        baseFactory,
+        "AccessControlUnauthorizedAccount"
+      );
+    });
+
+    it("Should run several calls with multicall", async function () {
+      const {
+        baseFactory,
+        factories: [first, second],
+      } = await loadFixture(deployFactoriesFixture);
+      await baseFactory.registerFactory(factoryRegistration(first));
+
+      await baseFactory.multicall([
+        encodeFunctionData({
+          abi: baseFactoryAbi,
+          functionName: "unregisterFactory",
+          args: [first],
+        }),
+        encodeFunctionData({
+          abi: baseFactoryAbi,
+          functionName: "registerFactory",
+          args: registerArgs(second),
+        }),
+      ]);
+
+      expect(await baseFactory.isFactory(first)).to.be.false;
+      expect(await baseFactory.isFactory(second)).to.be.true;
+    });
+
+    it("Should revert every call of a multicall if one fails", async function () {
+      const {
+        baseFactory,
+        otherAccount,
+        factories: [first],
+      } = await loadFixture(deployFactoriesFixture);
+      const register = encodeFunctionData({
+        abi: baseFactoryAbi,
+        functionName: "registerFactory",
+        args: registerArgs(first),
+      });
+
+      await expect(
+        baseFactory.multicall([register, register])
+      ).to.be.revertedWithCustomError(baseFactory, "FactoryAlreadyRegistered");
+
+      // Each call keeps the roles of the sender
+      await expect(
+        baseFactory.connect(otherAccount).multicall([register])
+      ).to.be.revertedWithCustomError(
+        baseFactory,
+        "AccessControlUnauthorizedAccount"
+      );
+
+      expect(await baseFactory.isFactory(first)).to.be.false;
+    });
+
+    it("Should use less gas than registering the factories one by one", async function () {
+      const { baseFactory, publicClient, factories } = await loadFixture(
+        deployFactoriesFixture
+      );
+      const gasUsed = async (hash: Hash) =>
+        (await publicClient.getTransactionReceipt({ hash })).gasUsed;
+
+      let singleGas = 0n;
+      for (const factory of factories.slice(0, 10)) {
+        singleGas += await gasUsed(
+          await baseFactory.registerFactory(factoryRegistration(factory))
+        );
+      }
+
+      // Same registrations on a fresh BaseFactory
+      const fresh = await loadFixture(deployFactoriesFixture);
+      const batchGas = await gasUsed(
+        await fresh.baseFactory.registerFactories(
+          factories.slice(0, 10).map((factory) => factoryRegistration(factory))
+        )
+      );
+      const multicallGas = await gasUsed(
+        await fresh.baseFactory.multicall(
+          factories.slice(10).map((factory) =>
+            encodeFunctionData({
+              abi: baseFactoryAbi,
+              functionName: "registerFactory",
+              args: registerArgs(factory),
+            })
+          )
+        )
+      );
+
+      // Each single transaction pays the 21,000 base cost
+      expect(batchGas < singleGas - 9n * 21_000n).to.be.true;
+      expect(multicallGas < singleGas).to.be.true;
+      expect(batchGas < multicallGas).to.be.true;
     });
   });
-  describe("Ownership", function () {
-    const TEST_FACTORY_ADDRESS = "0x8626f6940E2eb28930eFb4CeF49B2d1F2C9C1199";
-    let baseFactory: any,
-      owner: WalletClient,
-      otherAccount: WalletClient,
-      thirdAccount: WalletClient,
-      publicClient: PublicClient;
+
+  describe("Roles", function () {
+    let baseFactory: BaseFactoryClient,
+      owner: TestWalletClient,
+      otherAccount: TestWalletClient,
+      thirdAccount: TestWalletClient,
+      otherAddress: Address,
+      thirdAddress: Address,
+      factory: Address;
 
     beforeEach(async function () {
       // Set up test environment before each test
-      const fixture = await loadFixture(deployBaseFactoryFixture);
+      const fixture = await loadFixture(deployFactoriesFixture);
       baseFactory = fixture.baseFactory;
       owner = fixture.owner;
       otherAccount = fixture.otherAccount;
       thirdAccount = fixture.thirdAccount;
-      publicClient = fixture.publicClient;
+      [factory] = fixture.factories;
 
-      // Register a factory for ownership tests that need it
-      await baseFactory.write.registerFactory([TEST_FACTORY_ADDRESS]);
+      otherAddress = otherAccount.account.address;
+      thirdAddress = thirdAccount.account.address;
     });
-    it("Should transfer ownership correctly", async function () {
-      if (!owner.account || !otherAccount.account) {
-        throw new Error("Account is undefined");
-      }
 
-      const txHash = await baseFactory.write.transferOwnership([
-        otherAccount.account.address,
-      ]);
-      await publicClient.waitForTransactionReceipt({ hash: txHash });
+    it("Should allow the super admin to grant and revoke roles", async function () {
+      await baseFactory.grantRole(
+        BaseFactoryRole.FACTORY_MANAGER,
+        otherAddress
+      );
+      expect(
+        await baseFactory.hasRole(BaseFactoryRole.FACTORY_MANAGER, otherAddress)
+      ).to.be.true;
 
-      // Compare addresses case-insensitively
-      const contractOwner = (await baseFactory.read.owner()).toLowerCase();
-      const newOwnerAddress = otherAccount.account.address.toLowerCase();
-      expect(contractOwner).to.equal(newOwnerAddress);
+      await baseFactory.revokeRole(
+        BaseFactoryRole.FACTORY_MANAGER,
+        otherAddress
+      );
+      expect(
+        await baseFactory.hasRole(BaseFactoryRole.FACTORY_MANAGER, otherAddress)
+      ).to.be.false;
     });
 
-    it("Should emit OwnershipTransferred event when transferring ownership", async function () {
-      if (!owner.account || !otherAccount.account) {
-        throw new Error("Account is undefined");
-      }
+    it("Should emit RoleGranted and RoleRevoked events", async function () {
+      const sender = owner.account.address;
+
+      await expect(
+        baseFactory.grantRole(BaseFactoryRole.GOVERNMENT_CREATOR, otherAddress)
+      )
+        .to.emitEvent(baseFactory, "RoleGranted")
+        .withArgs({
+          role: BaseFactoryRole.GOVERNMENT_CREATOR,
+          account: otherAddress,
+          sender,
+        });
+
+      await expect(
+        baseFactory.revokeRole(BaseFactoryRole.GOVERNMENT_CREATOR, otherAddress)
+      )
+        .to.emitEvent(baseFactory, "RoleRevoked")
+        .withArgs({
+          role: BaseFactoryRole.GOVERNMENT_CREATOR,
+          account: otherAddress,
+          sender,
+        });
+    });
+
+    it("Should allow a factory manager to register and unregister factories", async function () {
+      await baseFactory.grantRole(
+        BaseFactoryRole.FACTORY_MANAGER,
+        otherAddress
+      );
+      const manager = baseFactory.connect(otherAccount);
+
+      await manager.registerFactory(factoryRegistration(factory));
+      expect(await baseFactory.isFactory(factory)).to.be.true;
+
+      await manager.unregisterFactory(factory);
+      expect(await baseFactory.isFactory(factory)).to.be.false;
+    });
+
+    it("Should not allow a factory manager to grant roles", async function () {
+      await baseFactory.grantRole(
+        BaseFactoryRole.FACTORY_MANAGER,
+        otherAddress
+      );
+
+      await expect(
+        baseFactory
+          .connect(otherAccount)
+          .grantRole(BaseFactoryRole.FACTORY_MANAGER, thirdAddress)
+      ).to.be.revertedWithCustomError(
+        baseFactory,
+        "AccessControlUnauthorizedAccount"
+      );
+    });
+
+    it("Should not allow a government creator to register factories", async function () {
+      await baseFactory.grantRole(
+        BaseFactoryRole.GOVERNMENT_CREATOR,
+        otherAddress
+      );
+
+      await expect(
+        baseFactory
+          .connect(otherAccount)
+          .registerFactory(factoryRegistration(factory))
+      ).to.be.revertedWithCustomError(
+        baseFactory,
+        "AccessControlUnauthorizedAccount"
+      );
+    });
+
+    it("Should not allow accounts without a role to grant roles", async function () {
+      await expect(
+        baseFactory
+          .connect(otherAccount)
+          .grantRole(BaseFactoryRole.FACTORY_MANAGER, otherAddress)
+      ).to.be.revertedWithCustomError(
+        baseFactory,
+        "AccessControlUnauthorizedAccount",
+        [otherAddress, BaseFactoryRole.SUPER_ADMIN]
+      );
+    });
+
+    it("Should not grant the super admin role directly", async function () {
+      await expect(
+        baseFactory.grantRole(BaseFactoryRole.SUPER_ADMIN, otherAddress)
+      ).to.be.revertedWithCustomError(
+        baseFactory,
+        "AccessControlEnforcedDefaultAdminRules"
+      );
+    });
+  });
+
+  describe("Super Admin Transfer", function () {
+    let baseFactory: BaseFactoryClient,
+      ownerAddress: Address,
+      otherAccount: TestWalletClient,
+      otherAddress: Address,
+      thirdAccount: TestWalletClient;
+
+    beforeEach(async function () {
+      // Set up test environment before each test
+      const fixture = await loadFixture(deployDelayedBaseFactoryFixture);
+      baseFactory = fixture.baseFactory;
+      otherAccount = fixture.otherAccount;
+      thirdAccount = fixture.thirdAccount;
 
-      const txHash = await baseFactory.write.transferOwnership([
-        otherAccount.account.address,
+      ownerAddress = getAddress(fixture.owner.account.address);
+      otherAddress = getAddress(otherAccount.account.address);
+    });
+
+    it("Should make the deployer the super admin", async function () {
+      expect(await baseFactory.owner()).to.equal(ownerAddress);
+      expect(await baseFactory.defaultAdminDelay()).to.equal(
+        ADMIN_TRANSFER_DELAY
+      );
+    });
+
+    it("Should keep the super admin until the proposed one accepts", async function () {
+      const hash = await baseFactory.beginDefaultAdminTransfer(otherAddress);
+      const acceptSchedule = (await time.latest()) + ADMIN_TRANSFER_DELAY;
+
+      await expect(hash)
+        .to.emitEvent(baseFactory, "DefaultAdminTransferScheduled")
+        .withArgs({ newAdmin: otherAddress, acceptSchedule });
+      expect(await baseFactory.pendingDefaultAdmin()).to.deep.equal({
+        newAdmin: otherAddress,
+        acceptSchedule,
+      });
+      expect(await baseFactory.owner()).to.equal(ownerAddress);
+    });
+
+    it("Should transfer the super admin role once accepted after the delay", async function () {
+      await baseFactory.beginDefaultAdminTransfer(otherAddress);
+      const { acceptSchedule } = await baseFactory.pendingDefaultAdmin();
+      await time.increaseTo(acceptSchedule + 1);
+
+      const hash = await baseFactory
+        .connect(otherAccount)
+        .acceptDefaultAdminTransfer();
+
+      // The role moves from the previous to the new super admin
+      await expect(hash).to.emitEvent(baseFactory, "RoleRevoked").withArgs({
+        role: BaseFactoryRole.SUPER_ADMIN,
+        account: ownerAddress,
+        sender: otherAddress,
+      });
+      await expect(hash).to.emitEvent(baseFactory, "RoleGranted").withArgs({
+        role: BaseFactoryRole.SUPER_ADMIN,
+        account: otherAddress,
+        sender: otherAddress,
+      });
+
+      // Exactly once each
+      const { logs } = await baseFactory.publicClient.getTransactionReceipt({
+        hash,
+      });
+      const roleChanges = parseEventLogs({
+        abi: baseFactoryAbi,
+        eventName: ["RoleRevoked", "RoleGranted"],
+        logs,
+      });
+      expect(
+        roleChanges.map(({ eventName, args }) => ({ eventName, args }))
+      ).to.deep.equal([
+        {
+          eventName: "RoleRevoked",
+          args: {
+            role: BaseFactoryRole.SUPER_ADMIN,
+            account: ownerAddress,
+            sender: otherAddress,
+          },
+        },
+        {
+          eventName: "RoleGranted",
+          args: {
+            role: BaseFactoryRole.SUPER_ADMIN,
+            account: otherAddress,
+            sender: otherAddress,
+          },
+        },
       ]);
-      await publicClient.waitForTransactionReceipt({ hash: txHash });
+      expect(await baseFactory.owner()).to.equal(otherAddress);
+      expect(await baseFactory.pendingDefaultAdmin()).to.deep.equal({
+        newAdmin: zeroAddress,
+        acceptSchedule: 0,
+      });
 
-      // Check event
-      const logs = await baseFactory.getEvents.OwnershipTransferred();
-      expect(logs.length).to.be.greaterThan(0);
-      expect(logs[0].args.previousOwner.toLowerCase()).to.equal(
-        owner.account.address.toLowerCase()
+      // The previous super admin can no longer grant roles
+      await expect(
+        baseFactory.grantRole(BaseFactoryRole.FACTORY_MANAGER, otherAddress)
+      ).to.be.revertedWithCustomError(
+        baseFactory,
+        "AccessControlUnauthorizedAccount"
       );
-      expect(logs[0].args.newOwner.toLowerCase()).to.equal(
-        otherAccount.account.address.toLowerCase()
+    });
+
+    it("Should not accept the transfer before the delay has passed", async function () {
+      await baseFactory.beginDefaultAdminTransfer(otherAddress);
+
+      await expect(
+        baseFactory.connect(otherAccount).acceptDefaultAdminTransfer()
+      ).to.be.revertedWithCustomError(
+        baseFactory,
+        "AccessControlEnforcedDefaultAdminDelay"
       );
     });
 
-    it("Should not allow non-owner to transfer ownership", async function () {
-      if (!thirdAccount.account) {
-        throw new Error("Account is undefined");
-      }
+    it("Should only let the proposed super admin accept", async function () {
+      await baseFactory.beginDefaultAdminTransfer(otherAddress);
+      await time.increase(ADMIN_TRANSFER_DELAY + 1);
 
       await expect(
-        baseFactory.write.transferOwnership([thirdAccount.account.address], {
-          account: otherAccount.account,
-        })
-      ).to.be.rejectedWith("OwnableUnauthorizedAccount");
+        baseFactory.connect(thirdAccount).acceptDefaultAdminTransfer()
+      ).to.be.revertedWithCustomError(
+        baseFactory,
+        "AccessControlInvalidDefaultAdmin"
+      );
+    });
+
+    it("Should let the super admin cancel a pending transfer", async function () {
+      await baseFactory.beginDefaultAdminTransfer(otherAddress);
+
+      await expect(baseFactory.cancelDefaultAdminTransfer()).to.emitEvent(
+        baseFactory,
+        "DefaultAdminTransferCanceled"
+      );
+      expect((await baseFactory.pendingDefaultAdmin()).newAdmin).to.equal(
+        zeroAddress
+      );
+
+      await time.increase(ADMIN_TRANSFER_DELAY + 1);
+      await expect(
+        baseFactory.connect(otherAccount).acceptDefaultAdminTransfer()
+      ).to.be.revertedWithCustomError(
+        baseFactory,
+        "AccessControlInvalidDefaultAdmin"
+      );
+    });
+
+    it("Should not let other accounts propose a super admin", async function () {
+      await expect(
+        baseFactory
+          .connect(otherAccount)
+          .beginDefaultAdminTransfer(otherAddress)
+      ).to.be.revertedWithCustomError(
+        baseFactory,
+        "AccessControlUnauthorizedAccount"
+      );
+    });
+  });
+
+  describe("Pausing", function () {
+    let baseFactory: BaseFactoryClient,
+      owner: TestWalletClient,
+      otherAccount: TestWalletClient,
+      otherAddress: Address,
+      factory: Address,
+      otherFactory: Address;
+
+    beforeEach(async function () {
+      // Set up a paused BaseFactory with a registered factory
+      const fixture = await loadFixture(deployFactoriesFixture);
+      baseFactory = fixture.baseFactory;
+      owner = fixture.owner;
+      otherAccount = fixture.otherAccount;
+      otherAddress = otherAccount.account.address;
+      [factory, otherFactory] = fixture.factories;
+
+      await baseFactory.registerFactory(factoryRegistration(factory));
+      await baseFactory.pause();
+    });
+
+    it("Should pause and unpause the factory system", async function () {
+      expect(await baseFactory.paused()).to.be.true;
+
+      await baseFactory.unpause();
+      expect(await baseFactory.paused()).to.be.false;
+    });
+
+    it("Should emit Paused and Unpaused events", async function () {
+      await expect(baseFactory.unpause())
+        .to.emitEvent(baseFactory, "Unpaused")
+        .withArgs({ account: owner.account.address });
+      await expect(baseFactory.pause())
+        .to.emitEvent(baseFactory, "Paused")
+        .withArgs({ account: owner.account.address });
+    });
+
+    it("Should not allow registering factories while paused", async function () {
+      await expect(
+        baseFactory.registerFactory(factoryRegistration(otherFactory))
+      ).to.be.revertedWithCustomError(baseFactory, "EnforcedPause");
+      await expect(
+        baseFactory.registerFactories([factoryRegistration(otherFactory)])
+      ).to.be.revertedWithCustomError(baseFactory, "EnforcedPause");
+      await expect(
+        baseFactory.multicall([
+          encodeFunctionData({
+            abi: baseFactoryAbi,
+            functionName: "registerFactory",
+            args: [
+              otherFactory,
+              MOCK_FACTORY_KIND,
+              "1.0.0",
+              "ipfs://factory-metadata",
+            ],
+          }),
+        ])
+      ).to.be.revertedWithCustomError(baseFactory, "EnforcedPause");
+    });
+
+    it("Should register factories again once unpaused", async function () {
+      await baseFactory.unpause();
+
+      await baseFactory.registerFactory(factoryRegistration(otherFactory));
+      expect(await baseFactory.isFactory(otherFactory)).to.be.true;
+    });
+
+    it("Should keep reads, unregistration and role management available while paused", async function () {
+      expect(await baseFactory.isFactory(factory)).to.be.true;
+
+      // A compromised factory or account can still be removed
+      await baseFactory.unregisterFactory(factory);
+      expect(await baseFactory.isFactory(factory)).to.be.false;
+      await baseFactory.grantRole(BaseFactoryRole.PAUSER, otherAddress);
+      await baseFactory.revokeRole(
+        BaseFactoryRole.FACTORY_MANAGER,
+        owner.account.address
+      );
+      expect(
+        await baseFactory.hasRole(
+          BaseFactoryRole.FACTORY_MANAGER,
+          owner.account.address
+        )
+      ).to.be.false;
+    });
+
+    it("Should let another pauser unpause", async function () {
+      await baseFactory.grantRole(BaseFactoryRole.PAUSER, otherAddress);
+
+      await baseFactory.connect(otherAccount).unpause();
+      expect(await baseFactory.paused()).to.be.false;
+    });
+
+    it("Should not allow accounts without the pauser role to pause or unpause", async function () {
+      await expect(
+        baseFactory.connect(otherAccount).unpause()
+      ).to.be.revertedWithCustomError(
+        baseFactory,
+        "AccessControlUnauthorizedAccount",
+        [otherAddress, BaseFactoryRole.PAUSER]
+      );
+
+      await baseFactory.unpause();
+      await expect(
+        baseFactory.connect(otherAccount).pause()
+      ).to.be.revertedWithCustomError(
+        baseFactory,
+        "AccessControlUnauthorizedAccount",
+        [otherAddress, BaseFactoryRole.PAUSER]
+      );
+    });
+
+    it("Should not pause twice or unpause when not paused", async function () {
+      await expect(baseFactory.pause()).to.be.revertedWithCustomError(
+        baseFactory,
+        "EnforcedPause"
+      );
+
+      await baseFactory.unpause();
+      await expect(baseFactory.unpause()).to.be.revertedWithCustomError(
+        baseFactory,
+        "ExpectedPause"
+      );
     });
   });
 });
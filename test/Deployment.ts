@@ -0,0 +1,218 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { getAddress, zeroAddress } from "viem";
+
+import BaseFactoryModule from "../ignition/modules/BaseFactory";
+import GovernmentFactoryModule from "../ignition/modules/GovernmentFactory";
+import PoligovModule from "../ignition/modules/Poligov";
+import {
+  BaseFactoryClient,
+  BaseFactoryRole,
+  FactoryKind,
+  GovernmentFactoryClient,
+  KeyClient,
+} from "../src";
+
+describe("Deployment", function () {
+  // Deploy the whole stack through Ignition with the default parameters,
+  // except for the required admin
+  async function deployPoligovFixture() {
+    const [owner, admin] = await hre.viem.getWalletClients();
+    const publicClient = await hre.viem.getPublicClient();
+
+    const { baseFactory, governmentFactory, key } = await hre.ignition.deploy(
+      PoligovModule,
+      { parameters: { PoligovModule: { admin: admin.account.address } } }
+    );
+
+    return {
+      baseFactory: new BaseFactoryClient({
+        address: baseFactory.address,
+        publicClient,
+        walletClient: owner,
+      }),
+      governmentFactory: new GovernmentFactoryClient({
+        address: governmentFactory.address,
+        publicClient,
+        walletClient: owner,
+      }),
+      key: new KeyClient({
+        address: key.address,
+        publicClient,
+        walletClient: owner,
+      }),
+      owner,
+      admin,
+    };
+  }
+
+  describe("BaseFactoryModule", function () {
+    it("Should deploy the BaseFactory with every role granted to the deployer", async function () {
+      const [owner] = await hre.viem.getWalletClients();
+
+      const { baseFactory } = await hre.ignition.deploy(BaseFactoryModule);
+
+      for (const role of Object.values(BaseFactoryRole)) {
+        expect(await baseFactory.read.hasRole([role, owner.account.address])).to
+          .be.true;
+      }
+    });
+  });
+
+  describe("GovernmentFactoryModule", function () {
+    it("Should deploy and register the GovernmentFactory", async function () {
+      const { baseFactory, governmentFactory } = await hre.ignition.deploy(
+        GovernmentFactoryModule
+      );
+
+      expect(await baseFactory.read.isFactory([governmentFactory.address])).to
+        .be.true;
+      expect(await governmentFactory.read.baseFactory()).to.equal(
+        baseFactory.address
+      );
+    });
+
+    it("Should register the GovernmentFactory with its kind, version and metadata URI", async function () {
+      const { baseFactory, governmentFactory } = await hre.ignition.deploy(
+        GovernmentFactoryModule,
+        {
+          parameters: {
+            GovernmentFactoryModule: {
+              version: "2.0.0",
+              metadataURI: "ipfs://government-factory",
+            },
+          },
+        }
+      );
+
+      expect(
+        await baseFactory.read.getFactory([governmentFactory.address])
+      ).to.include({
+        kind: FactoryKind.GOVERNMENT_FACTORY,
+        version: "2.0.0",
+        metadataURI: "ipfs://government-factory",
+      });
+    });
+  });
+
+  describe("PoligovModule", function () {
+    it("Should register the GovernmentFactory in the BaseFactory", async function () {
+      const { baseFactory, governmentFactory } = await loadFixture(
+        deployPoligovFixture
+      );
+
+      expect(await baseFactory.isFactory(governmentFactory.address)).to.be.true;
+    });
+
+    it("Should keep every role with the deployer by default", async function () {
+      const { baseFactory, owner, admin } = await loadFixture(
+        deployPoligovFixture
+      );
+
+      // The admin holds no role until it accepts the transfer
+      for (const role of Object.values(BaseFactoryRole)) {
+        expect(await baseFactory.hasRole(role, owner.account.address)).to.be
+          .true;
+        expect(await baseFactory.hasRole(role, admin.account.address)).to.be
+          .false;
+      }
+    });
+
+    it("Should require the admin parameter", async function () {
+      await expect(hre.ignition.deploy(PoligovModule)).to.be.rejectedWith(
+        "Module parameter 'admin' requires a value"
+      );
+    });
+
+    it("Should deploy a usable stack", async function () {
+      const { governmentFactory, key, owner } = await loadFixture(
+        deployPoligovFixture
+      );
+
+      const government = await governmentFactory.createGovernment(
+        owner.account.address
+      );
+      expect(await governmentFactory.isGovernment(government)).to.be.true;
+      expect(await key.keys(owner.account.address)).to.equal(zeroAddress);
+    });
+
+    it("Should make Key and the governments trust the Forwarder", async function () {
+      const [, admin] = await hre.viem.getWalletClients();
+
+      const { forwarder, governmentFactory, key } = await hre.ignition.deploy(
+        PoligovModule,
+        { parameters: { PoligovModule: { admin: admin.account.address } } }
+      );
+
+      expect(await key.read.trustedForwarder()).to.equal(forwarder.address);
+      expect(await governmentFactory.read.trustedForwarder()).to.equal(
+        forwarder.address
+      );
+    });
+
+    it("Should hand the BaseFactory roles to the role parameters", async function () {
+      const [, admin, factoryManager, governmentCreator, pauser] =
+        await hre.viem.getWalletClients();
+
+      const { baseFactory, governmentFactory, key } = await hre.ignition.deploy(
+        PoligovModule,
+        {
+          parameters: {
+            PoligovModule: {
+              admin: admin.account.address,
+              factoryManager: factoryManager.account.address,
+              governmentCreator: governmentCreator.account.address,
+              pauser: pauser.account.address,
+            },
+          },
+        }
+      );
+
+      // The proposed super admin accepts, with no delay by default
+      const [pendingAdmin] = await baseFactory.read.pendingDefaultAdmin();
+      expect(pendingAdmin).to.equal(getAddress(admin.account.address));
+      await baseFactory.write.acceptDefaultAdminTransfer({
+        account: admin.account,
+      });
+      expect(await baseFactory.read.owner()).to.equal(
+        getAddress(admin.account.address)
+      );
+      expect(
+        await baseFactory.read.hasRole([
+          BaseFactoryRole.FACTORY_MANAGER,
+          factoryManager.account.address,
+        ])
+      ).to.be.true;
+      expect(
+        await baseFactory.read.hasRole([
+          BaseFactoryRole.GOVERNMENT_CREATOR,
+          governmentCreator.account.address,
+        ])
+      ).to.be.true;
+      expect(
+        await baseFactory.read.hasRole([
+          BaseFactoryRole.PAUSER,
+          pauser.account.address,
+        ])
+      ).to.be.true;
+      expect(
+        await baseFactory.read.hasRole([
+          BaseFactoryRole.GOVERNMENT_CREATOR,
+          factoryManager.account.address,
+        ])
+      ).to.be.false;
+
+      // The proposed owner of Key accepts too
+      expect(await key.read.pendingOwner()).to.equal(
+        getAddress(admin.account.address)
+      );
+      await key.write.acceptOwnership({ account: admin.account });
+      expect(await key.read.owner()).to.equal(
+        getAddress(admin.account.address)
+      );
+      expect(await baseFactory.read.isFactory([governmentFactory.address])).to
+        .be.true;
+    });
+  });
+});
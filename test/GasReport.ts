@@ -0,0 +1,425 @@
+import {
+  loadFixture,
+  time,
+} from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import {
+  Abi,
+  Address,
+  encodeFunctionData,
+  getAddress,
+  keccak256,
+  pad,
+  toHex,
+  zeroAddress,
+} from "viem";
+
+import {
+  BaseFactoryRole,
+  deployBaseFactory,
+  FactoryKind,
+  KeyPurpose,
+} from "../src";
+import {
+  deployMockFactories,
+  deployStackFixture,
+  endVoting,
+  factoryRegistration,
+  MOCK_FACTORY_KIND,
+} from "./helpers";
+import {
+  bytecodeSize,
+  compareGasReports,
+  GAS_REPORT_PATH,
+  GasMeter,
+  publicFunctions,
+  readGasReport,
+  reportedContracts,
+  writeGasReport,
+  type GasReport,
+  type ReportedContract,
+} from "./helpers/gasReport";
+
+describe("GasReport", function () {
+  // Every function of every contract is called once
+  this.timeout(120_000);
+
+  // Largest deployed bytecode accepted by mainnet, see EIP-170
+  const MAX_BYTECODE_SIZE = 24_576;
+
+  // Far enough for every signature of the scenarios to stay valid
+  const DEADLINE = 2n ** 40n;
+  const SALT = keccak256(toHex("poligov-gas-report"));
+
+  // Distinct placeholder addresses 0x...01, 0x...02, ...
+  function placeholder(i: number) {
+    return getAddress(pad(toHex(i), { size: 20 }));
+  }
+
+  // Record the reads of a contract, with the arguments of those that take some
+  async function measureReads(
+    meter: GasMeter,
+    name: ReportedContract,
+    contract: { address: Address; abi: Abi },
+    args: Record<string, readonly unknown[]>
+  ) {
+    for (const item of contract.abi) {
+      if (
+        item.type === "function" &&
+        (item.stateMutability === "view" || item.stateMutability === "pure")
+      ) {
+        await meter.read(name, contract, item.name, args[item.name]);
+      }
+    }
+  }
+
+  async function measureBaseFactory(meter: GasMeter) {
+    const { owner, otherAccount, publicClient } = await loadFixture(
+      deployStackFixture
+    );
+    // A BaseFactory of its own, its super admin is transferred
+    const baseFactory = await deployBaseFactory({
+      publicClient,
+      walletClient: owner,
+    });
+    const other = otherAccount.account.address;
+    const write = (
+      functionName: string,
+      args?: readonly unknown[],
+      from = owner
+    ) => meter.write("BaseFactory", baseFactory, from, functionName, args);
+
+    const factories = await deployMockFactories(4);
+    const registerArgs = (factory: Address) => {
+      const { kind, version, metadataURI } = factoryRegistration(factory);
+      return [factory, kind, version, metadataURI];
+    };
+
+    await write("registerFactory", registerArgs(factories[0]));
+    await write("registerFactories", [
+      factories.slice(1, 3).map((factory) => factoryRegistration(factory)),
+    ]);
+    await write("unregisterFactory", [factories[0]]);
+    await write("multicall", [
+      [
+        encodeFunctionData({
+          abi: baseFactory.abi,
+          functionName: "registerFactory",
+          args: [factories[3], MOCK_FACTORY_KIND, "1.0.0", ""],
+        }),
+      ],
+    ]);
+    await write("grantRole", [BaseFactoryRole.FACTORY_MANAGER, other]);
+    await write("revokeRole", [BaseFactoryRole.FACTORY_MANAGER, other]);
+    await baseFactory.grantRole(BaseFactoryRole.GOVERNMENT_CREATOR, other);
+    await write(
+      "renounceRole",
+      [BaseFactoryRole.GOVERNMENT_CREATOR, other],
+      otherAccount
+    );
+    await write("pause");
+    await write("unpause");
+    await write("changeDefaultAdminDelay", [3600]);
+    await write("rollbackDefaultAdminDelay");
+    await write("beginDefaultAdminTransfer", [other]);
+
+    await measureReads(meter, "BaseFactory", baseFactory, {
+      factoriesOfKind: [MOCK_FACTORY_KIND],
+      getFactories: [0n, 10n],
+      getFactory: [factories[1]],
+      getRoleAdmin: [BaseFactoryRole.FACTORY_MANAGER],
+      hasRole: [BaseFactoryRole.SUPER_ADMIN, owner.account.address],
+      isFactory: [factories[1]],
+      supportsInterface: ["0x01ffc9a7"],
+    });
+
+    await write("cancelDefaultAdminTransfer");
+    await baseFactory.beginDefaultAdminTransfer(other);
+    await time.increase(1);
+    await write("acceptDefaultAdminTransfer", [], otherAccount);
+  }
+
+  async function measureGovernmentFactory(meter: GasMeter) {
+    const { governmentFactory, owner, otherAccount, thirdAccount } =
+      await loadFixture(deployStackFixture);
+    const write = (functionName: string, args?: readonly unknown[]) =>
+      meter.write(
+        "GovernmentFactory",
+        governmentFactory,
+        owner,
+        functionName,
+        args
+      );
+
+    await write("createGovernment", [owner.account.address]);
+    await write("createGovernmentDeterministic", [owner.account.address, SALT]);
+    await write("createGovernments", [
+      [otherAccount.account.address, thirdAccount.account.address],
+    ]);
+    await write("multicall", [
+      [
+        encodeFunctionData({
+          abi: governmentFactory.abi,
+          functionName: "createGovernment",
+          args: [otherAccount.account.address],
+        }),
+      ],
+    ]);
+
+    const [government] = await governmentFactory.getGovernments(0n, 1n);
+    await measureReads(meter, "GovernmentFactory", governmentFactory, {
+      getGovernmentInfo: [government],
+      getGovernments: [0n, 10n],
+      governmentsOf: [owner.account.address],
+      isGovernment: [government],
+      predictGovernmentAddress: [otherAccount.account.address, SALT],
+      supportsInterface: [FactoryKind.GOVERNMENT_FACTORY],
+    });
+
+    const v2 = await hre.viem.deployContract("MockGovernmentV2", [zeroAddress]);
+    await write("upgradeImplementation", [v2.address]);
+  }
+
+  async function measureGovernment(meter: GasMeter) {
+    const { governmentFactory, key, owner, otherAccount, thirdAccount } =
+      await loadFixture(deployStackFixture);
+    const [, , , fourthAccount, citizenKey] = await hre.viem.getWalletClients();
+    const government = governmentFactory.government(
+      await governmentFactory.createGovernment(owner.account.address)
+    );
+    const write = (
+      functionName: string,
+      args?: readonly unknown[],
+      from = owner
+    ) => meter.write("Government", government, from, functionName, args);
+    const citizen = thirdAccount.account.address;
+
+    // A proxy of the beacon left uninitialized, as the factory initializes its governments
+    const proxy = await hre.viem.deployContract("BeaconProxy", [
+      await governmentFactory.beacon(),
+      "0x",
+    ]);
+    await meter.write(
+      "Government",
+      { address: proxy.address, abi: government.abi },
+      owner,
+      "initialize",
+      [owner.account.address]
+    );
+
+    await write("registerCitizen", [otherAccount.account.address]);
+    await write("registerCitizens", [[citizen, fourthAccount.account.address]]);
+    await write("revokeCitizen", [fourthAccount.account.address]);
+    await write("setVotingRules", [3600n, 50]);
+    await write("setKeyRegistry", [key.address]);
+    await key.connect(thirdAccount).addKey(citizenKey.account.address);
+
+    await write("propose", [citizen, 0n, "0x", "Gas report proposal"]);
+    await write("castVote", [1n, true], otherAccount);
+    const ballotSignature = await government.signBallot(
+      citizenKey,
+      citizen,
+      1n,
+      true,
+      DEADLINE
+    );
+    await write("castVoteBySig", [
+      1n,
+      true,
+      citizen,
+      DEADLINE,
+      ballotSignature,
+    ]);
+
+    const digest = keccak256(toHex("poligov-gas-report-message"));
+    await measureReads(meter, "Government", government, {
+      getCitizens: [0n, 10n],
+      getProposal: [1n],
+      hasVoted: [1n, citizen],
+      hashBallot: [1n, true, citizen, 0n, DEADLINE],
+      hashCancellation: [1n, citizen, 0n, DEADLINE],
+      hashProposal: [
+        citizen,
+        0n,
+        "0x",
+        "Gas report proposal",
+        citizen,
+        0n,
+        DEADLINE,
+      ],
+      isCitizen: [citizen],
+      isTrustedForwarder: [zeroAddress],
+      nonces: [citizen],
+      proposalState: [1n],
+      verifyCitizenSignature: [
+        citizen,
+        digest,
+        await citizenKey.signMessage({ message: { raw: digest } }),
+      ],
+    });
+
+    await endVoting(government, 1n);
+    await write("execute", [1n]);
+    await government.propose({
+      target: citizen,
+      description: "Proposal to cancel",
+    });
+    await government.connect(otherAccount).castVote(2n, true);
+    await government.revokeCitizen(otherAccount.account.address);
+    await write("withdrawVote", [2n, otherAccount.account.address]);
+    await write("cancel", [2n]);
+
+    const proposal = {
+      target: citizen,
+      description: "Proposal signed by a key",
+      citizen,
+      deadline: DEADLINE,
+    };
+    await write("proposeBySig", [
+      citizen,
+      0n,
+      "0x",
+      proposal.description,
+      citizen,
+      DEADLINE,
+      await government.signProposal(citizenKey, citizen, proposal, DEADLINE),
+    ]);
+    await write("cancelBySig", [
+      3n,
+      citizen,
+      DEADLINE,
+      await government.signCancellation(citizenKey, citizen, 3n, DEADLINE),
+    ]);
+
+    await write("transferOwnership", [otherAccount.account.address]);
+    await write("acceptOwnership", [], otherAccount);
+    await write("renounceOwnership", [], otherAccount);
+  }
+
+  async function measureKey(meter: GasMeter) {
+    const { key, owner, otherAccount } = await loadFixture(deployStackFixture);
+    const [, , , oldKey, newKey, recoveredKey] =
+      await hre.viem.getWalletClients();
+    const write = (
+      functionName: string,
+      args?: readonly unknown[],
+      from = owner
+    ) => meter.write("Key", key, from, functionName, args);
+    const account = owner.account.address;
+
+    await write("addKey", [oldKey.account.address]);
+    const rotationSignature = await key.signKeyRotation(
+      oldKey,
+      account,
+      newKey.account.address,
+      DEADLINE
+    );
+    await write("replaceKey", [
+      newKey.account.address,
+      DEADLINE,
+      rotationSignature,
+    ]);
+    await write("addPurposeKey", [placeholder(1), KeyPurpose.SIGNING, 0n]);
+    await write("removePurposeKey", [placeholder(1), KeyPurpose.SIGNING]);
+    await write("setGuardian", [otherAccount.account.address]);
+    await write(
+      "initiateRecovery",
+      [account, recoveredKey.account.address],
+      otherAccount
+    );
+
+    const digest = keccak256(toHex("poligov-gas-report-message"));
+    await measureReads(meter, "Key", key, {
+      getKeys: [account],
+      guardians: [account],
+      hasKey: [account, newKey.account.address, KeyPurpose.PRIMARY],
+      hashKeyRotation: [
+        account,
+        newKey.account.address,
+        recoveredKey.account.address,
+        1n,
+        DEADLINE,
+      ],
+      isTrustedForwarder: [zeroAddress],
+      keys: [account],
+      nonces: [account],
+      pendingRecovery: [account],
+      verifySignature: [
+        digest,
+        await newKey.signMessage({ message: { raw: digest } }),
+        newKey.account.address,
+      ],
+    });
+
+    await write("cancelRecovery", [account]);
+    await key
+      .connect(otherAccount)
+      .initiateRecovery(account, recoveredKey.account.address);
+    await time.increase(await key.recoveryDelay());
+    await write("completeRecovery", [account], otherAccount);
+    await write("revokeKey");
+
+    await write("pause");
+    await write("unpause");
+    await write("transferOwnership", [otherAccount.account.address]);
+    await write("acceptOwnership", [], otherAccount);
+    await write("renounceOwnership", [], otherAccount);
+  }
+
+  let meter: GasMeter;
+  let report: Omit<GasReport, "budgetPercent">;
+
+  before(async function () {
+    meter = new GasMeter(await hre.viem.getPublicClient());
+    await measureBaseFactory(meter);
+    await measureGovernmentFactory(meter);
+    await measureGovernment(meter);
+    await measureKey(meter);
+
+    const contracts = {} as GasReport["contracts"];
+    for (const name of reportedContracts) {
+      contracts[name] = {
+        bytecodeSize: await bytecodeSize(name),
+        functions: meter.functions(name),
+      };
+    }
+    report = { contracts };
+  });
+
+  it("Should measure every public function of the reported contracts", async function () {
+    for (const name of reportedContracts) {
+      expect(
+        Object.keys(report.contracts[name].functions),
+        `Functions of ${name}`
+      ).to.deep.equal(await publicFunctions(name));
+    }
+  });
+
+  it("Should keep every contract under the bytecode size limit", async function () {
+    for (const name of reportedContracts) {
+      expect(
+        report.contracts[name].bytecodeSize,
+        `Bytecode size of ${name}`
+      ).to.be.at.most(MAX_BYTECODE_SIZE);
+    }
+  });
+
+  it("Should stay within the budget of the committed gas report", async function () {
+    // UPDATE_GAS_REPORT=true npx hardhat test test/GasReport.ts records a new baseline
+    if (process.env.UPDATE_GAS_REPORT === "true") {
+      await writeGasReport(report);
+      console.log(`      Gas report written to ${GAS_REPORT_PATH}`);
+      return;
+    }
+
+    const baseline = await readGasReport();
+    const { failures, diff } = compareGasReports(baseline, report);
+    if (failures.length > 0) {
+      expect.fail(
+        `${failures.length} entries are over the ${baseline.budgetPercent}% budget, new or removed:\n\n${diff}\n\n` +
+          "Record the new costs with UPDATE_GAS_REPORT=true npx hardhat test test/GasReport.ts"
+      );
+    }
+  });
+});
@@ -1,98 +1,210 @@
-import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import {
+  loadFixture,
+  mine,
+  time,
+} from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
 import { expect } from "chai";
 import hre from "hardhat";
-import { WalletClient, PublicClient, Address } from "viem";
+import {
+  createWalletClient,
+  custom,
+  encodeFunctionData,
+  getAddress,
+  keccak256,
+  Address,
+  Hash,
+  maxUint256,
+  parseEther,
+  parseEventLogs,
+  toHex,
+  WalletClient,
+  zeroAddress,
+} from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
 
-// Define test fixture return type
-interface GovernmentFixture {
-  government: any;
-  owner: WalletClient;
-  otherAccount: WalletClient;
-  thirdAccount: WalletClient;
-  publicClient: PublicClient;
-}
+import {
+  governmentAbi,
+  ProposalState,
+  type GovernmentClient,
+  type KeyClient,
+} from "../src";
+import {
+  deployStackFixture,
+  endVoting,
+  type TestWalletClient,
+} from "./helpers";
 
 describe("Government", function () {
-  // We define a fixture to reuse the same setup in every test.
-  async function deployGovernmentFixture(): Promise<GovernmentFixture> {
-    // Contracts are deployed using the first signer/account by default
-    const [owner, otherAccount, thirdAccount] =
-      await hre.viem.getWalletClients();
-
-    // Deploy ConcreteGovernment with owner as the government owner
-    const government = await hre.viem.deployContract("ConcreteGovernment", [
-      owner.account?.address,
-    ]);
-
-    const publicClient = await hre.viem.getPublicClient();
-
-    return {
-      government,
-      owner,
-      otherAccount,
-      thirdAccount,
-      publicClient,
-    };
+  // The stack with a government created for the owner
+  async function deployGovernmentFixture() {
+    const fixture = await deployStackFixture();
+    const { governmentFactory, owner } = fixture;
+
+    const government = governmentFactory.government(
+      await governmentFactory.createGovernment(owner.account.address)
+    );
+
+    return { ...fixture, government };
   }
 
   describe("Deployment", function () {
     it("Should set the right owner", async function () {
       const { government, owner } = await loadFixture(deployGovernmentFixture);
 
-      if (!owner.account) {
-        throw new Error("Owner account is undefined");
-      }
-
       // Compare addresses case-insensitively
-      const contractOwner = (await government.read.owner()).toLowerCase();
+      const contractOwner = (await government.owner()).toLowerCase();
       const ownerAddress = owner.account.address.toLowerCase();
       expect(contractOwner).to.equal(ownerAddress);
     });
   });
 
+  describe("Issuing Factory", function () {
+    it("Should not report a factory for a government initialized by an account", async function () {
+      const { governmentFactory, owner } = await loadFixture(
+        deployGovernmentFixture
+      );
+
+      // A proxy of the same beacon, initialized by an account rather than a factory contract
+      const proxy = await hre.viem.deployContract("BeaconProxy", [
+        await governmentFactory.beacon(),
+        "0x",
+      ]);
+      const government = await hre.viem.getContractAt(
+        "Government",
+        proxy.address
+      );
+      await government.write.initialize([owner.account.address]);
+
+      expect(await government.read.factory()).to.equal(
+        getAddress(owner.account.address)
+      );
+      expect(await government.read.isFactoryActive()).to.be.false;
+      expect(await government.read.isPaused()).to.be.false;
+    });
+  });
+
+  describe("Initialization", function () {
+    it("Should not initialize a government twice", async function () {
+      const { government, otherAccount } = await loadFixture(
+        deployGovernmentFixture
+      );
+
+      await expect(
+        government.contract.simulate.initialize(
+          [otherAccount.account.address],
+          { account: otherAccount.account.address }
+        )
+      ).to.be.revertedWithCustomError(government, "InvalidInitialization");
+    });
+
+    it("Should not initialize the implementation", async function () {
+      const { governmentFactory, owner } = await loadFixture(
+        deployGovernmentFixture
+      );
+
+      const implementation = await hre.viem.getContractAt(
+        "Government",
+        await governmentFactory.implementation()
+      );
+
+      await expect(
+        implementation.write.initialize([owner.account.address])
+      ).to.be.revertedWithCustomError(implementation, "InvalidInitialization");
+    });
+  });
+
   describe("Ownership", function () {
-    it("Should allow the owner to transfer ownership", async function () {
+    it("Should keep the owner until the proposed owner accepts", async function () {
       const { government, owner, otherAccount } = await loadFixture(
         deployGovernmentFixture
       );
 
-      if (!owner.account || !otherAccount.account) {
-        throw new Error("Accounts are undefined");
-      }
+      await government.transferOwnership(otherAccount.account.address);
 
-      // Transfer ownership to other account
-      await government.write.transferOwnership([otherAccount.account.address], {
-        account: owner.account,
-      });
+      expect(await government.owner()).to.equal(
+        getAddress(owner.account.address)
+      );
+      expect(await government.pendingOwner()).to.equal(
+        getAddress(otherAccount.account.address)
+      );
+    });
+
+    it("Should transfer ownership once the proposed owner accepts", async function () {
+      const { government, otherAccount } = await loadFixture(
+        deployGovernmentFixture
+      );
 
-      // Verify the new owner
-      const newOwner = (await government.read.owner()).toLowerCase();
-      const otherAddress = otherAccount.account.address.toLowerCase();
-      expect(newOwner).to.equal(otherAddress);
+      await government.transferOwnership(otherAccount.account.address);
+      await government.connect(otherAccount).acceptOwnership();
+
+      expect(await government.owner()).to.equal(
+        getAddress(otherAccount.account.address)
+      );
+      expect(await government.pendingOwner()).to.equal(zeroAddress);
     });
 
-    it("Should emit OwnershipTransferred event when transferring ownership", async function () {
-      const { government, owner, otherAccount, publicClient } =
-        await loadFixture(deployGovernmentFixture);
+    it("Should emit OwnershipTransferStarted, then OwnershipTransferred once", async function () {
+      const { government, owner, otherAccount } = await loadFixture(
+        deployGovernmentFixture
+      );
 
-      if (!owner.account || !otherAccount.account) {
-        throw new Error("Accounts are undefined");
-      }
+      const previousOwner = getAddress(owner.account.address);
+      const newOwner = getAddress(otherAccount.account.address);
+
+      const proposeHash = await government.transferOwnership(newOwner);
+      await expect(proposeHash)
+        .to.emitEvent(government, "OwnershipTransferStarted")
+        .withArgs({ previousOwner, newOwner });
+
+      const acceptHash = await government
+        .connect(otherAccount)
+        .acceptOwnership();
+      const { logs } = await government.publicClient.getTransactionReceipt({
+        hash: acceptHash,
+      });
+      const transfers = parseEventLogs({
+        abi: governmentAbi,
+        eventName: "OwnershipTransferred",
+        logs,
+      });
+      expect(
+        transfers.map(({ address, args }) => ({ address, args }))
+      ).to.deep.equal([
+        {
+          address: government.address.toLowerCase(),
+          args: { previousOwner, newOwner },
+        },
+      ]);
+    });
 
-      // Watch for the event
-      const hash = await government.write.transferOwnership(
-        [otherAccount.account.address],
-        { account: owner.account }
+    it("Should only let the proposed owner accept", async function () {
+      const { government, otherAccount, thirdAccount } = await loadFixture(
+        deployGovernmentFixture
       );
 
-      // Get transaction receipt to check events
-      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      await government.transferOwnership(otherAccount.account.address);
+
+      await expect(
+        government.connect(thirdAccount).acceptOwnership()
+      ).to.be.revertedWithCustomError(
+        government,
+        "OwnableUnauthorizedAccount",
+        [thirdAccount.account.address]
+      );
+    });
 
-      // Verify event was emitted with correct parameters
-      const log = receipt.logs.find(
-        (log) => log.address === government.address
+    it("Should let the owner cancel a pending transfer", async function () {
+      const { government, otherAccount } = await loadFixture(
+        deployGovernmentFixture
       );
-      expect(log).to.not.be.undefined;
+
+      await government.transferOwnership(otherAccount.account.address);
+      await government.cancelOwnershipTransfer();
+
+      expect(await government.pendingOwner()).to.equal(zeroAddress);
+      await expect(
+        government.connect(otherAccount).acceptOwnership()
+      ).to.be.revertedWithCustomError(government, "OwnableUnauthorizedAccount");
     });
 
     it("Should prevent non-owners from transferring ownership", async function () {
@@ -100,16 +212,1776 @@ describe("Government", function () {
         deployGovernmentFixture
       );
 
-      if (!otherAccount.account || !thirdAccount.account) {
-        throw new Error("Accounts are undefined");
+      // Attempt to transfer ownership from a non-owner account (should fail)
+      await expect(
+        government
+          .connect(otherAccount)
+          .transferOwnership(thirdAccount.account.address)
+      ).to.be.revertedWithCustomError(government, "OwnableUnauthorizedAccount");
+    });
+  });
+
+  describe("Citizen Registration", function () {
+    const TEST_CITIZEN_ADDRESS = "0x8626f6940E2eb28930eFb4CeF49B2d1F2C9C1199";
+    const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+    it("Should register a new citizen", async function () {
+      const { government } = await loadFixture(deployGovernmentFixture);
+
+      await government.registerCitizen(TEST_CITIZEN_ADDRESS);
+
+      expect(await government.isCitizen(TEST_CITIZEN_ADDRESS)).to.be
+        .true;
+      expect(await government.citizenCount()).to.equal(1n);
+    });
+
+    it("Should not allow non-owner to register a citizen", async function () {
+      const { government, otherAccount } = await loadFixture(
+        deployGovernmentFixture
+      );
+
+      await expect(
+        government.connect(otherAccount).registerCitizen(TEST_CITIZEN_ADDRESS)
+      ).to.be.revertedWithCustomError(
+        government,
+        "OwnableUnauthorizedAccount",
+        [otherAccount.account.address]
+      );
+    });
+
+    it("Should not allow registering zero address", async function () {
+      const { government } = await loadFixture(deployGovernmentFixture);
+
+      await expect(
+        government.registerCitizen(ZERO_ADDRESS)
+      ).to.be.revertedWithCustomError(government, "ZeroAddressNotAllowed");
+    });
+
+    it("Should not allow registering the same citizen twice", async function () {
+      const { government } = await loadFixture(deployGovernmentFixture);
+
+      await government.registerCitizen(TEST_CITIZEN_ADDRESS);
+
+      await expect(
+        government.registerCitizen(TEST_CITIZEN_ADDRESS)
+      ).to.be.revertedWithCustomError(government, "CitizenAlreadyRegistered");
+    });
+
+    it("Should emit CitizenRegistered event when registering a citizen", async function () {
+      const { government } = await loadFixture(deployGovernmentFixture);
+
+      await expect(government.registerCitizen(TEST_CITIZEN_ADDRESS))
+        .to.emitEvent(government, "CitizenRegistered")
+        .withArgs({ citizen: TEST_CITIZEN_ADDRESS });
+    });
+  });
+
+  describe("Batch Citizen Registration", function () {
+    const CITIZEN_ADDRESSES: Address[] = [
+      "0x8626f6940E2eb28930eFb4CeF49B2d1F2C9C1199",
+      "0x1234567890123456789012345678901234567890",
+      "0x5555555555555555555555555555555555555555",
+    ];
+    const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+    it("Should register several citizens at once", async function () {
+      const { government } = await loadFixture(deployGovernmentFixture);
+
+      await government.registerCitizens(CITIZEN_ADDRESSES);
+
+      for (const citizen of CITIZEN_ADDRESSES) {
+        expect(await government.isCitizen(citizen)).to.be.true;
       }
+      expect(await government.citizenCount()).to.equal(
+        BigInt(CITIZEN_ADDRESSES.length)
+      );
+    });
+
+    it("Should emit CitizenRegistered event for every citizen", async function () {
+      const { government } = await loadFixture(deployGovernmentFixture);
+
+      const registered = expect(
+        government.registerCitizens(CITIZEN_ADDRESSES)
+      ).to.emitEvent(government, "CitizenRegistered");
+      for (const citizen of CITIZEN_ADDRESSES) {
+        registered.withArgs({ citizen });
+      }
+      await registered;
+    });
+
+    it("Should revert the whole batch if one citizen is already registered", async function () {
+      const { government } = await loadFixture(deployGovernmentFixture);
+
+      await government.registerCitizen(CITIZEN_ADDRESSES[1]);
+
+      await expect(
+        government.registerCitizens(CITIZEN_ADDRESSES)
+      ).to.be.revertedWithCustomError(government, "CitizenAlreadyRegistered");
+
+      // None of the other citizens should have been registered
+      expect(await government.isCitizen(CITIZEN_ADDRESSES[0])).to.be
+        .false;
+      expect(await government.citizenCount()).to.equal(1n);
+    });
+
+    it("Should revert the whole batch if it contains the zero address", async function () {
+      const { government } = await loadFixture(deployGovernmentFixture);
+
+      await expect(
+        government.registerCitizens([CITIZEN_ADDRESSES[0], ZERO_ADDRESS])
+      ).to.be.revertedWithCustomError(government, "ZeroAddressNotAllowed");
+      expect(await government.citizenCount()).to.equal(0n);
+    });
+
+    it("Should not allow non-owner to register citizens in batch", async function () {
+      const { government, otherAccount } = await loadFixture(
+        deployGovernmentFixture
+      );
+
+      await expect(
+        government.connect(otherAccount).registerCitizens(CITIZEN_ADDRESSES)
+      ).to.be.revertedWithCustomError(government, "OwnableUnauthorizedAccount");
+    });
+  });
+
+  describe("Citizen Revocation", function () {
+    const TEST_CITIZEN_ADDRESS = "0x8626f6940E2eb28930eFb4CeF49B2d1F2C9C1199";
+    let government: GovernmentClient, otherAccount: TestWalletClient;
+
+    beforeEach(async function () {
+      // Set up test environment before each test
+      const fixture = await loadFixture(deployGovernmentFixture);
+      government = fixture.government;
+      otherAccount = fixture.otherAccount;
+
+      // Register citizen for tests that need it
+      await government.registerCitizen(TEST_CITIZEN_ADDRESS);
+    });
+
+    it("Should revoke an existing citizen", async function () {
+      await government.revokeCitizen(TEST_CITIZEN_ADDRESS);
+
+      expect(await government.isCitizen(TEST_CITIZEN_ADDRESS)).to.be
+        .false;
+      expect(await government.citizenCount()).to.equal(0n);
+    });
+
+    it("Should not allow non-owner to revoke a citizen", async function () {
+      await expect(
+        government.connect(otherAccount).revokeCitizen(TEST_CITIZEN_ADDRESS)
+      ).to.be.revertedWithCustomError(government, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should not allow revoking a non-registered citizen", async function () {
+      const NON_REGISTERED_ADDRESS =
+        "0x1234567890123456789012345678901234567890";
+
+      await expect(
+        government.revokeCitizen(NON_REGISTERED_ADDRESS)
+      ).to.be.revertedWithCustomError(government, "CitizenNotRegistered");
+    });
+
+    it("Should allow registering a revoked citizen again", async function () {
+      await government.revokeCitizen(TEST_CITIZEN_ADDRESS);
+      await government.registerCitizen(TEST_CITIZEN_ADDRESS);
+
+      expect(await government.isCitizen(TEST_CITIZEN_ADDRESS)).to.be
+        .true;
+    });
+
+    it("Should emit CitizenRevoked event when revoking a citizen", async function () {
+      await expect(government.revokeCitizen(TEST_CITIZEN_ADDRESS))
+        .to.emitEvent(government, "CitizenRevoked")
+        .withArgs({ citizen: TEST_CITIZEN_ADDRESS });
+    });
+  });
+
+  describe("Citizen Enumeration", function () {
+    // Deterministic citizen addresses 0x...01 to 0x...05
+    const CITIZEN_ADDRESSES: Address[] = [1, 2, 3, 4, 5].map((i) =>
+      getAddress(`0x${i.toString(16).padStart(40, "0")}`)
+    );
+
+    async function deployGovernmentWithCitizensFixture() {
+      const fixture = await deployGovernmentFixture();
+      await fixture.government.registerCitizens(CITIZEN_ADDRESSES);
+      return fixture;
+    }
+
+    it("Should return an empty page when there are no citizens", async function () {
+      const { government } = await loadFixture(deployGovernmentFixture);
+
+      expect(await government.getCitizens(0n, 10n)).to.deep.equal([]);
+    });
+
+    it("Should page through all registered citizens", async function () {
+      const { government } = await loadFixture(
+        deployGovernmentWithCitizensFixture
+      );
+
+      const firstPage = await government.getCitizens(0n, 2n);
+      const secondPage = await government.getCitizens(2n, 2n);
+      const lastPage = await government.getCitizens(4n, 2n);
+
+      expect(firstPage).to.have.lengthOf(2);
+      expect(secondPage).to.have.lengthOf(2);
+      expect(lastPage).to.have.lengthOf(1);
+      expect([...firstPage, ...secondPage, ...lastPage]).to.deep.equal(
+        CITIZEN_ADDRESSES
+      );
+    });
+
+    it("Should return an empty page when offset is past the end", async function () {
+      const { government } = await loadFixture(
+        deployGovernmentWithCitizensFixture
+      );
+
+      expect(await government.getCitizens(5n, 10n)).to.deep.equal([]);
+    });
+
+    it("Should return every remaining citizen with the largest limit", async function () {
+      const { government } = await loadFixture(
+        deployGovernmentWithCitizensFixture
+      );
+
+      expect(await government.getCitizens(2n, maxUint256)).to.deep.equal(
+        CITIZEN_ADDRESSES.slice(2)
+      );
+      expect(await government.getCitizens(0n, maxUint256)).to.deep.equal(
+        CITIZEN_ADDRESSES
+      );
+    });
+
+    it("Should not return revoked citizens", async function () {
+      const { government } = await loadFixture(
+        deployGovernmentWithCitizensFixture
+      );
+
+      await government.revokeCitizen(CITIZEN_ADDRESSES[0]);
+
+      const citizens = await government.getCitizens(0n, 10n);
+      expect(citizens).to.have.lengthOf(CITIZEN_ADDRESSES.length - 1);
+      expect(citizens).to.not.include(CITIZEN_ADDRESSES[0]);
+      expect(await government.citizenCount()).to.equal(
+        BigInt(CITIZEN_ADDRESSES.length - 1)
+      );
+    });
+  });
+
+  describe("Voting Rules", function () {
+    it("Should start with the default voting rules", async function () {
+      const { government } = await loadFixture(deployGovernmentFixture);
+
+      expect(await government.votingPeriod()).to.equal(3n * 24n * 60n * 60n);
+      expect(await government.quorumPercent()).to.equal(50);
+    });
+
+    it("Should let the owner change the voting rules", async function () {
+      const { government } = await loadFixture(deployGovernmentFixture);
+
+      const hash = await government.setVotingRules(3600n, 75);
+
+      expect(await government.votingPeriod()).to.equal(3600n);
+      expect(await government.quorumPercent()).to.equal(75);
+      await expect(hash)
+        .to.emitEvent(government, "VotingRulesUpdated")
+        .withArgs({ votingPeriod: 3600n, quorumPercent: 75 });
+    });
+
+    it("Should not accept invalid voting rules", async function () {
+      const { government } = await loadFixture(deployGovernmentFixture);
+
+      await expect(
+        government.setVotingRules(0n, 50)
+      ).to.be.revertedWithCustomError(government, "InvalidVotingRules");
+      await expect(
+        government.setVotingRules(3600n, 0)
+      ).to.be.revertedWithCustomError(government, "InvalidVotingRules");
+      await expect(
+        government.setVotingRules(3600n, 101)
+      ).to.be.revertedWithCustomError(government, "InvalidVotingRules");
+    });
+
+    it("Should prevent non-owners from changing the voting rules", async function () {
+      const { government, otherAccount } = await loadFixture(
+        deployGovernmentFixture
+      );
+
+      await expect(
+        government.connect(otherAccount).setVotingRules(3600n, 75)
+      ).to.be.revertedWithCustomError(government, "OwnableUnauthorizedAccount");
+    });
+  });
+
+  describe("Proposals", function () {
+    // A government with three citizens, owning another government its proposals manage
+    async function deployProposalFixture() {
+      const fixture = await deployGovernmentFixture();
+      const { governmentFactory, government, otherAccount, thirdAccount } =
+        fixture;
+      const [, , , fourthAccount, stranger] = await hre.viem.getWalletClients();
+
+      await government.registerCitizens([
+        otherAccount.account.address,
+        thirdAccount.account.address,
+        fourthAccount.account.address,
+      ]);
+
+      const managedGovernment = governmentFactory.government(
+        await governmentFactory.createGovernment(government.address)
+      );
+
+      return { ...fixture, fourthAccount, stranger, managedGovernment };
+    }
+
+    // Calldata registering a citizen in the managed government
+    function registerCitizenData(citizen: Address) {
+      return encodeFunctionData({
+        abi: governmentAbi,
+        functionName: "registerCitizen",
+        args: [citizen],
+      });
+    }
+
+    it("Should let the owner and citizens propose", async function () {
+      const { government, managedGovernment, otherAccount, stranger } =
+        await loadFixture(deployProposalFixture);
+
+      const ownerProposal = await government.propose({
+        target: managedGovernment.address,
+        data: registerCitizenData(stranger.account.address),
+        description: "Register a citizen",
+      });
+      const citizenProposal = await government.connect(otherAccount).propose({
+        target: managedGovernment.address,
+        data: registerCitizenData(stranger.account.address),
+        description: "Register a citizen again",
+      });
+
+      expect(ownerProposal).to.equal(1n);
+      expect(citizenProposal).to.equal(2n);
+      expect(await government.proposalCount()).to.equal(2n);
+    });
+
+    it("Should not let other accounts propose", async function () {
+      const { government, managedGovernment, stranger } = await loadFixture(
+        deployProposalFixture
+      );
 
-      // Attempt to transfer ownership from a non-owner account (should fail)
       await expect(
-        government.write.transferOwnership([thirdAccount.account.address], {
-          account: otherAccount.account,
+        government.connect(stranger).propose({
+          target: managedGovernment.address,
+          description: "Not allowed",
         })
-      ).to.be.rejectedWith(/OwnableUnauthorizedAccount/); 
+      ).to.be.revertedWithCustomError(government, "NotAllowedToPropose");
+    });
+
+    it("Should not propose a call to the zero address", async function () {
+      const { government } = await loadFixture(deployProposalFixture);
+
+      await expect(
+        government.propose({ target: zeroAddress, description: "Nowhere" })
+      ).to.be.revertedWithCustomError(government, "ZeroAddressNotAllowed");
+    });
+
+    it("Should record the proposal and emit ProposalCreated", async function () {
+      const { government, managedGovernment, owner, stranger, publicClient } =
+        await loadFixture(deployProposalFixture);
+
+      const data = registerCitizenData(stranger.account.address);
+      const proposalId = await government.propose({
+        target: managedGovernment.address,
+        value: 1n,
+        data,
+        description: "Register a citizen",
+      });
+
+      const { timestamp, number } = await publicClient.getBlock();
+      const deadline = timestamp + (await government.votingPeriod());
+
+      // Half of the three citizens, rounded up, who registered in an earlier block
+      expect(await government.getProposal(proposalId)).to.deep.equal({
+        proposer: getAddress(owner.account.address),
+        target: managedGovernment.address,
+        value: 1n,
+        data,
+        deadline,
+        quorumVotes: 2n,
+        forVotes: 0n,
+        againstVotes: 0n,
+        executed: false,
+        canceled: false,
+        snapshotBlock: number - 1n,
+      });
+      expect(await government.proposalState(proposalId)).to.equal(
+        ProposalState.Active
+      );
+
+      const [event] = await government.contract.getEvents.ProposalCreated();
+      expect(event.args).to.deep.equal({
+        proposalId,
+        proposer: getAddress(owner.account.address),
+        target: managedGovernment.address,
+        value: 1n,
+        data,
+        description: "Register a citizen",
+        deadline,
+      });
+    });
+
+    it("Should not find unknown proposals", async function () {
+      const { government } = await loadFixture(deployProposalFixture);
+
+      await expect(government.getProposal(1n)).to.be.revertedWithCustomError(
+        government,
+        "ProposalNotFound"
+      );
+      await expect(government.castVote(1n, true)).to.be.revertedWithCustomError(
+        government,
+        "ProposalNotFound"
+      );
+    });
+  });
+
+  describe("Voting", function () {
+    async function deployActiveProposalFixture() {
+      const fixture = await deployGovernmentFixture();
+      const { government, otherAccount, thirdAccount } = fixture;
+      const [, , , fourthAccount, stranger] = await hre.viem.getWalletClients();
+
+      await government.registerCitizens([
+        otherAccount.account.address,
+        thirdAccount.account.address,
+        fourthAccount.account.address,
+      ]);
+      const proposalId = await government.propose({
+        target: stranger.account.address,
+        description: "A call to an account",
+      });
+
+      return { ...fixture, fourthAccount, stranger, proposalId };
+    }
+
+    it("Should count one vote per citizen", async function () {
+      const {
+        government,
+        otherAccount,
+        thirdAccount,
+        fourthAccount,
+        proposalId,
+      } = await loadFixture(deployActiveProposalFixture);
+
+      const hash = await government
+        .connect(otherAccount)
+        .castVote(proposalId, true);
+      await government.connect(thirdAccount).castVote(proposalId, true);
+      await government.connect(fourthAccount).castVote(proposalId, false);
+
+      const proposal = await government.getProposal(proposalId);
+      expect(proposal.forVotes).to.equal(2n);
+      expect(proposal.againstVotes).to.equal(1n);
+      expect(
+        await government.hasVoted(proposalId, otherAccount.account.address)
+      ).to.be.true;
+      await expect(hash)
+        .to.emitEvent(government, "VoteCast")
+        .withArgs({
+          proposalId,
+          voter: getAddress(otherAccount.account.address),
+          support: true,
+        });
+    });
+
+    it("Should not let a citizen vote twice", async function () {
+      const { government, otherAccount, proposalId } = await loadFixture(
+        deployActiveProposalFixture
+      );
+
+      await government.connect(otherAccount).castVote(proposalId, true);
+
+      await expect(
+        government.connect(otherAccount).castVote(proposalId, false)
+      ).to.be.revertedWithCustomError(government, "AlreadyVoted");
+    });
+
+    it("Should not let non-citizens vote", async function () {
+      const { government, stranger, proposalId } = await loadFixture(
+        deployActiveProposalFixture
+      );
+
+      // The owner proposes, but only citizens vote
+      await expect(
+        government.castVote(proposalId, true)
+      ).to.be.revertedWithCustomError(government, "CitizenNotRegistered");
+      await expect(
+        government.connect(stranger).castVote(proposalId, true)
+      ).to.be.revertedWithCustomError(government, "CitizenNotRegistered");
+    });
+
+    it("Should not let citizens registered during the vote vote", async function () {
+      const { government, stranger, proposalId } = await loadFixture(
+        deployActiveProposalFixture
+      );
+
+      await government.registerCitizen(stranger.account.address);
+
+      await expect(
+        government.connect(stranger).castVote(proposalId, true)
+      ).to.be.revertedWithCustomError(
+        government,
+        "CitizenRegisteredAfterProposal"
+      );
+
+      // The new citizen votes on the next proposals
+      const nextProposalId = await government.propose({
+        target: stranger.account.address,
+        description: "Another call to an account",
+      });
+      await expect(government.connect(stranger).castVote(nextProposalId, true))
+        .to.not.be.rejected;
+    });
+
+    it("Should not let a citizen revoked and registered again during the vote vote", async function () {
+      const { government, otherAccount, proposalId } = await loadFixture(
+        deployActiveProposalFixture
+      );
+
+      await government.revokeCitizen(otherAccount.account.address);
+      await government.registerCitizen(otherAccount.account.address);
+
+      await expect(
+        government.connect(otherAccount).castVote(proposalId, true)
+      ).to.be.revertedWithCustomError(
+        government,
+        "CitizenRegisteredAfterProposal"
+      );
+    });
+
+    it("Should withdraw the votes of a citizen revoked during the vote", async function () {
+      const { government, otherAccount, thirdAccount, stranger, proposalId } =
+        await loadFixture(deployActiveProposalFixture);
+
+      await government.connect(otherAccount).castVote(proposalId, true);
+      await government.connect(thirdAccount).castVote(proposalId, true);
+      await government.revokeCitizen(thirdAccount.account.address);
+
+      // Anyone withdraws the vote
+      const hash = await government
+        .connect(stranger)
+        .withdrawVote(proposalId, thirdAccount.account.address);
+
+      const proposal = await government.getProposal(proposalId);
+      expect(proposal.forVotes).to.equal(1n);
+      expect(proposal.againstVotes).to.equal(0n);
+      expect(
+        await government.hasVoted(proposalId, thirdAccount.account.address)
+      ).to.be.false;
+      await expect(hash)
+        .to.emitEvent(government, "VoteWithdrawn")
+        .withArgs({
+          proposalId,
+          voter: getAddress(thirdAccount.account.address),
+        });
+      await expect(
+        government.withdrawVote(proposalId, thirdAccount.account.address)
+      ).to.be.revertedWithCustomError(government, "VoteNotFound");
+
+      // One vote left out of the two needed
+      await endVoting(government, proposalId);
+      expect(await government.proposalState(proposalId)).to.equal(
+        ProposalState.Defeated
+      );
+    });
+
+    it("Should withdraw the votes of a citizen revoked and registered again during the vote", async function () {
+      const { government, thirdAccount, fourthAccount, proposalId } =
+        await loadFixture(deployActiveProposalFixture);
+
+      await government.connect(thirdAccount).castVote(proposalId, true);
+      await government.connect(fourthAccount).castVote(proposalId, false);
+      await government.revokeCitizen(fourthAccount.account.address);
+      await government.registerCitizen(fourthAccount.account.address);
+
+      await government.withdrawVote(proposalId, fourthAccount.account.address);
+
+      const proposal = await government.getProposal(proposalId);
+      expect(proposal.forVotes).to.equal(1n);
+      expect(proposal.againstVotes).to.equal(0n);
+    });
+
+    it("Should not withdraw the votes of registered citizens", async function () {
+      const { government, otherAccount, thirdAccount, proposalId } =
+        await loadFixture(deployActiveProposalFixture);
+
+      await government.connect(otherAccount).castVote(proposalId, true);
+
+      await expect(
+        government.withdrawVote(proposalId, otherAccount.account.address)
+      ).to.be.revertedWithCustomError(government, "VoterNotRevoked");
+      await expect(
+        government.withdrawVote(proposalId, thirdAccount.account.address)
+      ).to.be.revertedWithCustomError(government, "VoteNotFound");
+    });
+
+    it("Should revoke a citizen who voted on many open proposals at the same cost", async function () {
+      const { government, otherAccount, stranger, proposalId, publicClient } =
+        await loadFixture(deployActiveProposalFixture);
+      const citizen = otherAccount.account.address;
+      const gasUsed = async (hash: Hash) =>
+        (await publicClient.getTransactionReceipt({ hash })).gasUsed;
+
+      const firstVote = await gasUsed(
+        await government.connect(otherAccount).castVote(proposalId, true)
+      );
+      const revokeAfterOneVote = await gasUsed(
+        await government.revokeCitizen(citizen)
+      );
+
+      // From the same state, the citizen opens many proposals and votes on all of them
+      await loadFixture(deployActiveProposalFixture);
+      await government.connect(otherAccount).castVote(proposalId, true);
+      for (let i = 0; i < 50; i++) {
+        const id = await government.connect(otherAccount).propose({
+          target: stranger.account.address,
+          description: `Proposal ${i}`,
+        });
+        const vote = await gasUsed(
+          await government.connect(otherAccount).castVote(id, true)
+        );
+        expect(vote).to.equal(firstVote);
+      }
+
+      const hash = await government.revokeCitizen(citizen);
+      expect(await gasUsed(hash)).to.equal(revokeAfterOneVote);
+      expect(await government.isCitizen(citizen)).to.be.false;
+    });
+
+    it("Should keep the votes of a citizen revoked once the vote is over", async function () {
+      const { government, otherAccount, thirdAccount, proposalId } =
+        await loadFixture(deployActiveProposalFixture);
+
+      await government.connect(otherAccount).castVote(proposalId, true);
+      await government.connect(thirdAccount).castVote(proposalId, true);
+      await endVoting(government, proposalId);
+      await government.revokeCitizen(thirdAccount.account.address);
+
+      await expect(
+        government.withdrawVote(proposalId, thirdAccount.account.address)
+      ).to.be.revertedWithCustomError(government, "ProposalNotActive");
+      expect((await government.getProposal(proposalId)).forVotes).to.equal(2n);
+      expect(await government.proposalState(proposalId)).to.equal(
+        ProposalState.Succeeded
+      );
+    });
+
+    it("Should not count citizens registered in the block of the proposal in its quorum", async function () {
+      const { government, owner, stranger, publicClient } = await loadFixture(
+        deployActiveProposalFixture
+      );
+
+      await government.setVotingRules(await government.votingPeriod(), 100);
+
+      // Register a citizen and propose in the same block, without the default
+      // gas limit of a whole block
+      await hre.network.provider.send("evm_setAutomine", [false]);
+      try {
+        await owner.writeContract({
+          address: government.address,
+          abi: governmentAbi,
+          functionName: "registerCitizen",
+          args: [stranger.account.address],
+          gas: 500_000n,
+        });
+        await owner.writeContract({
+          address: government.address,
+          abi: governmentAbi,
+          functionName: "propose",
+          args: [stranger.account.address, 0n, "0x", "Same block"],
+          gas: 500_000n,
+        });
+        await mine();
+      } finally {
+        await hre.network.provider.send("evm_setAutomine", [true]);
+      }
+
+      // All of the three citizens who registered before
+      const proposalId = await government.proposalCount();
+      const { quorumVotes, snapshotBlock } = await government.getProposal(
+        proposalId
+      );
+      const { number } = await publicClient.getBlock();
+      expect(proposalId).to.equal(2n);
+      expect(quorumVotes).to.equal(3n);
+      expect(snapshotBlock).to.equal(number - 1n);
+      await expect(
+        government.connect(stranger).castVote(proposalId, true)
+      ).to.be.revertedWithCustomError(
+        government,
+        "CitizenRegisteredAfterProposal"
+      );
+    });
+
+    it("Should not accept votes once the deadline has passed", async function () {
+      const { government, otherAccount, proposalId } = await loadFixture(
+        deployActiveProposalFixture
+      );
+
+      await endVoting(government, proposalId);
+
+      await expect(
+        government.connect(otherAccount).castVote(proposalId, true)
+      ).to.be.revertedWithCustomError(government, "ProposalNotActive");
+    });
+
+    it("Should stay active until the deadline", async function () {
+      const { government, otherAccount, proposalId } = await loadFixture(
+        deployActiveProposalFixture
+      );
+
+      await time.increase((await government.votingPeriod()) - 10n);
+
+      await expect(government.connect(otherAccount).castVote(proposalId, true))
+        .to.not.be.rejected;
+      expect(await government.proposalState(proposalId)).to.equal(
+        ProposalState.Active
+      );
+    });
+
+    it("Should succeed with the quorum and a majority for", async function () {
+      const { government, otherAccount, thirdAccount, proposalId } =
+        await loadFixture(deployActiveProposalFixture);
+
+      await government.connect(otherAccount).castVote(proposalId, true);
+      await government.connect(thirdAccount).castVote(proposalId, true);
+      await endVoting(government, proposalId);
+
+      expect(await government.proposalState(proposalId)).to.equal(
+        ProposalState.Succeeded
+      );
+    });
+
+    it("Should be defeated without the quorum", async function () {
+      const { government, otherAccount, proposalId } = await loadFixture(
+        deployActiveProposalFixture
+      );
+
+      // One vote out of the two needed
+      await government.connect(otherAccount).castVote(proposalId, true);
+      await endVoting(government, proposalId);
+
+      expect(await government.proposalState(proposalId)).to.equal(
+        ProposalState.Defeated
+      );
+    });
+
+    it("Should be defeated without a majority for", async function () {
+      const { government, otherAccount, thirdAccount, proposalId } =
+        await loadFixture(deployActiveProposalFixture);
+
+      // A tie does not pass
+      await government.connect(otherAccount).castVote(proposalId, true);
+      await government.connect(thirdAccount).castVote(proposalId, false);
+      await endVoting(government, proposalId);
+
+      expect(await government.proposalState(proposalId)).to.equal(
+        ProposalState.Defeated
+      );
+    });
+
+    it("Should keep the rules a proposal was created with", async function () {
+      const { government, otherAccount, thirdAccount, proposalId } =
+        await loadFixture(deployActiveProposalFixture);
+
+      await government.setVotingRules(60n, 100);
+      await government.connect(otherAccount).castVote(proposalId, true);
+      await government.connect(thirdAccount).castVote(proposalId, true);
+
+      // Still active after the new, shorter period
+      await time.increase(60n);
+      expect(await government.proposalState(proposalId)).to.equal(
+        ProposalState.Active
+      );
+
+      await endVoting(government, proposalId);
+      expect(await government.proposalState(proposalId)).to.equal(
+        ProposalState.Succeeded
+      );
+    });
+  });
+
+  describe("Execution", function () {
+    // A government with two citizens and a proposal to register a citizen in a government it owns
+    async function deployManagingGovernmentFixture() {
+      const fixture = await deployGovernmentFixture();
+      const { governmentFactory, government, otherAccount, thirdAccount } =
+        fixture;
+      const [, , , , stranger] = await hre.viem.getWalletClients();
+
+      await government.registerCitizens([
+        otherAccount.account.address,
+        thirdAccount.account.address,
+      ]);
+      const managedGovernment = governmentFactory.government(
+        await governmentFactory.createGovernment(government.address)
+      );
+
+      return { ...fixture, stranger, managedGovernment };
+    }
+
+    // Propose a call, get both citizens to vote for it and end the voting
+    async function passProposal(
+      government: GovernmentClient,
+      voters: TestWalletClient[],
+      parameters: Parameters<GovernmentClient["propose"]>[0]
+    ): Promise<bigint> {
+      const proposalId = await government.propose(parameters);
+      for (const voter of voters) {
+        await government.connect(voter).castVote(proposalId, true);
+      }
+      await endVoting(government, proposalId);
+      return proposalId;
+    }
+
+    it("Should execute a passed proposal as a call from the government", async function () {
+      const {
+        government,
+        managedGovernment,
+        otherAccount,
+        thirdAccount,
+        stranger,
+      } = await loadFixture(deployManagingGovernmentFixture);
+
+      const proposalId = await passProposal(
+        government,
+        [otherAccount, thirdAccount],
+        {
+          target: managedGovernment.address,
+          data: encodeFunctionData({
+            abi: governmentAbi,
+            functionName: "registerCitizen",
+            args: [stranger.account.address],
+          }),
+          description: "Register a citizen in the managed government",
+        }
+      );
+
+      // Anyone can execute it
+      const hash = await government.connect(stranger).execute(proposalId);
+
+      expect(await managedGovernment.isCitizen(stranger.account.address)).to.be
+        .true;
+      expect(await government.proposalState(proposalId)).to.equal(
+        ProposalState.Executed
+      );
+      await expect(hash)
+        .to.emitEvent(government, "ProposalExecuted")
+        .withArgs({ proposalId });
+    });
+
+    it("Should send value from the government", async function () {
+      const {
+        government,
+        owner,
+        otherAccount,
+        thirdAccount,
+        stranger,
+        publicClient,
+      } = await loadFixture(deployManagingGovernmentFixture);
+
+      await owner.sendTransaction({
+        account: owner.account,
+        chain: owner.chain,
+        to: government.address,
+        value: parseEther("1"),
+      });
+      const balanceBefore = await publicClient.getBalance({
+        address: stranger.account.address,
+      });
+
+      const proposalId = await passProposal(
+        government,
+        [otherAccount, thirdAccount],
+        {
+          target: stranger.account.address,
+          value: parseEther("1"),
+          description: "Pay an account",
+        }
+      );
+      await government.execute(proposalId);
+
+      expect(
+        await publicClient.getBalance({ address: stranger.account.address })
+      ).to.equal(balanceBefore + parseEther("1"));
+      expect(
+        await publicClient.getBalance({ address: government.address })
+      ).to.equal(0n);
+    });
+
+    it("Should not execute a proposal twice", async function () {
+      const { government, managedGovernment, otherAccount, thirdAccount } =
+        await loadFixture(deployManagingGovernmentFixture);
+
+      const proposalId = await passProposal(
+        government,
+        [otherAccount, thirdAccount],
+        {
+          target: managedGovernment.address,
+          description: "Do nothing",
+          data: encodeFunctionData({
+            abi: governmentAbi,
+            functionName: "citizenCount",
+            args: [],
+          }),
+        }
+      );
+      await government.execute(proposalId);
+
+      await expect(
+        government.execute(proposalId)
+      ).to.be.revertedWithCustomError(government, "ProposalNotSucceeded");
+    });
+
+    it("Should not execute active or defeated proposals", async function () {
+      const { government, managedGovernment, otherAccount } = await loadFixture(
+        deployManagingGovernmentFixture
+      );
+
+      const proposalId = await government.propose({
+        target: managedGovernment.address,
+        description: "Not passed yet",
+      });
+      await expect(
+        government.execute(proposalId)
+      ).to.be.revertedWithCustomError(government, "ProposalNotSucceeded");
+
+      await government.connect(otherAccount).castVote(proposalId, false);
+      await endVoting(government, proposalId);
+      await expect(
+        government.execute(proposalId)
+      ).to.be.revertedWithCustomError(government, "ProposalNotSucceeded");
+    });
+
+    it("Should revert with the reason of a failing call", async function () {
+      const {
+        government,
+        managedGovernment,
+        otherAccount,
+        thirdAccount,
+        stranger,
+      } = await loadFixture(deployManagingGovernmentFixture);
+
+      // The stranger is not a citizen of the managed government
+      const proposalId = await passProposal(
+        government,
+        [otherAccount, thirdAccount],
+        {
+          target: managedGovernment.address,
+          data: encodeFunctionData({
+            abi: governmentAbi,
+            functionName: "revokeCitizen",
+            args: [stranger.account.address],
+          }),
+          description: "Revoke a citizen who is not registered",
+        }
+      );
+
+      await expect(
+        government.execute(proposalId)
+      ).to.be.revertedWithCustomError(government, "CitizenNotRegistered");
+      expect(await government.proposalState(proposalId)).to.equal(
+        ProposalState.Succeeded
+      );
+    });
+  });
+
+  describe("Cancellation", function () {
+    async function deployCitizenProposalFixture() {
+      const fixture = await deployGovernmentFixture();
+      const { government, otherAccount, thirdAccount } = fixture;
+
+      await government.registerCitizens([
+        otherAccount.account.address,
+        thirdAccount.account.address,
+      ]);
+      const proposalId = await government.connect(otherAccount).propose({
+        target: thirdAccount.account.address,
+        description: "A citizen proposal",
+      });
+
+      return { ...fixture, proposalId };
+    }
+
+    it("Should let the proposer cancel", async function () {
+      const { government, otherAccount, proposalId } = await loadFixture(
+        deployCitizenProposalFixture
+      );
+
+      const hash = await government.connect(otherAccount).cancel(proposalId);
+
+      expect(await government.proposalState(proposalId)).to.equal(
+        ProposalState.Canceled
+      );
+      await expect(hash)
+        .to.emitEvent(government, "ProposalCanceled")
+        .withArgs({ proposalId });
+    });
+
+    it("Should let the owner cancel", async function () {
+      const { government, proposalId } = await loadFixture(
+        deployCitizenProposalFixture
+      );
+
+      await government.cancel(proposalId);
+
+      expect(await government.proposalState(proposalId)).to.equal(
+        ProposalState.Canceled
+      );
+    });
+
+    it("Should not let other citizens cancel", async function () {
+      const { government, thirdAccount, proposalId } = await loadFixture(
+        deployCitizenProposalFixture
+      );
+
+      await expect(
+        government.connect(thirdAccount).cancel(proposalId)
+      ).to.be.revertedWithCustomError(government, "NotAllowedToCancel");
+    });
+
+    it("Should not accept votes on a canceled proposal", async function () {
+      const { government, thirdAccount, proposalId } = await loadFixture(
+        deployCitizenProposalFixture
+      );
+
+      await government.cancel(proposalId);
+
+      await expect(
+        government.connect(thirdAccount).castVote(proposalId, true)
+      ).to.be.revertedWithCustomError(government, "ProposalNotActive");
+    });
+
+    it("Should not cancel once voting is over", async function () {
+      const { government, otherAccount, thirdAccount, proposalId } =
+        await loadFixture(deployCitizenProposalFixture);
+
+      await government.connect(otherAccount).castVote(proposalId, true);
+      await government.connect(thirdAccount).castVote(proposalId, true);
+      await endVoting(government, proposalId);
+
+      await expect(government.cancel(proposalId)).to.be.revertedWithCustomError(
+        government,
+        "ProposalNotActive"
+      );
+    });
+  });
+
+  describe("Key Signatures", function () {
+    const DIGEST = keccak256(toHex("poligov-test-message"));
+
+    // A wallet for a key that never holds ETH, it only signs
+    function createKeyWallet() {
+      return createWalletClient({
+        account: privateKeyToAccount(generatePrivateKey()),
+        transport: custom(hre.network.provider),
+      });
+    }
+
+    // Two citizens, the first with a key in the government's Key registry, and an active proposal
+    async function deployKeyRegistryFixture() {
+      const fixture = await deployGovernmentFixture();
+      const { government, key, otherAccount, thirdAccount } = fixture;
+
+      await government.setKeyRegistry(key.address);
+      await government.registerCitizens([
+        otherAccount.account.address,
+        thirdAccount.account.address,
+      ]);
+
+      const citizenKey = createKeyWallet();
+      await key.connect(otherAccount).addKey(citizenKey.account.address);
+
+      const proposalId = await government.propose({
+        target: thirdAccount.account.address,
+        description: "A proposal to vote on by signature",
+      });
+
+      return {
+        ...fixture,
+        key,
+        citizen: otherAccount.account.address,
+        citizenKey,
+        proposalId,
+      };
+    }
+
+    // The same, with a proposal of the citizen with a key
+    async function deployKeyHolderProposalFixture() {
+      const fixture = await deployKeyRegistryFixture();
+      const { government, otherAccount, thirdAccount } = fixture;
+
+      const citizenProposalId = await government.connect(otherAccount).propose({
+        target: thirdAccount.account.address,
+        description: "A proposal to cancel by signature",
+      });
+
+      return { ...fixture, citizenProposalId };
+    }
+
+    // Deadline an hour after the latest block
+    async function deadline(): Promise<bigint> {
+      return BigInt(await time.latest()) + 3600n;
+    }
+
+    // Replace the citizen's key with a new one, authorized by the old one
+    async function rotateKey({
+      key,
+      otherAccount,
+      citizen,
+      citizenKey,
+    }: {
+      key: KeyClient;
+      otherAccount: TestWalletClient;
+      citizen: Address;
+      citizenKey: WalletClient;
+    }) {
+      const newKey = createKeyWallet();
+      const rotationDeadline = await deadline();
+      await key
+        .connect(otherAccount)
+        .replaceKey(
+          newKey.account.address,
+          rotationDeadline,
+          await key.signKeyRotation(
+            citizenKey,
+            citizen,
+            newKey.account.address,
+            rotationDeadline
+          )
+        );
+      return newKey;
+    }
+
+    it("Should let the owner set the Key registry", async function () {
+      const { government, key } = await loadFixture(deployKeyRegistryFixture);
+
+      expect(await government.keyRegistry()).to.equal(key.address);
+
+      const hash = await government.setKeyRegistry(zeroAddress);
+      expect(await government.keyRegistry()).to.equal(zeroAddress);
+      await expect(hash)
+        .to.emitEvent(government, "KeyRegistryUpdated")
+        .withArgs({ keyRegistry: zeroAddress });
+    });
+
+    it("Should prevent non-owners from setting the Key registry", async function () {
+      const { government, otherAccount } = await loadFixture(
+        deployKeyRegistryFixture
+      );
+
+      await expect(
+        government.connect(otherAccount).setKeyRegistry(zeroAddress)
+      ).to.be.revertedWithCustomError(government, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should verify a signature of the citizen's current key", async function () {
+      const { government, citizen, citizenKey } = await loadFixture(
+        deployKeyRegistryFixture
+      );
+
+      const signature = await citizenKey.signMessage({
+        message: { raw: DIGEST },
+      });
+
+      expect(
+        await government.verifyCitizenSignature(citizen, DIGEST, signature)
+      ).to.be.true;
+    });
+
+    it("Should not verify signatures of the citizen's account or of non-citizens", async function () {
+      const { government, citizen, citizenKey, otherAccount, thirdAccount } =
+        await loadFixture(deployKeyRegistryFixture);
+
+      // The account is not its key
+      const accountSignature = await otherAccount.signMessage({
+        account: otherAccount.account,
+        message: { raw: DIGEST },
+      });
+      expect(
+        await government.verifyCitizenSignature(
+          citizen,
+          DIGEST,
+          accountSignature
+        )
+      ).to.be.false;
+
+      // A citizen without a key
+      const thirdSignature = await thirdAccount.signMessage({
+        account: thirdAccount.account,
+        message: { raw: DIGEST },
+      });
+      expect(
+        await government.verifyCitizenSignature(
+          thirdAccount.account.address,
+          DIGEST,
+          thirdSignature
+        )
+      ).to.be.false;
+
+      // A key signature, once its account is no longer a citizen
+      const keySignature = await citizenKey.signMessage({
+        message: { raw: DIGEST },
+      });
+      await government.revokeCitizen(citizen);
+      expect(
+        await government.verifyCitizenSignature(citizen, DIGEST, keySignature)
+      ).to.be.false;
+    });
+
+    it("Should not verify signatures without a Key registry", async function () {
+      const { government, citizen, citizenKey } = await loadFixture(
+        deployKeyRegistryFixture
+      );
+
+      const signature = await citizenKey.signMessage({
+        message: { raw: DIGEST },
+      });
+      await government.setKeyRegistry(zeroAddress);
+
+      await expect(
+        government.verifyCitizenSignature(citizen, DIGEST, signature)
+      ).to.be.revertedWithCustomError(government, "KeyRegistryNotSet");
+    });
+
+    it("Should count a vote signed by the citizen's key", async function () {
+      const { government, citizen, citizenKey, thirdAccount, proposalId } =
+        await loadFixture(deployKeyRegistryFixture);
+
+      const ballot = {
+        proposalId,
+        support: true,
+        citizen,
+        deadline: await deadline(),
+      };
+      const signature = await government.signBallot(
+        citizenKey,
+        citizen,
+        proposalId,
+        true,
+        ballot.deadline
+      );
+
+      // Submitted by another account, counted for the citizen
+      const hash = await government
+        .connect(thirdAccount)
+        .castVoteBySig(ballot, signature);
+
+      expect(await government.hasVoted(proposalId, citizen)).to.be.true;
+      expect((await government.getProposal(proposalId)).forVotes).to.equal(1n);
+      expect(await government.nonces(citizen)).to.equal(1n);
+      await expect(hash)
+        .to.emitEvent(government, "VoteCast")
+        .withArgs({ proposalId, voter: getAddress(citizen), support: true });
+    });
+
+    it("Should reject signatures of a rotated key", async function () {
+      const { government, key, citizen, citizenKey, otherAccount, proposalId } =
+        await loadFixture(deployKeyRegistryFixture);
+
+      const ballot = {
+        proposalId,
+        support: true,
+        citizen,
+        deadline: await deadline(),
+      };
+      const oldSignature = await government.signBallot(
+        citizenKey,
+        citizen,
+        proposalId,
+        true,
+        ballot.deadline
+      );
+
+      // The citizen rotates its key, authorized by the old one
+      const newKey = createKeyWallet();
+      const rotationDeadline = await deadline();
+      await key
+        .connect(otherAccount)
+        .replaceKey(
+          newKey.account.address,
+          rotationDeadline,
+          await key.signKeyRotation(
+            citizenKey,
+            citizen,
+            newKey.account.address,
+            rotationDeadline
+          )
+        );
+
+      await expect(
+        government.castVoteBySig(ballot, oldSignature)
+      ).to.be.revertedWithCustomError(government, "InvalidSignature");
+
+      const newSignature = await government.signBallot(
+        newKey,
+        citizen,
+        proposalId,
+        true,
+        ballot.deadline
+      );
+      await government.castVoteBySig(ballot, newSignature);
+      expect(await government.hasVoted(proposalId, citizen)).to.be.true;
+    });
+
+    it("Should not replay a signed vote", async function () {
+      const { government, citizen, citizenKey, proposalId } = await loadFixture(
+        deployKeyRegistryFixture
+      );
+
+      const ballot = {
+        proposalId,
+        support: true,
+        citizen,
+        deadline: await deadline(),
+      };
+      const signature = await government.signBallot(
+        citizenKey,
+        citizen,
+        proposalId,
+        true,
+        ballot.deadline
+      );
+      await government.castVoteBySig(ballot, signature);
+
+      // The nonce was consumed
+      await expect(
+        government.castVoteBySig(ballot, signature)
+      ).to.be.revertedWithCustomError(government, "InvalidSignature");
+    });
+
+    it("Should not accept an expired signature", async function () {
+      const { government, citizen, citizenKey, proposalId } = await loadFixture(
+        deployKeyRegistryFixture
+      );
+
+      const ballot = {
+        proposalId,
+        support: true,
+        citizen,
+        deadline: await deadline(),
+      };
+      const signature = await government.signBallot(
+        citizenKey,
+        citizen,
+        proposalId,
+        true,
+        ballot.deadline
+      );
+      await time.increaseTo(ballot.deadline + 1n);
+
+      await expect(
+        government.castVoteBySig(ballot, signature)
+      ).to.be.revertedWithCustomError(government, "SignatureExpired", [
+        ballot.deadline,
+      ]);
+    });
+
+    it("Should not accept a vote signed for another proposal", async function () {
+      const { government, citizen, citizenKey, thirdAccount, proposalId } =
+        await loadFixture(deployKeyRegistryFixture);
+
+      const otherProposalId = await government.propose({
+        target: thirdAccount.account.address,
+        description: "Another proposal",
+      });
+      const ballot = {
+        proposalId,
+        support: true,
+        citizen,
+        deadline: await deadline(),
+      };
+      const signature = await government.signBallot(
+        citizenKey,
+        citizen,
+        otherProposalId,
+        true,
+        ballot.deadline
+      );
+
+      await expect(
+        government.castVoteBySig(ballot, signature)
+      ).to.be.revertedWithCustomError(government, "InvalidSignature");
+    });
+    it("Should create a proposal signed by the citizen's key", async function () {
+      const { government, citizen, citizenKey, thirdAccount } =
+        await loadFixture(deployKeyRegistryFixture);
+
+      const request = {
+        target: thirdAccount.account.address,
+        value: 1n,
+        data: "0x1234" as const,
+        description: "A proposal signed by a key",
+        citizen,
+        deadline: await deadline(),
+      };
+      const signature = await government.signProposal(
+        citizenKey,
+        citizen,
+        request,
+        request.deadline
+      );
+
+      // Submitted by another account, proposed by the citizen
+      const proposalId = await government
+        .connect(thirdAccount)
+        .proposeBySig(request, signature);
+
+      const proposal = await government.getProposal(proposalId);
+      expect(proposal.proposer).to.equal(getAddress(citizen));
+      expect(proposal.target).to.equal(getAddress(request.target));
+      expect(proposal.value).to.equal(1n);
+      expect(proposal.data).to.equal("0x1234");
+      expect(await government.nonces(citizen)).to.equal(1n);
+    });
+
+    it("Should reject proposals signed by a rotated key", async function () {
+      const fixture = await loadFixture(deployKeyRegistryFixture);
+      const { government, citizen, citizenKey, thirdAccount } = fixture;
+
+      const request = {
+        target: thirdAccount.account.address,
+        description: "A proposal signed before a rotation",
+        citizen,
+        deadline: await deadline(),
+      };
+      const oldSignature = await government.signProposal(
+        citizenKey,
+        citizen,
+        request,
+        request.deadline
+      );
+      const newKey = await rotateKey(fixture);
+
+      await expect(
+        government.proposeBySig(request, oldSignature)
+      ).to.be.revertedWithCustomError(government, "InvalidSignature");
+
+      const newSignature = await government.signProposal(
+        newKey,
+        citizen,
+        request,
+        request.deadline
+      );
+      const proposalId = await government.proposeBySig(request, newSignature);
+      expect((await government.getProposal(proposalId)).proposer).to.equal(
+        getAddress(citizen)
+      );
+    });
+
+    it("Should not replay a signed proposal or accept it once expired", async function () {
+      const { government, citizen, citizenKey, thirdAccount } =
+        await loadFixture(deployKeyRegistryFixture);
+
+      const request = {
+        target: thirdAccount.account.address,
+        description: "A proposal signed once",
+        citizen,
+        deadline: await deadline(),
+      };
+      const signature = await government.signProposal(
+        citizenKey,
+        citizen,
+        request,
+        request.deadline
+      );
+      await government.proposeBySig(request, signature);
+
+      // The nonce was consumed
+      await expect(
+        government.proposeBySig(request, signature)
+      ).to.be.revertedWithCustomError(government, "InvalidSignature");
+
+      const nextSignature = await government.signProposal(
+        citizenKey,
+        citizen,
+        request,
+        request.deadline
+      );
+      await time.increaseTo(request.deadline + 1n);
+      await expect(
+        government.proposeBySig(request, nextSignature)
+      ).to.be.revertedWithCustomError(government, "SignatureExpired", [
+        request.deadline,
+      ]);
+    });
+
+    it("Should not create proposals signed by non-citizens", async function () {
+      const { government, citizen, citizenKey, thirdAccount } =
+        await loadFixture(deployKeyRegistryFixture);
+
+      const request = {
+        target: thirdAccount.account.address,
+        description: "A proposal signed by a revoked citizen",
+        citizen,
+        deadline: await deadline(),
+      };
+      const signature = await government.signProposal(
+        citizenKey,
+        citizen,
+        request,
+        request.deadline
+      );
+      await government.revokeCitizen(citizen);
+
+      await expect(
+        government.proposeBySig(request, signature)
+      ).to.be.revertedWithCustomError(government, "InvalidSignature");
+    });
+
+    it("Should cancel a proposal with the signature of its proposer's key", async function () {
+      const {
+        government,
+        citizen,
+        citizenKey,
+        thirdAccount,
+        citizenProposalId,
+      } = await loadFixture(deployKeyHolderProposalFixture);
+
+      const cancellation = {
+        proposalId: citizenProposalId,
+        citizen,
+        deadline: await deadline(),
+      };
+      const signature = await government.signCancellation(
+        citizenKey,
+        citizen,
+        citizenProposalId,
+        cancellation.deadline
+      );
+
+      // Submitted by another account, canceled for the proposer
+      const hash = await government
+        .connect(thirdAccount)
+        .cancelBySig(cancellation, signature);
+
+      expect(await government.proposalState(citizenProposalId)).to.equal(
+        ProposalState.Canceled
+      );
+      expect(await government.nonces(citizen)).to.equal(1n);
+      await expect(hash)
+        .to.emitEvent(government, "ProposalCanceled")
+        .withArgs({ proposalId: citizenProposalId });
+
+      // The nonce was consumed
+      await expect(
+        government.cancelBySig(cancellation, signature)
+      ).to.be.revertedWithCustomError(government, "InvalidSignature");
+    });
+
+    it("Should reject cancellations signed by a rotated key", async function () {
+      const fixture = await loadFixture(deployKeyHolderProposalFixture);
+      const { government, citizen, citizenKey, citizenProposalId } = fixture;
+
+      const cancellation = {
+        proposalId: citizenProposalId,
+        citizen,
+        deadline: await deadline(),
+      };
+      const oldSignature = await government.signCancellation(
+        citizenKey,
+        citizen,
+        citizenProposalId,
+        cancellation.deadline
+      );
+      const newKey = await rotateKey(fixture);
+
+      await expect(
+        government.cancelBySig(cancellation, oldSignature)
+      ).to.be.revertedWithCustomError(government, "InvalidSignature");
+
+      const newSignature = await government.signCancellation(
+        newKey,
+        citizen,
+        citizenProposalId,
+        cancellation.deadline
+      );
+      await government.cancelBySig(cancellation, newSignature);
+      expect(await government.proposalState(citizenProposalId)).to.equal(
+        ProposalState.Canceled
+      );
+    });
+
+    it("Should not cancel by signature the proposals of others or once expired", async function () {
+      const { government, citizen, citizenKey, proposalId, citizenProposalId } =
+        await loadFixture(deployKeyHolderProposalFixture);
+
+      // The owner created proposalId
+      const cancellation = {
+        proposalId,
+        citizen,
+        deadline: await deadline(),
+      };
+      await expect(
+        government.cancelBySig(
+          cancellation,
+          await government.signCancellation(
+            citizenKey,
+            citizen,
+            proposalId,
+            cancellation.deadline
+          )
+        )
+      ).to.be.revertedWithCustomError(government, "NotAllowedToCancel");
+
+      const expired = { ...cancellation, proposalId: citizenProposalId };
+      const signature = await government.signCancellation(
+        citizenKey,
+        citizen,
+        citizenProposalId,
+        expired.deadline
+      );
+      await time.increaseTo(expired.deadline + 1n);
+      await expect(
+        government.cancelBySig(expired, signature)
+      ).to.be.revertedWithCustomError(government, "SignatureExpired", [
+        expired.deadline,
+      ]);
+    });
+  });
+
+  describe("System Pause", function () {
+    // Two citizens with a key each, a succeeded proposal and an active one the
+    // second citizen voted on, then a paused BaseFactory
+    async function deployPausedGovernmentFixture() {
+      const fixture = await deployGovernmentFixture();
+      const { baseFactory, government, key, otherAccount, thirdAccount } =
+        fixture;
+
+      await government.setKeyRegistry(key.address);
+      await government.registerCitizens([
+        otherAccount.account.address,
+        thirdAccount.account.address,
+      ]);
+      await key.connect(otherAccount).addKey(otherAccount.account.address);
+
+      const succeededId = await government.propose({
+        target: thirdAccount.account.address,
+        description: "A proposal that passed",
+      });
+      await government.connect(otherAccount).castVote(succeededId, true);
+      await government.connect(thirdAccount).castVote(succeededId, true);
+      await endVoting(government, succeededId);
+
+      const activeId = await government.propose({
+        target: thirdAccount.account.address,
+        description: "A proposal being voted on",
+      });
+      await government.connect(thirdAccount).castVote(activeId, false);
+
+      await baseFactory.pause();
+
+      return { ...fixture, succeededId, activeId };
+    }
+
+    it("Should report the system as paused", async function () {
+      const { baseFactory, government } = await loadFixture(
+        deployPausedGovernmentFixture
+      );
+
+      expect(await government.isPaused()).to.be.true;
+
+      await baseFactory.unpause();
+      expect(await government.isPaused()).to.be.false;
+    });
+
+    it("Should not register citizens or change settings while paused", async function () {
+      const { government, key, owner } = await loadFixture(
+        deployPausedGovernmentFixture
+      );
+
+      await expect(
+        government.registerCitizen(owner.account.address)
+      ).to.be.revertedWithCustomError(government, "SystemPaused");
+      await expect(
+        government.registerCitizens([owner.account.address])
+      ).to.be.revertedWithCustomError(government, "SystemPaused");
+      await expect(
+        government.setVotingRules(3600n, 50)
+      ).to.be.revertedWithCustomError(government, "SystemPaused");
+      await expect(
+        government.setKeyRegistry(key.address)
+      ).to.be.revertedWithCustomError(government, "SystemPaused");
+    });
+
+    it("Should not propose, vote or execute while paused", async function () {
+      const { government, otherAccount, succeededId, activeId } =
+        await loadFixture(deployPausedGovernmentFixture);
+      const citizen = otherAccount.account.address;
+      const deadline = BigInt(await time.latest()) + 3600n;
+      const signature = await government.signBallot(
+        otherAccount,
+        citizen,
+        activeId,
+        true,
+        deadline
+      );
+
+      await expect(
+        government.propose({ target: citizen, description: "Paused" })
+      ).to.be.revertedWithCustomError(government, "SystemPaused");
+      await expect(
+        government.connect(otherAccount).castVote(activeId, true)
+      ).to.be.revertedWithCustomError(government, "SystemPaused");
+      await expect(
+        government.castVoteBySig(
+          { proposalId: activeId, support: true, citizen, deadline },
+          signature
+        )
+      ).to.be.revertedWithCustomError(government, "SystemPaused");
+      await expect(
+        government.execute(succeededId)
+      ).to.be.revertedWithCustomError(government, "SystemPaused");
+    });
+
+    it("Should keep reads, revocations, vote withdrawals, cancellations and ownership transfers available while paused", async function () {
+      const { government, otherAccount, thirdAccount, activeId } =
+        await loadFixture(deployPausedGovernmentFixture);
+
+      expect(await government.citizenCount()).to.equal(2n);
+      expect(await government.proposalState(activeId)).to.equal(
+        ProposalState.Active
+      );
+
+      await government.revokeCitizen(thirdAccount.account.address);
+      expect(await government.isCitizen(thirdAccount.account.address)).to.be
+        .false;
+      await government.withdrawVote(activeId, thirdAccount.account.address);
+      expect((await government.getProposal(activeId)).againstVotes).to.equal(
+        0n
+      );
+
+      await government.cancel(activeId);
+      expect(await government.proposalState(activeId)).to.equal(
+        ProposalState.Canceled
+      );
+
+      await government.transferOwnership(otherAccount.account.address);
+      await government.connect(otherAccount).acceptOwnership();
+      expect(await government.owner()).to.equal(
+        getAddress(otherAccount.account.address)
+      );
+    });
+
+    it("Should execute proposals again once unpaused", async function () {
+      const { baseFactory, government, succeededId } = await loadFixture(
+        deployPausedGovernmentFixture
+      );
+
+      await baseFactory.unpause();
+
+      await government.execute(succeededId);
+      expect(await government.proposalState(succeededId)).to.equal(
+        ProposalState.Executed
+      );
     });
   });
 });
@@ -1,270 +1,1026 @@
 import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
 import { expect } from "chai";
 import hre from "hardhat";
-import { WalletClient, PublicClient, Address } from "viem";
-
-// Define test fixture return type
-interface GovernmentFactoryFixture {
-  baseFactory: any;
-  governmentFactory: any;
-  owner: WalletClient;
-  otherAccount: WalletClient;
-  thirdAccount: WalletClient;
-  publicClient: PublicClient;
-}
+import {
+  Address,
+  encodeFunctionData,
+  getAddress,
+  Hash,
+  keccak256,
+  maxUint256,
+  toHex,
+  zeroAddress,
+} from "viem";
 
-describe("GovernmentFactory", function () {
-  // We define a fixture to reuse the same setup in every test.
-  async function deployGovernmentFactoryFixture(): Promise<GovernmentFactoryFixture> {
-    // Contracts are deployed using the first signer/account by default
-    const [owner, otherAccount, thirdAccount] =
-      await hre.viem.getWalletClients();
-
-    // Deploy BaseFactory (deploy BaseFactory first as it's required for GovernmentFactory)
-    const baseFactory = await hre.viem.deployContract("BaseFactory");
-
-    // Deploy GovernmentFactory with BaseFactory address
-    const governmentFactory = await hre.viem.deployContract(
-      "GovernmentFactory",
-      [baseFactory.address]
-    );
-
-    // Register GovernmentFactory in BaseFactory
-    await baseFactory.write.registerFactory([governmentFactory.address]);
-
-    const publicClient = await hre.viem.getPublicClient();
-
-    return {
-      baseFactory,
-      governmentFactory,
-      owner,
-      otherAccount,
-      thirdAccount,
-      publicClient,
-    };
-  }
+import {
+  BaseFactoryRole,
+  deployGovernmentFactory,
+  governmentFactoryAbi,
+  predictGovernmentAddress,
+} from "../src";
+import { deployStackFixture, governmentFactoryRegistration } from "./helpers";
 
+describe("GovernmentFactory", function () {
   describe("Deployment", function () {
     it("Should not allow deploying with zero address for BaseFactory", async function () {
-      const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+      const { owner, publicClient } = await loadFixture(deployStackFixture);
 
-      // Attempt to deploy with zero address (should fail)
       await expect(
-        hre.viem.deployContract("GovernmentFactory", [ZERO_ADDRESS])
-      ).to.be.rejectedWith(/ZeroAddressNotAllowed/);
+        deployGovernmentFactory(
+          { publicClient, walletClient: owner },
+          zeroAddress
+        )
+      ).to.be.revertedWithCustomError(
+        { abi: governmentFactoryAbi },
+        "ZeroAddressNotAllowed"
+      );
     });
 
-    it("Should not allow deploying with non base factory account", async function () {
-      const [owner, otherAccount] = await hre.viem.getWalletClients();
-
-      // Deploy BaseFactory
-      const baseFactory = await hre.viem.deployContract("BaseFactory");
+    it("Should not allow accounts without the factory manager role to deploy", async function () {
+      const { baseFactory, otherAccount, publicClient } = await loadFixture(
+        deployStackFixture
+      );
 
-      // Deploy GovernmentFactory with BaseFactory address
       await expect(
-        hre.viem.deployContract(
-          "GovernmentFactory",
-          [baseFactory.address],
-          {
-            account: otherAccount.account,
-          }
+        deployGovernmentFactory(
+          { publicClient, walletClient: otherAccount },
+          baseFactory.address
         )
-      ).to.be.rejectedWith(/NotAuthorized/);
+      ).to.be.revertedWithCustomError(
+        { abi: governmentFactoryAbi },
+        "NotAuthorized"
+      );
     });
 
-    it("Should initialize with the correct BaseFactory address", async function () {
-      const [owner] = await hre.viem.getWalletClients();
+    it("Should allow an account granted the factory manager role to deploy", async function () {
+      const { baseFactory, otherAccount, publicClient } = await loadFixture(
+        deployStackFixture
+      );
+      await baseFactory.grantRole(
+        BaseFactoryRole.FACTORY_MANAGER,
+        otherAccount.account.address
+      );
 
-      // Deploy BaseFactory
-      const baseFactory = await hre.viem.deployContract("BaseFactory");
+      const governmentFactory = await deployGovernmentFactory(
+        { publicClient, walletClient: otherAccount },
+        baseFactory.address
+      );
+      expect(await governmentFactory.baseFactory()).to.equal(
+        baseFactory.address
+      );
+    });
 
-      // Deploy GovernmentFactory with BaseFactory address
-      const governmentFactory = await hre.viem.deployContract(
-        "GovernmentFactory",
-        [baseFactory.address]
+    it("Should initialize with the correct BaseFactory address", async function () {
+      const { baseFactory, governmentFactory } = await loadFixture(
+        deployStackFixture
       );
 
-      expect(
-        (await governmentFactory.read.baseFactory()).toLocaleLowerCase()
-      ).to.be.equal(baseFactory.address.toLocaleLowerCase());
+      expect(await governmentFactory.baseFactory()).to.equal(
+        baseFactory.address
+      );
     });
   });
 
   describe("Government Creation", function () {
-    it("Should allow the BaseFactory owner to create a government", async function () {
+    it("Should allow a government creator to create a government", async function () {
       const { governmentFactory, owner, otherAccount } = await loadFixture(
-        deployGovernmentFactoryFixture
+        deployStackFixture
       );
 
-      if (!owner.account || !otherAccount.account) {
-        throw new Error("Accounts are undefined");
-      }
+      await expect(governmentFactory.createGovernment(owner.account.address))
+        .to.not.be.rejected;
+    });
+
+    it("Should emit GovernmentCreated event when creating a government", async function () {
+      const { governmentFactory, owner, otherAccount } = await loadFixture(
+        deployStackFixture
+      );
+      // The client returns the government address, send the call directly to get its hash
+      const hash = await owner.writeContract({
+        address: governmentFactory.address,
+        abi: governmentFactoryAbi,
+        functionName: "createGovernment",
+        args: [otherAccount.account.address],
+      });
+      const [governmentAddress] = await governmentFactory.getGovernments(
+        0n,
+        1n
+      );
+
+      await expect(hash)
+        .to.emitEvent(governmentFactory, "GovernmentCreated")
+        .withArgs({
+          government: governmentAddress,
+          owner: otherAccount.account.address,
+        });
+    });
+
+    it("Should track created governments correctly", async function () {
+      const { governmentFactory, owner, otherAccount } = await loadFixture(
+        deployStackFixture
+      );
+
+      // Create a government, the client decodes the address from the GovernmentCreated event
+      const governmentAddress = await governmentFactory.createGovernment(
+        otherAccount.account.address
+      );
+
+      // Check if the government is tracked by the factory
+      const isGovernment = await governmentFactory.isGovernment(
+        governmentAddress
+      );
+      expect(isGovernment).to.be.true;
+    });
+
+    it("Should set the requested owner on the created government", async function () {
+      const { governmentFactory, otherAccount } = await loadFixture(
+        deployStackFixture
+      );
+
+      const governmentAddress = await governmentFactory.createGovernment(
+        otherAccount.account.address
+      );
+
+      const government = governmentFactory.government(governmentAddress);
+      expect(await government.owner()).to.equal(
+        getAddress(otherAccount.account.address)
+      );
+    });
+
+    it("Should return the receipt of the creation with the government", async function () {
+      const { governmentFactory, otherAccount } = await loadFixture(
+        deployStackFixture
+      );
+
+      const { government, receipt } =
+        await governmentFactory.createGovernmentWithReceipt(
+          otherAccount.account.address
+        );
+
+      // Check if the receipt is the one of the block that created the government
+      const { createdAtBlock } = await governmentFactory.getGovernmentInfo(
+        government
+      );
+      expect(receipt.status).to.equal("success");
+      expect(receipt.blockNumber).to.equal(createdAtBlock);
+    });
+
+    it("Should only decode the GovernmentCreated events of the factory", async function () {
+      const { baseFactory, governmentFactory, owner, publicClient } =
+        await loadFixture(deployStackFixture);
+
+      // A creator contract reports a government of its own in the same transaction
+      const creator = await hre.viem.deployContract("MockGovernmentCreator");
+      await baseFactory.grantRole(
+        BaseFactoryRole.GOVERNMENT_CREATOR,
+        creator.address
+      );
+      const hash = await creator.write.createGovernment([
+        governmentFactory.address,
+        owner.account.address,
+        owner.account.address,
+      ]);
+      const receipt = await publicClient.getTransactionReceipt({ hash });
 
+      expect(governmentFactory.createdGovernments(receipt)).to.deep.equal(
+        await governmentFactory.governmentsOf(owner.account.address)
+      );
+    });
+
+    it("Should not allow accounts without the government creator role to create governments", async function () {
+      const { governmentFactory, otherAccount } = await loadFixture(
+        deployStackFixture
+      );
+
+      // Attempt to create a government from an account without the role (should fail)
       await expect(
-        governmentFactory.write.createGovernment([owner.account.address], {
-          account: owner.account,
-        })
-      ).to.not.be.rejected;
+        governmentFactory
+          .connect(otherAccount)
+          .createGovernment(otherAccount.account.address)
+      ).to.be.revertedWithCustomError(governmentFactory, "NotAuthorized");
     });
 
-    it("Should emit GovernmentCreated event when creating a government", async function () {
-      const { governmentFactory, owner, otherAccount, publicClient } =
-        await loadFixture(deployGovernmentFactoryFixture);
+    it("Should not allow creating government with zero address as owner", async function () {
+      const { governmentFactory, owner } = await loadFixture(
+        deployStackFixture
+      );
 
-      if (!owner.account || !otherAccount.account) {
-        throw new Error("Accounts are undefined");
-      }
+      const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
 
-      // Create a government and get the transaction hash
-      const hash = await governmentFactory.write.createGovernment(
-        [otherAccount.account.address],
-        { account: owner.account }
+      // Attempt to create government with zero address (should fail)
+      await expect(
+        governmentFactory.createGovernment(ZERO_ADDRESS)
+      ).to.be.revertedWithCustomError(
+        governmentFactory,
+        "ZeroAddressNotAllowed"
       );
+    });
 
-      // Get transaction receipt to check events
-      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    it("Should allow an account granted the government creator role to create governments", async function () {
+      const { baseFactory, governmentFactory, otherAccount } =
+        await loadFixture(deployStackFixture);
 
-      // Verify event was emitted with correct parameters
-      const log = receipt.logs.find(
-        (log) => log.address === governmentFactory.address
+      await baseFactory.grantRole(
+        BaseFactoryRole.GOVERNMENT_CREATOR,
+        otherAccount.account.address
       );
-      expect(log).to.not.be.undefined;
+
+      const government = await governmentFactory
+        .connect(otherAccount)
+        .createGovernment(otherAccount.account.address);
+      expect(await governmentFactory.isGovernment(government)).to.be.true;
     });
 
-    it("Should track created governments correctly", async function () {
-      const { governmentFactory, owner, otherAccount } = await loadFixture(
-        deployGovernmentFactoryFixture
+    it("Should not allow a factory manager without the government creator role to create governments", async function () {
+      const { baseFactory, governmentFactory, otherAccount } =
+        await loadFixture(deployStackFixture);
+
+      await baseFactory.grantRole(
+        BaseFactoryRole.FACTORY_MANAGER,
+        otherAccount.account.address
       );
 
-      if (!owner.account || !otherAccount.account) {
-        throw new Error("Accounts are undefined");
-      }
+      await expect(
+        governmentFactory
+          .connect(otherAccount)
+          .createGovernment(otherAccount.account.address)
+      ).to.be.revertedWithCustomError(governmentFactory, "NotAuthorized");
+    });
+
+    it("Should not allow creating governments once the government creator role is revoked", async function () {
+      const { baseFactory, governmentFactory, owner } = await loadFixture(
+        deployStackFixture
+      );
+
+      await baseFactory.renounceRole(BaseFactoryRole.GOVERNMENT_CREATOR);
+
+      await expect(
+        governmentFactory.createGovernment(owner.account.address)
+      ).to.be.revertedWithCustomError(governmentFactory, "NotAuthorized");
+    });
+  });
+
+  describe("Government Validation", function () {
+    it("Should correctly identify governments created by the factory", async function () {
+      const { governmentFactory, owner, otherAccount } = await loadFixture(
+        deployStackFixture
+      );
 
       // Create a government
-      const tx = await governmentFactory.write.createGovernment(
-        [otherAccount.account.address],
-        { account: owner.account }
+      const governmentAddress = await governmentFactory.createGovernment(
+        otherAccount.account.address
       );
 
-      // Get transaction receipt
-      const publicClient = await hre.viem.getPublicClient();
-      const receipt = await publicClient.waitForTransactionReceipt({
-        hash: tx,
-      });
+      // Create a random address that was not created by the factory
+      const randomAddress = otherAccount.account.address;
 
-      // Find the event in logs
-      const governmentCreatedLog = receipt.logs.find(
-        (log) =>
-          log.address.toLowerCase() ===
-            governmentFactory.address.toLowerCase() && log.topics.length > 0
+      // Check both addresses
+      const isActualGovernment = await governmentFactory.isGovernment(
+        governmentAddress
+      );
+      const isRandomGovernment = await governmentFactory.isGovernment(
+        randomAddress
       );
 
-      if (!governmentCreatedLog || !governmentCreatedLog.topics[1]) {
-        throw new Error("GovernmentCreated event not found");
-      }
+      expect(isActualGovernment).to.be.true;
+      expect(isRandomGovernment).to.be.false;
+    });
+  });
 
-      // Get deployed government address from event log (decode the address from the log topic)
-      // Using Viem's decoding here would be cleaner but for simplicity decoding manually
-      const governmentAddress = `0x${governmentCreatedLog.topics[1].slice(
-        -40
-      )}`;
+  describe("BaseFactory Registration", function () {
+    it("Should report the factory as active while registered", async function () {
+      const { baseFactory, governmentFactory } = await loadFixture(
+        deployStackFixture
+      );
 
-      // Check if the government is tracked by the factory
-      const isGovernment = await governmentFactory.read.isGovernment([
+      expect(await governmentFactory.isActive()).to.be.true;
+
+      await baseFactory.unregisterFactory(governmentFactory.address);
+      expect(await governmentFactory.isActive()).to.be.false;
+    });
+
+    it("Should not allow an unregistered factory to create governments", async function () {
+      const { baseFactory, governmentFactory, owner } = await loadFixture(
+        deployStackFixture
+      );
+
+      // Registered: creation works
+      const governmentAddress = await governmentFactory.createGovernment(
+        owner.account.address
+      );
+      expect(await governmentFactory.isGovernment(governmentAddress)).to.be
+        .true;
+
+      // Unregistered: creation fails
+      await baseFactory.unregisterFactory(governmentFactory.address);
+      await expect(
+        governmentFactory.createGovernment(owner.account.address)
+      ).to.be.revertedWithCustomError(
+        governmentFactory,
+        "FactoryNotRegistered"
+      );
+
+      // Governments created before unregistration are still tracked
+      expect(await governmentFactory.isGovernment(governmentAddress)).to.be
+        .true;
+    });
+
+    it("Should not allow a never registered factory to create governments", async function () {
+      const { baseFactory, owner, publicClient } = await loadFixture(
+        deployStackFixture
+      );
+
+      const unregisteredFactory = await deployGovernmentFactory(
+        { publicClient, walletClient: owner },
+        baseFactory.address
+      );
+
+      await expect(
+        unregisteredFactory.createGovernment(owner.account.address)
+      ).to.be.revertedWithCustomError(
+        unregisteredFactory,
+        "FactoryNotRegistered"
+      );
+    });
+
+    it("Should allow creating governments again once re-registered", async function () {
+      const { baseFactory, governmentFactory, owner } = await loadFixture(
+        deployStackFixture
+      );
+
+      await baseFactory.unregisterFactory(governmentFactory.address);
+      await baseFactory.registerFactory(
+        governmentFactoryRegistration(governmentFactory.address)
+      );
+
+      await expect(governmentFactory.createGovernment(owner.account.address))
+        .to.not.be.rejected;
+    });
+
+    it("Should let governments know whether their issuing factory is active", async function () {
+      const { baseFactory, governmentFactory, owner } = await loadFixture(
+        deployStackFixture
+      );
+
+      const government = governmentFactory.government(
+        await governmentFactory.createGovernment(owner.account.address)
+      );
+
+      expect(await government.factory()).to.equal(governmentFactory.address);
+      expect(await government.isFactoryActive()).to.be.true;
+
+      await baseFactory.unregisterFactory(governmentFactory.address);
+      expect(await government.isFactoryActive()).to.be.false;
+
+      await baseFactory.registerFactory(
+        governmentFactoryRegistration(governmentFactory.address)
+      );
+      expect(await government.isFactoryActive()).to.be.true;
+    });
+  });
+
+  describe("System Pause", function () {
+    const SALT = keccak256(toHex("poligov-paused-salt"));
+
+    it("Should report the factory as paused while the BaseFactory is", async function () {
+      const { baseFactory, governmentFactory } = await loadFixture(
+        deployStackFixture
+      );
+
+      expect(await governmentFactory.isPaused()).to.be.false;
+
+      await baseFactory.pause();
+      expect(await governmentFactory.isPaused()).to.be.true;
+
+      await baseFactory.unpause();
+      expect(await governmentFactory.isPaused()).to.be.false;
+    });
+
+    it("Should not create governments while paused", async function () {
+      const { baseFactory, governmentFactory, owner } = await loadFixture(
+        deployStackFixture
+      );
+      const governmentOwner = owner.account.address;
+
+      await baseFactory.pause();
+
+      await expect(
+        governmentFactory.createGovernment(governmentOwner)
+      ).to.be.revertedWithCustomError(governmentFactory, "SystemPaused");
+      await expect(
+        governmentFactory.createGovernments([governmentOwner])
+      ).to.be.revertedWithCustomError(governmentFactory, "SystemPaused");
+      await expect(
+        governmentFactory.createGovernmentDeterministic(governmentOwner, SALT)
+      ).to.be.revertedWithCustomError(governmentFactory, "SystemPaused");
+      expect(await governmentFactory.governmentCount()).to.equal(0n);
+    });
+
+    it("Should create governments again once unpaused", async function () {
+      const { baseFactory, governmentFactory, owner } = await loadFixture(
+        deployStackFixture
+      );
+
+      await baseFactory.pause();
+      await baseFactory.unpause();
+
+      await expect(governmentFactory.createGovernment(owner.account.address))
+        .to.not.be.rejected;
+    });
+
+    it("Should keep reads and upgrades available while paused", async function () {
+      const { baseFactory, governmentFactory, owner } = await loadFixture(
+        deployStackFixture
+      );
+      const governmentAddress = await governmentFactory.createGovernment(
+        owner.account.address
+      );
+
+      await baseFactory.pause();
+
+      expect(await governmentFactory.isGovernment(governmentAddress)).to.be
+        .true;
+      expect(await governmentFactory.getGovernments(0n, 10n)).to.deep.equal([
         governmentAddress,
       ]);
-      expect(isGovernment).to.be.true;
+      expect(
+        await governmentFactory.predictGovernmentAddress(
+          owner.account.address,
+          SALT
+        )
+      ).to.equal(
+        predictGovernmentAddress({
+          factory: governmentFactory.address,
+          beacon: await governmentFactory.beacon(),
+          governmentOwner: owner.account.address,
+          salt: SALT,
+        })
+      );
+
+      // A fixed implementation can be deployed during the pause
+      const v2 = await hre.viem.deployContract("MockGovernmentV2", [
+        zeroAddress,
+      ]);
+      await governmentFactory.upgradeImplementation(v2.address);
+      expect(await governmentFactory.implementation()).to.equal(
+        getAddress(v2.address)
+      );
     });
+  });
 
-    it("Should not allow non-BaseFactory-owners to create governments", async function () {
-      const { governmentFactory, otherAccount } = await loadFixture(
-        deployGovernmentFactoryFixture
+  describe("Deterministic Government Creation", function () {
+    const SALT = keccak256(toHex("poligov-test-salt"));
+    const OTHER_SALT = keccak256(toHex("poligov-other-salt"));
+
+    it("Should predict the same address on-chain and offline", async function () {
+      const { governmentFactory, owner } = await loadFixture(
+        deployStackFixture
       );
 
-      if (!otherAccount.account) {
-        throw new Error("Other account is undefined");
-      }
+      const onChain = await governmentFactory.predictGovernmentAddress(
+        owner.account.address,
+        SALT
+      );
+      const offline = predictGovernmentAddress({
+        factory: governmentFactory.address,
+        governmentOwner: owner.account.address,
+        beacon: await governmentFactory.beacon(),
+        salt: SALT,
+      });
+
+      expect(offline).to.equal(onChain);
+    });
+
+    it("Should deploy the government at the predicted address", async function () {
+      const { governmentFactory, owner } = await loadFixture(
+        deployStackFixture
+      );
+
+      const predicted = predictGovernmentAddress({
+        factory: governmentFactory.address,
+        governmentOwner: owner.account.address,
+        beacon: await governmentFactory.beacon(),
+        salt: SALT,
+      });
+
+      const governmentAddress =
+        await governmentFactory.createGovernmentDeterministic(
+          owner.account.address,
+          SALT
+        );
+
+      expect(governmentAddress).to.equal(predicted);
+      expect(await governmentFactory.isGovernment(governmentAddress)).to.be
+        .true;
+      expect(
+        await governmentFactory.government(governmentAddress).owner()
+      ).to.equal(getAddress(owner.account.address));
+    });
+
+    it("Should emit GovernmentCreated event for deterministic creation", async function () {
+      const { governmentFactory, owner } = await loadFixture(
+        deployStackFixture
+      );
+
+      const governmentAddress =
+        await governmentFactory.predictGovernmentAddress(
+          owner.account.address,
+          SALT
+        );
 
-      // Attempt to create a government from non-owner account (should fail)
       await expect(
-        governmentFactory.write.createGovernment(
-          [otherAccount.account.address],
-          { account: otherAccount.account }
-        )
-      ).to.be.rejectedWith(/NotAuthorized/);
+        governmentFactory.multicall([
+          encodeFunctionData({
+            abi: governmentFactoryAbi,
+            functionName: "createGovernmentDeterministic",
+            args: [owner.account.address, SALT],
+          }),
+        ])
+      )
+        .to.emitEvent(governmentFactory, "GovernmentCreated")
+        .withArgs({
+          government: governmentAddress,
+          owner: owner.account.address,
+        });
     });
 
-    it("Should not allow creating government with zero address as owner", async function () {
+    it("Should derive different addresses for different owners or salts", async function () {
+      const { governmentFactory, owner, otherAccount } = await loadFixture(
+        deployStackFixture
+      );
+
+      const first = await governmentFactory.createGovernmentDeterministic(
+        owner.account.address,
+        SALT
+      );
+      const otherOwner = await governmentFactory.createGovernmentDeterministic(
+        otherAccount.account.address,
+        SALT
+      );
+      const otherSalt = await governmentFactory.createGovernmentDeterministic(
+        owner.account.address,
+        OTHER_SALT
+      );
+
+      expect(new Set([first, otherOwner, otherSalt]).size).to.equal(3);
+    });
+
+    it("Should not allow creating the same government twice", async function () {
       const { governmentFactory, owner } = await loadFixture(
-        deployGovernmentFactoryFixture
+        deployStackFixture
       );
 
-      if (!owner.account) {
-        throw new Error("Owner account is undefined");
-      }
+      await governmentFactory.createGovernmentDeterministic(
+        owner.account.address,
+        SALT
+      );
+
+      await expect(
+        governmentFactory.createGovernmentDeterministic(
+          owner.account.address,
+          SALT
+        )
+      ).to.be.revertedWithCustomError(
+        governmentFactory,
+        "GovernmentAlreadyExists"
+      );
+    });
+
+    it("Should apply the same checks as createGovernment", async function () {
+      const { baseFactory, governmentFactory, owner, otherAccount } =
+        await loadFixture(deployStackFixture);
 
       const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
 
-      // Attempt to create government with zero address (should fail)
       await expect(
-        governmentFactory.write.createGovernment([ZERO_ADDRESS], {
-          account: owner.account,
-        })
-      ).to.be.rejectedWith(/ZeroAddressNotAllowed/);
+        governmentFactory
+          .connect(otherAccount)
+          .createGovernmentDeterministic(otherAccount.account.address, SALT)
+      ).to.be.revertedWithCustomError(governmentFactory, "NotAuthorized");
+
+      await expect(
+        governmentFactory.createGovernmentDeterministic(ZERO_ADDRESS, SALT)
+      ).to.be.revertedWithCustomError(
+        governmentFactory,
+        "ZeroAddressNotAllowed"
+      );
+
+      await baseFactory.unregisterFactory(governmentFactory.address);
+      await expect(
+        governmentFactory.createGovernmentDeterministic(
+          owner.account.address,
+          SALT
+        )
+      ).to.be.revertedWithCustomError(
+        governmentFactory,
+        "FactoryNotRegistered"
+      );
     });
   });
 
-  describe("Government Validation", function () {
-    it("Should correctly identify governments created by the factory", async function () {
+  describe("Batch Creation", function () {
+    it("Should create a government for each owner, in order", async function () {
+      const { governmentFactory, owner, otherAccount, thirdAccount } =
+        await loadFixture(deployStackFixture);
+
+      const owners = [
+        owner.account.address,
+        otherAccount.account.address,
+        thirdAccount.account.address,
+      ];
+      const governments = await governmentFactory.createGovernments(owners);
+
+      expect(governments).to.have.lengthOf(owners.length);
+      expect(await governmentFactory.getGovernments(0n, 10n)).to.deep.equal(
+        governments
+      );
+      for (let i = 0; i < owners.length; i++) {
+        expect(
+          await governmentFactory.government(governments[i]).owner()
+        ).to.equal(getAddress(owners[i]));
+      }
+    });
+
+    it("Should create nothing if one government of the batch fails", async function () {
+      const { governmentFactory, owner } = await loadFixture(
+        deployStackFixture
+      );
+
+      await expect(
+        governmentFactory.createGovernments([
+          owner.account.address,
+          zeroAddress,
+        ])
+      ).to.be.revertedWithCustomError(
+        governmentFactory,
+        "ZeroAddressNotAllowed"
+      );
+      expect(await governmentFactory.governmentCount()).to.equal(0n);
+    });
+
+    it("Should apply the same checks as createGovernment", async function () {
+      const { baseFactory, governmentFactory, otherAccount } =
+        await loadFixture(deployStackFixture);
+
+      await expect(
+        governmentFactory
+          .connect(otherAccount)
+          .createGovernments([otherAccount.account.address])
+      ).to.be.revertedWithCustomError(governmentFactory, "NotAuthorized");
+
+      await baseFactory.unregisterFactory(governmentFactory.address);
+      await expect(
+        governmentFactory.createGovernments([otherAccount.account.address])
+      ).to.be.revertedWithCustomError(
+        governmentFactory,
+        "FactoryNotRegistered"
+      );
+    });
+
+    it("Should run several creations with multicall", async function () {
       const { governmentFactory, owner, otherAccount } = await loadFixture(
-        deployGovernmentFactoryFixture
+        deployStackFixture
       );
 
-      if (!owner.account || !otherAccount.account) {
-        throw new Error("Accounts are undefined");
+      const salt = keccak256(toHex("poligov-multicall-salt"));
+      await governmentFactory.multicall([
+        encodeFunctionData({
+          abi: governmentFactoryAbi,
+          functionName: "createGovernment",
+          args: [owner.account.address],
+        }),
+        encodeFunctionData({
+          abi: governmentFactoryAbi,
+          functionName: "createGovernmentDeterministic",
+          args: [otherAccount.account.address, salt],
+        }),
+      ]);
+
+      expect(await governmentFactory.governmentCount()).to.equal(2n);
+      expect(
+        await governmentFactory.isGovernment(
+          await governmentFactory.predictGovernmentAddress(
+            otherAccount.account.address,
+            salt
+          )
+        )
+      ).to.be.true;
+
+      // Every call reverts if one does
+      await expect(
+        governmentFactory.multicall([
+          encodeFunctionData({
+            abi: governmentFactoryAbi,
+            functionName: "createGovernment",
+            args: [owner.account.address],
+          }),
+          encodeFunctionData({
+            abi: governmentFactoryAbi,
+            functionName: "createGovernmentDeterministic",
+            args: [otherAccount.account.address, salt],
+          }),
+        ])
+      ).to.be.revertedWithCustomError(
+        governmentFactory,
+        "GovernmentAlreadyExists"
+      );
+      expect(await governmentFactory.governmentCount()).to.equal(2n);
+    });
+
+    it("Should use less gas than creating the governments one by one", async function () {
+      const { governmentFactory, otherAccount, publicClient } =
+        await loadFixture(deployStackFixture);
+
+      const owners = Array<Address>(10).fill(otherAccount.account.address);
+      const gasUsed = async (hash: Hash) =>
+        (await publicClient.getTransactionReceipt({ hash })).gasUsed;
+
+      // The clients return addresses, read the transactions from the events of the latest block
+      let singleGas = 0n;
+      for (const governmentOwner of owners) {
+        await governmentFactory.createGovernment(governmentOwner);
+        const [event] =
+          await governmentFactory.contract.getEvents.GovernmentCreated();
+        singleGas += await gasUsed(event.transactionHash);
       }
 
-      // Create a government
-      const tx = await governmentFactory.write.createGovernment(
-        [otherAccount.account.address],
-        { account: owner.account }
+      // Same creations on a fresh factory
+      const fresh = await loadFixture(deployStackFixture);
+      await fresh.governmentFactory.createGovernments(owners);
+      const [event] =
+        await fresh.governmentFactory.contract.getEvents.GovernmentCreated();
+      const batchGas = await gasUsed(event.transactionHash);
+
+      // Each single creation pays the 21,000 base cost and checks the BaseFactory again
+      expect(batchGas < singleGas - 9n * 21_000n).to.be.true;
+    });
+  });
+
+  describe("Government Enumeration", function () {
+    const GOVERNMENT_COUNT = 12;
+
+    // Alternate owners between the owner and the other account
+    async function deployGovernmentFactoryWithGovernmentsFixture() {
+      const fixture = await deployStackFixture();
+      const { governmentFactory, owner, otherAccount } = fixture;
+
+      const governments: Address[] = [];
+      for (let i = 0; i < GOVERNMENT_COUNT; i++) {
+        const governmentOwner =
+          i % 2 === 0 ? owner.account.address : otherAccount.account.address;
+        governments.push(
+          await governmentFactory.createGovernment(governmentOwner)
+        );
+      }
+
+      return { ...fixture, governments };
+    }
+
+    it("Should start with no governments", async function () {
+      const { governmentFactory } = await loadFixture(deployStackFixture);
+
+      expect(await governmentFactory.governmentCount()).to.equal(0n);
+      expect(await governmentFactory.getGovernments(0n, 10n)).to.deep.equal(
+        []
       );
+    });
 
-      // Get transaction receipt
-      const publicClient = await hre.viem.getPublicClient();
-      const receipt = await publicClient.waitForTransactionReceipt({
-        hash: tx,
-      });
+    it("Should count every created government", async function () {
+      const { governmentFactory } = await loadFixture(
+        deployGovernmentFactoryWithGovernmentsFixture
+      );
 
-      // Find the event in logs
-      const governmentCreatedLog = receipt.logs.find(
-        (log) =>
-          log.address.toLowerCase() ===
-            governmentFactory.address.toLowerCase() && log.topics.length > 0
+      expect(await governmentFactory.governmentCount()).to.equal(
+        BigInt(GOVERNMENT_COUNT)
+      );
+    });
+
+    it("Should page through governments in creation order", async function () {
+      const { governmentFactory, governments } = await loadFixture(
+        deployGovernmentFactoryWithGovernmentsFixture
       );
 
-      if (!governmentCreatedLog || !governmentCreatedLog.topics[1]) {
-        throw new Error("GovernmentCreated event not found");
+      const PAGE_SIZE = 5n;
+      const paged = [];
+      for (let offset = 0n; ; offset += PAGE_SIZE) {
+        const page = await governmentFactory.getGovernments(offset, PAGE_SIZE);
+        paged.push(...page);
+        if (page.length < Number(PAGE_SIZE)) {
+          break;
+        }
       }
 
-      // Get deployed government address from event log
-      const governmentAddress = `0x${governmentCreatedLog.topics[1].slice(
-        -40
-      )}`;
+      expect(paged).to.deep.equal(governments);
+    });
 
-      // Create a random address that was not created by the factory
-      const randomAddress = otherAccount.account.address;
+    it("Should return an empty page when offset is past the end", async function () {
+      const { governmentFactory } = await loadFixture(
+        deployGovernmentFactoryWithGovernmentsFixture
+      );
 
-      // Check both addresses
-      const isActualGovernment = await governmentFactory.read.isGovernment([
-        governmentAddress,
+      expect(
+        await governmentFactory.getGovernments(BigInt(GOVERNMENT_COUNT), 5n)
+      ).to.deep.equal([]);
+    });
+
+    it("Should return every remaining government with the largest limit", async function () {
+      const { governmentFactory, governments } = await loadFixture(
+        deployGovernmentFactoryWithGovernmentsFixture
+      );
+
+      expect(
+        await governmentFactory.getGovernments(1n, maxUint256)
+      ).to.deep.equal(governments.slice(1));
+    });
+
+    it("Should list governments by original owner", async function () {
+      const { governmentFactory, governments, owner, otherAccount } =
+        await loadFixture(deployGovernmentFactoryWithGovernmentsFixture);
+
+      expect(
+        await governmentFactory.governmentsOf(owner.account.address)
+      ).to.deep.equal(governments.filter((_, i) => i % 2 === 0));
+      expect(
+        await governmentFactory.governmentsOf(otherAccount.account.address)
+      ).to.deep.equal(governments.filter((_, i) => i % 2 === 1));
+    });
+
+    it("Should keep listing a government under its original owner after a transfer", async function () {
+      const { governmentFactory, governments, owner, thirdAccount } =
+        await loadFixture(deployGovernmentFactoryWithGovernmentsFixture);
+
+      await governmentFactory
+        .government(governments[0])
+        .transferOwnership(thirdAccount.account.address);
+
+      expect(
+        await governmentFactory.governmentsOf(owner.account.address)
+      ).to.include(governments[0]);
+      expect(
+        await governmentFactory.governmentsOf(thirdAccount.account.address)
+      ).to.deep.equal([]);
+    });
+
+    it("Should record the creation metadata", async function () {
+      const { governmentFactory, owner, otherAccount, publicClient } =
+        await loadFixture(deployStackFixture);
+
+      const governmentAddress = await governmentFactory.createGovernment(
+        otherAccount.account.address
+      );
+      const blockNumber = await publicClient.getBlockNumber();
+
+      const info = await governmentFactory.getGovernmentInfo(governmentAddress);
+      expect(info.creator).to.equal(getAddress(owner.account.address));
+      expect(info.originalOwner).to.equal(
+        getAddress(otherAccount.account.address)
+      );
+      expect(info.createdAtBlock).to.equal(blockNumber);
+    });
+
+    it("Should not return metadata for unknown governments", async function () {
+      const { governmentFactory, otherAccount } = await loadFixture(
+        deployStackFixture
+      );
+
+      await expect(
+        governmentFactory.getGovernmentInfo(otherAccount.account.address)
+      ).to.be.revertedWithCustomError(governmentFactory, "GovernmentNotFound");
+    });
+  });
+
+  describe("Upgrades", function () {
+    // Deploy the V2 implementation, trusting the same forwarder as the current one
+    async function deployGovernmentV2() {
+      return hre.viem.deployContract("MockGovernmentV2", [zeroAddress]);
+    }
+
+    it("Should create governments as proxies of the beacon implementation", async function () {
+      const { governmentFactory, owner, publicClient } = await loadFixture(
+        deployStackFixture
+      );
+
+      const governmentAddress = await governmentFactory.createGovernment(
+        owner.account.address
+      );
+
+      // The proxy only holds state, the code lives in the implementation
+      const proxyCode = await publicClient.getCode({
+        address: governmentAddress,
+      });
+      const implementationCode = await publicClient.getCode({
+        address: await governmentFactory.implementation(),
+      });
+      expect(proxyCode).to.not.equal(implementationCode);
+      expect(
+        await governmentFactory.government(governmentAddress).owner()
+      ).to.equal(getAddress(owner.account.address));
+    });
+
+    it("Should upgrade existing governments and preserve their state", async function () {
+      const { governmentFactory, owner, otherAccount, thirdAccount } =
+        await loadFixture(deployStackFixture);
+
+      const government = governmentFactory.government(
+        await governmentFactory.createGovernment(owner.account.address)
+      );
+      await government.registerCitizens([
+        otherAccount.account.address,
+        thirdAccount.account.address,
       ]);
-      const isRandomGovernment = await governmentFactory.read.isGovernment([
-        randomAddress,
+
+      const v2 = await deployGovernmentV2();
+      await governmentFactory.upgradeImplementation(v2.address);
+
+      expect(await governmentFactory.implementation()).to.equal(
+        getAddress(v2.address)
+      );
+
+      // State written by V1 is still there
+      expect(await government.owner()).to.equal(
+        getAddress(owner.account.address)
+      );
+      expect(await government.factory()).to.equal(governmentFactory.address);
+      expect(await government.getCitizens(0n, 10n)).to.deep.equal([
+        getAddress(otherAccount.account.address),
+        getAddress(thirdAccount.account.address),
       ]);
 
-      expect(isActualGovernment).to.be.true;
-      expect(isRandomGovernment).to.be.false;
+      // And the V2 code is live
+      const upgraded = await hre.viem.getContractAt(
+        "MockGovernmentV2",
+        government.address
+      );
+      expect(await upgraded.read.version()).to.equal(2n);
+      await upgraded.write.setMotto(["E pluribus unum"]);
+      expect(await upgraded.read.motto()).to.equal("E pluribus unum");
+      expect(await government.citizenCount()).to.equal(2n);
+    });
+
+    it("Should create new governments with the upgraded implementation", async function () {
+      const { governmentFactory, owner } = await loadFixture(
+        deployStackFixture
+      );
+
+      const v2 = await deployGovernmentV2();
+      await governmentFactory.upgradeImplementation(v2.address);
+
+      const governmentAddress = await governmentFactory.createGovernment(
+        owner.account.address
+      );
+      const government = await hre.viem.getContractAt(
+        "MockGovernmentV2",
+        governmentAddress
+      );
+
+      expect(await government.read.version()).to.equal(2n);
+      expect(await government.read.owner()).to.equal(
+        getAddress(owner.account.address)
+      );
+    });
+
+    it("Should emit ImplementationUpgraded", async function () {
+      const { governmentFactory } = await loadFixture(deployStackFixture);
+
+      const v2 = await deployGovernmentV2();
+
+      await expect(governmentFactory.upgradeImplementation(v2.address))
+        .to.emitEvent(governmentFactory, "ImplementationUpgraded")
+        .withArgs({ implementation: v2.address });
+    });
+
+    it("Should only let the super admin upgrade the implementation", async function () {
+      const { baseFactory, governmentFactory, otherAccount } =
+        await loadFixture(deployStackFixture);
+
+      const v2 = await deployGovernmentV2();
+
+      // Managing factories is not enough
+      await baseFactory.grantRole(
+        BaseFactoryRole.FACTORY_MANAGER,
+        otherAccount.account.address
+      );
+
+      await expect(
+        governmentFactory
+          .connect(otherAccount)
+          .upgradeImplementation(v2.address)
+      ).to.be.revertedWithCustomError(governmentFactory, "NotAuthorized");
+    });
+
+    it("Should not upgrade to an address without code", async function () {
+      const { governmentFactory, otherAccount } = await loadFixture(
+        deployStackFixture
+      );
+      const beacon = await hre.viem.getContractAt(
+        "UpgradeableBeacon",
+        await governmentFactory.beacon()
+      );
+
+      // The beacon reverts, not the factory
+      await expect(
+        governmentFactory.upgradeImplementation(otherAccount.account.address)
+      ).to.be.revertedWithCustomError(beacon, "BeaconInvalidImplementation");
     });
   });
 });
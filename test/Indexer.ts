@@ -0,0 +1,548 @@
+import {
+  loadFixture,
+  mine,
+  takeSnapshot,
+  time,
+} from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import hre from "hardhat";
+import os from "os";
+import path from "path";
+import { getAddress, zeroAddress } from "viem";
+
+import {
+  BaseFactoryRole,
+  deployBaseFactory,
+  deployGovernmentFactory,
+  deployKey,
+  EventIndexer,
+  INDEXER_FILE_VERSION,
+  JsonFileStore,
+  KeyPurpose,
+} from "../src";
+import {
+  deployMockFactories,
+  factoryRegistration,
+  governmentFactoryRegistration,
+} from "./helpers";
+
+describe("EventIndexer", function () {
+  const FIRST_KEY = getAddress("0x8626f6940E2eb28930eFb4CeF49B2d1F2C9C1199");
+  const SECOND_KEY = getAddress("0x1234567890123456789012345678901234567890");
+
+  // Deploy the whole stack and an indexer over it
+  async function deployIndexedStackFixture() {
+    const [owner, otherAccount] = await hre.viem.getWalletClients();
+    const publicClient = await hre.viem.getPublicClient();
+    const config = { publicClient, walletClient: owner };
+
+    const fromBlock = Number(await publicClient.getBlockNumber()) + 1;
+    const baseFactory = await deployBaseFactory(config);
+    const governmentFactory = await deployGovernmentFactory(
+      config,
+      baseFactory.address
+    );
+    const key = await deployKey(config);
+    await baseFactory.registerFactory(
+      governmentFactoryRegistration(governmentFactory.address)
+    );
+
+    const contracts = {
+      baseFactory: baseFactory.address,
+      governmentFactory: governmentFactory.address,
+      key: key.address,
+    };
+    const indexer = new EventIndexer({ publicClient, contracts, fromBlock });
+
+    return {
+      baseFactory,
+      governmentFactory,
+      key,
+      indexer,
+      contracts,
+      fromBlock,
+      owner,
+      otherAccount,
+      publicClient,
+    };
+  }
+
+  describe("Backfill", function () {
+    it("Should index every block up to the chain head", async function () {
+      const { indexer, publicClient } = await loadFixture(
+        deployIndexedStackFixture
+      );
+
+      const result = await indexer.sync();
+
+      expect(result.lastBlock).to.equal(
+        Number(await publicClient.getBlockNumber())
+      );
+      expect(indexer.lastBlock).to.equal(result.lastBlock);
+      expect(result.newEvents).to.be.greaterThan(0);
+    });
+
+    it("Should track the factories currently registered", async function () {
+      const { baseFactory, governmentFactory, indexer } = await loadFixture(
+        deployIndexedStackFixture
+      );
+
+      const [factory] = await deployMockFactories(1);
+
+      await baseFactory.registerFactory(factoryRegistration(factory));
+      await indexer.sync();
+      expect(indexer.registeredFactories()).to.deep.equal([
+        governmentFactory.address,
+        factory,
+      ]);
+
+      await baseFactory.unregisterFactory(governmentFactory.address);
+      await indexer.sync();
+      expect(indexer.registeredFactories()).to.deep.equal([factory]);
+    });
+
+    it("Should track the accounts holding each BaseFactory role", async function () {
+      const { baseFactory, indexer, owner, otherAccount } = await loadFixture(
+        deployIndexedStackFixture
+      );
+      const ownerAddress = getAddress(owner.account.address);
+      const otherAddress = getAddress(otherAccount.account.address);
+
+      await indexer.sync();
+      for (const role of Object.values(BaseFactoryRole)) {
+        expect(indexer.roleMembers(role)).to.deep.equal([ownerAddress]);
+      }
+
+      await baseFactory.grantRole(
+        BaseFactoryRole.FACTORY_MANAGER,
+        otherAddress
+      );
+      await baseFactory.revokeRole(
+        BaseFactoryRole.FACTORY_MANAGER,
+        ownerAddress
+      );
+      await indexer.sync();
+      expect(
+        indexer.roleMembers(BaseFactoryRole.FACTORY_MANAGER)
+      ).to.deep.equal([otherAddress]);
+      expect(indexer.roleMembers(BaseFactoryRole.PAUSER)).to.deep.equal([
+        ownerAddress,
+      ]);
+    });
+
+    it("Should track the pending super admin transfer", async function () {
+      const { baseFactory, indexer, otherAccount } = await loadFixture(
+        deployIndexedStackFixture
+      );
+      const otherAddress = getAddress(otherAccount.account.address);
+      const none = { newAdmin: zeroAddress, acceptSchedule: 0 };
+
+      await indexer.sync();
+      expect(indexer.pendingDefaultAdmin()).to.deep.equal(none);
+
+      await baseFactory.beginDefaultAdminTransfer(otherAddress);
+      await indexer.sync();
+      expect(indexer.pendingDefaultAdmin()).to.deep.equal(
+        await baseFactory.pendingDefaultAdmin()
+      );
+      expect(indexer.pendingDefaultAdmin().newAdmin).to.equal(otherAddress);
+
+      await baseFactory.cancelDefaultAdminTransfer();
+      await indexer.sync();
+      expect(indexer.pendingDefaultAdmin()).to.deep.equal(none);
+
+      // Once accepted, the role moves and nothing is pending anymore
+      await baseFactory.beginDefaultAdminTransfer(otherAddress);
+      await time.increase(1);
+      await baseFactory.connect(otherAccount).acceptDefaultAdminTransfer();
+      await indexer.sync();
+      expect(indexer.pendingDefaultAdmin()).to.deep.equal(none);
+      expect(indexer.roleMembers(BaseFactoryRole.SUPER_ADMIN)).to.deep.equal([
+        otherAddress,
+      ]);
+    });
+
+    it("Should track the current key of each account", async function () {
+      const { key, indexer, owner, otherAccount } = await loadFixture(
+        deployIndexedStackFixture
+      );
+
+      await key.addKey(owner.account.address);
+      await key.connect(otherAccount).addKey(FIRST_KEY);
+      await indexer.sync();
+
+      expect(indexer.currentKey(owner.account.address)).to.equal(
+        getAddress(owner.account.address)
+      );
+      expect(indexer.currentKey(otherAccount.account.address)).to.equal(
+        FIRST_KEY
+      );
+
+      // Rotate the owner's key, signed by the old key (the owner account itself)
+      const deadline = BigInt(await time.latest()) + 3600n;
+      const signature = await key.signKeyRotation(
+        owner,
+        owner.account.address,
+        SECOND_KEY,
+        deadline
+      );
+      await key.replaceKey(SECOND_KEY, deadline, signature);
+      await indexer.sync();
+
+      expect(indexer.currentKey(owner.account.address)).to.equal(SECOND_KEY);
+      expect(indexer.currentKey(FIRST_KEY)).to.be.undefined;
+    });
+
+    it("Should track revoked and recovered keys", async function () {
+      const { key, indexer, owner, otherAccount } = await loadFixture(
+        deployIndexedStackFixture
+      );
+
+      await key.addKey(FIRST_KEY);
+      await key.revokeKey();
+      await indexer.sync();
+      expect(indexer.currentKey(owner.account.address)).to.be.undefined;
+
+      // The other account recovers the owner's key as its guardian
+      await key.setGuardian(otherAccount.account.address);
+      const guardian = key.connect(otherAccount);
+      await guardian.initiateRecovery(owner.account.address, SECOND_KEY);
+      await time.increase(await key.recoveryDelay());
+      await guardian.completeRecovery(owner.account.address);
+      await indexer.sync();
+
+      expect(indexer.currentKey(owner.account.address)).to.equal(SECOND_KEY);
+      expect(indexer.events("RecoveryInitiated")).to.have.lengthOf(1);
+      expect(indexer.events("RecoveryCompleted")).to.have.lengthOf(1);
+    });
+
+    it("Should track the purpose keys of each account", async function () {
+      const { key, indexer, owner } = await loadFixture(
+        deployIndexedStackFixture
+      );
+
+      await key.addPurposeKey(FIRST_KEY, KeyPurpose.SIGNING);
+      await key.addPurposeKey(SECOND_KEY, KeyPurpose.DEVICE, 2n ** 40n);
+      await key.removePurposeKey(FIRST_KEY, KeyPurpose.SIGNING);
+      await indexer.sync();
+
+      expect(indexer.purposeKeys(owner.account.address)).to.deep.equal([
+        { key: SECOND_KEY, purpose: KeyPurpose.DEVICE, expiresAt: 2n ** 40n },
+      ]);
+    });
+
+    it("Should ignore the removal of a purpose key added before the indexed range", async function () {
+      const { key, contracts, owner, publicClient } = await loadFixture(
+        deployIndexedStackFixture
+      );
+      await key.addPurposeKey(FIRST_KEY, KeyPurpose.SIGNING);
+
+      // An indexer starting after FIRST_KEY was added never saw it
+      const indexer = new EventIndexer({
+        publicClient,
+        contracts,
+        fromBlock: Number(await publicClient.getBlockNumber()) + 1,
+      });
+      await key.addPurposeKey(SECOND_KEY, KeyPurpose.DEVICE);
+      await key.removePurposeKey(FIRST_KEY, KeyPurpose.SIGNING);
+      await indexer.sync();
+
+      expect(indexer.purposeKeys(owner.account.address)).to.deep.equal([
+        { key: SECOND_KEY, purpose: KeyPurpose.DEVICE, expiresAt: 0n },
+      ]);
+    });
+
+    it("Should track governments by their current owner", async function () {
+      const { governmentFactory, indexer, owner, otherAccount } =
+        await loadFixture(deployIndexedStackFixture);
+
+      const first = await governmentFactory.createGovernment(
+        owner.account.address
+      );
+      const second = await governmentFactory.createGovernment(
+        owner.account.address
+      );
+      await indexer.sync();
+
+      expect(indexer.governments()).to.deep.equal([first, second]);
+      expect(indexer.governmentsByOwner(owner.account.address)).to.deep.equal([
+        first,
+        second,
+      ]);
+
+      await governmentFactory
+        .government(first)
+        .transferOwnership(otherAccount.account.address);
+      await governmentFactory
+        .government(first)
+        .connect(otherAccount)
+        .acceptOwnership();
+      await indexer.sync();
+
+      expect(indexer.governmentsByOwner(owner.account.address)).to.deep.equal([
+        second,
+      ]);
+      expect(
+        indexer.governmentsByOwner(otherAccount.account.address)
+      ).to.deep.equal([first]);
+    });
+
+    it("Should index ownership events of governments created in the same batch", async function () {
+      const {
+        governmentFactory,
+        contracts,
+        fromBlock,
+        owner,
+        otherAccount,
+        publicClient,
+      } = await loadFixture(deployIndexedStackFixture);
+
+      const government = await governmentFactory.createGovernment(
+        owner.account.address
+      );
+      await governmentFactory
+        .government(government)
+        .transferOwnership(otherAccount.account.address);
+      await governmentFactory
+        .government(government)
+        .connect(otherAccount)
+        .acceptOwnership();
+
+      // A single batch covers both the creation and the transfer
+      const indexer = new EventIndexer({
+        publicClient,
+        contracts,
+        fromBlock,
+        batchSize: 10_000,
+      });
+      await indexer.sync();
+
+      expect(
+        indexer.governmentsByOwner(otherAccount.account.address)
+      ).to.deep.equal([government]);
+    });
+
+    it("Should split the backfill into batches", async function () {
+      const { indexer, contracts, fromBlock, publicClient } = await loadFixture(
+        deployIndexedStackFixture
+      );
+
+      const batched = new EventIndexer({
+        publicClient,
+        contracts,
+        fromBlock,
+        batchSize: 1,
+      });
+      await indexer.sync();
+      await batched.sync();
+
+      expect(batched.events()).to.deep.equal(indexer.events());
+    });
+  });
+
+  describe("Following", function () {
+    it("Should only add new events on subsequent syncs", async function () {
+      const { key, indexer } = await loadFixture(deployIndexedStackFixture);
+
+      await indexer.sync();
+      expect((await indexer.sync()).newEvents).to.equal(0);
+
+      await key.addKey(FIRST_KEY);
+      const result = await indexer.sync();
+
+      expect(result.newEvents).to.equal(1);
+      expect(indexer.events("KeyAdded")).to.have.lengthOf(1);
+    });
+
+    it("Should stay behind the head by the configured confirmations", async function () {
+      const { contracts, fromBlock, publicClient } = await loadFixture(
+        deployIndexedStackFixture
+      );
+
+      const indexer = new EventIndexer({
+        publicClient,
+        contracts,
+        fromBlock,
+        confirmations: 2,
+      });
+      const result = await indexer.sync();
+
+      expect(result.lastBlock).to.equal(
+        Number(await publicClient.getBlockNumber()) - 2
+      );
+    });
+
+    it("Should sync on new blocks while watching", async function () {
+      const { key, indexer, owner } = await loadFixture(
+        deployIndexedStackFixture
+      );
+
+      const errors: unknown[] = [];
+      const unwatch = indexer.watch({
+        pollingInterval: 50,
+        onError: (error) => errors.push(error),
+      });
+
+      try {
+        await key.addKey(FIRST_KEY);
+
+        // Wait for the watcher to pick up the new block
+        const deadline = Date.now() + 5_000;
+        while (
+          indexer.currentKey(owner.account.address) === undefined &&
+          Date.now() < deadline
+        ) {
+          await new Promise((resolve) => setTimeout(resolve, 50));
+        }
+      } finally {
+        unwatch();
+      }
+
+      expect(errors).to.deep.equal([]);
+      expect(indexer.currentKey(owner.account.address)).to.equal(FIRST_KEY);
+    });
+  });
+
+  describe("Reorgs", function () {
+    it("Should roll back events from blocks that were reorged out", async function () {
+      const { key, indexer, owner } = await loadFixture(
+        deployIndexedStackFixture
+      );
+
+      await indexer.sync();
+      const snapshot = await takeSnapshot();
+
+      // Canonical chain at first
+      await key.addKey(FIRST_KEY);
+      await mine(2);
+      await indexer.sync();
+      expect(indexer.currentKey(owner.account.address)).to.equal(FIRST_KEY);
+
+      // Replace it with a longer fork where another key was added
+      await snapshot.restore();
+      await key.addKey(SECOND_KEY);
+      await mine(5);
+      const result = await indexer.sync();
+
+      expect(result.reorgedTo).to.not.be.undefined;
+      expect(indexer.currentKey(owner.account.address)).to.equal(SECOND_KEY);
+      expect(indexer.events("KeyAdded")).to.have.lengthOf(1);
+    });
+
+    it("Should roll back when the chain became shorter than the checkpoint", async function () {
+      const { key, indexer, owner } = await loadFixture(
+        deployIndexedStackFixture
+      );
+
+      await indexer.sync();
+      const snapshot = await takeSnapshot();
+
+      await key.addKey(FIRST_KEY);
+      await indexer.sync();
+
+      await snapshot.restore();
+      const result = await indexer.sync();
+
+      expect(result.reorgedTo).to.be.a("number");
+      expect(indexer.currentKey(owner.account.address)).to.be.undefined;
+    });
+  });
+
+  describe("Persistence", function () {
+    let directory: string;
+
+    beforeEach(async function () {
+      directory = await mkdtemp(path.join(os.tmpdir(), "poligov-indexer-"));
+    });
+
+    afterEach(async function () {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it("Should resume from the persisted state", async function () {
+      const { key, contracts, fromBlock, owner, publicClient } =
+        await loadFixture(deployIndexedStackFixture);
+      const filePath = path.join(directory, "index.json");
+
+      await key.addKey(FIRST_KEY);
+      const first = new EventIndexer({
+        publicClient,
+        contracts,
+        fromBlock,
+        store: new JsonFileStore(filePath),
+      });
+      const firstResult = await first.sync();
+
+      // A new indexer over the same file starts where the first one stopped
+      const second = new EventIndexer({
+        publicClient,
+        contracts,
+        fromBlock,
+        store: new JsonFileStore(filePath),
+      });
+      const secondResult = await second.sync();
+
+      expect(secondResult.newEvents).to.equal(0);
+      expect(second.lastBlock).to.equal(firstResult.lastBlock);
+      expect(second.events()).to.deep.equal(first.events());
+      expect(second.currentKey(owner.account.address)).to.equal(FIRST_KEY);
+    });
+
+    it("Should persist bigint event arguments", async function () {
+      const { key, contracts, fromBlock, otherAccount, owner, publicClient } =
+        await loadFixture(deployIndexedStackFixture);
+      const filePath = path.join(directory, "index.json");
+
+      await key.setGuardian(otherAccount.account.address);
+      await key
+        .connect(otherAccount)
+        .initiateRecovery(owner.account.address, FIRST_KEY);
+
+      const first = new EventIndexer({
+        publicClient,
+        contracts,
+        fromBlock,
+        store: new JsonFileStore(filePath),
+      });
+      await first.sync();
+
+      const state = await new JsonFileStore(filePath).load();
+      const [initiated] = state.events.filter(
+        (event) => event.eventName === "RecoveryInitiated"
+      );
+      expect(initiated.args).to.deep.equal(
+        first.events("RecoveryInitiated")[0].args
+      );
+    });
+
+    it("Should reject files written in an older or unknown format", async function () {
+      const filePath = path.join(directory, "index.json");
+      const store = new JsonFileStore(filePath);
+      const state = { lastBlock: 1, checkpoints: [], events: [] };
+
+      await writeFile(filePath, JSON.stringify({ version: 1, ...state }));
+      await expect(store.load()).to.be.rejectedWith(
+        "Outdated indexer file version 1"
+      );
+
+      await writeFile(
+        filePath,
+        JSON.stringify({ version: INDEXER_FILE_VERSION + 1, ...state })
+      );
+      await expect(store.load()).to.be.rejectedWith(
+        `Unsupported indexer file version ${INDEXER_FILE_VERSION + 1}`
+      );
+    });
+
+    it("Should start empty when the file does not exist", async function () {
+      const store = new JsonFileStore(path.join(directory, "missing.json"));
+
+      expect(await store.load()).to.deep.equal({
+        lastBlock: null,
+        checkpoints: [],
+        events: [],
+      });
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import fc from "fast-check";
+
+import {
+  checkInvariants,
+  deployRegistrySystemFixture,
+  initialRegistryModel,
+  registryCommands,
+} from "./helpers/registryModel";
+
+describe("Invariants", function () {
+  // Every run replays its commands against a fresh deployment
+  this.timeout(300_000);
+
+  // More runs find rarer sequences, e.g. INVARIANT_RUNS=500 npx hardhat test test/Invariants.ts
+  const NUM_RUNS = Number(process.env.INVARIANT_RUNS ?? 50);
+
+  it("Should keep the registries consistent with their events under random calls", async function () {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.commands(registryCommands(), { maxCommands: 20 }),
+        async (commands) => {
+          const setup = async () => {
+            const real = await loadFixture(deployRegistrySystemFixture);
+            const model = initialRegistryModel(real);
+            await checkInvariants(model, real);
+            return { model, real };
+          };
+          await fc.asyncModelRun(setup, commands);
+        }
+      ),
+      // A failure is shrunk to the shortest sequence, replay it with the printed seed and path
+      { numRuns: NUM_RUNS }
+    );
+  });
+});
@@ -1,49 +1,51 @@
-import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import {
+  loadFixture,
+  time,
+} from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
 import { expect } from "chai";
 import hre from "hardhat";
 import {
   getAddress,
   keccak256,
   encodePacked,
-  WalletClient,
+  hashTypedData,
   Address,
   PublicClient,
+  zeroAddress,
 } from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
 
-// Define test fixture return type
-interface KeyFixture {
-  key: any;
-  owner: WalletClient;
-  otherAccount: WalletClient;
-  publicClient: PublicClient;
+import {
+  deployKey,
+  KeyClient,
+  KeyPurpose,
+  keyRotationTypes,
+  signKeyRotation,
+} from "../src";
+import { deployStackFixture, type TestWalletClient } from "./helpers";
+
+// Define recovery test context
+interface RecoveryContext {
+  key: KeyClient;
+  account: TestWalletClient;
+  guardian: KeyClient;
+  guardianAddress: Address;
+  stranger: KeyClient;
+  lostKey: Address;
+  recoveredKey: Address;
 }
 
 // Define replacement keys test context
 interface ReplacementKeysContext {
-  key: any;
-  owner: WalletClient;
-  oldKeyClient: WalletClient;
+  key: KeyClient;
+  owner: TestWalletClient;
+  oldKeyClient: TestWalletClient;
   oldKeyAddress: Address;
   publicClient: PublicClient;
+  deadline: bigint;
 }
 
 describe("Key", function () {
-  // We define a fixture to reuse the same setup in every test.
-  async function deployKeyFixture(): Promise<KeyFixture> {
-    // Contracts are deployed using the first signer/account by default
-    const [owner, otherAccount] = await hre.viem.getWalletClients();
-
-    const key = await hre.viem.deployContract("Key");
-
-    const publicClient = await hre.viem.getPublicClient();
-
-    return {
-      key,
-      owner,
-      otherAccount,
-      publicClient,
-    };
-  }
   describe("Adding Keys", function () {
     // Constants
     const TEST_KEY_ADDRESS = "0x8626f6940E2eb28930eFb4CeF49B2d1F2C9C1199";
@@ -52,96 +54,58 @@ describe("Key", function () {
 
     it("Should add a new key", async function () {
       // Setup
-      const { key, owner } = await loadFixture(deployKeyFixture);
+      const { key, owner } = await loadFixture(deployStackFixture);
 
       // Add a key for the owner
-      await key.write.addKey([TEST_KEY_ADDRESS]);
+      await key.addKey(TEST_KEY_ADDRESS);
 
-      if (!owner.account) {
-        throw new Error("Owner account is undefined");
-      }
-      const storedKey = await key.read.keys([owner.account.address]);
+      const storedKey = await key.keys(owner.account.address);
       expect(storedKey).to.equal(getAddress(TEST_KEY_ADDRESS));
     });
 
     it("Should not allow adding a zero address key", async function () {
       // Setup
-      const { key } = await loadFixture(deployKeyFixture);
+      const { key } = await loadFixture(deployStackFixture);
 
       // Add a zero address key (should fail)
-      await expect(key.write.addKey([ZERO_ADDRESS])).to.be.rejectedWith(
+      await expect(key.addKey(ZERO_ADDRESS)).to.be.revertedWithCustomError(
+        key,
         "InvalidKeyAddress"
       );
     });
 
     it("Should not allow adding a key if one already exists", async function () {
       // Setup
-      const { key } = await loadFixture(deployKeyFixture);
+      const { key } = await loadFixture(deployStackFixture);
 
       // Add the first key
-      await key.write.addKey([TEST_KEY_ADDRESS]);
+      await key.addKey(TEST_KEY_ADDRESS);
 
       // Try to add a second key (should fail)
-      await expect(key.write.addKey([SECOND_KEY_ADDRESS])).to.be.rejectedWith(
-        "KeyAlreadyExists"
-      );
+      await expect(
+        key.addKey(SECOND_KEY_ADDRESS)
+      ).to.be.revertedWithCustomError(key, "KeyAlreadyExists");
     });
 
     it("Should emit KeyAdded event when adding a key", async function () {
       // Setup
-      const { key, owner, publicClient } = await loadFixture(deployKeyFixture);
-
-      // Add the key and wait for transaction
-      const txHash = await key.write.addKey([TEST_KEY_ADDRESS]);
-      await publicClient.waitForTransactionReceipt({ hash: txHash });
+      const { key, owner } = await loadFixture(deployStackFixture);
 
-      if (!owner.account) {
-        throw new Error("Owner account is undefined");
-      }
-
-      // Check for the KeyAdded event
-      const events = await key.getEvents.KeyAdded();
-
-      // Verify event details
-
-      expect(events).to.have.lengthOf(1);
-      expect(events[0].args.account).to.equal(
-        getAddress(owner.account.address)
-      );
-      expect(events[0].args.key).to.equal(getAddress(TEST_KEY_ADDRESS));
+      await expect(key.addKey(TEST_KEY_ADDRESS))
+        .to.emitEvent(key, "KeyAdded")
+        .withArgs({ account: owner.account.address, key: TEST_KEY_ADDRESS });
     });
   });
+  // Key every rotation test replaces the old key with
+  const NEW_KEY_ADDRESS = "0x5555555555555555555555555555555555555555";
+
   describe("Replacing Keys", function () {
     // Test context
     let context: ReplacementKeysContext;
-    const NEW_KEY_ADDRESS = "0x5555555555555555555555555555555555555555";
-
-    /**
-     * Helper to create a signature for key replacement
-     */
-    async function createReplaceKeySignature(
-      oldKeyAddress: Address,
-      newKeyAddress: Address,
-      signer: WalletClient
-    ): Promise<`0x${string}`> {
-      const packedData = encodePacked(
-        ["address", "address"],
-        [oldKeyAddress, newKeyAddress]
-      );
-      const messageToSign = keccak256(packedData);
-      if (!signer.account) {
-        throw new Error("Owner account is undefined");
-      }
-
-      return await signer.signMessage({
-        message: { raw: messageToSign },
-        account: signer.account,
-      });
-    }
 
     beforeEach(async function () {
       // Setup for each test
-      const fixture = await loadFixture(deployKeyFixture);
+      const fixture = await loadFixture(deployStackFixture);
 
       // For testing purposes we'll use one of the default accounts instead of creating a new one
       const [oldKeyClient] = await hre.viem.getWalletClients();
@@ -153,74 +117,924 @@ describe("Key", function () {
         oldKeyClient,
         oldKeyAddress,
         publicClient: fixture.publicClient,
+        deadline: BigInt(await time.latest()) + 3600n,
       };
 
       // First add the old key - this ensures a key exists for all replacement tests
-      await context.key.write.addKey([oldKeyAddress]);
+      await context.key.addKey(oldKeyAddress);
     });
 
     it("Should replace an existing key with valid signature", async function () {
-      const { key, owner, oldKeyClient, oldKeyAddress, publicClient } = context;
+      const { key, owner, oldKeyClient, deadline } = context;
 
       // Create signature for key replacement
-      const signature = await createReplaceKeySignature(
-        oldKeyAddress,
+      const signature = await key.signKeyRotation(
+        oldKeyClient,
+        owner.account.address,
         NEW_KEY_ADDRESS,
-        oldKeyClient
+        deadline
       );
 
       // Replace the key
-      const txHash = await key.write.replaceKey([NEW_KEY_ADDRESS, signature]);
-      await publicClient.waitForTransactionReceipt({ hash: txHash });
+      await key.replaceKey(NEW_KEY_ADDRESS, deadline, signature);
 
       // Verify the key was replaced
-      if (!owner.account) {
-        throw new Error("Owner account is undefined");
-      }
-      expect(await key.read.keys([owner.account.address])).to.equal(
+      expect(await key.keys(owner.account.address)).to.equal(
         getAddress(NEW_KEY_ADDRESS)
       );
     });
 
+    it("Should increment the nonce when replacing a key", async function () {
+      const { key, owner, oldKeyClient, deadline } = context;
+
+      expect(await key.nonces(owner.account.address)).to.equal(0n);
+
+      const signature = await key.signKeyRotation(
+        oldKeyClient,
+        owner.account.address,
+        NEW_KEY_ADDRESS,
+        deadline
+      );
+      await key.replaceKey(NEW_KEY_ADDRESS, deadline, signature);
+
+      expect(await key.nonces(owner.account.address)).to.equal(1n);
+    });
+
+    it("Should hash the rotation as EIP-712 typed data", async function () {
+      const { key, owner, oldKeyAddress, publicClient, deadline } = context;
+
+      const rotation = {
+        account: owner.account.address,
+        oldKey: oldKeyAddress,
+        newKey: NEW_KEY_ADDRESS as Address,
+        nonce: 0n,
+        deadline,
+      };
+
+      const expected = hashTypedData({
+        domain: {
+          name: "Key",
+          version: "1",
+          chainId: await publicClient.getChainId(),
+          verifyingContract: key.address,
+        },
+        types: keyRotationTypes,
+        primaryType: "KeyRotation",
+        message: rotation,
+      });
+
+      expect(await key.hashKeyRotation(rotation)).to.equal(expected);
+    });
+
     it("Should not replace key with invalid signature", async function () {
-      const { key } = context;
+      const { key, deadline } = context;
 
       // Invalid signature (all zeros)
       const invalidSignature =
         "0x0000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000";
 
+      // Malformed signatures are invalid rather than reverting inside ECDSA
+      await expect(
+        key.replaceKey(NEW_KEY_ADDRESS, deadline, invalidSignature)
+      ).to.be.revertedWithCustomError(key, "InvalidSignature");
+    });
+
+    it("Should not replace key with a signature from another key", async function () {
+      const { key, owner, deadline } = context;
+      const [, otherKeyClient] = await hre.viem.getWalletClients();
+
+      // Well-formed signature, but not produced by the old key
+      const signature = await key.signKeyRotation(
+        otherKeyClient,
+        owner.account.address,
+        NEW_KEY_ADDRESS,
+        deadline
+      );
+
       await expect(
-        key.write.replaceKey([NEW_KEY_ADDRESS, invalidSignature])
-      ).to.be.rejectedWith("InvalidSignature");
+        key.replaceKey(NEW_KEY_ADDRESS, deadline, signature)
+      ).to.be.revertedWithCustomError(key, "InvalidSignature");
     });
 
     it("Should emit KeyReplaced event when replacing a key", async function () {
-      const { key, owner, oldKeyClient, oldKeyAddress, publicClient } = context;
+      const { key, owner, oldKeyClient, oldKeyAddress, deadline } = context;
 
       // Create signature for key replacement
-      const signature = await createReplaceKeySignature(
+      const signature = await key.signKeyRotation(
+        oldKeyClient,
+        owner.account.address,
+        NEW_KEY_ADDRESS,
+        deadline
+      );
+
+      await expect(key.replaceKey(NEW_KEY_ADDRESS, deadline, signature))
+        .to.emitEvent(key, "KeyReplaced")
+        .withArgs({
+          account: owner.account.address,
+          oldKey: oldKeyAddress,
+          newKey: NEW_KEY_ADDRESS,
+        });
+    });
+  });
+
+  describe("Replay Protection", function () {
+    // Test context
+    let context: ReplacementKeysContext;
+
+    beforeEach(async function () {
+      const fixture = await loadFixture(deployStackFixture);
+      const [oldKeyClient] = await hre.viem.getWalletClients();
+
+      context = {
+        key: fixture.key,
+        owner: fixture.owner,
+        oldKeyClient,
+        oldKeyAddress: oldKeyClient.account.address,
+        publicClient: fixture.publicClient,
+        deadline: BigInt(await time.latest()) + 3600n,
+      };
+
+      await context.key.addKey(context.oldKeyAddress);
+    });
+
+    it("Should not accept the same signature twice", async function () {
+      const { key, owner, oldKeyClient, deadline } = context;
+      const [, , newKeyClient] = await hre.viem.getWalletClients();
+      const newKeyAddress = newKeyClient.account.address;
+
+      const signature = await key.signKeyRotation(
+        oldKeyClient,
+        owner.account.address,
+        newKeyAddress,
+        deadline
+      );
+      await key.replaceKey(newKeyAddress, deadline, signature);
+
+      // The nonce was consumed, so the signature no longer matches
+      await expect(
+        key.replaceKey(newKeyAddress, deadline, signature)
+      ).to.be.revertedWithCustomError(key, "InvalidSignature");
+    });
+
+    it("Should not replay old signatures when rotating back and forth", async function () {
+      const { key, owner, oldKeyClient, oldKeyAddress, deadline } = context;
+      const [, , newKeyClient] = await hre.viem.getWalletClients();
+      const newKeyAddress = newKeyClient.account.address;
+
+      // A -> B
+      const toNewKey = await key.signKeyRotation(
+        oldKeyClient,
+        owner.account.address,
+        newKeyAddress,
+        deadline
+      );
+      await key.replaceKey(newKeyAddress, deadline, toNewKey);
+
+      // B -> A
+      const toOldKey = await key.signKeyRotation(
+        newKeyClient,
+        owner.account.address,
         oldKeyAddress,
+        deadline
+      );
+      await key.replaceKey(oldKeyAddress, deadline, toOldKey);
+
+      // Replaying A -> B and B -> A fails, the key is A again
+      await expect(
+        key.replaceKey(newKeyAddress, deadline, toNewKey)
+      ).to.be.revertedWithCustomError(key, "InvalidSignature");
+      expect(await key.keys(owner.account.address)).to.equal(
+        getAddress(oldKeyAddress)
+      );
+    });
+
+    it("Should not accept a signature made for another account", async function () {
+      const { key, owner, oldKeyClient, oldKeyAddress, deadline } = context;
+      const [, otherAccount] = await hre.viem.getWalletClients();
+
+      // The other account registers the same key
+      const otherKey = key.connect(otherAccount);
+      await otherKey.addKey(oldKeyAddress);
+
+      // The owner's rotation cannot be submitted by the other account
+      const signature = await key.signKeyRotation(
+        oldKeyClient,
+        owner.account.address,
         NEW_KEY_ADDRESS,
-        oldKeyClient
+        deadline
       );
+      await expect(
+        otherKey.replaceKey(NEW_KEY_ADDRESS, deadline, signature)
+      ).to.be.revertedWithCustomError(otherKey, "InvalidSignature");
+    });
 
-      // Replace the key
-      const txHash = await key.write.replaceKey([NEW_KEY_ADDRESS, signature]);
-      await publicClient.waitForTransactionReceipt({ hash: txHash });
-
-      // Check for the event
-      if (!owner.account) {
-        throw new Error("Owner account is undefined");
-      }
-      const events = await key.getEvents.KeyReplaced();
+    it("Should not accept a signature made for another Key contract", async function () {
+      const {
+        key,
+        owner,
+        oldKeyClient,
+        oldKeyAddress,
+        publicClient,
+        deadline,
+      } = context;
+
+      // Sign for the same rotation on another deployment
+      const otherDeployment = await deployKey({
+        publicClient,
+        walletClient: owner,
+      });
+      const signature = await signKeyRotation(
+        oldKeyClient,
+        {
+          chainId: await publicClient.getChainId(),
+          verifyingContract: otherDeployment.address,
+        },
+        {
+          account: owner.account.address,
+          oldKey: oldKeyAddress,
+          newKey: NEW_KEY_ADDRESS,
+          nonce: 0n,
+          deadline,
+        }
+      );
+
+      await expect(
+        key.replaceKey(NEW_KEY_ADDRESS, deadline, signature)
+      ).to.be.revertedWithCustomError(key, "InvalidSignature");
+    });
+
+    it("Should not accept a signature made for another chain", async function () {
+      const {
+        key,
+        owner,
+        oldKeyClient,
+        oldKeyAddress,
+        publicClient,
+        deadline,
+      } = context;
+
+      const signature = await signKeyRotation(
+        oldKeyClient,
+        {
+          chainId: (await publicClient.getChainId()) + 1,
+          verifyingContract: key.address,
+        },
+        {
+          account: owner.account.address,
+          oldKey: oldKeyAddress,
+          newKey: NEW_KEY_ADDRESS,
+          nonce: 0n,
+          deadline,
+        }
+      );
+
+      await expect(
+        key.replaceKey(NEW_KEY_ADDRESS, deadline, signature)
+      ).to.be.revertedWithCustomError(key, "InvalidSignature");
+    });
+
+    it("Should not accept an expired signature", async function () {
+      const { key, owner, oldKeyClient, deadline } = context;
+
+      const signature = await key.signKeyRotation(
+        oldKeyClient,
+        owner.account.address,
+        NEW_KEY_ADDRESS,
+        deadline
+      );
+
+      // Move past the deadline
+      await time.increaseTo(deadline + 1n);
+
+      await expect(
+        key.replaceKey(NEW_KEY_ADDRESS, deadline, signature)
+      ).to.be.revertedWithCustomError(key, "SignatureExpired", [deadline]);
+    });
+  });
+
+  describe("Purpose Keys", function () {
+    const PRIMARY_KEY_ADDRESS = "0x8626f6940E2eb28930eFb4CeF49B2d1F2C9C1199";
+    const SIGNING_KEY_ADDRESS = "0x1111111111111111111111111111111111111111";
+    const DEVICE_KEY_ADDRESS = "0x2222222222222222222222222222222222222222";
+    const OTHER_DEVICE_KEY_ADDRESS =
+      "0x3333333333333333333333333333333333333333";
+
+    it("Should hold several keys with different purposes", async function () {
+      const { key, owner } = await loadFixture(deployStackFixture);
+
+      await key.addKey(PRIMARY_KEY_ADDRESS);
+      await key.addPurposeKey(SIGNING_KEY_ADDRESS, KeyPurpose.SIGNING);
+      await key.addPurposeKey(DEVICE_KEY_ADDRESS, KeyPurpose.DEVICE);
+      await key.addPurposeKey(OTHER_DEVICE_KEY_ADDRESS, KeyPurpose.DEVICE);
+
+      // The primary key comes first, the others in the order they were added
+      expect(await key.getKeys(owner.account.address)).to.deep.equal([
+        {
+          key: getAddress(PRIMARY_KEY_ADDRESS),
+          purpose: KeyPurpose.PRIMARY,
+          expiresAt: 0n,
+        },
+        {
+          key: getAddress(SIGNING_KEY_ADDRESS),
+          purpose: KeyPurpose.SIGNING,
+          expiresAt: 0n,
+        },
+        {
+          key: getAddress(DEVICE_KEY_ADDRESS),
+          purpose: KeyPurpose.DEVICE,
+          expiresAt: 0n,
+        },
+        {
+          key: getAddress(OTHER_DEVICE_KEY_ADDRESS),
+          purpose: KeyPurpose.DEVICE,
+          expiresAt: 0n,
+        },
+      ]);
+
+      // keys() still returns the primary key
+      expect(await key.keys(owner.account.address)).to.equal(
+        getAddress(PRIMARY_KEY_ADDRESS)
+      );
+    });
+
+    it("Should check keys by purpose", async function () {
+      const { key, owner } = await loadFixture(deployStackFixture);
+
+      const account = owner.account.address;
+      await key.addKey(PRIMARY_KEY_ADDRESS);
+      await key.addPurposeKey(SIGNING_KEY_ADDRESS, KeyPurpose.SIGNING);
+
+      expect(await key.hasKey(account, PRIMARY_KEY_ADDRESS, KeyPurpose.PRIMARY))
+        .to.be.true;
+      expect(await key.hasKey(account, SIGNING_KEY_ADDRESS, KeyPurpose.SIGNING))
+        .to.be.true;
+      expect(await key.hasKey(account, SIGNING_KEY_ADDRESS, KeyPurpose.DEVICE))
+        .to.be.false;
+      expect(await key.hasKey(account, SIGNING_KEY_ADDRESS, KeyPurpose.PRIMARY))
+        .to.be.false;
+    });
+
+    it("Should allow the same key for several purposes", async function () {
+      const { key, owner } = await loadFixture(deployStackFixture);
+
+      await key.addPurposeKey(SIGNING_KEY_ADDRESS, KeyPurpose.SIGNING);
+      await key.addPurposeKey(SIGNING_KEY_ADDRESS, KeyPurpose.ENCRYPTION);
+
+      expect(await key.getKeys(owner.account.address)).to.have.lengthOf(2);
+    });
+
+    it("Should not add the same key twice for a purpose", async function () {
+      const { key } = await loadFixture(deployStackFixture);
+
+      await key.addPurposeKey(SIGNING_KEY_ADDRESS, KeyPurpose.SIGNING);
+
+      await expect(
+        key.addPurposeKey(SIGNING_KEY_ADDRESS, KeyPurpose.SIGNING)
+      ).to.be.revertedWithCustomError(key, "KeyAlreadyExists");
+    });
+
+    it("Should not add a purpose key for the primary or an empty purpose", async function () {
+      const { key } = await loadFixture(deployStackFixture);
+
+      await expect(
+        key.addPurposeKey(SIGNING_KEY_ADDRESS, KeyPurpose.PRIMARY)
+      ).to.be.revertedWithCustomError(key, "InvalidPurpose");
+      await expect(
+        key.addPurposeKey(
+          SIGNING_KEY_ADDRESS,
+          "0x0000000000000000000000000000000000000000000000000000000000000000"
+        )
+      ).to.be.revertedWithCustomError(key, "InvalidPurpose");
+    });
+
+    it("Should not add a zero address purpose key", async function () {
+      const { key } = await loadFixture(deployStackFixture);
+
+      await expect(
+        key.addPurposeKey(
+          "0x0000000000000000000000000000000000000000",
+          KeyPurpose.SIGNING
+        )
+      ).to.be.revertedWithCustomError(key, "InvalidKeyAddress");
+    });
+
+    it("Should not add a key that is already expired", async function () {
+      const { key } = await loadFixture(deployStackFixture);
+
+      await expect(
+        key.addPurposeKey(
+          SIGNING_KEY_ADDRESS,
+          KeyPurpose.SIGNING,
+          BigInt(await time.latest())
+        )
+      ).to.be.revertedWithCustomError(key, "InvalidExpiry");
+    });
+
+    it("Should stop accepting a key once it expires", async function () {
+      const { key, owner } = await loadFixture(deployStackFixture);
+
+      const account = owner.account.address;
+      const expiresAt = BigInt(await time.latest()) + 3600n;
+      await key.addPurposeKey(DEVICE_KEY_ADDRESS, KeyPurpose.DEVICE, expiresAt);
+
+      expect(await key.hasKey(account, DEVICE_KEY_ADDRESS, KeyPurpose.DEVICE))
+        .to.be.true;
+
+      await time.increaseTo(expiresAt);
+
+      // Expired keys are still listed, but no longer valid
+      expect(await key.hasKey(account, DEVICE_KEY_ADDRESS, KeyPurpose.DEVICE))
+        .to.be.false;
+      expect((await key.getKeys(account))[0].expiresAt).to.equal(expiresAt);
+    });
+
+    it("Should remove a purpose key", async function () {
+      const { key, owner } = await loadFixture(deployStackFixture);
+
+      const account = owner.account.address;
+      await key.addPurposeKey(SIGNING_KEY_ADDRESS, KeyPurpose.SIGNING);
+      await key.addPurposeKey(DEVICE_KEY_ADDRESS, KeyPurpose.DEVICE);
+      await key.addPurposeKey(OTHER_DEVICE_KEY_ADDRESS, KeyPurpose.DEVICE);
+
+      await key.removePurposeKey(SIGNING_KEY_ADDRESS, KeyPurpose.SIGNING);
+
+      expect(await key.hasKey(account, SIGNING_KEY_ADDRESS, KeyPurpose.SIGNING))
+        .to.be.false;
+      const keys = await key.getKeys(account);
+      expect(keys.map((info) => info.key)).to.have.members([
+        getAddress(DEVICE_KEY_ADDRESS),
+        getAddress(OTHER_DEVICE_KEY_ADDRESS),
+      ]);
+
+      // The remaining keys can still be removed after being moved around
+      await key.removePurposeKey(OTHER_DEVICE_KEY_ADDRESS, KeyPurpose.DEVICE);
+      expect(await key.getKeys(account)).to.deep.equal([
+        {
+          key: getAddress(DEVICE_KEY_ADDRESS),
+          purpose: KeyPurpose.DEVICE,
+          expiresAt: 0n,
+        },
+      ]);
+    });
+
+    it("Should not remove a key that does not exist", async function () {
+      const { key } = await loadFixture(deployStackFixture);
+
+      await key.addPurposeKey(SIGNING_KEY_ADDRESS, KeyPurpose.SIGNING);
+
+      await expect(
+        key.removePurposeKey(SIGNING_KEY_ADDRESS, KeyPurpose.DEVICE)
+      ).to.be.revertedWithCustomError(key, "KeyNotFound");
+    });
+
+    it("Should emit events when adding and removing purpose keys", async function () {
+      const { key, owner } = await loadFixture(deployStackFixture);
+
+      const expiresAt = BigInt(await time.latest()) + 3600n;
+
+      await expect(
+        key.addPurposeKey(SIGNING_KEY_ADDRESS, KeyPurpose.SIGNING, expiresAt)
+      )
+        .to.emitEvent(key, "PurposeKeyAdded")
+        .withArgs({
+          account: owner.account.address,
+          purpose: KeyPurpose.SIGNING,
+          key: SIGNING_KEY_ADDRESS,
+          expiresAt,
+        });
+
+      await expect(
+        key.removePurposeKey(SIGNING_KEY_ADDRESS, KeyPurpose.SIGNING)
+      )
+        .to.emitEvent(key, "PurposeKeyRemoved")
+        .withArgs({
+          account: owner.account.address,
+          purpose: KeyPurpose.SIGNING,
+          key: SIGNING_KEY_ADDRESS,
+        });
+    });
+
+    it("Should keep purpose keys when the primary key is revoked", async function () {
+      const { key, owner } = await loadFixture(deployStackFixture);
+
+      await key.addKey(PRIMARY_KEY_ADDRESS);
+      await key.addPurposeKey(SIGNING_KEY_ADDRESS, KeyPurpose.SIGNING);
+
+      await key.revokeKey();
+
+      expect(await key.getKeys(owner.account.address)).to.deep.equal([
+        {
+          key: getAddress(SIGNING_KEY_ADDRESS),
+          purpose: KeyPurpose.SIGNING,
+          expiresAt: 0n,
+        },
+      ]);
+    });
+  });
+
+  describe("Revocation", function () {
+    const COMPROMISED_KEY_ADDRESS =
+      "0x8626f6940E2eb28930eFb4CeF49B2d1F2C9C1199";
+
+    it("Should revoke the sender's key", async function () {
+      const { key, owner } = await loadFixture(deployStackFixture);
+
+      await key.addKey(COMPROMISED_KEY_ADDRESS);
+
+      await expect(key.revokeKey()).to.emitEvent(key, "KeyRevoked").withArgs({
+        account: owner.account.address,
+        key: COMPROMISED_KEY_ADDRESS,
+      });
+
+      expect(await key.keys(owner.account.address)).to.equal(
+        "0x0000000000000000000000000000000000000000"
+      );
+    });
+
+    it("Should not revoke a key that does not exist", async function () {
+      const { key } = await loadFixture(deployStackFixture);
+
+      await expect(key.revokeKey()).to.be.revertedWithCustomError(
+        key,
+        "NoKeyToRevoke"
+      );
+    });
+
+    it("Should allow adding a new key after revoking", async function () {
+      const { key, owner } = await loadFixture(deployStackFixture);
+
+      await key.addKey(COMPROMISED_KEY_ADDRESS);
+      await key.revokeKey();
+
+      await key.addKey(NEW_KEY_ADDRESS);
+
+      expect(await key.keys(owner.account.address)).to.equal(
+        getAddress(NEW_KEY_ADDRESS)
+      );
+    });
+
+    it("Should invalidate rotations signed before the revocation", async function () {
+      const { key, owner } = await loadFixture(deployStackFixture);
+
+      const deadline = BigInt(await time.latest()) + 3600n;
+      await key.addKey(owner.account.address);
+
+      // A rotation signed by the key before it is revoked and added again
+      const signature = await key.signKeyRotation(
+        owner,
+        owner.account.address,
+        NEW_KEY_ADDRESS,
+        deadline
+      );
+      await key.revokeKey();
+      await key.addKey(owner.account.address);
+
+      await expect(
+        key.replaceKey(NEW_KEY_ADDRESS, deadline, signature)
+      ).to.be.revertedWithCustomError(key, "InvalidSignature");
+    });
+  });
+
+  describe("Recovery", function () {
+    // Test context
+    let context: RecoveryContext;
+
+    beforeEach(async function () {
+      const fixture = await loadFixture(deployStackFixture);
+      const [account, guardian, stranger, lostKey, recoveredKey] =
+        await hre.viem.getWalletClients();
+
+      context = {
+        key: fixture.key,
+        account,
+        guardian: fixture.key.connect(guardian),
+        guardianAddress: guardian.account.address,
+        stranger: fixture.key.connect(stranger),
+        lostKey: lostKey.account.address,
+        recoveredKey: recoveredKey.account.address,
+      };
+
+      // The account adds a key and appoints a guardian
+      await context.key.addKey(context.lostKey);
+      await context.key.setGuardian(context.guardianAddress);
+    });
+
+    it("Should set the guardian of the sender", async function () {
+      const { key, account, guardianAddress } = context;
+
+      expect(await key.guardians(account.account.address)).to.equal(
+        getAddress(guardianAddress)
+      );
+      const events = await key.contract.getEvents.GuardianSet();
       expect(events).to.have.lengthOf(1);
       expect(events[0].args.account).to.equal(
-        getAddress(owner.account.address)
+        getAddress(account.account.address)
+      );
+      expect(events[0].args.guardian).to.equal(getAddress(guardianAddress));
+    });
+
+    it("Should not allow an account to be its own guardian", async function () {
+      const { key, account } = context;
+
+      await expect(
+        key.setGuardian(account.account.address)
+      ).to.be.revertedWithCustomError(key, "InvalidGuardian");
+    });
+
+    it("Should recover a lost key after the delay", async function () {
+      const { key, account, guardian, guardianAddress, lostKey, recoveredKey } =
+        context;
+      const address = account.account.address;
+
+      const initiated = await guardian.initiateRecovery(address, recoveredKey);
+      const recovery = await key.pendingRecovery(address);
+      expect(recovery.newKey).to.equal(getAddress(recoveredKey));
+      expect(recovery.executeAfter).to.equal(
+        BigInt(await time.latest()) + (await key.recoveryDelay())
+      );
+      await expect(initiated).to.emitEvent(key, "RecoveryInitiated").withArgs({
+        account: address,
+        guardian: guardianAddress,
+        newKey: recoveredKey,
+        executeAfter: recovery.executeAfter,
+      });
+
+      // Too early
+      await expect(
+        guardian.completeRecovery(address)
+      ).to.be.revertedWithCustomError(guardian, "RecoveryNotReady", [
+        recovery.executeAfter,
+      ]);
+
+      await time.increaseTo(recovery.executeAfter);
+      await expect(guardian.completeRecovery(address))
+        .to.emitEvent(key, "RecoveryCompleted")
+        .withArgs({ account: address, oldKey: lostKey, newKey: recoveredKey });
+
+      expect(await key.keys(address)).to.equal(getAddress(recoveredKey));
+      expect((await key.pendingRecovery(address)).newKey).to.equal(
+        "0x0000000000000000000000000000000000000000"
+      );
+    });
+
+    it("Should recover an account whose key was revoked", async function () {
+      const { key, account, guardian, recoveredKey } = context;
+      const address = account.account.address;
+
+      await key.revokeKey();
+      await guardian.initiateRecovery(address, recoveredKey);
+      await time.increase(await key.recoveryDelay());
+      await guardian.completeRecovery(address);
+
+      expect(await key.keys(address)).to.equal(getAddress(recoveredKey));
+    });
+
+    it("Should only allow the guardian to initiate and complete a recovery", async function () {
+      const { account, guardian, stranger, recoveredKey } = context;
+      const address = account.account.address;
+
+      await expect(
+        stranger.initiateRecovery(address, recoveredKey)
+      ).to.be.revertedWithCustomError(stranger, "NotGuardian");
+
+      await guardian.initiateRecovery(address, recoveredKey);
+      await time.increase(await guardian.recoveryDelay());
+
+      await expect(
+        stranger.completeRecovery(address)
+      ).to.be.revertedWithCustomError(stranger, "NotGuardian");
+    });
+
+    it("Should not recover to the zero address", async function () {
+      const { account, guardian } = context;
+
+      await expect(
+        guardian.initiateRecovery(
+          account.account.address,
+          "0x0000000000000000000000000000000000000000"
+        )
+      ).to.be.revertedWithCustomError(guardian, "InvalidKeyAddress");
+    });
+
+    it("Should not initiate a second recovery while one is pending", async function () {
+      const { account, guardian, recoveredKey } = context;
+      const address = account.account.address;
+
+      await guardian.initiateRecovery(address, recoveredKey);
+
+      await expect(
+        guardian.initiateRecovery(address, NEW_KEY_ADDRESS)
+      ).to.be.revertedWithCustomError(guardian, "RecoveryAlreadyPending");
+    });
+
+    it("Should let the account cancel a recovery by a compromised guardian", async function () {
+      const { key, account, guardian, lostKey, recoveredKey } = context;
+      const address = account.account.address;
+
+      await guardian.initiateRecovery(address, recoveredKey);
+      await expect(key.cancelRecovery(address))
+        .to.emitEvent(key, "RecoveryCancelled")
+        .withArgs({ account: address, newKey: recoveredKey });
+
+      // Nothing left to complete, the key is unchanged
+      await time.increase(await key.recoveryDelay());
+      await expect(
+        guardian.completeRecovery(address)
+      ).to.be.revertedWithCustomError(guardian, "NoRecoveryPending");
+      expect(await key.keys(address)).to.equal(getAddress(lostKey));
+    });
+
+    it("Should let the guardian cancel its own recovery", async function () {
+      const { account, guardian, recoveredKey } = context;
+      const address = account.account.address;
+
+      await guardian.initiateRecovery(address, recoveredKey);
+      await guardian.cancelRecovery(address);
+
+      await expect(
+        guardian.cancelRecovery(address)
+      ).to.be.revertedWithCustomError(guardian, "NoRecoveryPending");
+    });
+
+    it("Should not let a stranger cancel a recovery", async function () {
+      const { account, guardian, stranger, recoveredKey } = context;
+      const address = account.account.address;
+
+      await guardian.initiateRecovery(address, recoveredKey);
+
+      await expect(
+        stranger.cancelRecovery(address)
+      ).to.be.revertedWithCustomError(stranger, "NotGuardian");
+    });
+
+    it("Should cancel a pending recovery when the guardian changes", async function () {
+      const { key, account, guardian, stranger, recoveredKey } = context;
+      const address = account.account.address;
+      const [, , newGuardian] = await hre.viem.getWalletClients();
+
+      await guardian.initiateRecovery(address, recoveredKey);
+      await key.setGuardian(newGuardian.account.address);
+      await time.increase(await key.recoveryDelay());
+
+      // The previous guardian lost its rights, the new one has nothing to complete
+      await expect(
+        guardian.completeRecovery(address)
+      ).to.be.revertedWithCustomError(guardian, "NotGuardian");
+      await expect(
+        stranger.completeRecovery(address)
+      ).to.be.revertedWithCustomError(stranger, "NoRecoveryPending");
+      const cancelled = await key.contract.getEvents.RecoveryCancelled(
+        {},
+        { fromBlock: 0n }
       );
-      expect(events[0].args.oldKey).to.equal(getAddress(oldKeyAddress));
-      expect(events[0].args.newKey).to.equal(getAddress(NEW_KEY_ADDRESS));
+      expect(cancelled).to.have.lengthOf(1);
+    });
+
+    it("Should invalidate rotations signed by the recovered key", async function () {
+      const { key, account, guardian, recoveredKey } = context;
+      const address = account.account.address;
+      const deadline = BigInt(await time.latest()) + 7n * 24n * 3600n;
+
+      // The account's key is rotated to itself so it can sign with it
+      await key.revokeKey();
+      await key.addKey(address);
+      const signature = await key.signKeyRotation(
+        account,
+        address,
+        NEW_KEY_ADDRESS,
+        deadline
+      );
+
+      // The key is recovered before the signed rotation is submitted
+      await guardian.initiateRecovery(address, recoveredKey);
+      await time.increase(await key.recoveryDelay());
+      await guardian.completeRecovery(address);
+
+      await expect(
+        key.replaceKey(NEW_KEY_ADDRESS, deadline, signature)
+      ).to.be.revertedWithCustomError(key, "InvalidSignature");
     });
   });
+
+  describe("Contract Wallet Keys", function () {
+    // Deploy an EIP-1271 wallet owned by the second account and make it the owner's key
+    async function deployWalletKeyFixture() {
+      const fixture = await loadFixture(deployStackFixture);
+      const [, walletOwner, stranger] = await hre.viem.getWalletClients();
+
+      const wallet = await hre.viem.deployContract("MockERC1271Wallet", [
+        walletOwner.account.address,
+      ]);
+      await fixture.key.addKey(wallet.address);
+
+      return {
+        ...fixture,
+        wallet,
+        walletOwner,
+        stranger,
+        deadline: BigInt(await time.latest()) + 3600n,
+      };
+    }
+
+    it("Should replace a wallet key with an EIP-712 signature", async function () {
+      const { key, owner, walletOwner, deadline } = await loadFixture(
+        deployWalletKeyFixture
+      );
+
+      // The wallet owner signs the typed data, the wallet vouches for it
+      const signature = await key.signKeyRotation(
+        walletOwner,
+        owner.account.address,
+        NEW_KEY_ADDRESS,
+        deadline
+      );
+      await key.replaceKey(NEW_KEY_ADDRESS, deadline, signature);
+
+      expect(await key.keys(owner.account.address)).to.equal(
+        getAddress(NEW_KEY_ADDRESS)
+      );
+    });
+
+    it("Should replace a wallet key with an eth_sign signature", async function () {
+      const { key, owner, walletOwner, deadline } = await loadFixture(
+        deployWalletKeyFixture
+      );
+
+      const wallet = await key.keys(owner.account.address);
+
+      // Wallets without EIP-712 support sign the prefixed digest instead
+      const digest = await key.hashKeyRotation({
+        account: owner.account.address,
+        oldKey: wallet,
+        newKey: NEW_KEY_ADDRESS,
+        nonce: await key.nonces(owner.account.address),
+        deadline,
+      });
+      const signature = await walletOwner.signMessage({
+        message: { raw: digest },
+      });
+      await key.replaceKey(NEW_KEY_ADDRESS, deadline, signature);
+
+      expect(await key.keys(owner.account.address)).to.equal(
+        getAddress(NEW_KEY_ADDRESS)
+      );
+    });
+
+    it("Should not replace a wallet key with a signature the wallet rejects", async function () {
+      const { key, owner, stranger, deadline } = await loadFixture(
+        deployWalletKeyFixture
+      );
+
+      const signature = await key.signKeyRotation(
+        stranger,
+        owner.account.address,
+        NEW_KEY_ADDRESS,
+        deadline
+      );
+
+      await expect(
+        key.replaceKey(NEW_KEY_ADDRESS, deadline, signature)
+      ).to.be.revertedWithCustomError(key, "InvalidSignature");
+    });
+
+    it("Should verify wallet signatures of raw and prefixed hashes", async function () {
+      const { key, stranger } = await loadFixture(deployWalletKeyFixture);
+
+      // A local account can sign the raw hash without the eth_sign prefix
+      const localOwner = privateKeyToAccount(generatePrivateKey());
+      const wallet = await hre.viem.deployContract("MockERC1271Wallet", [
+        localOwner.address,
+      ]);
+      const messageHash = keccak256(encodePacked(["string"], ["Test message"]));
+
+      const rawSignature = await localOwner.sign({ hash: messageHash });
+      const prefixedSignature = await localOwner.signMessage({
+        message: { raw: messageHash },
+      });
+      const strangerSignature = await stranger.signMessage({
+        message: { raw: messageHash },
+      });
+
+      expect(
+        await key.verifySignature(messageHash, rawSignature, wallet.address)
+      ).to.be.true;
+      expect(
+        await key.verifySignature(
+          messageHash,
+          prefixedSignature,
+          wallet.address
+        )
+      ).to.be.true;
+      expect(
+        await key.verifySignature(
+          messageHash,
+          strangerSignature,
+          wallet.address
+        )
+      ).to.be.false;
+    });
+  });
+
   describe("Security", function () {
     /**
      * Helper to create a message hash from text
@@ -235,11 +1049,8 @@ describe("Key", function () {
      */
     async function signMessageHash(
       messageHash: `0x${string}`,
-      signer: WalletClient
+      signer: TestWalletClient
     ): Promise<`0x${string}`> {
-      if (!signer.account) {
-        throw new Error("Owner account is undefined");
-      }
       return await signer.signMessage({
         message: { raw: messageHash },
         account: signer.account,
@@ -247,21 +1058,21 @@ describe("Key", function () {
     }
 
     it("Should not allow replacing key if none exists", async function () {
-      const { key } = await loadFixture(deployKeyFixture);
+      const { key } = await loadFixture(deployStackFixture);
 
       // Constants
-      const NEW_KEY_ADDRESS = "0x5555555555555555555555555555555555555555";
       const DUMMY_SIGNATURE =
         "0x0000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000";
 
       // Attempt to replace key without having one
+      const deadline = BigInt(await time.latest()) + 3600n;
       await expect(
-        key.write.replaceKey([NEW_KEY_ADDRESS, DUMMY_SIGNATURE])
-      ).to.be.rejectedWith("NoKeyToReplace");
+        key.replaceKey(NEW_KEY_ADDRESS, deadline, DUMMY_SIGNATURE)
+      ).to.be.revertedWithCustomError(key, "NoKeyToReplace");
     });
 
     it("Should correctly verify a valid signature", async function () {
-      const { key } = await loadFixture(deployKeyFixture);
+      const { key } = await loadFixture(deployStackFixture);
 
       // Set up test scenario
       const [signerClient] = await hre.viem.getWalletClients();
@@ -272,17 +1083,29 @@ describe("Key", function () {
       const signature = await signMessageHash(messageHash, signerClient);
 
       // Verify the signature
-      const isValid = await key.read.verifySignature([
+      const isValid = await key.verifySignature(
         messageHash,
         signature,
-        signerAddress,
-      ]);
+        signerAddress
+      );
 
       expect(isValid).to.be.true;
     });
 
+    it("Should correctly verify a signature of the raw hash", async function () {
+      const { key } = await loadFixture(deployStackFixture);
+
+      // Signed without the eth_sign prefix, like an EIP-712 digest
+      const signer = privateKeyToAccount(generatePrivateKey());
+      const messageHash = createMessageHash("Test message");
+      const signature = await signer.sign({ hash: messageHash });
+
+      expect(await key.verifySignature(messageHash, signature, signer.address))
+        .to.be.true;
+    });
+
     it("Should reject an invalid signature", async function () {
-      const { key } = await loadFixture(deployKeyFixture);
+      const { key } = await loadFixture(deployStackFixture);
 
       // Set up test scenario
       const [signerClient] = await hre.viem.getWalletClients();
@@ -299,13 +1122,161 @@ describe("Key", function () {
       );
 
       // Verify the signature against the original message (should fail)
-      const isValid = await key.read.verifySignature([
+      const isValid = await key.verifySignature(
         originalMessageHash,
         signature,
-        signerAddress,
-      ]);
+        signerAddress
+      );
 
       expect(isValid).to.be.false;
     });
   });
+
+  describe("Pausing", function () {
+    const PURPOSE_KEY_ADDRESS = "0x8626f6940E2eb28930eFb4CeF49B2d1F2C9C1199";
+
+    // An account with a key, a purpose key and a pending recovery, then a paused registry
+    async function deployPausedKeyFixture() {
+      const fixture = await deployStackFixture();
+      const { key, otherAccount } = fixture;
+      const [, , , oldKey, recoveredKey] = await hre.viem.getWalletClients();
+
+      await key.addKey(oldKey.account.address);
+      await key.addPurposeKey(PURPOSE_KEY_ADDRESS, KeyPurpose.SIGNING);
+      await key.setGuardian(otherAccount.account.address);
+      await key
+        .connect(otherAccount)
+        .initiateRecovery(
+          fixture.owner.account.address,
+          recoveredKey.account.address
+        );
+
+      await key.pause();
+
+      return { ...fixture, oldKey, recoveredKey };
+    }
+
+    it("Should make the deployer the owner", async function () {
+      const { key, owner } = await loadFixture(deployStackFixture);
+
+      expect(await key.owner()).to.equal(getAddress(owner.account.address));
+      expect(await key.paused()).to.be.false;
+    });
+
+    it("Should emit Paused and Unpaused events", async function () {
+      const { key, owner } = await loadFixture(deployStackFixture);
+
+      await expect(key.pause())
+        .to.emitEvent(key, "Paused")
+        .withArgs({ account: owner.account.address });
+      expect(await key.paused()).to.be.true;
+
+      await expect(key.unpause())
+        .to.emitEvent(key, "Unpaused")
+        .withArgs({ account: owner.account.address });
+      expect(await key.paused()).to.be.false;
+    });
+
+    it("Should not add, rotate or recover keys while paused", async function () {
+      const { key, owner, otherAccount, thirdAccount, oldKey } =
+        await loadFixture(deployPausedKeyFixture);
+      const account = owner.account.address;
+      const deadline = BigInt(await time.latest()) + 3600n;
+      const signature = await key.signKeyRotation(
+        oldKey,
+        account,
+        NEW_KEY_ADDRESS,
+        deadline
+      );
+
+      await expect(
+        key.connect(thirdAccount).addKey(NEW_KEY_ADDRESS)
+      ).to.be.revertedWithCustomError(key, "EnforcedPause");
+      await expect(
+        key.replaceKey(NEW_KEY_ADDRESS, deadline, signature)
+      ).to.be.revertedWithCustomError(key, "EnforcedPause");
+      await expect(
+        key.addPurposeKey(NEW_KEY_ADDRESS, KeyPurpose.DEVICE)
+      ).to.be.revertedWithCustomError(key, "EnforcedPause");
+      await expect(
+        key.setGuardian(thirdAccount.account.address)
+      ).to.be.revertedWithCustomError(key, "EnforcedPause");
+
+      await time.increase(await key.recoveryDelay());
+      await expect(
+        key.connect(otherAccount).completeRecovery(account)
+      ).to.be.revertedWithCustomError(key, "EnforcedPause");
+      await expect(
+        key.connect(otherAccount).initiateRecovery(account, NEW_KEY_ADDRESS)
+      ).to.be.revertedWithCustomError(key, "EnforcedPause");
+    });
+
+    it("Should keep reads, revocations and cancellations available while paused", async function () {
+      const { key, owner, oldKey } = await loadFixture(deployPausedKeyFixture);
+      const account = owner.account.address;
+
+      expect(await key.keys(account)).to.equal(
+        getAddress(oldKey.account.address)
+      );
+      expect(await key.hasKey(account, PURPOSE_KEY_ADDRESS, KeyPurpose.SIGNING))
+        .to.be.true;
+
+      await key.cancelRecovery(account);
+      expect((await key.pendingRecovery(account)).newKey).to.equal(zeroAddress);
+      await key.removePurposeKey(PURPOSE_KEY_ADDRESS, KeyPurpose.SIGNING);
+      await key.revokeKey();
+      expect(await key.getKeys(account)).to.deep.equal([]);
+    });
+
+    it("Should complete recoveries again once unpaused", async function () {
+      const { key, owner, otherAccount, recoveredKey } = await loadFixture(
+        deployPausedKeyFixture
+      );
+      const account = owner.account.address;
+
+      await key.unpause();
+      await time.increase(await key.recoveryDelay());
+
+      await key.connect(otherAccount).completeRecovery(account);
+      expect(await key.keys(account)).to.equal(
+        getAddress(recoveredKey.account.address)
+      );
+    });
+
+    it("Should only let the owner pause and unpause", async function () {
+      const { key, otherAccount } = await loadFixture(deployPausedKeyFixture);
+
+      await expect(
+        key.connect(otherAccount).unpause()
+      ).to.be.revertedWithCustomError(key, "OwnableUnauthorizedAccount", [
+        otherAccount.account.address,
+      ]);
+
+      // A new owner takes over once it accepts
+      await key.transferOwnership(otherAccount.account.address);
+      expect(await key.pendingOwner()).to.equal(
+        getAddress(otherAccount.account.address)
+      );
+      await key.connect(otherAccount).acceptOwnership();
+      await key.connect(otherAccount).unpause();
+      expect(await key.paused()).to.be.false;
+    });
+
+    it("Should pause independently of the factory system", async function () {
+      const { baseFactory, key, thirdAccount } = await loadFixture(
+        deployStackFixture
+      );
+
+      await baseFactory.pause();
+      await key.connect(thirdAccount).addKey(NEW_KEY_ADDRESS);
+
+      await key.pause();
+      expect(await baseFactory.paused()).to.be.true;
+      await baseFactory.unpause();
+      await expect(key.addKey(NEW_KEY_ADDRESS)).to.be.revertedWithCustomError(
+        key,
+        "EnforcedPause"
+      );
+    });
+  });
 });
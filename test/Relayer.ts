@@ -0,0 +1,372 @@
+import {
+  loadFixture,
+  time,
+} from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import {
+  createWalletClient,
+  custom,
+  encodeFunctionData,
+  getAddress,
+  type Hex,
+} from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+
+import {
+  deployBaseFactory,
+  deployForwarder,
+  deployGovernmentFactory,
+  deployKey,
+  ERC2771ForwarderInvalidSignerError,
+  governmentAbi,
+  KeyAlreadyExistsError,
+  keyAbi,
+  RelayRejectedError,
+  Relayer,
+} from "../src";
+import { governmentFactoryRegistration } from "./helpers";
+
+describe("Relayer", function () {
+  const FIRST_KEY = getAddress("0x8626f6940E2eb28930eFb4CeF49B2d1F2C9C1199");
+  const SECOND_KEY = getAddress("0x1234567890123456789012345678901234567890");
+
+  // Deploy the stack with a Forwarder, a relayer paying the gas and a citizen without ETH
+  async function deployRelayedStackFixture() {
+    const [owner, relayerAccount, otherAccount] =
+      await hre.viem.getWalletClients();
+    const publicClient = await hre.viem.getPublicClient();
+    const config = { publicClient, walletClient: owner };
+
+    const forwarder = await deployForwarder(config);
+    const baseFactory = await deployBaseFactory(config);
+    const governmentFactory = await deployGovernmentFactory(
+      config,
+      baseFactory.address,
+      forwarder.address
+    );
+    const key = await deployKey(config, forwarder.address);
+    await baseFactory.registerFactory(
+      governmentFactoryRegistration(governmentFactory.address)
+    );
+
+    // A fresh account that never received any ETH
+    const citizen = createWalletClient({
+      account: privateKeyToAccount(generatePrivateKey()),
+      chain: owner.chain,
+      transport: custom(hre.network.provider),
+    });
+
+    const governmentAddress = await governmentFactory.createGovernment(
+      citizen.account.address
+    );
+    const government = governmentFactory.government(governmentAddress);
+
+    const relayer = new Relayer({
+      forwarder: forwarder.address,
+      publicClient,
+      walletClient: relayerAccount,
+      allowedTargets: [key.address, governmentAddress],
+    });
+
+    return {
+      forwarder,
+      governmentFactory,
+      government,
+      key,
+      relayer,
+      citizen,
+      owner,
+      otherAccount,
+      publicClient,
+    };
+  }
+
+  // Deadline an hour after the latest block
+  async function deadline(): Promise<number> {
+    return (await time.latest()) + 3600;
+  }
+
+  function addKeyData(newKey: Hex): Hex {
+    return encodeFunctionData({
+      abi: keyAbi,
+      functionName: "addKey",
+      args: [newKey],
+    });
+  }
+
+  describe("Relaying", function () {
+    it("Should add a key for an account without ETH", async function () {
+      const { forwarder, key, relayer, citizen, publicClient } =
+        await loadFixture(deployRelayedStackFixture);
+
+      const request = await forwarder.signRequest(citizen, {
+        to: key.address,
+        data: addKeyData(FIRST_KEY),
+        deadline: await deadline(),
+      });
+      await relayer.relay(request);
+
+      // The key belongs to the signer, who paid nothing
+      expect(await key.keys(citizen.account.address)).to.equal(FIRST_KEY);
+      expect(
+        await publicClient.getBalance({ address: citizen.account.address })
+      ).to.equal(0n);
+
+      const events = await key.contract.getEvents.KeyAdded();
+      expect(events[0].args.account).to.equal(citizen.account.address);
+    });
+
+    it("Should rotate a key for an account without ETH", async function () {
+      const { forwarder, key, relayer, citizen } = await loadFixture(
+        deployRelayedStackFixture
+      );
+
+      // The citizen's own address is its primary key, so it signs the rotation
+      await relayer.relay(
+        await forwarder.signRequest(citizen, {
+          to: key.address,
+          data: addKeyData(citizen.account.address),
+          deadline: await deadline(),
+        })
+      );
+
+      const rotationDeadline = BigInt(await deadline());
+      const signature = await key.signKeyRotation(
+        citizen,
+        citizen.account.address,
+        SECOND_KEY,
+        rotationDeadline
+      );
+      await relayer.relay(
+        await forwarder.signRequest(citizen, {
+          to: key.address,
+          data: encodeFunctionData({
+            abi: keyAbi,
+            functionName: "replaceKey",
+            args: [SECOND_KEY, rotationDeadline, signature],
+          }),
+          deadline: await deadline(),
+        })
+      );
+
+      expect(await key.keys(citizen.account.address)).to.equal(SECOND_KEY);
+    });
+
+    it("Should register a citizen for a government owner without ETH", async function () {
+      const { forwarder, government, relayer, citizen, otherAccount } =
+        await loadFixture(deployRelayedStackFixture);
+
+      const request = await forwarder.signRequest(citizen, {
+        to: government.address,
+        data: encodeFunctionData({
+          abi: governmentAbi,
+          functionName: "registerCitizen",
+          args: [otherAccount.account.address],
+        }),
+        deadline: await deadline(),
+      });
+      await relayer.relay(request);
+
+      expect(await government.isCitizen(otherAccount.account.address)).to.be
+        .true;
+    });
+
+    it("Should consume the signer's nonce", async function () {
+      const { forwarder, key, relayer, citizen } = await loadFixture(
+        deployRelayedStackFixture
+      );
+
+      await relayer.relay(
+        await forwarder.signRequest(citizen, {
+          to: key.address,
+          data: addKeyData(FIRST_KEY),
+          deadline: await deadline(),
+        })
+      );
+
+      expect(await forwarder.nonces(citizen.account.address)).to.equal(1n);
+    });
+
+    it("Should trust the forwarder in Key and created governments", async function () {
+      const { forwarder, governmentFactory, government, key } =
+        await loadFixture(deployRelayedStackFixture);
+
+      expect(await key.trustedForwarder()).to.equal(forwarder.address);
+      expect(await governmentFactory.trustedForwarder()).to.equal(
+        forwarder.address
+      );
+      expect(await government.trustedForwarder()).to.equal(forwarder.address);
+    });
+  });
+
+  describe("Validation", function () {
+    async function expectRejection(
+      promise: Promise<unknown>,
+      reason: string
+    ): Promise<RelayRejectedError> {
+      const error = await promise.then(
+        () => expect.fail("Expected the relay to be rejected"),
+        (error: unknown) => error
+      );
+      expect(error).to.be.instanceOf(RelayRejectedError);
+      expect((error as RelayRejectedError).reason).to.equal(reason);
+      return error as RelayRejectedError;
+    }
+
+    it("Should reject an expired request", async function () {
+      const { forwarder, key, relayer, citizen } = await loadFixture(
+        deployRelayedStackFixture
+      );
+
+      const request = await forwarder.signRequest(citizen, {
+        to: key.address,
+        data: addKeyData(FIRST_KEY),
+        deadline: await deadline(),
+      });
+      await time.increaseTo(request.deadline);
+
+      await expectRejection(relayer.relay(request), "expired");
+    });
+
+    it("Should reject a tampered request", async function () {
+      const { forwarder, key, relayer, citizen } = await loadFixture(
+        deployRelayedStackFixture
+      );
+
+      const request = await forwarder.signRequest(citizen, {
+        to: key.address,
+        data: addKeyData(FIRST_KEY),
+        deadline: await deadline(),
+      });
+
+      await expectRejection(
+        relayer.relay({ ...request, data: addKeyData(SECOND_KEY) }),
+        "signature"
+      );
+    });
+
+    it("Should reject a replayed request", async function () {
+      const { forwarder, key, relayer, citizen } = await loadFixture(
+        deployRelayedStackFixture
+      );
+
+      const request = await forwarder.signRequest(citizen, {
+        to: key.address,
+        data: addKeyData(FIRST_KEY),
+        deadline: await deadline(),
+      });
+      await relayer.relay(request);
+
+      await expectRejection(relayer.relay(request), "signature");
+    });
+
+    it("Should reject a target that is not allowed", async function () {
+      const { forwarder, relayer, citizen, owner, publicClient } =
+        await loadFixture(deployRelayedStackFixture);
+
+      // Trusts the forwarder, but the relayer does not sponsor it
+      const otherKey = await deployKey(
+        { publicClient, walletClient: owner },
+        forwarder.address
+      );
+      const request = await forwarder.signRequest(citizen, {
+        to: otherKey.address,
+        data: addKeyData(FIRST_KEY),
+        deadline: await deadline(),
+      });
+
+      await expectRejection(relayer.relay(request), "target");
+    });
+
+    it("Should reject a target that does not trust the forwarder", async function () {
+      const { forwarder, citizen, owner, publicClient } = await loadFixture(
+        deployRelayedStackFixture
+      );
+
+      const untrustingKey = await deployKey({
+        publicClient,
+        walletClient: owner,
+      });
+      const relayer = new Relayer({
+        forwarder: forwarder.address,
+        publicClient,
+        walletClient: owner,
+      });
+      const request = await forwarder.signRequest(citizen, {
+        to: untrustingKey.address,
+        data: addKeyData(FIRST_KEY),
+        deadline: await deadline(),
+      });
+
+      await expectRejection(relayer.relay(request), "untrusted-target");
+    });
+
+    it("Should reject a request whose call reverts", async function () {
+      const { forwarder, key, relayer, citizen } = await loadFixture(
+        deployRelayedStackFixture
+      );
+
+      await relayer.relay(
+        await forwarder.signRequest(citizen, {
+          to: key.address,
+          data: addKeyData(FIRST_KEY),
+          deadline: await deadline(),
+        })
+      );
+
+      // A second addKey reverts, with the gas given explicitly since it cannot be estimated
+      const request = await forwarder.signRequest(citizen, {
+        to: key.address,
+        data: addKeyData(SECOND_KEY),
+        deadline: await deadline(),
+        gas: 100_000n,
+      });
+
+      const error = await expectRejection(relayer.relay(request), "reverted");
+      expect(error.cause).to.be.instanceOf(KeyAlreadyExistsError);
+    });
+
+    it("Should reject requests sending value or too much gas", async function () {
+      const { forwarder, key, relayer, citizen } = await loadFixture(
+        deployRelayedStackFixture
+      );
+
+      const withValue = await forwarder.signRequest(citizen, {
+        to: key.address,
+        data: addKeyData(FIRST_KEY),
+        deadline: await deadline(),
+        value: 1n,
+        gas: 100_000n,
+      });
+      await expectRejection(relayer.relay(withValue), "value");
+
+      const withGas = await forwarder.signRequest(citizen, {
+        to: key.address,
+        data: addKeyData(FIRST_KEY),
+        deadline: await deadline(),
+        gas: 10_000_000n,
+      });
+      await expectRejection(relayer.relay(withGas), "gas");
+    });
+  });
+
+  describe("Forwarder", function () {
+    it("Should not execute a request signed by another account", async function () {
+      const { forwarder, key, citizen, otherAccount } = await loadFixture(
+        deployRelayedStackFixture
+      );
+
+      // Signed by the other account, but claiming to come from the citizen
+      const request = await forwarder.signRequest(otherAccount, {
+        to: key.address,
+        data: addKeyData(FIRST_KEY),
+        deadline: await deadline(),
+      });
+
+      await expect(
+        forwarder.execute({ ...request, from: citizen.account.address })
+      ).to.be.rejectedWith(ERC2771ForwarderInvalidSignerError);
+    });
+  });
+});
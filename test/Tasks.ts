@@ -0,0 +1,500 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { HardhatPluginError } from "hardhat/plugins";
+import { Address, getAddress, keccak256, toHex, zeroAddress } from "viem";
+
+import {
+  deployBaseFactory,
+  deployGovernmentFactory,
+  deployKey,
+  FactoryAlreadyRegisteredError,
+  FactoryKind,
+  InvalidSignatureError,
+  predictGovernmentAddress,
+} from "../src";
+import {
+  deployMockFactories,
+  governmentFactoryRegistration,
+  MOCK_FACTORY_KIND,
+} from "./helpers";
+
+describe("Tasks", function () {
+  // Deploy the stack without registering the factory, the tasks operate it
+  async function deployTasksFixture() {
+    const [owner, otherAccount, thirdAccount] =
+      await hre.viem.getWalletClients();
+    const publicClient = await hre.viem.getPublicClient();
+    const config = { publicClient, walletClient: owner };
+
+    const baseFactory = await deployBaseFactory(config);
+    const governmentFactory = await deployGovernmentFactory(
+      config,
+      baseFactory.address
+    );
+    const key = await deployKey(config);
+
+    return {
+      baseFactory,
+      governmentFactory,
+      key,
+      owner: owner.account.address,
+      otherAccount: otherAccount.account.address,
+      thirdAccount: thirdAccount.account.address,
+    };
+  }
+
+  // Run a task, returning its result and what it printed
+  async function runTask<T>(
+    name: string,
+    args: Record<string, unknown>
+  ): Promise<{ result: T; output: string[] }> {
+    const output: string[] = [];
+    const log = console.log;
+    console.log = (...data: unknown[]) => output.push(data.join(" "));
+    try {
+      const result = (await hre.run(name, args)) as T;
+      return { result, output };
+    } finally {
+      console.log = log;
+    }
+  }
+
+  interface TransactionResult {
+    hash: string;
+    events: string[];
+  }
+
+  describe("Factories", function () {
+    const VERSION = "1.0.0";
+
+    it("Should register a factory of the kind it declares and print the decoded event", async function () {
+      const { baseFactory, governmentFactory } = await loadFixture(
+        deployTasksFixture
+      );
+
+      const { result, output } = await runTask<TransactionResult>(
+        "factory:register",
+        {
+          baseFactory: baseFactory.address,
+          factory: governmentFactory.address,
+          factoryVersion: VERSION,
+          metadataUri: "ipfs://government-factory",
+        }
+      );
+
+      const event = `FactoryRegistered(factory: ${governmentFactory.address}, kind: ${FactoryKind.GOVERNMENT_FACTORY}, version: ${VERSION}, metadataURI: ipfs://government-factory)`;
+      expect(result.events).to.deep.equal([event]);
+      expect(output).to.deep.equal([
+        `Transaction ${result.hash}`,
+        `  ${event}`,
+      ]);
+      expect(await baseFactory.isFactory(governmentFactory.address)).to.be.true;
+    });
+
+    it("Should register a factory of the kind given with --kind", async function () {
+      const { baseFactory } = await loadFixture(deployTasksFixture);
+      const [factory] = await deployMockFactories(1);
+
+      await runTask("factory:register", {
+        baseFactory: baseFactory.address,
+        factory,
+        kind: MOCK_FACTORY_KIND,
+        factoryVersion: VERSION,
+      });
+
+      expect(await baseFactory.getFactory(factory)).to.include({
+        kind: MOCK_FACTORY_KIND,
+        version: VERSION,
+        metadataURI: "",
+      });
+    });
+
+    it("Should require --kind for factories that do not declare one", async function () {
+      const { baseFactory, key } = await loadFixture(deployTasksFixture);
+
+      await expect(
+        hre.run("factory:register", {
+          baseFactory: baseFactory.address,
+          factory: key.address,
+          factoryVersion: VERSION,
+        })
+      ).to.be.rejectedWith(`${key.address} has no FACTORY_KIND, set --kind`);
+      await expect(
+        hre.run("factory:register", {
+          baseFactory: baseFactory.address,
+          factory: key.address,
+          kind: "0x1234",
+          factoryVersion: VERSION,
+        })
+      ).to.be.rejectedWith("--kind is not a 4-byte interface id: 0x1234");
+    });
+
+    it("Should report the revert reason of a failing registration", async function () {
+      const { baseFactory, governmentFactory } = await loadFixture(
+        deployTasksFixture
+      );
+      const args = {
+        baseFactory: baseFactory.address,
+        factory: governmentFactory.address,
+        factoryVersion: VERSION,
+      };
+      await runTask("factory:register", args);
+
+      const error = await hre.run("factory:register", args).then(
+        () => expect.fail("Expected the task to fail"),
+        (error: HardhatPluginError) => error
+      );
+      expect(error.message).to.equal(
+        "Contract reverted with FactoryAlreadyRegistered()"
+      );
+      expect(error.parent).to.be.instanceOf(FactoryAlreadyRegisteredError);
+    });
+
+    it("Should send from the account given with --from", async function () {
+      const { baseFactory, governmentFactory, otherAccount } =
+        await loadFixture(deployTasksFixture);
+
+      // The other account is not a factory manager
+      await expect(
+        hre.run("factory:register", {
+          baseFactory: baseFactory.address,
+          factory: governmentFactory.address,
+          factoryVersion: VERSION,
+          from: otherAccount,
+        })
+      ).to.be.rejectedWith("AccessControlUnauthorizedAccount");
+    });
+
+    it("Should reject invalid addresses and unknown accounts", async function () {
+      const { baseFactory, governmentFactory } = await loadFixture(
+        deployTasksFixture
+      );
+
+      await expect(
+        hre.run("factory:register", {
+          baseFactory: "0x1234",
+          factory: governmentFactory.address,
+          factoryVersion: VERSION,
+        })
+      ).to.be.rejectedWith("--base-factory is not a valid address: 0x1234");
+      await expect(
+        hre.run("factory:register", {
+          baseFactory: baseFactory.address,
+          factory: governmentFactory.address,
+          factoryVersion: VERSION,
+          from: governmentFactory.address,
+        })
+      ).to.be.rejectedWith(
+        "is not an account of the hardhat network, set --from to one that is"
+      );
+    });
+
+    it("Should unregister a factory", async function () {
+      const { baseFactory, governmentFactory } = await loadFixture(
+        deployTasksFixture
+      );
+      const args = {
+        baseFactory: baseFactory.address,
+        factory: governmentFactory.address,
+      };
+      await runTask("factory:register", { ...args, factoryVersion: VERSION });
+
+      const { result } = await runTask<TransactionResult>(
+        "factory:unregister",
+        args
+      );
+
+      expect(result.events).to.deep.equal([
+        `FactoryUnregistered(factory: ${governmentFactory.address})`,
+      ]);
+      expect(await baseFactory.isFactory(governmentFactory.address)).to.be
+        .false;
+    });
+
+    it("Should list the registered factories", async function () {
+      const { baseFactory, governmentFactory } = await loadFixture(
+        deployTasksFixture
+      );
+      const [first, second] = await deployMockFactories(2);
+
+      const empty = await runTask("factory:list", {
+        baseFactory: baseFactory.address,
+      });
+      expect(empty.result).to.deep.equal([]);
+      expect(empty.output).to.deep.equal(["No registered factories"]);
+
+      await runTask("factory:register", {
+        baseFactory: baseFactory.address,
+        factory: governmentFactory.address,
+        factoryVersion: VERSION,
+        metadataUri: "ipfs://government-factory",
+      });
+      for (const factory of [first, second]) {
+        await runTask("factory:register", {
+          baseFactory: baseFactory.address,
+          factory,
+          kind: MOCK_FACTORY_KIND,
+          factoryVersion: VERSION,
+        });
+      }
+      await runTask("factory:unregister", {
+        baseFactory: baseFactory.address,
+        factory: first,
+      });
+
+      const { result, output } = await runTask("factory:list", {
+        baseFactory: baseFactory.address,
+      });
+      expect(result).to.have.members([governmentFactory.address, second]);
+      const { registeredAt } = await baseFactory.getFactory(
+        governmentFactory.address
+      );
+      expect(output).to.include(
+        `${governmentFactory.address}  ${
+          FactoryKind.GOVERNMENT_FACTORY
+        }  ${VERSION}  ${new Date(
+          Number(registeredAt) * 1000
+        ).toISOString()}  ipfs://government-factory`
+      );
+      expect(output).to.have.length(2);
+    });
+
+    it("Should list the factories of the kind given with --kind", async function () {
+      const { baseFactory, governmentFactory } = await loadFixture(
+        deployTasksFixture
+      );
+      await baseFactory.registerFactory(
+        governmentFactoryRegistration(governmentFactory.address)
+      );
+
+      const { result } = await runTask("factory:list", {
+        baseFactory: baseFactory.address,
+        kind: FactoryKind.GOVERNMENT_FACTORY,
+      });
+      expect(result).to.deep.equal([governmentFactory.address]);
+
+      const other = await runTask("factory:list", {
+        baseFactory: baseFactory.address,
+        kind: MOCK_FACTORY_KIND,
+      });
+      expect(other.result).to.deep.equal([]);
+      expect(other.output).to.deep.equal(["No registered factories"]);
+    });
+  });
+
+  describe("Governments", function () {
+    async function deployRegisteredFactoryFixture() {
+      const fixture = await deployTasksFixture();
+      await fixture.baseFactory.registerFactory(
+        governmentFactoryRegistration(fixture.governmentFactory.address)
+      );
+      return fixture;
+    }
+
+    it("Should create a government", async function () {
+      const { governmentFactory, otherAccount } = await loadFixture(
+        deployRegisteredFactoryFixture
+      );
+
+      const { result, output } = await runTask<
+        TransactionResult & { government: Address }
+      >("gov:create", {
+        factory: governmentFactory.address,
+        owner: otherAccount,
+      });
+
+      expect(await governmentFactory.isGovernment(result.government)).to.be
+        .true;
+      expect(result.events).to.deep.equal([
+        `GovernmentCreated(government: ${
+          result.government
+        }, owner: ${getAddress(otherAccount)})`,
+      ]);
+      expect(output[output.length - 1]).to.equal(
+        `Government ${result.government}`
+      );
+    });
+
+    it("Should create a government at the predicted address with --salt", async function () {
+      const { governmentFactory, otherAccount } = await loadFixture(
+        deployRegisteredFactoryFixture
+      );
+      const salt = keccak256(toHex("poligov-task-salt"));
+
+      const { result } = await runTask<{ government: string }>("gov:create", {
+        factory: governmentFactory.address,
+        owner: otherAccount,
+        salt,
+      });
+
+      expect(result.government).to.equal(
+        predictGovernmentAddress({
+          factory: governmentFactory.address,
+          governmentOwner: otherAccount,
+          beacon: await governmentFactory.beacon(),
+          salt,
+        })
+      );
+    });
+
+    it("Should report the revert reason of a failing creation", async function () {
+      const { governmentFactory, otherAccount } = await loadFixture(
+        deployTasksFixture
+      );
+
+      await expect(
+        hre.run("gov:create", {
+          factory: governmentFactory.address,
+          owner: otherAccount,
+        })
+      ).to.be.rejectedWith("Contract reverted with FactoryNotRegistered()");
+    });
+
+    it("Should transfer a government to the account that accepts it", async function () {
+      const { governmentFactory, owner, otherAccount } = await loadFixture(
+        deployRegisteredFactoryFixture
+      );
+      const government = await governmentFactory.createGovernment(owner);
+
+      const transfer = await runTask<TransactionResult>("gov:transfer", {
+        government,
+        to: otherAccount,
+      });
+      expect(transfer.result.events).to.deep.equal([
+        `OwnershipTransferStarted(previousOwner: ${getAddress(
+          owner
+        )}, newOwner: ${getAddress(otherAccount)})`,
+      ]);
+
+      await runTask("gov:accept", { government, from: otherAccount });
+      expect(await governmentFactory.government(government).owner()).to.equal(
+        getAddress(otherAccount)
+      );
+    });
+
+    it("Should not let another account accept a government", async function () {
+      const { governmentFactory, owner, otherAccount, thirdAccount } =
+        await loadFixture(deployRegisteredFactoryFixture);
+      const government = await governmentFactory.createGovernment(owner);
+      await runTask("gov:transfer", { government, to: otherAccount });
+
+      await expect(
+        hre.run("gov:accept", { government, from: thirdAccount })
+      ).to.be.rejectedWith("OwnableUnauthorizedAccount");
+    });
+  });
+
+  describe("Keys", function () {
+    it("Should add a key", async function () {
+      const { key, owner, otherAccount } = await loadFixture(
+        deployTasksFixture
+      );
+
+      const { result } = await runTask<TransactionResult>("key:add", {
+        registry: key.address,
+        key: otherAccount,
+      });
+
+      expect(await key.keys(owner)).to.equal(getAddress(otherAccount));
+      expect(result.events).to.deep.equal([
+        `KeyAdded(account: ${getAddress(owner)}, key: ${getAddress(
+          otherAccount
+        )})`,
+      ]);
+    });
+
+    it("Should rotate a key with a rotation signed by the current key", async function () {
+      const { key, owner, otherAccount, thirdAccount } = await loadFixture(
+        deployTasksFixture
+      );
+      await runTask("key:add", { registry: key.address, key: otherAccount });
+
+      // The other account holds the current key and signs the rotation
+      const { result } = await runTask<TransactionResult>("key:rotate", {
+        registry: key.address,
+        newKey: thirdAccount,
+      });
+
+      expect(await key.keys(owner)).to.equal(getAddress(thirdAccount));
+      expect(result.events).to.deep.equal([
+        `KeyReplaced(account: ${getAddress(owner)}, oldKey: ${getAddress(
+          otherAccount
+        )}, newKey: ${getAddress(thirdAccount)})`,
+      ]);
+    });
+
+    it("Should report an invalid rotation signature", async function () {
+      const { key, owner, otherAccount, thirdAccount } = await loadFixture(
+        deployTasksFixture
+      );
+      await runTask("key:add", { registry: key.address, key: otherAccount });
+
+      // Signed by an account that does not hold the current key
+      const error = await hre
+        .run("key:rotate", {
+          registry: key.address,
+          newKey: thirdAccount,
+          signer: owner,
+        })
+        .then(
+          () => expect.fail("Expected the task to fail"),
+          (error: HardhatPluginError) => error
+        );
+      expect(error.message).to.equal(
+        "Contract reverted with InvalidSignature()"
+      );
+      expect(error.parent).to.be.instanceOf(InvalidSignatureError);
+    });
+
+    it("Should name --signer when the signer is not a configured account", async function () {
+      const { key, governmentFactory, otherAccount, thirdAccount } =
+        await loadFixture(deployTasksFixture);
+      await runTask("key:add", { registry: key.address, key: otherAccount });
+
+      await expect(
+        hre.run("key:rotate", {
+          registry: key.address,
+          newKey: thirdAccount,
+          signer: governmentFactory.address,
+        })
+      ).to.be.rejectedWith(
+        `${governmentFactory.address} is not an account of the hardhat network, set --signer to one that is`
+      );
+      await expect(
+        hre.run("key:rotate", {
+          registry: key.address,
+          newKey: thirdAccount,
+          signer: "0x1234",
+        })
+      ).to.be.rejectedWith("--signer is not a valid address: 0x1234");
+    });
+
+    it("Should not rotate without a key", async function () {
+      const { key, owner, thirdAccount } = await loadFixture(
+        deployTasksFixture
+      );
+
+      await expect(
+        hre.run("key:rotate", { registry: key.address, newKey: thirdAccount })
+      ).to.be.rejectedWith(`${getAddress(owner)} has no key to rotate`);
+    });
+
+    it("Should show the keys of an account", async function () {
+      const { key, owner, otherAccount } = await loadFixture(
+        deployTasksFixture
+      );
+      await runTask("key:add", { registry: key.address, key: otherAccount });
+
+      const { result, output } = await runTask<{ primaryKey: string }>(
+        "key:show",
+        { registry: key.address, account: owner }
+      );
+
+      expect(result.primaryKey).to.equal(getAddress(otherAccount));
+      expect(output).to.include(`Primary key ${getAddress(otherAccount)}`);
+      expect(output).to.include(`Guardian    ${zeroAddress}`);
+      expect(output).to.include("Nonce       0");
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import hre from "hardhat";
+import { getAddress, type Address, type Hex } from "viem";
+
+import {
+  deployBaseFactory,
+  deployGovernmentFactory,
+  deployKey,
+  FactoryKind,
+  type FactoryRegistration,
+} from "../../src";
+
+/** A Hardhat wallet client, whose account is always defined */
+export type TestWalletClient = Awaited<
+  ReturnType<typeof hre.viem.getWalletClients>
+>[number];
+
+/**
+ * Deploy the whole stack from the first account, which holds every
+ * BaseFactory role: a BaseFactory, a GovernmentFactory registered in it and
+ * a Key registry. No government is created yet.
+ */
+export async function deployStackFixture() {
+  const [owner, otherAccount, thirdAccount] = await hre.viem.getWalletClients();
+  const publicClient = await hre.viem.getPublicClient();
+  const config = { publicClient, walletClient: owner };
+
+  const baseFactory = await deployBaseFactory(config);
+  const governmentFactory = await deployGovernmentFactory(
+    config,
+    baseFactory.address
+  );
+  await baseFactory.registerFactory(
+    factoryRegistration(
+      governmentFactory.address,
+      FactoryKind.GOVERNMENT_FACTORY
+    )
+  );
+  const key = await deployKey(config);
+
+  return {
+    baseFactory,
+    governmentFactory,
+    key,
+    owner,
+    otherAccount,
+    thirdAccount,
+    publicClient,
+  };
+}
+
+export type StackFixture = Awaited<ReturnType<typeof deployStackFixture>>;
+
+/** Kind of the mock factories, an interface id no real factory declares */
+export const MOCK_FACTORY_KIND: Hex = "0x4d4f434b";
+
+/**
+ * Describe a factory for its registration in a BaseFactory
+ * @param factory The address of the factory
+ * @param kind The kind it registers as, which it must support
+ */
+export function factoryRegistration(
+  factory: Address,
+  kind: Hex = MOCK_FACTORY_KIND
+): Required<FactoryRegistration> {
+  return {
+    factory,
+    kind,
+    version: "1.0.0",
+    metadataURI: `ipfs://factory/${factory.toLowerCase()}`,
+  };
+}
+
+/**
+ * Describe a GovernmentFactory for its registration in a BaseFactory
+ * @param factory The address of the GovernmentFactory
+ */
+export function governmentFactoryRegistration(
+  factory: Address
+): Required<FactoryRegistration> {
+  return factoryRegistration(factory, FactoryKind.GOVERNMENT_FACTORY);
+}
+
+/**
+ * Deploy factories that only declare a kind, to be registered in a BaseFactory
+ * @param count The number of factories to deploy
+ * @param kind The kind they declare
+ */
+export async function deployMockFactories(
+  count: number,
+  kind: Hex = MOCK_FACTORY_KIND
+): Promise<Address[]> {
+  const factories: Address[] = [];
+  for (let i = 0; i < count; i++) {
+    const { address } = await hre.viem.deployContract("MockFactory", [kind]);
+    factories.push(getAddress(address));
+  }
+  return factories;
+}
@@ -0,0 +1,261 @@
+import { promises as fs } from "fs";
+import hre from "hardhat";
+import path from "path";
+import type { Abi, Address, PublicClient } from "viem";
+
+import type { TestWalletClient } from "./fixtures";
+
+/** Committed baseline the gas report is compared against */
+export const GAS_REPORT_PATH = path.join(
+  hre.config.paths.root,
+  "gas-report.json"
+);
+
+/** Increase tolerated by a new baseline, in percent */
+const DEFAULT_BUDGET_PERCENT = 5;
+
+export const reportedContracts = [
+  "BaseFactory",
+  "GovernmentFactory",
+  "Government",
+  "Key",
+] as const;
+export type ReportedContract = (typeof reportedContracts)[number];
+
+export interface ContractGasReport {
+  /** Size of the deployed bytecode, in bytes */
+  bytecodeSize: number;
+  /** Gas used by each public function, by function name */
+  functions: Record<string, number>;
+}
+
+export interface GasReport {
+  /** Largest increase tolerated for any entry, in percent of the baseline */
+  budgetPercent: number;
+  contracts: Record<ReportedContract, ContractGasReport>;
+}
+
+/** A deployed contract, such as an SDK client */
+interface MeteredContract {
+  address: Address;
+  abi: Abi;
+}
+
+/**
+ * Records the gas of one call of every public function.
+ * Writes are measured by the gas used by their transaction, reads by the gas
+ * estimated for a transaction calling them.
+ */
+export class GasMeter {
+  private readonly gas = new Map<ReportedContract, Record<string, number>>();
+
+  constructor(private readonly publicClient: PublicClient) {}
+
+  /**
+   * Send a transaction calling a function and record the gas it used
+   * @param name The reported contract
+   * @param contract The deployed contract to call
+   * @param from The wallet client sending the transaction
+   * @param functionName The function to call
+   * @param args The arguments of the call
+   */
+  async write(
+    name: ReportedContract,
+    contract: MeteredContract,
+    from: TestWalletClient,
+    functionName: string,
+    args: readonly unknown[] = []
+  ): Promise<void> {
+    const hash = await from.writeContract({
+      address: contract.address,
+      abi: contract.abi,
+      functionName,
+      args,
+      account: from.account,
+      chain: from.chain,
+    } as Parameters<TestWalletClient["writeContract"]>[0]);
+    const { gasUsed } = await this.publicClient.waitForTransactionReceipt({
+      hash,
+    });
+    this.record(name, functionName, gasUsed);
+  }
+
+  /**
+   * Estimate the gas of a transaction calling a function and record it
+   * @param name The reported contract
+   * @param contract The deployed contract to call
+   * @param functionName The function to call
+   * @param args The arguments of the call
+   */
+  async read(
+    name: ReportedContract,
+    contract: MeteredContract,
+    functionName: string,
+    args: readonly unknown[] = []
+  ): Promise<void> {
+    const gas = await this.publicClient.estimateContractGas({
+      address: contract.address,
+      abi: contract.abi,
+      functionName,
+      args,
+    });
+    this.record(name, functionName, gas);
+  }
+
+  /**
+   * Get the gas recorded for the functions of a contract, sorted by name
+   * @param name The reported contract
+   */
+  functions(name: ReportedContract): Record<string, number> {
+    return Object.fromEntries(
+      Object.entries(this.gas.get(name) ?? {}).sort(([a], [b]) =>
+        a.localeCompare(b)
+      )
+    );
+  }
+
+  private record(
+    name: ReportedContract,
+    functionName: string,
+    gas: bigint
+  ): void {
+    const functions = this.gas.get(name) ?? {};
+    if (functionName in functions) {
+      throw new Error(`${name}.${functionName} is measured twice`);
+    }
+    functions[functionName] = Number(gas);
+    this.gas.set(name, functions);
+  }
+}
+
+/**
+ * Get the names of the public functions of a contract from its artifact
+ * @param name The reported contract
+ */
+export async function publicFunctions(
+  name: ReportedContract
+): Promise<string[]> {
+  const { abi } = await hre.artifacts.readArtifact(name);
+  return (abi as Abi)
+    .filter((item) => item.type === "function")
+    .map((item) => (item as { name: string }).name)
+    .sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Get the size of the deployed bytecode of a contract from its artifact
+ * @param name The reported contract
+ */
+export async function bytecodeSize(name: ReportedContract): Promise<number> {
+  const { deployedBytecode } = await hre.artifacts.readArtifact(name);
+  return (deployedBytecode.length - 2) / 2;
+}
+
+/**
+ * Read the committed gas report
+ * @returns The baseline
+ */
+export async function readGasReport(): Promise<GasReport> {
+  const content = await fs.readFile(GAS_REPORT_PATH, "utf8").catch(() => {
+    throw new Error(
+      `No gas report at ${GAS_REPORT_PATH}, create it with UPDATE_GAS_REPORT=true npx hardhat test test/GasReport.ts`
+    );
+  });
+  return JSON.parse(content) as GasReport;
+}
+
+/**
+ * Write a gas report as the new baseline, keeping the budget of the previous one
+ * @param report The measured report
+ */
+export async function writeGasReport(
+  report: Omit<GasReport, "budgetPercent">
+): Promise<void> {
+  const previous = await readGasReport().catch(() => undefined);
+  const baseline: GasReport = {
+    budgetPercent: previous?.budgetPercent ?? DEFAULT_BUDGET_PERCENT,
+    contracts: report.contracts,
+  };
+  await fs.writeFile(GAS_REPORT_PATH, `${JSON.stringify(baseline, null, 2)}\n`);
+}
+
+/**
+ * Flatten a report into labelled entries, e.g. "Key.addKey" or "Key bytecode size"
+ * @param report The report to flatten
+ */
+function reportEntries(
+  report: Omit<GasReport, "budgetPercent">
+): Map<string, number> {
+  const entries = new Map<string, number>();
+  for (const [name, { bytecodeSize, functions }] of Object.entries(
+    report.contracts
+  )) {
+    entries.set(`${name} bytecode size`, bytecodeSize);
+    for (const [functionName, gas] of Object.entries(functions)) {
+      entries.set(`${name}.${functionName}`, gas);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Compare a measured report with the baseline
+ * @param baseline The committed report
+ * @param current The measured report
+ * @returns The entries over budget, missing or new, and a table of every change
+ */
+export function compareGasReports(
+  baseline: GasReport,
+  current: Omit<GasReport, "budgetPercent">
+): { failures: string[]; diff: string } {
+  const before = reportEntries(baseline);
+  const after = reportEntries(current);
+  const labels = [...new Set([...before.keys(), ...after.keys()])];
+  const format = (value: number | undefined) =>
+    value === undefined ? "-" : value.toLocaleString("en-US");
+
+  const failures: string[] = [];
+  const rows: string[][] = [];
+  for (const label of labels) {
+    const previous = before.get(label);
+    const measured = after.get(label);
+    if (previous === measured) continue;
+
+    let change: string;
+    if (previous === undefined) {
+      change = "new";
+      failures.push(label);
+    } else if (measured === undefined) {
+      change = "removed";
+      failures.push(label);
+    } else {
+      const percent = ((measured - previous) / previous) * 100;
+      change = `${percent > 0 ? "+" : ""}${percent.toFixed(2)}%`;
+      if (percent > baseline.budgetPercent) {
+        change += "  over budget";
+        failures.push(label);
+      }
+    }
+    rows.push([label, format(previous), format(measured), change]);
+  }
+
+  // Align the columns, numbers to the right
+  const header = ["", "baseline", "measured", "change"];
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column].length))
+  );
+  const diff = [header, ...rows]
+    .map(([label, previous, measured, change]) =>
+      [
+        label.padEnd(widths[0]),
+        previous.padStart(widths[1]),
+        measured.padStart(widths[2]),
+        change,
+      ]
+        .join("  ")
+        .trimEnd()
+    )
+    .join("\n");
+
+  return { failures, diff: rows.length > 0 ? diff : "No changes" };
+}
@@ -0,0 +1,4 @@
+import "./matchers";
+
+export * from "./fixtures";
+export * from "./time";
@@ -0,0 +1,220 @@
+import chai from "chai";
+import hre from "hardhat";
+import { isDeepStrictEqual } from "util";
+import {
+  getAddress,
+  isAddress,
+  isAddressEqual,
+  parseEventLogs,
+  type Abi,
+  type Address,
+  type ContractErrorName,
+  type ContractEventName,
+  type Hash,
+} from "viem";
+
+import { ContractError, decodeContractError } from "../../src";
+
+/** A deployed contract, such as an SDK client */
+interface AbiContract<TAbi extends Abi> {
+  address: Address;
+  abi: TAbi;
+}
+
+declare global {
+  namespace Chai {
+    interface Assertion {
+      /**
+       * Assert that the promise rejects with a custom error of the contract
+       * @param contract The contract or ABI holding the error
+       * @param errorName The name of the Solidity custom error
+       * @param args The expected arguments of the error, unchecked if omitted
+       */
+      revertedWithCustomError<const TAbi extends Abi>(
+        contract: { abi: TAbi },
+        errorName: ContractErrorName<TAbi>,
+        args?: readonly unknown[]
+      ): Promise<void>;
+      /**
+       * Assert that the transaction, or the promise of its hash, emitted an
+       * event from the contract
+       * @param contract The contract emitting the event
+       * @param eventName The name of the Solidity event
+       */
+      emitEvent<const TAbi extends Abi>(
+        contract: AbiContract<TAbi>,
+        eventName: ContractEventName<TAbi>
+      ): EmitEventAssertion;
+    }
+
+    interface EmitEventAssertion extends PromiseLike<void> {
+      /**
+       * Assert that one of the emitted events has these arguments
+       * @param args The expected named arguments of the event
+       */
+      withArgs(args: Record<string, unknown>): EmitEventAssertion;
+    }
+  }
+}
+
+/**
+ * Checksum every address in a decoded value so they compare equal regardless
+ * of their casing
+ * @param value A decoded argument
+ */
+function normalize(value: unknown): unknown {
+  if (typeof value === "string" && isAddress(value, { strict: false })) {
+    return getAddress(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, normalize(entry)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Find whether the ABI declares a member with the given type and name
+ * @param abi The ABI to search
+ * @param type The kind of member, error or event
+ * @param name The name of the member
+ */
+function hasAbiItem(abi: Abi, type: "error" | "event", name: string): boolean {
+  return abi.some((item) => item.type === type && item.name === name);
+}
+
+chai.use(({ Assertion, AssertionError }, utils) => {
+  Assertion.addMethod(
+    "revertedWithCustomError",
+    function (
+      this: Chai.AssertionStatic,
+      contract: { abi: Abi },
+      errorName: string,
+      args?: readonly unknown[]
+    ) {
+      if (!hasAbiItem(contract.abi, "error", errorName)) {
+        throw new AssertionError(
+          `The contract ABI has no custom error named ${errorName}`
+        );
+      }
+      const negated = Boolean(utils.flag(this, "negate"));
+
+      return Promise.resolve(this._obj).then(
+        () => {
+          if (!negated) {
+            throw new AssertionError(
+              `Expected the call to revert with ${errorName}, but it did not revert`
+            );
+          }
+        },
+        (error: unknown) => {
+          const decoded =
+            error instanceof ContractError
+              ? error
+              : decodeContractError(error, contract.abi);
+          if (!(decoded instanceof ContractError)) {
+            if (negated) return;
+            throw new AssertionError(
+              `Expected the call to revert with ${errorName}, but it failed with: ${String(
+                error
+              )}`
+            );
+          }
+
+          const matches =
+            decoded.errorName === errorName &&
+            (args === undefined ||
+              isDeepStrictEqual(normalize(decoded.args), normalize(args)));
+          if (negated) {
+            if (matches) {
+              throw new AssertionError(
+                `Expected the call not to revert with ${errorName}, but it did`
+              );
+            }
+            return;
+          }
+
+          new Assertion(
+            decoded.errorName,
+            `Expected the call to revert with ${errorName}, but it reverted with ${decoded.errorName}`
+          ).to.equal(errorName);
+          if (args !== undefined) {
+            new Assertion(
+              normalize(decoded.args),
+              `${errorName} was reverted with other arguments`
+            ).to.deep.equal(normalize(args));
+          }
+        }
+      );
+    }
+  );
+
+  Assertion.addMethod(
+    "emitEvent",
+    function (
+      this: Chai.AssertionStatic,
+      contract: AbiContract<Abi>,
+      eventName: string
+    ) {
+      if (!hasAbiItem(contract.abi, "event", eventName)) {
+        throw new AssertionError(
+          `The contract ABI has no event named ${eventName}`
+        );
+      }
+      const negated = Boolean(utils.flag(this, "negate"));
+
+      // Decode the events of the contract once the transaction is mined
+      let assertion = Promise.resolve(this._obj as Hash | Promise<Hash>).then(
+        async (hash) => {
+          const publicClient = await hre.viem.getPublicClient();
+          const { logs } = await publicClient.getTransactionReceipt({ hash });
+          const events = parseEventLogs({
+            abi: contract.abi,
+            logs: logs.filter((log) =>
+              isAddressEqual(log.address, contract.address)
+            ),
+          }).filter((event) => event.eventName === eventName);
+
+          if (negated && events.length > 0) {
+            throw new AssertionError(
+              `Expected no ${eventName} event, but ${events.length} were emitted`
+            );
+          }
+          if (!negated && events.length === 0) {
+            throw new AssertionError(
+              `Expected a ${eventName} event, but none was emitted`
+            );
+          }
+          return events.map((event) => normalize(event.args));
+        }
+      );
+
+      const emitEventAssertion: Chai.EmitEventAssertion = {
+        withArgs(args) {
+          const expected = normalize(args);
+          assertion = assertion.then((emitted) => {
+            if (
+              !emitted.some((actual) => isDeepStrictEqual(actual, expected))
+            ) {
+              // Diff against the only event when there is no ambiguity
+              new Assertion(
+                emitted.length === 1 ? emitted[0] : emitted,
+                `No ${eventName} event was emitted with these arguments`
+              ).to.deep.equal(expected);
+            }
+            return emitted;
+          });
+          return emitEventAssertion;
+        },
+        then(onFulfilled, onRejected) {
+          return assertion.then(() => undefined).then(onFulfilled, onRejected);
+        },
+      };
+      return emitEventAssertion;
+    }
+  );
+});
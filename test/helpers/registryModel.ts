@@ -0,0 +1,518 @@
+import { time } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import fc from "fast-check";
+import hre from "hardhat";
+import {
+  getAddress,
+  zeroAddress,
+  type Address,
+  type PublicClient,
+  type WalletClient,
+} from "viem";
+
+import {
+  AccessControlUnauthorizedAccountError,
+  baseFactoryAbi,
+  BaseFactoryClient,
+  deployBaseFactory,
+  deployGovernmentFactory,
+  deployKey,
+  FactoryAlreadyRegisteredError,
+  FactoryKind,
+  FactoryNotRegisteredError,
+  governmentFactoryAbi,
+  GovernmentFactoryClient,
+  InvalidKeyAddressError,
+  InvalidSignatureError,
+  KeyAlreadyExistsError,
+  keyAbi,
+  KeyClient,
+  NoKeyToReplaceError,
+  NotAuthorizedError,
+  OwnableUnauthorizedAccountError,
+  UnsupportedFactoryKindError,
+  ZeroAddressNotAllowedError,
+  type ContractError,
+} from "../../src";
+import { deployMockFactories, governmentFactoryRegistration } from "./fixtures";
+
+/** Number of accounts the generated calls are sent from */
+export const ACCOUNT_COUNT = 4;
+
+/**
+ * The deployed contracts the commands run against
+ */
+export interface RegistrySystem {
+  baseFactory: BaseFactoryClient;
+  governmentFactory: GovernmentFactoryClient;
+  key: KeyClient;
+  /** Senders of the generated calls, the first one holds every BaseFactory role */
+  wallets: WalletClient[];
+  /** Addresses the generated registrations pick from, the zero address included */
+  factoryPool: Address[];
+  /** Addresses of the pool that support the GovernmentFactory kind */
+  governmentFactories: Address[];
+  publicClient: PublicClient;
+  /** Block the contracts were deployed in, events are replayed from it */
+  fromBlock: bigint;
+}
+
+/**
+ * What the contracts should hold after the commands run so far
+ */
+export interface RegistryModel {
+  factories: Set<Address>;
+  governments: { address: Address; owner: Address; pendingOwner: Address }[];
+  keys: Map<Address, Address>;
+}
+
+type RegistryCommand = fc.AsyncCommand<RegistryModel, RegistrySystem>;
+
+type ContractErrorClass = new (...args: never[]) => ContractError;
+
+/**
+ * Deploy the registry contracts, with the GovernmentFactory registered
+ */
+export async function deployRegistrySystemFixture(): Promise<RegistrySystem> {
+  const wallets = (await hre.viem.getWalletClients()).slice(0, ACCOUNT_COUNT);
+  const publicClient = await hre.viem.getPublicClient();
+  const config = { publicClient, walletClient: wallets[0] };
+  const fromBlock = await publicClient.getBlockNumber();
+
+  const baseFactory = await deployBaseFactory(config);
+  const governmentFactory = await deployGovernmentFactory(
+    config,
+    baseFactory.address
+  );
+  const key = await deployKey(config);
+  await baseFactory.registerFactory(
+    governmentFactoryRegistration(governmentFactory.address)
+  );
+  const [mockFactory] = await deployMockFactories(
+    1,
+    FactoryKind.GOVERNMENT_FACTORY
+  );
+
+  return {
+    baseFactory,
+    governmentFactory,
+    key,
+    wallets,
+    // Key and the account do not support the kind they are registered as
+    factoryPool: [
+      governmentFactory.address,
+      mockFactory,
+      key.address,
+      accountOf(wallets[1]),
+      zeroAddress,
+    ],
+    governmentFactories: [governmentFactory.address, mockFactory],
+    publicClient,
+    fromBlock,
+  };
+}
+
+/**
+ * The model of a freshly deployed system
+ */
+export function initialRegistryModel(system: RegistrySystem): RegistryModel {
+  return {
+    factories: new Set([system.governmentFactory.address]),
+    governments: [],
+    keys: new Map(),
+  };
+}
+
+function accountOf(wallet: WalletClient): Address {
+  if (!wallet.account) {
+    throw new Error("Wallet account is undefined");
+  }
+  return getAddress(wallet.account.address);
+}
+
+/**
+ * Await a call, checking it reverts with the predicted error or succeeds
+ * @param call The contract call
+ * @param error The error the model predicts, undefined if the call should succeed
+ */
+async function expectOutcome(
+  call: Promise<unknown>,
+  error: ContractErrorClass | undefined
+): Promise<boolean> {
+  if (error) {
+    await expect(call).to.be.rejectedWith(error);
+    return false;
+  }
+  await call;
+  return true;
+}
+
+/**
+ * Check every invariant of the system against its events and the model
+ * @param model The expected state
+ * @param system The deployed contracts
+ */
+export async function checkInvariants(
+  model: RegistryModel,
+  system: RegistrySystem
+): Promise<void> {
+  const { baseFactory, governmentFactory, key, publicClient, fromBlock } =
+    system;
+
+  // isFactory matches the set derived from the registration events
+  const registered = new Set<Address>();
+  const factoryEvents = await publicClient.getContractEvents({
+    abi: baseFactoryAbi,
+    address: baseFactory.address,
+    fromBlock,
+    strict: true,
+  });
+  for (const event of factoryEvents) {
+    if (event.eventName === "FactoryRegistered") {
+      registered.add(event.args.factory);
+    } else if (event.eventName === "FactoryUnregistered") {
+      registered.delete(event.args.factory);
+    }
+  }
+  expect(registered).to.deep.equal(model.factories);
+  for (const factory of system.factoryPool) {
+    expect(await baseFactory.isFactory(factory)).to.equal(
+      registered.has(factory)
+    );
+  }
+  expect(await baseFactory.factoryCount()).to.equal(BigInt(registered.size));
+  expect(
+    await baseFactory.factoriesOfKind(FactoryKind.GOVERNMENT_FACTORY)
+  ).to.have.members([...registered]);
+
+  // Every created government is recognized and owned as the model says
+  const created = await publicClient.getContractEvents({
+    abi: governmentFactoryAbi,
+    address: governmentFactory.address,
+    eventName: "GovernmentCreated",
+    fromBlock,
+  });
+  expect(created.map((event) => event.args.government)).to.deep.equal(
+    model.governments.map(({ address }) => address)
+  );
+  expect(await governmentFactory.governmentCount()).to.equal(
+    BigInt(model.governments.length)
+  );
+  for (const { address, owner, pendingOwner } of model.governments) {
+    const government = governmentFactory.government(address);
+    expect(await governmentFactory.isGovernment(address)).to.be.true;
+    expect(await government.owner()).to.equal(owner);
+    expect(await government.pendingOwner()).to.equal(pendingOwner);
+  }
+
+  // keys[a] is the key of the last KeyAdded or KeyReplaced of a
+  const lastKeys = new Map<Address, Address>();
+  const keyEvents = await publicClient.getContractEvents({
+    abi: keyAbi,
+    address: key.address,
+    fromBlock,
+    strict: true,
+  });
+  for (const event of keyEvents) {
+    if (event.eventName === "KeyAdded") {
+      lastKeys.set(event.args.account, event.args.key);
+    } else if (event.eventName === "KeyReplaced") {
+      lastKeys.set(event.args.account, event.args.newKey);
+    }
+  }
+  expect(lastKeys).to.deep.equal(model.keys);
+  for (const wallet of system.wallets) {
+    const account = accountOf(wallet);
+    expect(await key.keys(account)).to.equal(
+      lastKeys.get(account) ?? zeroAddress
+    );
+  }
+}
+
+class RegisterFactoryCommand implements RegistryCommand {
+  constructor(readonly from: number, readonly factory: number) {}
+
+  check(): boolean {
+    return true;
+  }
+
+  async run(model: RegistryModel, system: RegistrySystem): Promise<void> {
+    const factory = system.factoryPool[this.factory];
+    const error =
+      this.from !== 0
+        ? AccessControlUnauthorizedAccountError
+        : factory === zeroAddress
+        ? ZeroAddressNotAllowedError
+        : model.factories.has(factory)
+        ? FactoryAlreadyRegisteredError
+        : !system.governmentFactories.includes(factory)
+        ? UnsupportedFactoryKindError
+        : undefined;
+
+    const call = system.baseFactory
+      .connect(system.wallets[this.from])
+      .registerFactory(governmentFactoryRegistration(factory));
+    if (await expectOutcome(call, error)) {
+      model.factories.add(factory);
+    }
+    await checkInvariants(model, system);
+  }
+
+  toString(): string {
+    return `registerFactory(factory${this.factory}) from account${this.from}`;
+  }
+}
+
+class UnregisterFactoryCommand implements RegistryCommand {
+  constructor(readonly from: number, readonly factory: number) {}
+
+  check(): boolean {
+    return true;
+  }
+
+  async run(model: RegistryModel, system: RegistrySystem): Promise<void> {
+    const factory = system.factoryPool[this.factory];
+    const error =
+      this.from !== 0
+        ? AccessControlUnauthorizedAccountError
+        : !model.factories.has(factory)
+        ? FactoryNotRegisteredError
+        : undefined;
+
+    const call = system.baseFactory
+      .connect(system.wallets[this.from])
+      .unregisterFactory(factory);
+    if (await expectOutcome(call, error)) {
+      model.factories.delete(factory);
+    }
+    await checkInvariants(model, system);
+  }
+
+  toString(): string {
+    return `unregisterFactory(factory${this.factory}) from account${this.from}`;
+  }
+}
+
+class CreateGovernmentCommand implements RegistryCommand {
+  constructor(readonly from: number, readonly owner: number | null) {}
+
+  check(): boolean {
+    return true;
+  }
+
+  async run(model: RegistryModel, system: RegistrySystem): Promise<void> {
+    const owner =
+      this.owner === null ? zeroAddress : accountOf(system.wallets[this.owner]);
+    const error =
+      this.from !== 0
+        ? NotAuthorizedError
+        : !model.factories.has(system.governmentFactory.address)
+        ? FactoryNotRegisteredError
+        : owner === zeroAddress
+        ? ZeroAddressNotAllowedError
+        : undefined;
+
+    const call = system.governmentFactory
+      .connect(system.wallets[this.from])
+      .createGovernment(owner);
+    if (await expectOutcome(call, error)) {
+      model.governments.push({
+        address: await call,
+        owner,
+        pendingOwner: zeroAddress,
+      });
+    }
+    await checkInvariants(model, system);
+  }
+
+  toString(): string {
+    const owner = this.owner === null ? "zero" : `account${this.owner}`;
+    return `createGovernment(${owner}) from account${this.from}`;
+  }
+}
+
+class TransferOwnershipCommand implements RegistryCommand {
+  constructor(
+    readonly government: number,
+    readonly from: number,
+    readonly to: number | null
+  ) {}
+
+  check(model: Readonly<RegistryModel>): boolean {
+    return model.governments.length > 0;
+  }
+
+  async run(model: RegistryModel, system: RegistrySystem): Promise<void> {
+    const government =
+      model.governments[this.government % model.governments.length];
+    const sender = accountOf(system.wallets[this.from]);
+    const to =
+      this.to === null ? zeroAddress : accountOf(system.wallets[this.to]);
+    const error =
+      sender !== government.owner ? OwnableUnauthorizedAccountError : undefined;
+
+    const call = system.governmentFactory
+      .connect(system.wallets[this.from])
+      .government(government.address)
+      .transferOwnership(to);
+    if (await expectOutcome(call, error)) {
+      government.pendingOwner = to;
+    }
+    await checkInvariants(model, system);
+  }
+
+  toString(): string {
+    const to = this.to === null ? "zero" : `account${this.to}`;
+    return `government${this.government}.transferOwnership(${to}) from account${this.from}`;
+  }
+}
+
+class AcceptOwnershipCommand implements RegistryCommand {
+  constructor(readonly government: number, readonly from: number) {}
+
+  check(model: Readonly<RegistryModel>): boolean {
+    return model.governments.length > 0;
+  }
+
+  async run(model: RegistryModel, system: RegistrySystem): Promise<void> {
+    const government =
+      model.governments[this.government % model.governments.length];
+    const sender = accountOf(system.wallets[this.from]);
+    const error =
+      sender !== government.pendingOwner
+        ? OwnableUnauthorizedAccountError
+        : undefined;
+
+    const call = system.governmentFactory
+      .connect(system.wallets[this.from])
+      .government(government.address)
+      .acceptOwnership();
+    if (await expectOutcome(call, error)) {
+      government.owner = sender;
+      government.pendingOwner = zeroAddress;
+    }
+    await checkInvariants(model, system);
+  }
+
+  toString(): string {
+    return `government${this.government}.acceptOwnership() from account${this.from}`;
+  }
+}
+
+class AddKeyCommand implements RegistryCommand {
+  constructor(readonly from: number, readonly key: number | null) {}
+
+  check(): boolean {
+    return true;
+  }
+
+  async run(model: RegistryModel, system: RegistrySystem): Promise<void> {
+    const account = accountOf(system.wallets[this.from]);
+    const newKey =
+      this.key === null ? zeroAddress : accountOf(system.wallets[this.key]);
+    const error =
+      newKey === zeroAddress
+        ? InvalidKeyAddressError
+        : model.keys.has(account)
+        ? KeyAlreadyExistsError
+        : undefined;
+
+    const call = system.key.connect(system.wallets[this.from]).addKey(newKey);
+    if (await expectOutcome(call, error)) {
+      model.keys.set(account, newKey);
+    }
+    await checkInvariants(model, system);
+  }
+
+  toString(): string {
+    const key = this.key === null ? "zero" : `account${this.key}`;
+    return `addKey(${key}) from account${this.from}`;
+  }
+}
+
+class ReplaceKeyCommand implements RegistryCommand {
+  constructor(
+    readonly from: number,
+    readonly newKey: number | null,
+    readonly signer: number
+  ) {}
+
+  check(): boolean {
+    return true;
+  }
+
+  async run(model: RegistryModel, system: RegistrySystem): Promise<void> {
+    const account = accountOf(system.wallets[this.from]);
+    const signer = system.wallets[this.signer];
+    const newKey =
+      this.newKey === null
+        ? zeroAddress
+        : accountOf(system.wallets[this.newKey]);
+    const oldKey = model.keys.get(account);
+    const error =
+      newKey === zeroAddress
+        ? InvalidKeyAddressError
+        : oldKey === undefined
+        ? NoKeyToReplaceError
+        : accountOf(signer) !== oldKey
+        ? InvalidSignatureError
+        : undefined;
+
+    const deadline = BigInt(await time.latest()) + 3600n;
+    const signature = await system.key.signKeyRotation(
+      signer,
+      account,
+      newKey,
+      deadline
+    );
+    const call = system.key
+      .connect(system.wallets[this.from])
+      .replaceKey(newKey, deadline, signature);
+    if (await expectOutcome(call, error)) {
+      model.keys.set(account, newKey);
+    }
+    await checkInvariants(model, system);
+  }
+
+  toString(): string {
+    const newKey = this.newKey === null ? "zero" : `account${this.newKey}`;
+    return `replaceKey(${newKey}) from account${this.from} signed by account${this.signer}`;
+  }
+}
+
+/**
+ * Generators of every command, the zero address standing for invalid inputs
+ */
+export function registryCommands(): fc.Arbitrary<RegistryCommand>[] {
+  const account = fc.integer({ min: 0, max: ACCOUNT_COUNT - 1 });
+  // Mostly real accounts, sometimes the zero address
+  const accountOrZero = fc.option(account, { freq: 5 });
+  const factory = fc.integer({ min: 0, max: 4 });
+  const government = fc.nat();
+
+  return [
+    fc
+      .tuple(account, factory)
+      .map(([from, f]) => new RegisterFactoryCommand(from, f)),
+    fc
+      .tuple(account, factory)
+      .map(([from, f]) => new UnregisterFactoryCommand(from, f)),
+    fc
+      .tuple(account, accountOrZero)
+      .map(([from, owner]) => new CreateGovernmentCommand(from, owner)),
+    fc
+      .tuple(government, account, accountOrZero)
+      .map(([g, from, to]) => new TransferOwnershipCommand(g, from, to)),
+    fc
+      .tuple(government, account)
+      .map(([g, from]) => new AcceptOwnershipCommand(g, from)),
+    fc
+      .tuple(account, accountOrZero)
+      .map(([from, key]) => new AddKeyCommand(from, key)),
+    fc
+      .tuple(account, accountOrZero, account)
+      .map(
+        ([from, newKey, signer]) => new ReplaceKeyCommand(from, newKey, signer)
+      ),
+  ];
+}
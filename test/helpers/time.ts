@@ -0,0 +1,17 @@
+import { time } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+
+import type { GovernmentClient } from "../../src";
+
+/**
+ * Mine a block at the deadline of a proposal, so it no longer accepts votes
+ * and can be executed if it succeeded
+ * @param government The government of the proposal
+ * @param proposalId The identifier of the proposal
+ */
+export async function endVoting(
+  government: GovernmentClient,
+  proposalId: bigint
+): Promise<void> {
+  const { deadline } = await government.getProposal(proposalId);
+  await time.increaseTo(deadline);
+}